@@ -9,9 +9,10 @@ import {
   Clock, 
   Wifi,
   WifiOff,
-  RefreshCw
+  RefreshCw,
+  XCircle
 } from 'lucide-react';
-import { mtgjsonInitService } from '@/lib/services/mtgjsonInitService';
+import { mtgjsonInitService, InitializationProgress } from '@/lib/services/mtgjsonInitService';
 import { allPrintingsStorage } from '@/lib/utils/allPrintingsStorage';
 import { LoadingSpinner } from '@/app/components/LoadingSpinner';
 
@@ -24,6 +25,8 @@ interface DatabaseStatus {
   version: string | null;
   downloadProgress: number;
   downloadStage: string;
+  downloadMessage: string | null;
+  resumableSets: number | null; // Sets stored by an interrupted import
   error: string | null;
 }
 
@@ -47,6 +50,8 @@ export function DatabaseStatusIndicator({
     version: null,
     downloadProgress: 0,
     downloadStage: 'idle',
+    downloadMessage: null,
+    resumableSets: null,
     error: null,
   });
   const [loading, setLoading] = useState(true);
@@ -72,6 +77,7 @@ export function DatabaseStatusIndicator({
       
       // Get initialization stats
       const initStats = await mtgjsonInitService.getInitializationStats();
+      const resumable = await mtgjsonInitService.getResumableImport();
       
       // Check if data is up to date (within 7 days)
       let isUpToDate = false;
@@ -93,6 +99,8 @@ export function DatabaseStatusIndicator({
         version: storageStats?.version || null,
         downloadProgress: 0,
         downloadStage: 'idle',
+        downloadMessage: null,
+        resumableSets: resumable?.setsStored ?? null,
         error: null,
       });
     } catch (error) {
@@ -107,29 +115,32 @@ export function DatabaseStatusIndicator({
   };
 
   const handleInitialize = async () => {
-    if (onInitialize) {
-      // Set up progress tracking
-      const progressHandler = (progress: any) => {
-        setStatus(prev => ({
-          ...prev,
-          isDownloading: progress.stage !== 'complete' && progress.stage !== 'error',
-          downloadProgress: progress.progress,
-          downloadStage: progress.stage,
-          error: progress.stage === 'error' ? progress.error : null,
-        }));
-      };
+    // Set up progress tracking
+    const progressHandler = (progress: InitializationProgress) => {
+      setStatus(prev => ({
+        ...prev,
+        isDownloading: !['complete', 'cancelled', 'error'].includes(progress.stage),
+        downloadProgress: progress.progress,
+        downloadStage: progress.stage,
+        downloadMessage: progress.message,
+        error: progress.stage === 'error' ? progress.error || progress.message : null,
+      }));
+    };
 
-      mtgjsonInitService.onProgress(progressHandler);
-      
-      try {
+    mtgjsonInitService.onProgress(progressHandler);
+    
+    try {
+      if (onInitialize) {
         onInitialize();
-      } finally {
-        // Clean up after a delay to show completion
-        setTimeout(() => {
-          mtgjsonInitService.offProgress(progressHandler);
-          loadStatus(); // Refresh status after completion
-        }, 2000);
+      } else {
+        await mtgjsonInitService.initialize(true);
       }
+    } finally {
+      // Clean up after a delay to show completion
+      setTimeout(() => {
+        mtgjsonInitService.offProgress(progressHandler);
+        loadStatus(); // Refresh status after completion
+      }, 2000);
     }
   };
 
@@ -256,8 +267,17 @@ export function DatabaseStatusIndicator({
               />
             </div>
             <div className="text-xs mt-1 opacity-75">
-              {status.downloadStage.replace(/_/g, ' ')}
+              {status.downloadMessage || status.downloadStage.replace(/_/g, ' ')}
             </div>
+            {showActions && (
+              <button
+                onClick={() => mtgjsonInitService.cancelInitialization()}
+                className="mt-2 w-full flex items-center justify-center space-x-2 px-3 py-1 text-sm hover:bg-black/5 rounded-lg transition-colors"
+              >
+                <XCircle className="h-4 w-4" />
+                <span>Cancel Import</span>
+              </button>
+            )}
           </div>
         )}
 
@@ -288,7 +308,9 @@ export function DatabaseStatusIndicator({
             className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-current/10 hover:bg-current/20 rounded-lg transition-colors"
           >
             <Download className="h-4 w-4" />
-            <span className="font-medium">Initialize Database</span>
+            <span className="font-medium">
+              {status.resumableSets ? `Resume Import (${status.resumableSets} sets stored)` : 'Initialize Database'}
+            </span>
           </button>
         </div>
       )}
@@ -14,6 +14,7 @@ import {
   Activity
 } from 'lucide-react';
 import { LoadingSpinner } from '@/app/components/LoadingSpinner';
+import { mtgjsonPriceUpdateService } from '@/lib/services/mtgjsonPriceUpdateService';
 
 // Extend window to prevent multiple simultaneous downloads
 declare global {
@@ -45,6 +46,8 @@ export function MTGJSONDataManager() {
   const [progress, setProgress] = useState<InitProgress | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [updateMessage, setUpdateMessage] = useState<string | null>(null);
 
   // Check current MTGJSON data status
   useEffect(() => {
@@ -305,6 +308,22 @@ export function MTGJSONDataManager() {
     }
   };
 
+  const handleDailyUpdate = async () => {
+    setIsUpdating(true);
+    setError(null);
+    setUpdateMessage(null);
+
+    const result = await mtgjsonPriceUpdateService.update();
+    if (result.success) {
+      setUpdateMessage(result.message);
+      checkDataStatus();
+    } else {
+      setError(result.error || result.message);
+    }
+
+    setIsUpdating(false);
+  };
+
   const handleClearData = () => {
     if (!confirm('This will clear all MTGJSON price history data. Are you sure?')) {
       return;
@@ -444,6 +463,15 @@ export function MTGJSONDataManager() {
         </div>
       )}
 
+      {updateMessage && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <div className="flex items-center space-x-2">
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            <span className="text-sm text-green-900">{updateMessage}</span>
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex items-center justify-between">
         <div className="space-y-2">
@@ -473,6 +501,17 @@ export function MTGJSONDataManager() {
               <span>Clear Data</span>
             </button>
           )}
+
+          {stats?.isInitialized && (
+            <button
+              onClick={handleDailyUpdate}
+              disabled={isInitializing || isUpdating}
+              className="flex items-center space-x-2 px-4 py-2 text-sm border border-border text-foreground hover:bg-accent rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isUpdating ? <LoadingSpinner size="small" /> : <Clock className="h-4 w-4" />}
+              <span>{isUpdating ? 'Updating...' : 'Apply Daily Prices'}</span>
+            </button>
+          )}
           
           <button
             onClick={stats?.isInitialized ? checkDataStatus : handleInitialize}
@@ -518,7 +557,7 @@ export function MTGJSONDataManager() {
               <li>• Stable internet connection</li>
               <li>• ~200MB available storage space</li>
               <li>• 5-10 minutes for initial download</li>
-              <li>• Data refreshes automatically every 24 hours</li>
+              <li>• Each day&apos;s prices are appended from AllPricesToday.json</li>
             </ul>
           </div>
         </div>
@@ -1,14 +1,18 @@
 'use client';
 
-import { useMemo, useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { Portfolio } from '@/lib/types';
+import { CurrencyCode, Portfolio } from '@/lib/types';
 import { History, TrendingUp, TrendingDown, BarChart3 } from 'lucide-react';
 import { PortfolioTimelineService } from '@/lib/services/portfolioTimelineService';
+import { portfolioSnapshotService } from '@/lib/services/portfolioSnapshotService';
+import { fxRateService, MissingFxRateError } from '@/lib/services/fxRateService';
+import { formatCurrency as formatAmount } from '@/lib/utils/currency';
 
 interface AccuratePortfolioTimelineProps {
   portfolios: Portfolio[];
   timeframe: '7d' | '30d' | '90d' | '1y';
+  currency?: CurrencyCode;
 }
 
 interface TimelineChartData {
@@ -17,13 +21,16 @@ interface TimelineChartData {
   cost: number;
   gainLoss: number;
   dailyChange?: number;
+  backfilled: boolean; // Reconstructed for a day the app was not opened
   formattedDate: string;
 }
 
-export function AccuratePortfolioTimeline({ portfolios, timeframe }: AccuratePortfolioTimelineProps) {
+export function AccuratePortfolioTimeline({ portfolios, timeframe, currency = 'usd' }: AccuratePortfolioTimelineProps) {
   const [isClient, setIsClient] = useState(false);
   const [selectedPortfolio, setSelectedPortfolio] = useState<Portfolio | null>(null);
   const [loading, setLoading] = useState(false);
+  const [timelineData, setTimelineData] = useState<TimelineChartData[]>([]);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     setIsClient(true);
@@ -32,68 +39,71 @@ export function AccuratePortfolioTimeline({ portfolios, timeframe }: AccuratePor
     }
   }, [portfolios, selectedPortfolio]);
 
-  const timelineData = useMemo(() => {
-    if (!isClient || !selectedPortfolio) return [];
+  useEffect(() => {
+    if (!isClient || !selectedPortfolio) {
+      setTimelineData([]);
+      return;
+    }
 
-    const days = timeframe === '7d' ? 7 : timeframe === '30d' ? 30 : timeframe === '90d' ? 90 : 365;
-    const endDate = new Date();
-    const startDate = new Date(endDate);
-    startDate.setDate(startDate.getDate() - days);
+    let cancelled = false;
 
-    // Get transaction statistics
-    const stats = PortfolioTimelineService.getTimelineStats(selectedPortfolio.id);
-    
-    // If no transactions, return empty data
-    if (stats.totalTransactions === 0) {
-      return [];
-    }
+    const loadSnapshots = async () => {
+      setLoading(true);
+      setError(null);
 
-    // For PoC, we'll generate simplified timeline data
-    // In full implementation, this would use generateHistoricalTimeline with real price data
-    const data: TimelineChartData[] = [];
-    const currentValue = selectedPortfolio.totalValue;
-    const currentCost = selectedPortfolio.totalCost;
+      const days = timeframe === '7d' ? 7 : timeframe === '30d' ? 30 : timeframe === '90d' ? 90 : 365;
+      const endDate = new Date();
+      const startDate = new Date(endDate);
+      startDate.setDate(startDate.getDate() - days);
 
-    // Generate sample data points showing the concept
-    for (let i = days; i >= 0; i--) {
-      const date = new Date(endDate);
-      date.setDate(date.getDate() - i);
-      const dateString = date.toISOString().split('T')[0];
+      try {
+        const snapshots = await portfolioSnapshotService.getSnapshots(
+          selectedPortfolio.id,
+          startDate.toISOString().split('T')[0],
+          endDate.toISOString().split('T')[0]
+        );
 
-      // Simple simulation: portfolio value grows/fluctuates over time
-      // In real implementation, this would be calculated from actual historical positions
-      const dayProgress = (days - i) / days;
-      const volatility = (Math.random() - 0.5) * 0.02; // ±1% daily volatility
-      
-      let value = currentCost; // Start at cost basis
-      if (dayProgress > 0) {
-        // Gradual appreciation to current value
-        value = currentCost + (currentValue - currentCost) * dayProgress + (currentValue * volatility);
-      }
+        const data: TimelineChartData[] = [];
+        snapshots.forEach(snapshot => {
+          // Snapshots are recorded in the portfolio's base currency
+          const value = fxRateService.convert(snapshot.totalValue, snapshot.currency || 'usd', currency);
+          const cost = fxRateService.convert(snapshot.totalCost, snapshot.currency || 'usd', currency);
+          const previous = data[data.length - 1];
 
-      const cost = currentCost * Math.min(1, dayProgress + 0.1); // Gradual investment
-      const gainLoss = value - cost;
-      
-      // Calculate daily change
-      const dailyChange = data.length > 0 ? value - data[data.length - 1].value : 0;
+          data.push({
+            date: snapshot.date,
+            value,
+            cost,
+            gainLoss: value - cost,
+            dailyChange: previous ? value - previous.value : undefined,
+            backfilled: snapshot.backfilled === true,
+            formattedDate: new Date(`${snapshot.date}T00:00:00`).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric'
+            })
+          });
+        });
 
-      data.push({
-        date: dateString,
-        value: Math.max(0, value),
-        cost: Math.max(0, cost),
-        gainLoss,
-        dailyChange,
-        formattedDate: date.toLocaleDateString('en-US', { 
-          month: 'short', 
-          day: 'numeric' 
-        })
-      });
-    }
+        if (!cancelled) setTimelineData(data);
+      } catch (err) {
+        console.error('Error loading portfolio snapshots:', err);
+        if (!cancelled) {
+          setTimelineData([]);
+          if (err instanceof MissingFxRateError) setError(err.message);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSnapshots();
 
-    return data;
-  }, [isClient, selectedPortfolio, timeframe]);
+    return () => {
+      cancelled = true;
+    };
+  }, [isClient, selectedPortfolio, timeframe, currency]);
 
-  const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+  const formatCurrency = (value: number) => formatAmount(value, currency);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -116,6 +126,11 @@ export function AccuratePortfolioTimeline({ portfolios, timeframe }: AccuratePor
                 Daily Change: {formatCurrency(data.dailyChange)}
               </p>
             )}
+            {data.backfilled && (
+              <p className="text-xs text-muted-foreground">
+                Backfilled from transactions at the latest known prices
+              </p>
+            )}
           </div>
         </div>
       );
@@ -139,10 +154,6 @@ export function AccuratePortfolioTimeline({ portfolios, timeframe }: AccuratePor
           <div className="flex items-center space-x-3">
             <History className="h-5 w-5 text-primary" />
             <h3 className="text-lg font-semibold text-foreground">Accurate Portfolio Timeline</h3>
-            <div className="flex items-center space-x-1 text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded-full">
-              <BarChart3 className="h-3 w-3" />
-              <span>Proof of Concept</span>
-            </div>
           </div>
         </div>
         
@@ -171,7 +182,7 @@ export function AccuratePortfolioTimeline({ portfolios, timeframe }: AccuratePor
 
         <p className="text-sm text-muted-foreground">
           {selectedPortfolio 
-            ? `Timeline based on actual transaction history for ${selectedPortfolio.name}`
+            ? `Daily values recorded for ${selectedPortfolio.name}`
             : 'Select a portfolio to view timeline'
           }
         </p>
@@ -196,7 +207,7 @@ export function AccuratePortfolioTimeline({ portfolios, timeframe }: AccuratePor
             </div>
             <div>
               <p className="text-muted-foreground">Total Invested</p>
-              <p className="font-medium text-foreground">{formatCurrency(selectedStats.totalInvested)}</p>
+              <p className="font-medium text-foreground">{formatCurrency(fxRateService.convert(selectedStats.totalInvested, selectedPortfolio?.baseCurrency || 'usd', currency))}</p>
             </div>
           </div>
           
@@ -212,7 +223,15 @@ export function AccuratePortfolioTimeline({ portfolios, timeframe }: AccuratePor
 
       {/* Chart */}
       <div className="h-80">
-        {timelineData.length > 0 ? (
+        {loading && timelineData.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            Loading snapshots...
+          </div>
+        ) : error ? (
+          <div className="h-full flex items-center justify-center text-sm text-red-600">
+            {error}
+          </div>
+        ) : timelineData.length > 0 ? (
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={timelineData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
@@ -249,10 +268,10 @@ export function AccuratePortfolioTimeline({ portfolios, timeframe }: AccuratePor
             <div className="text-center space-y-3">
               <History className="h-12 w-12 text-gray-400 mx-auto" />
               <div className="space-y-1">
-                <div className="text-gray-600 font-medium">No Transaction History</div>
+                <div className="text-gray-600 font-medium">No Snapshots Yet</div>
                 <div className="text-xs text-gray-500 max-w-xs">
                   {selectedPortfolio 
-                    ? 'This portfolio has no recorded transactions. Add or remove cards to start tracking timeline.'
+                    ? 'Snapshots are recorded each day the app is opened. Add cards to this portfolio to start its timeline.'
                     : 'Create a portfolio and add cards to see accurate timeline tracking.'
                   }
                 </div>
@@ -293,13 +312,11 @@ export function AccuratePortfolioTimeline({ portfolios, timeframe }: AccuratePor
         <div className="flex items-start space-x-2">
           <BarChart3 className="h-4 w-4 text-blue-600 mt-0.5" />
           <div className="text-sm">
-            <p className="font-medium text-blue-900 mb-1">Proof of Concept Features:</p>
+            <p className="font-medium text-blue-900 mb-1">How this timeline is recorded:</p>
             <ul className="text-blue-700 space-y-1 text-xs">
-              <li>• Transaction history tracking for accurate timeline</li>
-              <li>• Portfolio composition changes over time</li>
-              <li>• Cost basis calculation with FIFO/LIFO support</li>
-              <li>• Real vs. estimated data distinction</li>
-              <li>• Integration with MTGJSON historical prices (coming soon)</li>
+              <li>• A snapshot of value and cost is saved each day the app is opened</li>
+              <li>• Missed days are backfilled from the transaction history at the latest known prices</li>
+              <li>• Cost basis follows the portfolio&apos;s FIFO/LIFO/average setting</li>
             </ul>
           </div>
         </div>
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Grid3x3, AlertCircle } from 'lucide-react';
+import { Portfolio } from '@/lib/types';
+import { holdingsCorrelationService, HoldingsCorrelation } from '@/lib/services/holdingsCorrelationService';
+import { LoadingSpinner } from '@/app/components/LoadingSpinner';
+
+interface CorrelationHeatmapProps {
+  portfolios: Portfolio[];
+}
+
+// Red for cards moving together, blue for cards moving apart
+const cellColor = (value: number | null) => {
+  if (value === null) return 'rgba(128, 128, 128, 0.15)';
+  return value >= 0
+    ? `rgba(239, 68, 68, ${0.1 + value * 0.8})`
+    : `rgba(59, 130, 246, ${0.1 - value * 0.8})`;
+};
+
+const describeAverage = (average: number) => {
+  if (average >= 0.5) return 'Your holdings largely move as one block';
+  if (average >= 0.2) return 'Your holdings are moderately correlated';
+  return 'Your holdings mostly move independently';
+};
+
+export function CorrelationHeatmap({ portfolios }: CorrelationHeatmapProps) {
+  const [correlation, setCorrelation] = useState<HoldingsCorrelation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCorrelation = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const result = await holdingsCorrelationService.analyzeHoldings(portfolios);
+        if (!cancelled) setCorrelation(result);
+      } catch (err) {
+        console.error('Error correlating holdings:', err);
+        if (!cancelled) setError('Failed to correlate price histories');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadCorrelation();
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolios]);
+
+  const cardName = (id: string) => correlation?.cards[id]?.name || id;
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="mb-4">
+        <div className="flex items-center space-x-2">
+          <Grid3x3 className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Price Correlation</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          How the daily price moves of your most valuable cards relate over the last 90 days, grouped by cluster
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="large" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center justify-center py-8 text-red-600">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          <span>{error}</span>
+        </div>
+      ) : !correlation || correlation.ids.length < 2 ? (
+        <div className="text-center py-8">
+          <Grid3x3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h4 className="text-md font-medium text-foreground mb-2">Not enough price history</h4>
+          <p className="text-sm text-muted-foreground">
+            Correlations need MTGJSON price histories for at least two held cards.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {correlation.averageCorrelation !== null && (
+            <p className="text-sm text-foreground">
+              {describeAverage(correlation.averageCorrelation)}{' '}
+              <span className="text-muted-foreground">
+                (average correlation {correlation.averageCorrelation.toFixed(2)})
+              </span>
+            </p>
+          )}
+
+          {/* Heatmap */}
+          <div className="overflow-x-auto">
+            <table className="border-separate" style={{ borderSpacing: 2 }}>
+              <tbody>
+                {correlation.ids.map((rowId, i) => (
+                  <tr key={rowId}>
+                    <th
+                      scope="row"
+                      className="text-xs font-normal text-muted-foreground text-right pr-2 max-w-[10rem] truncate"
+                      title={cardName(rowId)}
+                    >
+                      {cardName(rowId)}
+                    </th>
+                    {correlation.ids.map((columnId, j) => {
+                      const value = correlation.matrix[i][j];
+                      return (
+                        <td
+                          key={columnId}
+                          className="w-6 h-6 min-w-[1.5rem] rounded-sm"
+                          style={{ backgroundColor: cellColor(value) }}
+                          title={`${cardName(rowId)} × ${cardName(columnId)}: ${
+                            value === null ? 'not enough shared days' : value.toFixed(2)
+                          }`}
+                        />
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+            <span>-1</span>
+            <div
+              className="h-2 w-32 rounded"
+              style={{ background: `linear-gradient(to right, ${cellColor(-1)}, ${cellColor(0)}, ${cellColor(1)})` }}
+            />
+            <span>+1</span>
+          </div>
+
+          {/* Clusters */}
+          {correlation.clusters.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-foreground">Cards that move together</h4>
+              {correlation.clusters.map((cluster, index) => (
+                <div key={index} className="p-3 rounded-lg bg-accent/30 text-sm">
+                  <span className="font-medium text-foreground">Cluster {index + 1}:</span>{' '}
+                  <span className="text-muted-foreground">{cluster.map(cardName).join(', ')}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {correlation.skipped > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {correlation.skipped} held {correlation.skipped === 1 ? 'card is' : 'cards are'} not shown: only the 25 most valuable cards are compared, and cards without price history are left out
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
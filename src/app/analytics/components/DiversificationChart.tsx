@@ -2,10 +2,12 @@
 
 import { useMemo } from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import { InvestmentAnalytics } from '@/lib/types';
+import { CurrencyCode, InvestmentAnalytics } from '@/lib/types';
+import { formatCurrency as formatAmount } from '@/lib/utils/currency';
 
 interface DiversificationChartProps {
   analytics: InvestmentAnalytics | null;
+  currency?: CurrencyCode;
 }
 
 const COLORS = [
@@ -35,7 +37,7 @@ const colorIdentityColors = {
   Colorless: 'hsl(0, 0%, 50%)',
 };
 
-export function DiversificationChart({ analytics }: DiversificationChartProps) {
+export function DiversificationChart({ analytics, currency = 'usd' }: DiversificationChartProps) {
   const { setData, rarityData, colorData } = useMemo(() => {
     if (!analytics) {
       return { setData: [], rarityData: [], colorData: [] };
@@ -63,7 +65,7 @@ export function DiversificationChart({ analytics }: DiversificationChartProps) {
     return { setData, rarityData, colorData };
   }, [analytics]);
 
-  const formatCurrency = (value: number) => `$${value.toFixed(0)}`;
+  const formatCurrency = (value: number) => formatAmount(value, currency, 0);
 
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
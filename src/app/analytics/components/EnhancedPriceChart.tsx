@@ -1,11 +1,16 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceArea } from 'recharts';
 import { TrendingUp, TrendingDown, Minus, Info, RefreshCw } from 'lucide-react';
-import { MTGCard, PriceHistory } from '@/lib/types';
-import { getPriceHistoryForCard } from '@/lib/api/mtgjson';
+import { MTGCard, PriceCurrency, PriceHistory, PriceProvider } from '@/lib/types';
+import { getPreferredPriceProvider, getPriceHistoriesForCard, getPriceHistoryForCard } from '@/lib/api/mtgjson';
+import { priceObservationService } from '@/lib/services/priceObservationService';
+import { PRICE_PROVIDERS, formatProviderPrice, getProviderPriceTypes } from '@/lib/utils/priceProviders';
+import { calculateIndicators, IndicatorValues, maxDrawdown, PRICE_INDICATORS, PriceIndicator } from '@/lib/utils/priceIndicators';
+import { FORECAST_MODELS, ForecastModel, forecastPrices } from '@/lib/utils/priceForecast';
 import { LoadingSpinner } from '@/app/components/LoadingSpinner';
+import { IndicatorOscillators, IndicatorToggles, INDICATOR_COLORS } from '@/app/components/PriceIndicators';
 
 interface EnhancedPriceChartProps {
   card: MTGCard;
@@ -14,124 +19,207 @@ interface EnhancedPriceChartProps {
   height?: number;
 }
 
-interface ChartDataPoint {
+// One price series per provider, plus "<provider>Foil" for foil prices,
+// the indicators of the first provider's prices and its forecast
+interface ChartDataPoint extends IndicatorValues {
   date: string;
-  normalPrice?: number;
-  foilPrice?: number;
   dateFormatted: string;
+  forecast?: number;
+  forecastRange?: [number, number];
+  [series: string]: string | number | [number, number] | undefined;
 }
 
+const FORECAST_HORIZONS = [30, 90];
+
+const PROVIDER_COLORS: Record<PriceProvider, string> = {
+  tcgplayer: '#3b82f6',
+  cardkingdom: '#10b981',
+  cardmarket: '#8b5cf6',
+  cardhoarder: '#f43f5e',
+};
+
 export function EnhancedPriceChart({ 
   card, 
   timeframe = '30d', 
   showFoilPrices = false,
   height = 300 
 }: EnhancedPriceChartProps) {
-  const [priceHistory, setPriceHistory] = useState<PriceHistory | null>(null);
+  // The first provider is the one the stats are for
+  const [providers, setProviders] = useState<PriceProvider[]>(() => [getPreferredPriceProvider()]);
+  const [histories, setHistories] = useState<PriceHistory[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [dataSource, setDataSource] = useState<'mtgjson' | 'mock'>('mock');
+  const [dataSource, setDataSource] = useState<'mtgjson' | 'recorded' | 'none'>('none');
+  const [indicators, setIndicators] = useState<PriceIndicator[]>([]);
+  const [forecastHorizon, setForecastHorizon] = useState<number | null>(null);
+  const [forecastModel, setForecastModel] = useState<ForecastModel | 'auto'>('auto');
+  const [forecastInput, setForecastInput] = useState<{ date: string; price: number }[]>([]);
 
   useEffect(() => {
     loadPriceHistory();
-  }, [card.id, timeframe]);
+  }, [card.id, timeframe, providers]);
 
   const loadPriceHistory = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const history = await getPriceHistoryForCard(card);
+      const loaded = await getPriceHistoriesForCard(card, providers, timeframe);
       
-      if (history) {
-        setPriceHistory(history);
-        setDataSource(history.provider === 'mtgjson' ? 'mtgjson' : 'mock');
+      if (loaded.length > 0) {
+        setHistories(loaded);
+        setDataSource('mtgjson');
       } else {
-        // Fallback to mock data
-        setPriceHistory(generateMockPriceHistory());
-        setDataSource('mock');
+        loadRecordedHistory();
       }
     } catch (err) {
       console.error('Error loading price history:', err);
       setError('Failed to load price history');
-      // Generate mock data as fallback
-      setPriceHistory(generateMockPriceHistory());
-      setDataSource('mock');
+      setHistories([]);
+      setDataSource('none');
     } finally {
       setLoading(false);
     }
   };
 
-  const generateMockPriceHistory = (): PriceHistory => {
-    const days = timeframe === '7d' ? 7 : timeframe === '30d' ? 30 : 90;
-    const currentPrice = card.prices.usd || 1;
-    const prices = [];
-    const now = new Date();
+  // Scryfall prices recorded on this device, in the first provider's currency
+  const loadRecordedHistory = () => {
+    const recorded = priceObservationService.getRecordedPriceHistory(card.id, PRICE_PROVIDERS[providers[0]].currency);
+    setHistories(recorded ? [recorded] : []);
+    setDataSource(recorded ? 'recorded' : 'none');
+  };
 
-    for (let i = days - 1; i >= 0; i--) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      
-      const variation = (Math.random() - 0.5) * 0.1;
-      const price = Math.max(0.01, currentPrice * (1 + variation));
-      
-      prices.push({
-        cardId: card.id,
-        date: date.toISOString().split('T')[0],
-        price: Math.round(price * 100) / 100,
-        priceType: 'usd' as const,
+  const toggleProvider = (provider: PriceProvider) => {
+    setProviders(current => {
+      if (!current.includes(provider)) return [...current, provider];
+      // Keep at least one provider selected
+      return current.length > 1 ? current.filter(p => p !== provider) : current;
+    });
+  };
+
+  const toggleIndicator = (indicator: PriceIndicator) => {
+    setIndicators(current => current.includes(indicator)
+      ? current.filter(i => i !== indicator)
+      : [...current, indicator]);
+  };
+
+  const priceHistory = histories[0] || null;
+  const currency: PriceCurrency = priceHistory?.currency || 'usd';
+  // Indicators are drawn for the first provider's normal prices
+  const indicatorSeries = priceHistory?.priceProvider || 'tcgplayer';
+
+  const chartData = useMemo(() => {
+    const dataMap = new Map<string, ChartDataPoint>();
+    
+    histories.forEach(history => {
+      const provider = history.priceProvider || 'tcgplayer';
+      const priceTypes = getProviderPriceTypes(provider);
+
+      history.prices.forEach(price => {
+        const existing = dataMap.get(price.date) || {
+          date: price.date,
+          dateFormatted: new Date(price.date).toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+          }),
+        };
+
+        if (price.priceType === priceTypes.normal) {
+          existing[provider] = price.price;
+        } else if (price.priceType === priceTypes.foil) {
+          existing[`${provider}Foil`] = price.price;
+        }
+
+        dataMap.set(price.date, existing);
       });
+    });
 
-      if (showFoilPrices && card.prices.usdFoil) {
-        const foilVariation = (Math.random() - 0.5) * 0.12;
-        const foilPrice = Math.max(0.01, card.prices.usdFoil * (1 + foilVariation));
-        
-        prices.push({
-          cardId: card.id,
-          date: date.toISOString().split('T')[0],
-          price: Math.round(foilPrice * 100) / 100,
-          priceType: 'usdFoil' as const,
-        });
-      }
+    const data = Array.from(dataMap.values()).sort((a, b) => 
+      new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+
+    const pricedPoints = data.filter(point => typeof point[indicatorSeries] === 'number');
+    calculateIndicators(pricedPoints.map(point => point[indicatorSeries] as number), indicators)
+      .forEach((values, index) => Object.assign(pricedPoints[index], values));
+
+    return data;
+  }, [histories, indicators, indicatorSeries]);
+
+  // Forecasts are fitted to the last 90 days whatever the chart shows
+  useEffect(() => {
+    if (!forecastHorizon || !priceHistory) {
+      setForecastInput([]);
+      return;
     }
 
-    return {
-      cardId: card.id,
-      prices,
-      trend: 'stable',
-      volatility: 0.1,
-      averagePrice: currentPrice,
-      provider: 'mock',
+    let cancelled = false;
+    const loadForecastInput = async () => {
+      const history = dataSource === 'mtgjson'
+        ? await getPriceHistoryForCard(card, indicatorSeries, '90d')
+        : priceHistory;
+      const normalType = getProviderPriceTypes(indicatorSeries).normal;
+
+      if (!cancelled) {
+        setForecastInput((history?.prices || [])
+          .filter(price => price.priceType === normalType)
+          .map(({ date, price }) => ({ date, price })));
+      }
     };
-  };
 
-  const chartData = useMemo(() => {
-    if (!priceHistory) return [];
+    loadForecastInput().catch(err => console.error('Error loading forecast prices:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [card.id, forecastHorizon, priceHistory, dataSource, indicatorSeries]);
 
-    const dataMap = new Map<string, ChartDataPoint>();
-    
-    priceHistory.prices.forEach(price => {
-      const existing = dataMap.get(price.date) || {
-        date: price.date,
-        dateFormatted: new Date(price.date).toLocaleDateString('en-US', {
+  const forecast = useMemo(
+    () => forecastHorizon ? forecastPrices(forecastInput, forecastHorizon, forecastModel) : null,
+    [forecastInput, forecastHorizon, forecastModel]
+  );
+
+  const displayData = useMemo(() => {
+    if (!forecast || chartData.length === 0) return chartData;
+
+    // Start the band at the last price so it joins the line
+    const data = chartData.map(point => ({ ...point }));
+    const lastPoint = data.filter(point => typeof point[indicatorSeries] === 'number').pop();
+    if (lastPoint) {
+      const lastPrice = lastPoint[indicatorSeries] as number;
+      lastPoint.forecast = lastPrice;
+      lastPoint.forecastRange = [lastPrice, lastPrice];
+    }
+
+    forecast.points.forEach(point => {
+      data.push({
+        date: point.date,
+        dateFormatted: new Date(point.date).toLocaleDateString('en-US', {
           month: 'short',
           day: 'numeric',
         }),
-      };
+        forecast: point.price,
+        forecastRange: [point.lower, point.upper],
+      });
+    });
 
-      if (price.priceType === 'usd') {
-        existing.normalPrice = price.price;
-      } else if (price.priceType === 'usdFoil') {
-        existing.foilPrice = price.price;
-      }
+    return data;
+  }, [chartData, forecast, indicatorSeries]);
 
-      dataMap.set(price.date, existing);
-    });
+  const drawdown = useMemo(() => {
+    if (!indicators.includes('drawdown')) return null;
 
-    return Array.from(dataMap.values()).sort((a, b) => 
-      new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
-  }, [priceHistory]);
+    const pricedPoints = chartData.filter(point => typeof point[indicatorSeries] === 'number');
+    const result = maxDrawdown(pricedPoints.map(point => point[indicatorSeries] as number));
+    if (!result || result.percent === 0) return null;
+
+    return {
+      percent: result.percent,
+      from: pricedPoints[result.peakIndex].dateFormatted,
+      to: pricedPoints[result.troughIndex].dateFormatted,
+    };
+  }, [chartData, indicators, indicatorSeries]);
+
+  // One axis per currency, the first on the left
+  const currencies = Array.from(new Set(histories.map(h => h.currency || 'usd')));
 
   const priceStats = useMemo(() => {
     if (!priceHistory || priceHistory.prices.length === 0) {
@@ -143,8 +231,9 @@ export function EnhancedPriceChart({
       };
     }
 
+    const normalType = getProviderPriceTypes(priceHistory.priceProvider || 'tcgplayer').normal;
     const normalPrices = priceHistory.prices
-      .filter(p => p.priceType === 'usd')
+      .filter(p => p.priceType === normalType)
       .map(p => p.price);
 
     if (normalPrices.length < 2) {
@@ -169,7 +258,11 @@ export function EnhancedPriceChart({
     };
   }, [priceHistory, card.prices.usd]);
 
-  const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+  const formatPrice = (price: number) => formatProviderPrice(price, currency);
+  const formatSeriesPrice = (series: string, price: number) => {
+    const provider = series.replace(/Foil$/, '') as PriceProvider;
+    return formatProviderPrice(price, PRICE_PROVIDERS[provider]?.currency || currency);
+  };
   const formatChange = (change: number) => 
     `${change >= 0 ? '+' : ''}${change.toFixed(2)}`;
   const formatChangePercent = (percent: number) => 
@@ -228,10 +321,10 @@ export function EnhancedPriceChart({
             <p className="text-sm text-muted-foreground">{card.name}</p>
           </div>
           <div className="flex items-center space-x-2">
-            {dataSource === 'mock' && (
+            {dataSource === 'recorded' && (
               <div className="flex items-center space-x-1 text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded-full">
                 <Info className="h-3 w-3" />
-                <span>Demo Data</span>
+                <span>Recorded Prices</span>
               </div>
             )}
             {dataSource === 'mtgjson' && (
@@ -243,6 +336,57 @@ export function EnhancedPriceChart({
           </div>
         </div>
 
+        {/* Providers */}
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(PRICE_PROVIDERS) as PriceProvider[]).map(provider => (
+            <button
+              key={provider}
+              onClick={() => toggleProvider(provider)}
+              className={`flex items-center space-x-1 text-xs px-2 py-1 rounded-full border transition-colors ${
+                providers.includes(provider)
+                  ? 'border-primary text-foreground bg-accent'
+                  : 'border-border text-muted-foreground hover:bg-accent'
+              }`}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: PROVIDER_COLORS[provider] }} />
+              <span>{PRICE_PROVIDERS[provider].label}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Indicators */}
+        <IndicatorToggles selected={indicators} onToggle={toggleIndicator} />
+
+        {/* Forecast */}
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-muted-foreground">Forecast:</span>
+          {[null, ...FORECAST_HORIZONS].map(horizon => (
+            <button
+              key={horizon ?? 'off'}
+              onClick={() => setForecastHorizon(horizon)}
+              className={`px-2 py-1 rounded-full border transition-colors ${
+                forecastHorizon === horizon
+                  ? 'border-primary text-foreground bg-accent'
+                  : 'border-border text-muted-foreground hover:bg-accent'
+              }`}
+            >
+              {horizon ? `${horizon} days` : 'Off'}
+            </button>
+          ))}
+          {forecastHorizon && (
+            <select
+              value={forecastModel}
+              onChange={(e) => setForecastModel(e.target.value as ForecastModel | 'auto')}
+              className="px-2 py-1 rounded border border-border bg-background text-foreground"
+            >
+              <option value="auto">Best model</option>
+              {(Object.keys(FORECAST_MODELS) as ForecastModel[]).map(model => (
+                <option key={model} value={model}>{FORECAST_MODELS[model]}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
         {/* Price Stats */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="text-center">
@@ -272,66 +416,207 @@ export function EnhancedPriceChart({
         </div>
 
         {/* Chart */}
-        <div style={{ height }}>
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-              <XAxis 
-                dataKey="dateFormatted" 
-                className="text-xs"
-                tick={{ fontSize: 12 }}
-              />
-              <YAxis 
-                className="text-xs"
-                tick={{ fontSize: 12 }}
-                tickFormatter={formatPrice}
-              />
-              <Tooltip
-                content={({ active, payload, label }) => {
-                  if (!active || !payload || payload.length === 0) return null;
-
-                  return (
-                    <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
-                      <p className="text-sm font-medium text-foreground mb-2">{label}</p>
-                      {payload.map((entry, index) => (
-                        <div key={index} className="flex items-center space-x-2">
-                          <div 
-                            className="w-3 h-3 rounded-full"
-                            style={{ backgroundColor: entry.color }}
-                          />
-                          <span className="text-sm text-muted-foreground">
-                            {entry.name}: {formatPrice(entry.value as number)}
-                          </span>
-                        </div>
-                      ))}
-                    </div>
-                  );
-                }}
-              />
-              <Legend />
-              <Line
-                type="monotone"
-                dataKey="normalPrice"
-                stroke="#3b82f6"
-                strokeWidth={2}
-                dot={false}
-                name="Normal"
-                connectNulls={false}
-              />
-              {showFoilPrices && (
-                <Line
-                  type="monotone"
-                  dataKey="foilPrice"
-                  stroke="#f59e0b"
-                  strokeWidth={2}
-                  dot={false}
-                  name="Foil"
-                  connectNulls={false}
+        {dataSource === 'none' ? (
+          <div className="flex items-center justify-center text-center" style={{ height }}>
+            <div>
+              <p className="text-muted-foreground">Insufficient price data</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Load MTGJSON price data, or check back after this card&apos;s price has been recorded on a few more days
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div style={{ height }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={displayData}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis 
+                  dataKey="dateFormatted" 
+                  className="text-xs"
+                  tick={{ fontSize: 12 }}
                 />
-              )}
-            </LineChart>
-          </ResponsiveContainer>
-        </div>
+                {currencies.map((axisCurrency, index) => (
+                  <YAxis 
+                    key={axisCurrency}
+                    yAxisId={axisCurrency}
+                    orientation={index === 0 ? 'left' : 'right'}
+                    className="text-xs"
+                    tick={{ fontSize: 12 }}
+                    tickFormatter={(value: number) => formatProviderPrice(value, axisCurrency)}
+                  />
+                ))}
+                <Tooltip
+                  content={({ active, payload, label }) => {
+                    if (!active || !payload || payload.length === 0) return null;
+
+                    return (
+                      <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+                        <p className="text-sm font-medium text-foreground mb-2">{label}</p>
+                        {payload.map((entry, index) => (
+                          <div key={index} className="flex items-center space-x-2">
+                            <div 
+                              className="w-3 h-3 rounded-full"
+                              style={{ backgroundColor: entry.color }}
+                            />
+                            <span className="text-sm text-muted-foreground">
+                              {entry.name}: {Array.isArray(entry.value)
+                                ? `${formatPrice(Number(entry.value[0]))} – ${formatPrice(Number(entry.value[1]))}`
+                                : formatSeriesPrice(String(entry.dataKey), entry.value as number)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  }}
+                />
+                <Legend />
+                {histories.map(history => {
+                  const provider = history.priceProvider || 'tcgplayer';
+                  const label = PRICE_PROVIDERS[provider].label;
+                  const axis = history.currency || 'usd';
+
+                  return [
+                    <Line
+                      key={provider}
+                      yAxisId={axis}
+                      type="monotone"
+                      dataKey={provider}
+                      stroke={PROVIDER_COLORS[provider]}
+                      strokeWidth={2}
+                      dot={false}
+                      name={histories.length > 1 ? label : 'Normal'}
+                      connectNulls={false}
+                    />,
+                    showFoilPrices && getProviderPriceTypes(provider).foil && (
+                      <Line
+                        key={`${provider}Foil`}
+                        yAxisId={axis}
+                        type="monotone"
+                        dataKey={`${provider}Foil`}
+                        stroke={PROVIDER_COLORS[provider]}
+                        strokeDasharray="5 5"
+                        strokeWidth={2}
+                        dot={false}
+                        name={histories.length > 1 ? `${label} Foil` : 'Foil'}
+                        connectNulls={false}
+                      />
+                    )
+                  ];
+                })}
+                {indicators.includes('sma') && (
+                  <Line
+                    yAxisId={currency}
+                    type="monotone"
+                    dataKey="sma"
+                    stroke={INDICATOR_COLORS.sma}
+                    strokeWidth={1}
+                    strokeDasharray="2 2"
+                    dot={false}
+                    name={PRICE_INDICATORS.sma.label}
+                    connectNulls
+                  />
+                )}
+                {indicators.includes('ema') && (
+                  <Line
+                    yAxisId={currency}
+                    type="monotone"
+                    dataKey="ema"
+                    stroke={INDICATOR_COLORS.ema}
+                    strokeWidth={1}
+                    strokeDasharray="2 2"
+                    dot={false}
+                    name={PRICE_INDICATORS.ema.label}
+                    connectNulls
+                  />
+                )}
+                {indicators.includes('bollinger') && [
+                  <Line
+                    key="bollingerUpper"
+                    yAxisId={currency}
+                    type="monotone"
+                    dataKey="bollingerUpper"
+                    stroke={INDICATOR_COLORS.bollinger}
+                    strokeWidth={1}
+                    dot={false}
+                    name="Upper Band"
+                    opacity={0.7}
+                    connectNulls
+                  />,
+                  <Line
+                    key="bollingerLower"
+                    yAxisId={currency}
+                    type="monotone"
+                    dataKey="bollingerLower"
+                    stroke={INDICATOR_COLORS.bollinger}
+                    strokeWidth={1}
+                    dot={false}
+                    name="Lower Band"
+                    opacity={0.7}
+                    connectNulls
+                  />
+                ]}
+                {drawdown && (
+                  <ReferenceArea
+                    yAxisId={currency}
+                    x1={drawdown.from}
+                    x2={drawdown.to}
+                    fill={INDICATOR_COLORS.drawdown}
+                    fillOpacity={0.1}
+                    label={{ value: `-${drawdown.percent.toFixed(1)}%`, position: 'insideTop', fontSize: 12 }}
+                  />
+                )}
+                {forecast && (
+                  <Area
+                    yAxisId={currency}
+                    type="monotone"
+                    dataKey="forecastRange"
+                    stroke="none"
+                    fill={PROVIDER_COLORS[indicatorSeries]}
+                    fillOpacity={0.15}
+                    name={`${Math.round(forecast.confidence * 100)}% Band`}
+                  />
+                )}
+                {forecast && (
+                  <Line
+                    yAxisId={currency}
+                    type="monotone"
+                    dataKey="forecast"
+                    stroke={PROVIDER_COLORS[indicatorSeries]}
+                    strokeDasharray="6 3"
+                    strokeWidth={2}
+                    dot={false}
+                    name={`Forecast (${FORECAST_MODELS[forecast.model]})`}
+                  />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {forecastHorizon && dataSource !== 'none' && (
+          <p className="text-xs text-muted-foreground">
+            {!forecast ? (
+              'Not enough price history for a forecast - it needs at least two weeks of prices'
+            ) : forecast.backtest ? (
+              <>
+                Backtest on the last {forecast.backtest.holdout} prices:{' '}
+                <span className={
+                  forecast.backtest.mape < 10 ? 'text-green-600' :
+                  forecast.backtest.mape < 25 ? 'text-yellow-600' : 'text-red-600'
+                }>
+                  {forecast.backtest.mape.toFixed(1)}% average error
+                </span>
+                , {Math.round(forecast.backtest.coverage * 100)}% inside the band
+              </>
+            ) : (
+              'Not enough price history to backtest this forecast'
+            )}
+          </p>
+        )}
+
+        {dataSource !== 'none' && (
+          <IndicatorOscillators data={chartData} selected={indicators} xAxisKey="dateFormatted" />
+        )}
       </div>
     </div>
   );
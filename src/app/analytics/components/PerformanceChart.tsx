@@ -2,32 +2,38 @@
 
 import { useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { Portfolio } from '@/lib/types';
+import { CurrencyCode, Portfolio } from '@/lib/types';
+import { fxRateService } from '@/lib/services/fxRateService';
+import { formatCurrency as formatAmount } from '@/lib/utils/currency';
 
 interface PerformanceChartProps {
   portfolios: Portfolio[];
   timeframe: '7d' | '30d' | '90d' | '1y';
+  currency?: CurrencyCode;
 }
 
-export function PerformanceChart({ portfolios, timeframe }: PerformanceChartProps) {
+export function PerformanceChart({ portfolios, timeframe, currency = 'usd' }: PerformanceChartProps) {
   const chartData = useMemo(() => {
     return portfolios.map(portfolio => {
-      const gainLoss = portfolio.totalValue - portfolio.totalCost;
-      const performance = portfolio.totalCost > 0 ? (gainLoss / portfolio.totalCost) * 100 : 0;
+      const baseCurrency = portfolio.baseCurrency || 'usd';
+      const value = fxRateService.convert(portfolio.totalValue, baseCurrency, currency);
+      const cost = fxRateService.convert(portfolio.totalCost, baseCurrency, currency);
+      const gainLoss = value - cost;
+      const performance = cost > 0 ? (gainLoss / cost) * 100 : 0;
       
       return {
         name: portfolio.name.length > 15 ? portfolio.name.substring(0, 15) + '...' : portfolio.name,
         fullName: portfolio.name,
-        value: portfolio.totalValue,
-        cost: portfolio.totalCost,
+        value,
+        cost,
         gainLoss,
         performance,
         cardCount: portfolio.cards.length,
       };
     });
-  }, [portfolios]);
+  }, [portfolios, currency]);
 
-  const formatCurrency = (value: number) => `$${value.toFixed(0)}`;
+  const formatCurrency = (value: number) => formatAmount(value, currency, 0);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
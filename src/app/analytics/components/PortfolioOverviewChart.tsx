@@ -2,18 +2,22 @@
 
 import { useMemo, useState, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { Portfolio } from '@/lib/types';
+import { CurrencyCode, Portfolio } from '@/lib/types';
 import { Info } from 'lucide-react';
 import { useBatchPriceTrends } from '@/lib/hooks/usePriceTrends';
 import { PriceTrendAnalysis } from '@/lib/utils/priceAnalysis';
+import { valuationService } from '@/lib/services/valuationService';
+import { fxRateService } from '@/lib/services/fxRateService';
+import { formatCurrency as formatAmount } from '@/lib/utils/currency';
 
 
 interface PortfolioOverviewChartProps {
   portfolios: Portfolio[];
   timeframe: '7d' | '30d' | '90d' | '1y';
+  currency?: CurrencyCode;
 }
 
-export function PortfolioOverviewChart({ portfolios, timeframe }: PortfolioOverviewChartProps) {
+export function PortfolioOverviewChart({ portfolios, timeframe, currency = 'usd' }: PortfolioOverviewChartProps) {
   const [isClient, setIsClient] = useState(false);
 
   useEffect(() => {
@@ -50,10 +54,15 @@ export function PortfolioOverviewChart({ portfolios, timeframe }: PortfolioOverv
     const now = new Date();
 
     // Calculate current total portfolio value
-    const currentTotalValue = portfolios.reduce((sum, p) => sum + p.totalValue, 0);
-    const currentTotalCost = portfolios.reduce((sum, p) => sum + p.totalCost, 0);
+    const currentTotalValue = portfolios.reduce(
+      (sum, p) => sum + fxRateService.convert(p.totalValue, p.baseCurrency || 'usd', currency), 0
+    );
+    const currentTotalCost = portfolios.reduce(
+      (sum, p) => sum + fxRateService.convert(p.totalCost, p.baseCurrency || 'usd', currency), 0
+    );
 
     // No market trends available without external data source
+    const multipliers = valuationService.getConditionMultipliers();
 
     for (let i = days - 1; i >= 0; i--) {
       const date = new Date(now);
@@ -67,9 +76,7 @@ export function PortfolioOverviewChart({ portfolios, timeframe }: PortfolioOverv
       portfolios.forEach(portfolio => {
         portfolio.cards.forEach(portfolioCard => {
           const trends = trendsMap.get(portfolioCard.card.id);
-          const currentPrice = portfolioCard.foil 
-            ? portfolioCard.card.prices.usdFoil || portfolioCard.card.prices.usd || 0
-            : portfolioCard.card.prices.usd || 0;
+          const currentPrice = valuationService.getUnitValue(portfolioCard, multipliers, currency);
           
           let historicalPrice = currentPrice;
           
@@ -109,9 +116,9 @@ export function PortfolioOverviewChart({ portfolios, timeframe }: PortfolioOverv
     }
 
     return data;
-  }, [portfolios, timeframe, isClient, trendsMap]);
+  }, [portfolios, timeframe, isClient, trendsMap, currency]);
 
-  const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+  const formatCurrency = (value: number) => formatAmount(value, currency);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Zap, AlertCircle, Activity } from 'lucide-react';
+import { Portfolio, PriceAnomalyEvent, PriceAnomalyType } from '@/lib/types';
+import { priceAnomalyService } from '@/lib/services/priceAnomalyService';
+import { describeAnomaly } from '@/lib/utils/priceAnomalies';
+import { formatProviderPrice } from '@/lib/utils/priceProviders';
+import { PriceAnomalyBadge } from '@/app/components/PriceTrendIndicator';
+import { LoadingSpinner } from '@/app/components/LoadingSpinner';
+
+interface PriceEventsFeedProps {
+  portfolios: Portfolio[];
+  timeframe: '7d' | '30d' | '90d' | '1y';
+}
+
+const LOOKBACK_DAYS = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+};
+
+const TYPE_FILTERS: { value: PriceAnomalyType | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'buyout', label: 'Buyouts' },
+  { value: 'zscore', label: 'Spikes & Crashes' },
+  { value: 'breakout', label: 'Breakouts' },
+];
+
+export function PriceEventsFeed({ portfolios, timeframe }: PriceEventsFeedProps) {
+  const [events, setEvents] = useState<PriceAnomalyEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<PriceAnomalyType | 'all'>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEvents = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const found = await priceAnomalyService.scanCards(portfolios, LOOKBACK_DAYS[timeframe]);
+        if (!cancelled) setEvents(found);
+      } catch (err) {
+        console.error('Error scanning price events:', err);
+        if (!cancelled) setError('Failed to scan price histories');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolios, timeframe]);
+
+  const visibleEvents = typeFilter === 'all' ? events : events.filter(event => event.type === typeFilter);
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="mb-4">
+        <div className="flex items-center space-x-2">
+          <Zap className="h-5 w-5 text-purple-500" />
+          <h3 className="text-lg font-semibold text-foreground">Price Events</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Buyouts, unusual spikes and breakouts in your holdings and watchlist
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {TYPE_FILTERS.map(filter => (
+          <button
+            key={filter.value}
+            onClick={() => setTypeFilter(filter.value)}
+            className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+              typeFilter === filter.value
+                ? 'border-primary text-foreground bg-accent'
+                : 'border-border text-muted-foreground hover:bg-accent'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="large" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center justify-center py-8 text-red-600">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          <span>{error}</span>
+        </div>
+      ) : visibleEvents.length === 0 ? (
+        <div className="text-center py-8">
+          <Activity className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h4 className="text-md font-medium text-foreground mb-2">No unusual price moves</h4>
+          <p className="text-sm text-muted-foreground">
+            Events are found in MTGJSON price histories, so load MTGJSON price data to see them.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {visibleEvents.map(event => (
+            <div
+              key={`${event.cardId}-${event.type}-${event.date}`}
+              className="flex items-start justify-between p-3 rounded-lg bg-accent/30"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <PriceAnomalyBadge anomaly={event} currency={event.currency} />
+                  <span className="font-medium text-foreground">{event.cardName}</span>
+                  <span className="text-xs text-muted-foreground">{event.setName}</span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {describeAnomaly(event, price => formatProviderPrice(price, event.currency))}
+                </p>
+              </div>
+              <div className="text-right text-xs text-muted-foreground whitespace-nowrap ml-4">
+                <p>{new Date(event.date).toLocaleDateString()}</p>
+                <p>{event.source === 'holding' ? 'Holding' : 'Watchlist'}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { Activity } from 'lucide-react';
+import { CurrencyCode, Portfolio, ReturnMetrics } from '@/lib/types';
+import { formatCurrency } from '@/lib/utils/currency';
+
+interface ReturnMetricsTableProps {
+  portfolios: Portfolio[];
+  metrics: ReturnMetrics[];
+  timeframe: '7d' | '30d' | '90d' | '1y';
+  currency?: CurrencyCode;
+}
+
+const TIMEFRAME_LABELS = {
+  '7d': '7 days',
+  '30d': '30 days',
+  '90d': '90 days',
+  '1y': '1 year',
+};
+
+function ReturnCell({ value }: { value: number | null }) {
+  if (value === null) {
+    return <span className="text-muted-foreground">N/A</span>;
+  }
+
+  return (
+    <span className={value >= 0 ? 'text-green-500' : 'text-red-500'}>
+      {value > 1000 ? '>+1000%' : `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`}
+    </span>
+  );
+}
+
+export function ReturnMetricsTable({ portfolios, metrics, timeframe, currency = 'usd' }: ReturnMetricsTableProps) {
+  const names = new Map(portfolios.map(p => [p.id, p.name]));
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="mb-4">
+        <div className="flex items-center space-x-2">
+          <Activity className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Portfolio Returns</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Time-weighted return over the last {TIMEFRAME_LABELS[timeframe]}, ignoring when money was added or
+          taken out, and annualized money-weighted return (XIRR), which accounts for it
+        </p>
+      </div>
+
+      {metrics.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Calculating returns...
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Portfolio</th>
+                <th className="py-2 pr-4 font-medium text-right">Start Value</th>
+                <th className="py-2 pr-4 font-medium text-right">Net Added</th>
+                <th className="py-2 pr-4 font-medium text-right">End Value</th>
+                <th className="py-2 pr-4 font-medium text-right">TWR</th>
+                <th className="py-2 font-medium text-right">XIRR</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map(m => (
+                <tr key={m.portfolioId} className="border-b border-border last:border-0">
+                  <td className="py-2 pr-4 text-foreground">{names.get(m.portfolioId || '') || 'Unknown'}</td>
+                  <td className="py-2 pr-4 text-right">{formatCurrency(m.startValue, currency)}</td>
+                  <td className="py-2 pr-4 text-right">{formatCurrency(m.netContributions, currency)}</td>
+                  <td className="py-2 pr-4 text-right">{formatCurrency(m.endValue, currency)}</td>
+                  <td className="py-2 pr-4 text-right"><ReturnCell value={m.timeWeightedReturn} /></td>
+                  <td className="py-2 text-right"><ReturnCell value={m.moneyWeightedReturn} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useMemo, useState, useEffect } from 'react';
+import { FileText, Download } from 'lucide-react';
+import { CurrencyCode, Portfolio, HoldingTerm } from '@/lib/types';
+import { TaxReportService } from '@/lib/services/taxReportService';
+import { fxRateService } from '@/lib/services/fxRateService';
+import { formatCurrency } from '@/lib/utils/currency';
+import { ErrorMessage } from '@/app/components/ErrorMessage';
+
+interface TaxReportExportProps {
+  portfolios: Portfolio[];
+  currency?: CurrencyCode; // Used when the selected portfolios have different base currencies
+}
+
+const termLabels: Record<HoldingTerm, string> = {
+  short: 'Short-term',
+  long: 'Long-term',
+};
+
+export function TaxReportExport({ portfolios, currency = 'usd' }: TaxReportExportProps) {
+  const [isClient, setIsClient] = useState(false);
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>('all');
+  const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  const selectedPortfolios = useMemo(
+    () => selectedPortfolioId === 'all'
+      ? portfolios
+      : portfolios.filter(p => p.id === selectedPortfolioId),
+    [portfolios, selectedPortfolioId]
+  );
+
+  const years = useMemo(() => {
+    if (!isClient) return [];
+    const saleYears = TaxReportService.getReportYears(portfolios);
+    const currentYear = new Date().getFullYear();
+    return saleYears.includes(currentYear) ? saleYears : [currentYear, ...saleYears];
+  }, [isClient, portfolios]);
+
+  const reportCurrency = TaxReportService.getReportCurrency(selectedPortfolios, currency);
+
+  // Portfolios in a currency without a rate can't be totalled with the others
+  const missingRates = useMemo(
+    () => isClient
+      ? fxRateService.getMissingRates(selectedPortfolios.map(p => p.baseCurrency || 'usd'), reportCurrency)
+      : [],
+    [isClient, selectedPortfolios, reportCurrency]
+  );
+
+  const report = useMemo(() => {
+    if (!isClient || missingRates.length > 0) return null;
+    return TaxReportService.generateReport(selectedPortfolios, selectedYear, reportCurrency);
+  }, [isClient, missingRates, selectedPortfolios, selectedYear, reportCurrency]);
+
+  const handleDownload = () => {
+    if (!report) return;
+
+    const csv = TaxReportService.toCsv(report);
+    const scope = selectedPortfolioId === 'all'
+      ? 'all-portfolios'
+      : (selectedPortfolios[0]?.name || 'portfolio').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `capital-gains-${selectedYear}-${scope}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!isClient) {
+    return null;
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-3">
+          <FileText className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Capital Gains Report</h3>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={selectedPortfolioId}
+            onChange={(e) => setSelectedPortfolioId(e.target.value)}
+            className="px-3 py-2 text-sm border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            <option value="all">All Portfolios</option>
+            {portfolios.map(portfolio => (
+              <option key={portfolio.id} value={portfolio.id}>
+                {portfolio.name}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+            className="px-3 py-2 text-sm border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {years.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+
+          <button
+            onClick={handleDownload}
+            disabled={!report || report.rows.length === 0}
+            className="flex items-center space-x-2 bg-primary text-primary-foreground px-3 py-2 text-sm rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      {!report ? (
+        <ErrorMessage message={fxRateService.describeMissingRates(missingRates, reportCurrency)} />
+      ) : report.rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No sales recorded in {selectedYear}. Sales recorded from a portfolio will appear here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(['short', 'long'] as const).map(term => {
+            const totals = report.totals[term];
+            const count = report.rows.filter(r => r.term === term).length;
+
+            return (
+              <div key={term} className="p-4 bg-accent rounded-lg">
+                <h4 className="text-sm font-medium text-foreground mb-3">
+                  {termLabels[term]} ({count} disposal{count !== 1 ? 's' : ''})
+                </h4>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <p className="text-muted-foreground">Proceeds</p>
+                  <p className="font-medium text-foreground text-right">{formatCurrency(totals.proceeds, report.currency)}</p>
+                  <p className="text-muted-foreground">Cost Basis</p>
+                  <p className="font-medium text-foreground text-right">{formatCurrency(totals.costBasis, report.currency)}</p>
+                  <p className="text-muted-foreground">Selling Expenses</p>
+                  <p className="font-medium text-foreground text-right">{formatCurrency(totals.adjustment, report.currency)}</p>
+                  <p className="text-muted-foreground">Gain/Loss</p>
+                  <p className={`font-medium text-right ${totals.gainLoss >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(totals.gainLoss, report.currency)}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,16 @@
 import { useMemo } from 'react';
 import Image from 'next/image';
 import { TrendingUp, TrendingDown, Star } from 'lucide-react';
-import { Portfolio, PortfolioCard } from '@/lib/types';
+import { CurrencyCode, Portfolio, PortfolioCard } from '@/lib/types';
+import { getHoldingCostBasis } from '@/lib/utils/costBasis';
+import { valuationService } from '@/lib/services/valuationService';
+import { fxRateService } from '@/lib/services/fxRateService';
+import { formatCurrency } from '@/lib/utils/currency';
 
 interface TopPerformersTableProps {
   portfolios: Portfolio[];
   type: 'best' | 'worst';
+  currency?: CurrencyCode;
 }
 
 interface CardPerformance {
@@ -18,14 +23,14 @@ interface CardPerformance {
   totalCost: number;
 }
 
-export function TopPerformersTable({ portfolios, type }: TopPerformersTableProps) {
+export function TopPerformersTable({ portfolios, type, currency = 'usd' }: TopPerformersTableProps) {
   const performers = useMemo(() => {
-    const allCards = portfolios.flatMap(p => p.cards);
+    const allCards = portfolios.flatMap(p => p.cards.map(card => ({ card, baseCurrency: p.baseCurrency || 'usd' })));
+    const multipliers = valuationService.getConditionMultipliers();
     
-    const cardPerformances: CardPerformance[] = allCards.map(card => {
-      const currentPrice = card.card.prices.usd || 0;
-      const currentValue = currentPrice * card.quantity;
-      const totalCost = card.purchasePrice * card.quantity;
+    const cardPerformances: CardPerformance[] = allCards.map(({ card, baseCurrency }) => {
+      const currentValue = valuationService.getHoldingValue(card, multipliers, currency);
+      const totalCost = fxRateService.convert(getHoldingCostBasis(card), baseCurrency, currency);
       const gainLoss = currentValue - totalCost;
       const gainLossPercent = totalCost > 0 ? (gainLoss / totalCost) * 100 : 0;
 
@@ -44,7 +49,7 @@ export function TopPerformersTable({ portfolios, type }: TopPerformersTableProps
     );
 
     return sorted.slice(0, 5); // Top 5
-  }, [portfolios, type]);
+  }, [portfolios, type, currency]);
 
   const title = type === 'best' ? 'Top Performers' : 'Worst Performers';
   const icon = type === 'best' ? TrendingUp : TrendingDown;
@@ -130,10 +135,10 @@ export function TopPerformersTable({ portfolios, type }: TopPerformersTableProps
                     </p>
                     <div className="flex items-center space-x-3 mt-1 text-xs">
                       <span className="text-muted-foreground">
-                        Purchased: ${card.purchasePrice.toFixed(2)}
+                        Avg Cost: {formatCurrency(performer.totalCost / card.quantity, currency)}
                       </span>
                       <span className="text-muted-foreground">
-                        Current: ${(card.card.prices.usd || 0).toFixed(2)}
+                        Current: {formatCurrency(performer.currentValue / card.quantity, currency)}
                       </span>
                     </div>
                   </div>
@@ -145,7 +150,7 @@ export function TopPerformersTable({ portfolios, type }: TopPerformersTableProps
                 <div className={`text-sm font-medium ${
                   isPositive ? 'text-green-600' : 'text-red-600'
                 }`}>
-                  {isPositive ? '+' : ''}${performer.gainLoss.toFixed(2)}
+                  {isPositive ? '+' : ''}{formatCurrency(performer.gainLoss, currency)}
                 </div>
                 <div className={`text-xs ${
                   isPositive ? 'text-green-600' : 'text-red-600'
@@ -153,7 +158,7 @@ export function TopPerformersTable({ portfolios, type }: TopPerformersTableProps
                   {isPositive ? '+' : ''}{performer.gainLossPercent.toFixed(1)}%
                 </div>
                 <div className="text-xs text-muted-foreground mt-1">
-                  ${performer.currentValue.toFixed(2)} total
+                  {formatCurrency(performer.currentValue, currency)} total
                 </div>
               </div>
             </div>
@@ -169,7 +174,7 @@ export function TopPerformersTable({ portfolios, type }: TopPerformersTableProps
             <span className={`ml-1 font-medium ${
               type === 'best' ? 'text-green-600' : 'text-red-600'
             }`}>
-              {performers[0]?.gainLoss >= 0 ? '+' : ''}${performers[0]?.gainLoss.toFixed(2)} 
+              {performers[0]?.gainLoss >= 0 ? '+' : ''}{formatCurrency(performers[0]?.gainLoss || 0, currency)} 
               ({performers[0]?.gainLossPercent >= 0 ? '+' : ''}{performers[0]?.gainLossPercent.toFixed(1)}%)
             </span>
           </p>
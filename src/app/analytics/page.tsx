@@ -2,9 +2,15 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { TrendingUp, PieChart, BarChart3, Target, AlertTriangle, Star } from 'lucide-react';
-import { Portfolio, InvestmentAnalytics } from '@/lib/types';
-import { getPortfolios, getWatchlist } from '@/lib/storage';
+import { CurrencyCode, Portfolio, InvestmentAnalytics, ReturnMetrics } from '@/lib/types';
+import { getPortfolios, getPreferences, getWatchlist } from '@/lib/storage';
 import { getCard } from '@/lib/api/scryfall';
+import { getHoldingCostBasis } from '@/lib/utils/costBasis';
+import { PortfolioTimelineService } from '@/lib/services/portfolioTimelineService';
+import { valuationService } from '@/lib/services/valuationService';
+import { fxRateService } from '@/lib/services/fxRateService';
+import { PerformanceMetricsService } from '@/lib/services/performanceMetricsService';
+import { formatCurrency } from '@/lib/utils/currency';
 import { PortfolioOverviewChart } from './components/PortfolioOverviewChart';
 import { PerformanceChart } from './components/PerformanceChart';
 import { EnhancedPriceChart } from './components/EnhancedPriceChart';
@@ -12,23 +18,47 @@ import { DiversificationChart } from './components/DiversificationChart';
 import { TopPerformersTable } from './components/TopPerformersTable';
 import { MarketTrendsChart } from './components/MarketTrendsChart';
 import { WatchlistPerformance } from './components/WatchlistPerformance';
+import { PriceEventsFeed } from './components/PriceEventsFeed';
+import { CorrelationHeatmap } from './components/CorrelationHeatmap';
 import { AccuratePortfolioTimeline } from './components/AccuratePortfolioTimeline';
+import { TaxReportExport } from './components/TaxReportExport';
+import { ReturnMetricsTable } from './components/ReturnMetricsTable';
 import { LoadingSpinner } from '@/app/components/LoadingSpinner';
+import { ErrorMessage } from '@/app/components/ErrorMessage';
+
+const formatPercent = (value: number | null | undefined) => {
+  if (value === null || value === undefined) return 'N/A';
+  // Annualizing a few days of movement can give meaningless figures
+  if (value > 1000) return '>+1000%';
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+};
 
 export default function AnalyticsPage() {
   const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
   const [loading, setLoading] = useState(true);
   const [analytics, setAnalytics] = useState<InvestmentAnalytics | null>(null);
   const [selectedTimeframe, setSelectedTimeframe] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
+  const [currency, setCurrency] = useState<CurrencyCode>('usd');
+  const [portfolioReturns, setPortfolioReturns] = useState<ReturnMetrics[]>([]);
+  const [missingRates, setMissingRates] = useState<CurrencyCode[]>([]);
 
   useEffect(() => {
     const loadAnalytics = async () => {
       try {
         const savedPortfolios = getPortfolios();
+        const displayCurrency = getPreferences().defaultCurrency;
         setPortfolios(savedPortfolios);
+        setCurrency(displayCurrency);
+
+        // Market prices are in USD and portfolios in their base currency
+        const missing = fxRateService.getMissingRates(
+          ['usd', ...savedPortfolios.map(p => p.baseCurrency || 'usd')],
+          displayCurrency
+        );
+        setMissingRates(missing);
 
-        if (savedPortfolios.length > 0) {
-          const combinedAnalytics = calculateInvestmentAnalytics(savedPortfolios);
+        if (savedPortfolios.length > 0 && missing.length === 0) {
+          const combinedAnalytics = calculateInvestmentAnalytics(savedPortfolios, displayCurrency);
           setAnalytics(combinedAnalytics);
         }
       } catch (error) {
@@ -41,14 +71,71 @@ export default function AnalyticsPage() {
     loadAnalytics();
   }, []);
 
-  const calculateInvestmentAnalytics = (portfolios: Portfolio[]): InvestmentAnalytics => {
-    const allCards = portfolios.flatMap(p => p.cards);
+  // Returns depend on the period, so they are recomputed when it changes
+  useEffect(() => {
+    if (portfolios.length === 0 || missingRates.length > 0) return;
+
+    let cancelled = false;
+    const loadReturns = async () => {
+      try {
+        const startDate = PerformanceMetricsService.getPeriodStart(selectedTimeframe);
+        const endDate = new Date().toISOString().split('T')[0];
+
+        const [combined, perPortfolio] = await Promise.all([
+          PerformanceMetricsService.getCombinedReturnMetrics(portfolios, startDate, endDate, currency),
+          Promise.all(portfolios.map(p =>
+            PerformanceMetricsService.getReturnMetrics(p, startDate, endDate, currency)
+          )),
+        ]);
+        if (cancelled) return;
+
+        setAnalytics(prev => prev && {
+          ...prev,
+          timeWeightedReturn: combined.timeWeightedReturn,
+          moneyWeightedReturn: combined.moneyWeightedReturn,
+        });
+        setPortfolioReturns(perPortfolio);
+      } catch (error) {
+        console.error('Error calculating return metrics:', error);
+      }
+    };
+
+    loadReturns();
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolios, selectedTimeframe, currency, missingRates]);
+
+  const calculateInvestmentAnalytics = (portfolios: Portfolio[], currency: CurrencyCode): InvestmentAnalytics => {
+    // Costs and sales are stored in each portfolio's base currency
+    const toDisplayCurrency = (amount: number, portfolio: Portfolio) =>
+      fxRateService.convert(amount, portfolio.baseCurrency || 'usd', currency);
+
+    const holdings = portfolios.flatMap(p => p.cards.map(card => ({
+      card,
+      cost: toDisplayCurrency(getHoldingCostBasis(card), p),
+    })));
+    const allCards = holdings.map(h => h.card);
+
+    // Sold cards are no longer in the holdings, so their gains come from the sale transactions
+    const realizedSummaries = portfolios.map(p => ({
+      portfolio: p,
+      summary: PortfolioTimelineService.getRealizedGainSummary(p.id),
+    }));
+    const realizedGainLoss = realizedSummaries.reduce(
+      (sum, r) => sum + toDisplayCurrency(r.summary.realizedGain, r.portfolio), 0
+    );
+    const soldCostBasis = realizedSummaries.reduce(
+      (sum, r) => sum + toDisplayCurrency(r.summary.costBasis, r.portfolio), 0
+    );
     
     if (allCards.length === 0) {
       return {
         portfolioValue: 0,
-        totalGainLoss: 0,
-        percentageReturn: 0,
+        totalGainLoss: realizedGainLoss,
+        unrealizedGainLoss: 0,
+        realizedGainLoss,
+        percentageReturn: soldCostBasis > 0 ? (realizedGainLoss / soldCostBasis) * 100 : 0,
         bestPerformingCard: null,
         worstPerformingCard: null,
         diversification: {
@@ -60,23 +147,21 @@ export default function AnalyticsPage() {
       };
     }
 
+    const multipliers = valuationService.getConditionMultipliers();
     const totalValue = allCards.reduce((sum, card) => {
-      const currentPrice = card.card.prices.usd || 0;
-      return sum + (currentPrice * card.quantity);
+      return sum + valuationService.getHoldingValue(card, multipliers, currency);
     }, 0);
 
-    const totalCost = allCards.reduce((sum, card) => {
-      return sum + (card.purchasePrice * card.quantity);
-    }, 0);
+    const totalCost = holdings.reduce((sum, holding) => sum + holding.cost, 0);
 
-    const totalGainLoss = totalValue - totalCost;
-    const percentageReturn = totalCost > 0 ? (totalGainLoss / totalCost) * 100 : 0;
+    const unrealizedGainLoss = totalValue - totalCost;
+    const totalGainLoss = unrealizedGainLoss + realizedGainLoss;
+    const investedCost = totalCost + soldCostBasis;
+    const percentageReturn = investedCost > 0 ? (totalGainLoss / investedCost) * 100 : 0;
 
     // Find best and worst performing cards
-    const cardPerformances = allCards.map(card => {
-      const currentPrice = card.card.prices.usd || 0;
-      const totalCardValue = currentPrice * card.quantity;
-      const totalCardCost = card.purchasePrice * card.quantity;
+    const cardPerformances = holdings.map(({ card, cost: totalCardCost }) => {
+      const totalCardValue = valuationService.getHoldingValue(card, multipliers, currency);
       const cardGainLoss = totalCardValue - totalCardCost;
       return { card, gainLoss: cardGainLoss };
     });
@@ -91,7 +176,7 @@ export default function AnalyticsPage() {
     const byColor: Record<string, number> = {};
 
     allCards.forEach(card => {
-      const cardValue = (card.card.prices.usd || 0) * card.quantity;
+      const cardValue = valuationService.getHoldingValue(card, multipliers, currency);
       
       // By set
       bySet[card.card.setName] = (bySet[card.card.setName] || 0) + cardValue;
@@ -118,6 +203,8 @@ export default function AnalyticsPage() {
     return {
       portfolioValue: totalValue,
       totalGainLoss,
+      unrealizedGainLoss,
+      realizedGainLoss,
       percentageReturn,
       bestPerformingCard,
       worstPerformingCard,
@@ -132,22 +219,46 @@ export default function AnalyticsPage() {
     return [
       {
         title: 'Total Portfolio Value',
-        value: `$${analytics.portfolioValue.toFixed(2)}`,
+        value: formatCurrency(analytics.portfolioValue, currency),
         icon: PieChart,
         color: 'text-blue-500',
       },
       {
         title: 'Total Gain/Loss',
-        value: `${analytics.totalGainLoss >= 0 ? '+' : ''}$${analytics.totalGainLoss.toFixed(2)}`,
+        value: `${analytics.totalGainLoss >= 0 ? '+' : ''}${formatCurrency(analytics.totalGainLoss, currency)}`,
         icon: analytics.totalGainLoss >= 0 ? TrendingUp : TrendingUp,
         color: analytics.totalGainLoss >= 0 ? 'text-green-500' : 'text-red-500',
       },
+      {
+        title: 'Unrealized Gain/Loss',
+        value: `${analytics.unrealizedGainLoss >= 0 ? '+' : ''}${formatCurrency(analytics.unrealizedGainLoss, currency)}`,
+        icon: TrendingUp,
+        color: analytics.unrealizedGainLoss >= 0 ? 'text-green-500' : 'text-red-500',
+      },
+      {
+        title: 'Realized Gain/Loss',
+        value: `${analytics.realizedGainLoss >= 0 ? '+' : ''}${formatCurrency(analytics.realizedGainLoss, currency)}`,
+        icon: TrendingUp,
+        color: analytics.realizedGainLoss >= 0 ? 'text-green-500' : 'text-red-500',
+      },
       {
         title: 'Percentage Return',
         value: `${analytics.percentageReturn >= 0 ? '+' : ''}${analytics.percentageReturn.toFixed(1)}%`,
         icon: BarChart3,
         color: analytics.percentageReturn >= 0 ? 'text-green-500' : 'text-red-500',
       },
+      {
+        title: 'Time-Weighted Return',
+        value: formatPercent(analytics.timeWeightedReturn),
+        icon: BarChart3,
+        color: (analytics.timeWeightedReturn ?? 0) >= 0 ? 'text-green-500' : 'text-red-500',
+      },
+      {
+        title: 'Money-Weighted Return (XIRR, annualized)',
+        value: formatPercent(analytics.moneyWeightedReturn),
+        icon: BarChart3,
+        color: (analytics.moneyWeightedReturn ?? 0) >= 0 ? 'text-green-500' : 'text-red-500',
+      },
       {
         title: 'Risk Score',
         value: `${analytics.riskScore.toFixed(0)}/100`,
@@ -155,7 +266,7 @@ export default function AnalyticsPage() {
         color: analytics.riskScore > 70 ? 'text-orange-500' : analytics.riskScore > 40 ? 'text-yellow-500' : 'text-green-500',
       },
     ];
-  }, [analytics]);
+  }, [analytics, currency]);
 
   if (loading) {
     return (
@@ -191,6 +302,21 @@ export default function AnalyticsPage() {
     );
   }
 
+  if (missingRates.length > 0) {
+    return (
+      <div className="space-y-6">
+        <div className="text-center space-y-4">
+          <div className="flex items-center justify-center space-x-2">
+            <BarChart3 className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold text-foreground">Investment Analytics</h1>
+          </div>
+        </div>
+
+        <ErrorMessage message={fxRateService.describeMissingRates(missingRates, currency)} />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -226,7 +352,7 @@ export default function AnalyticsPage() {
       </div>
 
       {/* Summary Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {summaryStats.map((stat, index) => {
           const Icon = stat.icon;
           return (
@@ -249,6 +375,7 @@ export default function AnalyticsPage() {
       <AccuratePortfolioTimeline 
         portfolios={portfolios}
         timeframe={selectedTimeframe}
+        currency={currency}
       />
 
       {/* Charts Grid */}
@@ -257,17 +384,20 @@ export default function AnalyticsPage() {
         <PortfolioOverviewChart 
           portfolios={portfolios}
           timeframe={selectedTimeframe}
+          currency={currency}
         />
 
         {/* Performance Chart */}
         <PerformanceChart 
           portfolios={portfolios}
           timeframe={selectedTimeframe}
+          currency={currency}
         />
 
         {/* Diversification Chart */}
         <DiversificationChart 
           analytics={analytics}
+          currency={currency}
         />
 
         {/* Market Trends */}
@@ -276,20 +406,42 @@ export default function AnalyticsPage() {
         />
       </div>
 
+      {/* Correlation Between Holdings */}
+      <CorrelationHeatmap portfolios={portfolios} />
+
       {/* Tables */}
       <div className="grid lg:grid-cols-2 gap-6">
         {/* Top Performers */}
         <TopPerformersTable 
           portfolios={portfolios}
           type="best"
+          currency={currency}
         />
 
         <TopPerformersTable 
           portfolios={portfolios}
           type="worst"
+          currency={currency}
         />
       </div>
 
+      {/* Per-portfolio Returns */}
+      <ReturnMetricsTable
+        portfolios={portfolios}
+        metrics={portfolioReturns}
+        timeframe={selectedTimeframe}
+        currency={currency}
+      />
+
+      {/* Capital Gains Report */}
+      <TaxReportExport portfolios={portfolios} currency={currency} />
+
+      {/* Unusual Price Moves */}
+      <PriceEventsFeed
+        portfolios={portfolios}
+        timeframe={selectedTimeframe}
+      />
+
       {/* Watchlist Performance */}
       <WatchlistPerformance 
         timeframe={selectedTimeframe}
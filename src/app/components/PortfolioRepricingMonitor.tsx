@@ -0,0 +1,23 @@
+'use client';
+
+import { useEffect } from 'react';
+import { portfolioRepricingService } from '@/lib/services/portfolioRepricingService';
+
+interface PortfolioRepricingMonitorProps {
+  intervalMs?: number;
+}
+
+/**
+ * Keeps the prices stored with portfolio holdings up to date in the background
+ */
+export function PortfolioRepricingMonitor({ intervalMs }: PortfolioRepricingMonitorProps) {
+  useEffect(() => {
+    portfolioRepricingService.start(intervalMs);
+
+    return () => {
+      portfolioRepricingService.stop();
+    };
+  }, [intervalMs]);
+
+  return null;
+}
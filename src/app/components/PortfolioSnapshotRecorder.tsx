@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect } from 'react';
+import { portfolioSnapshotService } from '@/lib/services/portfolioSnapshotService';
+import { portfolioRepricingService } from '@/lib/services/portfolioRepricingService';
+
+/**
+ * Records the daily portfolio snapshots when the app opens and again after
+ * each repricing run, so today's snapshot carries the freshest prices
+ */
+export function PortfolioSnapshotRecorder() {
+  useEffect(() => {
+    const record = () => {
+      portfolioSnapshotService.recordSnapshots().catch(error => {
+        console.error('Error recording portfolio snapshots:', error);
+      });
+    };
+
+    record();
+    portfolioRepricingService.onComplete(record);
+
+    return () => {
+      portfolioRepricingService.offComplete(record);
+    };
+  }, []);
+
+  return null;
+}
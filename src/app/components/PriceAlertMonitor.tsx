@@ -0,0 +1,67 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Bell, X } from 'lucide-react';
+import { PriceAlertTrigger } from '@/lib/types';
+import { priceAlertService } from '@/lib/services/priceAlertService';
+
+interface PriceAlertMonitorProps {
+  intervalMs?: number;
+}
+
+/**
+ * Runs the price alert evaluation in the background and shows a notice
+ * whenever an alert fires
+ */
+export function PriceAlertMonitor({ intervalMs }: PriceAlertMonitorProps) {
+  const [notifications, setNotifications] = useState<PriceAlertTrigger[]>([]);
+
+  useEffect(() => {
+    const handleTrigger = (trigger: PriceAlertTrigger) => {
+      setNotifications(prev => [trigger, ...prev].slice(0, 5));
+    };
+
+    priceAlertService.onTrigger(handleTrigger);
+    priceAlertService.start(intervalMs);
+
+    return () => {
+      priceAlertService.offTrigger(handleTrigger);
+      priceAlertService.stop();
+    };
+  }, [intervalMs]);
+
+  const dismiss = (triggerId: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== triggerId));
+  };
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 space-y-2 w-80">
+      {notifications.map(trigger => (
+        <div
+          key={trigger.id}
+          className="bg-card border border-amber-300 rounded-lg shadow-lg p-4 flex items-start space-x-3"
+        >
+          <Bell className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-foreground truncate">{trigger.cardName}</p>
+            <p className="text-xs text-muted-foreground">
+              ${trigger.price.toFixed(2)} is {trigger.condition} your ${trigger.targetPrice.toFixed(2)} target
+            </p>
+            <Link href="/wishlist" className="text-xs text-primary hover:text-primary/80">
+              View alerts
+            </Link>
+          </div>
+          <button
+            onClick={() => dismiss(trigger.id)}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   ResponsiveContainer,
   Legend,
   ReferenceLine,
+  ReferenceArea,
   Area,
   ComposedChart
 } from 'recharts';
@@ -24,9 +25,12 @@ import {
   Activity,
   Info
 } from 'lucide-react';
-import { MTGCard, PriceHistory, ProcessedCardPrice } from '@/lib/types';
-import { getPriceHistoryForCard } from '@/lib/api/mtgjson';
+import { MTGCard, PriceHistory } from '@/lib/types';
+import { getPreferredPriceProvider, getPriceHistoryForCard } from '@/lib/api/mtgjson';
+import { priceObservationService } from '@/lib/services/priceObservationService';
+import { calculateIndicators, IndicatorValues, maxDrawdown, PRICE_INDICATORS, PriceIndicator } from '@/lib/utils/priceIndicators';
 import { LoadingSpinner } from '@/app/components/LoadingSpinner';
+import { IndicatorOscillators, IndicatorToggles, INDICATOR_COLORS } from '@/app/components/PriceIndicators';
 
 interface PriceHistoryChartProps {
   card: MTGCard;
@@ -37,7 +41,7 @@ interface PriceHistoryChartProps {
   className?: string;
 }
 
-interface ChartDataPoint {
+interface ChartDataPoint extends IndicatorValues {
   date: string;
   formattedDate: string;
   usd?: number;
@@ -45,7 +49,6 @@ interface ChartDataPoint {
   eur?: number;
   eurFoil?: number;
   tix?: number;
-  movingAverage?: number;
   volatility?: number;
   volume?: number;
 }
@@ -74,6 +77,7 @@ export function PriceHistoryChart({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isClient, setIsClient] = useState(false);
+  const [indicators, setIndicators] = useState<PriceIndicator[]>(() => showMovingAverage ? ['sma'] : []);
 
   useEffect(() => {
     setIsClient(true);
@@ -89,24 +93,22 @@ export function PriceHistoryChart({
       setError(null);
 
       try {
-        const history = await getPriceHistoryForCard(card);
+        // This chart shows USD prices
+        const history = await getPriceHistoryForCard(card, getPreferredPriceProvider('usd'), timeframe);
         
         if (!isCancelled) {
           if (history && history.prices.length > 0) {
             setPriceHistory(history);
           } else {
-            // Generate fallback mock data for demonstration
-            const mockHistory = generateMockPriceHistory(card, timeframe);
-            setPriceHistory(mockHistory);
+            // Fall back to the Scryfall prices recorded on this device
+            setPriceHistory(priceObservationService.getRecordedPriceHistory(card.id, 'usd'));
           }
         }
       } catch (err) {
         if (!isCancelled) {
           console.error('Error loading price history:', err);
           setError('Failed to load price history');
-          // Still generate mock data as fallback
-          const mockHistory = generateMockPriceHistory(card, timeframe);
-          setPriceHistory(mockHistory);
+          setPriceHistory(null);
         }
       } finally {
         if (!isCancelled) {
@@ -122,79 +124,6 @@ export function PriceHistoryChart({
     };
   }, [card.id, timeframe, isClient]);
 
-  // Generate mock price history when real data isn't available
-  const generateMockPriceHistory = (card: MTGCard, timeframe: string): PriceHistory => {
-    const currentPrice = card.prices.usd || 1.0;
-    const days = timeframe === '7d' ? 7 : timeframe === '30d' ? 30 : timeframe === '90d' ? 90 : 365;
-    
-    const prices: ProcessedCardPrice[] = [];
-    const now = new Date();
-    
-    for (let i = days; i >= 0; i--) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      
-      // Generate realistic price variation based on card rarity and current price
-      const volatilityFactor = card.rarity === 'mythic' ? 0.15 : 
-                              card.rarity === 'rare' ? 0.12 : 
-                              card.rarity === 'uncommon' ? 0.08 : 0.05;
-      
-      const trendFactor = Math.sin(i / days * Math.PI * 2) * 0.1; // Seasonal variation
-      const randomFactor = (Math.random() - 0.5) * volatilityFactor;
-      const basePrice = currentPrice * (1 + trendFactor + randomFactor);
-      
-      const price = Math.max(0.01, basePrice);
-      
-      prices.push({
-        cardId: card.id,
-        date: date.toISOString().split('T')[0],
-        price: Math.round(price * 100) / 100,
-        priceType: 'usd',
-        volume: Math.floor(Math.random() * 100) + 10, // Mock volume
-      });
-      
-      // Add foil prices if the card has foil pricing
-      if (card.prices.usdFoil) {
-        prices.push({
-          cardId: card.id,
-          date: date.toISOString().split('T')[0],
-          price: Math.round(price * 1.5 * 100) / 100, // Foil typically 1.5x normal
-          priceType: 'usdFoil',
-          volume: Math.floor(Math.random() * 20) + 5,
-        });
-      }
-    }
-    
-    // Calculate stats
-    const usdPrices = prices.filter(p => p.priceType === 'usd').map(p => p.price);
-    const averagePrice = usdPrices.reduce((sum, p) => sum + p, 0) / usdPrices.length;
-    const variance = usdPrices.reduce((sum, p) => sum + Math.pow(p - averagePrice, 2), 0) / usdPrices.length;
-    const volatility = Math.sqrt(variance);
-    
-    // Determine trend
-    const recent = usdPrices.slice(-7);
-    const previous = usdPrices.slice(-14, -7);
-    const recentAvg = recent.reduce((sum, p) => sum + p, 0) / recent.length;
-    const previousAvg = previous.reduce((sum, p) => sum + p, 0) / previous.length;
-    
-    const trend: 'up' | 'down' | 'stable' = 
-      recentAvg > previousAvg * 1.05 ? 'up' :
-      recentAvg < previousAvg * 0.95 ? 'down' : 'stable';
-
-    return {
-      cardId: card.id,
-      prices,
-      trend,
-      volatility,
-      averagePrice,
-      percentChange24h: usdPrices.length >= 2 ? 
-        ((usdPrices[usdPrices.length - 1] - usdPrices[usdPrices.length - 2]) / usdPrices[usdPrices.length - 2]) * 100 : 0,
-      percentChange7d: ((recentAvg - previousAvg) / previousAvg) * 100,
-      lastUpdated: new Date().toISOString(),
-      provider: 'mock'
-    };
-  };
-
   // Process price history data for chart
   const chartData = useMemo(() => {
     if (!priceHistory || !isClient) return [];
@@ -219,21 +148,33 @@ export function PriceHistoryChart({
       new Date(a.date).getTime() - new Date(b.date).getTime()
     );
 
-    // Calculate moving average if requested
-    if (showMovingAverage && data.length > 0) {
-      const window = Math.min(7, Math.floor(data.length / 4)); // 7-day or 25% of data window
-      data.forEach((point, index) => {
-        const start = Math.max(0, index - window + 1);
-        const slice = data.slice(start, index + 1);
-        const prices = slice.map(d => d.usd).filter(Boolean) as number[];
-        if (prices.length > 0) {
-          point.movingAverage = prices.reduce((sum, p) => sum + p, 0) / prices.length;
-        }
-      });
-    }
+    // Indicators follow the USD price
+    const usdPoints = data.filter(point => point.usd !== undefined);
+    calculateIndicators(usdPoints.map(point => point.usd!), indicators)
+      .forEach((values, index) => Object.assign(usdPoints[index], values));
 
     return data;
-  }, [priceHistory, showMovingAverage, isClient]);
+  }, [priceHistory, indicators, isClient]);
+
+  const drawdown = useMemo(() => {
+    if (!indicators.includes('drawdown')) return null;
+
+    const usdPoints = chartData.filter(point => point.usd !== undefined);
+    const result = maxDrawdown(usdPoints.map(point => point.usd!));
+    if (!result || result.percent === 0) return null;
+
+    return {
+      percent: result.percent,
+      from: usdPoints[result.peakIndex].formattedDate,
+      to: usdPoints[result.troughIndex].formattedDate,
+    };
+  }, [chartData, indicators]);
+
+  const toggleIndicator = (indicator: PriceIndicator) => {
+    setIndicators(current => current.includes(indicator)
+      ? current.filter(i => i !== indicator)
+      : [...current, indicator]);
+  };
 
   // Calculate price statistics
   const priceStats: PriceStats | null = useMemo(() => {
@@ -291,6 +232,22 @@ export function PriceHistoryChart({
     );
   }
 
+  if (!error && !priceHistory) {
+    return (
+      <div className={`bg-card border border-border rounded-lg p-6 ${className}`}>
+        <div className="flex items-center justify-center" style={{ height }}>
+          <div className="text-center">
+            <BarChart3 className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-muted-foreground">Insufficient price data</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Load MTGJSON price data, or check back after this card&apos;s price has been recorded on a few more days
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (error || !priceHistory) {
     return (
       <div className={`bg-card border border-border rounded-lg p-6 ${className}`}>
@@ -313,9 +270,9 @@ export function PriceHistoryChart({
           <h3 className="text-lg font-semibold text-foreground">Price History</h3>
           <p className="text-sm text-muted-foreground">
             {card.name} • {timeframe.toUpperCase()}
-            {priceHistory.provider === 'mock' && (
-              <span className="ml-2 text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded">
-                Demo Data
+            {priceHistory.provider === 'recorded' && (
+              <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                Recorded Prices
               </span>
             )}
           </p>
@@ -359,6 +316,11 @@ export function PriceHistoryChart({
         </div>
       )}
 
+      {/* Indicators */}
+      <div className="mb-4">
+        <IndicatorToggles selected={indicators} onToggle={toggleIndicator} />
+      </div>
+
       {/* Chart */}
       <div style={{ height }}>
         <ResponsiveContainer width="100%" height="100%">
@@ -388,8 +350,7 @@ export function PriceHistoryChart({
               formatter={(value: number, name: string) => [
                 formatPrice(value),
                 name === 'usd' ? 'USD' : 
-                name === 'usdFoil' ? 'USD Foil' :
-                name === 'movingAverage' ? 'Moving Average' : name
+                name === 'usdFoil' ? 'USD Foil' : name
               ]}
               labelFormatter={(label) => `Date: ${label}`}
             />
@@ -418,17 +379,62 @@ export function PriceHistoryChart({
               />
             )}
             
-            {/* Moving average */}
-            {showMovingAverage && (
+            {/* Indicator overlays */}
+            {indicators.includes('sma') && (
               <Line
                 type="monotone"
-                dataKey="movingAverage"
-                stroke="#10B981"
+                dataKey="sma"
+                stroke={INDICATOR_COLORS.sma}
                 strokeWidth={1}
                 dot={false}
-                name="Moving Average"
+                name={PRICE_INDICATORS.sma.label}
                 strokeDasharray="2 2"
-                opacity={0.7}
+                connectNulls
+              />
+            )}
+            {indicators.includes('ema') && (
+              <Line
+                type="monotone"
+                dataKey="ema"
+                stroke={INDICATOR_COLORS.ema}
+                strokeWidth={1}
+                dot={false}
+                name={PRICE_INDICATORS.ema.label}
+                strokeDasharray="2 2"
+                connectNulls
+              />
+            )}
+            {indicators.includes('bollinger') && (
+              <>
+                <Line
+                  type="monotone"
+                  dataKey="bollingerUpper"
+                  stroke={INDICATOR_COLORS.bollinger}
+                  strokeWidth={1}
+                  dot={false}
+                  name="Upper Band"
+                  opacity={0.7}
+                  connectNulls
+                />
+                <Line
+                  type="monotone"
+                  dataKey="bollingerLower"
+                  stroke={INDICATOR_COLORS.bollinger}
+                  strokeWidth={1}
+                  dot={false}
+                  name="Lower Band"
+                  opacity={0.7}
+                  connectNulls
+                />
+              </>
+            )}
+            {drawdown && (
+              <ReferenceArea
+                x1={drawdown.from}
+                x2={drawdown.to}
+                fill={INDICATOR_COLORS.drawdown}
+                fillOpacity={0.1}
+                label={{ value: `-${drawdown.percent.toFixed(1)}%`, position: 'insideTop', fontSize: 12 }}
               />
             )}
             
@@ -447,6 +453,8 @@ export function PriceHistoryChart({
         </ResponsiveContainer>
       </div>
 
+      <IndicatorOscillators data={chartData} selected={indicators} xAxisKey="formattedDate" />
+
       {/* Footer with data source info */}
       <div className="mt-4 flex items-center justify-between text-xs text-muted-foreground">
         <div className="flex items-center space-x-1">
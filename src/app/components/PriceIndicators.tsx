@@ -0,0 +1,102 @@
+'use client';
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { IndicatorValues, PRICE_INDICATORS, PriceIndicator } from '@/lib/utils/priceIndicators';
+
+export const INDICATOR_COLORS: Record<PriceIndicator, string> = {
+  sma: '#10b981',
+  ema: '#f97316',
+  bollinger: '#a855f7',
+  rsi: '#0ea5e9',
+  roc: '#eab308',
+  drawdown: '#ef4444',
+};
+
+interface IndicatorTogglesProps {
+  selected: PriceIndicator[];
+  onToggle: (indicator: PriceIndicator) => void;
+}
+
+export function IndicatorToggles({ selected, onToggle }: IndicatorTogglesProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(PRICE_INDICATORS) as PriceIndicator[]).map(indicator => (
+        <button
+          key={indicator}
+          onClick={() => onToggle(indicator)}
+          title={PRICE_INDICATORS[indicator].description}
+          className={`flex items-center space-x-1 text-xs px-2 py-1 rounded-full border transition-colors ${
+            selected.includes(indicator)
+              ? 'border-primary text-foreground bg-accent'
+              : 'border-border text-muted-foreground hover:bg-accent'
+          }`}
+        >
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: INDICATOR_COLORS[indicator] }} />
+          <span>{PRICE_INDICATORS[indicator].label}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface IndicatorOscillatorsProps {
+  data: IndicatorValues[];
+  selected: PriceIndicator[];
+  xAxisKey: string;
+  height?: number;
+}
+
+/**
+ * RSI and rate of change, each under the price chart on its own scale
+ */
+export function IndicatorOscillators({ data, selected, xAxisKey, height = 100 }: IndicatorOscillatorsProps) {
+  const oscillators = selected.filter(indicator => PRICE_INDICATORS[indicator].oscillator);
+  if (oscillators.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      {oscillators.map(indicator => (
+        <div key={indicator}>
+          <p className="text-xs text-muted-foreground mb-1">{PRICE_INDICATORS[indicator].label}</p>
+          <div style={{ height }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey={xAxisKey} hide />
+                <YAxis
+                  domain={indicator === 'rsi' ? [0, 100] : ['auto', 'auto']}
+                  ticks={indicator === 'rsi' ? [30, 70] : undefined}
+                  tickFormatter={(value: number) => indicator === 'roc' ? `${value.toFixed(0)}%` : String(value)}
+                  tick={{ fontSize: 12 }}
+                  width={40}
+                />
+                <Tooltip
+                  formatter={(value: number) => [
+                    indicator === 'roc' ? `${value.toFixed(2)}%` : value.toFixed(1),
+                    PRICE_INDICATORS[indicator].label,
+                  ]}
+                />
+                {indicator === 'rsi' ? (
+                  <>
+                    <ReferenceLine y={70} stroke="#ef4444" strokeDasharray="3 3" />
+                    <ReferenceLine y={30} stroke="#10b981" strokeDasharray="3 3" />
+                  </>
+                ) : (
+                  <ReferenceLine y={0} stroke="#6b7280" strokeDasharray="3 3" />
+                )}
+                <Line
+                  type="monotone"
+                  dataKey={indicator}
+                  stroke={INDICATOR_COLORS[indicator]}
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
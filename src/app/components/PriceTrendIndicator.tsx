@@ -2,10 +2,14 @@ import React from 'react';
 import { TrendingUp, TrendingDown, Minus, AlertTriangle } from 'lucide-react';
 import { TrendData, VolatilityMetrics } from '@/lib/utils/priceAnalysis';
 import { formatTrendDisplay, getVolatilityBadge } from '@/lib/utils/priceAnalysis';
+import { describeAnomaly, getAnomalyBadge } from '@/lib/utils/priceAnomalies';
+import { formatProviderPrice } from '@/lib/utils/priceProviders';
+import { PriceAnomaly, PriceCurrency } from '@/lib/types';
 
 interface PriceTrendIndicatorProps {
   trend: TrendData | null;
   volatility?: VolatilityMetrics | null;
+  anomalies?: PriceAnomaly[];
   timeframe?: '7d' | '30d';
   size?: 'sm' | 'md' | 'lg';
   showVolatility?: boolean;
@@ -18,6 +22,7 @@ interface PriceTrendIndicatorProps {
 export function PriceTrendIndicator({
   trend,
   volatility,
+  anomalies = [],
   timeframe = '7d',
   size = 'sm',
   showVolatility = false,
@@ -77,6 +82,11 @@ export function PriceTrendIndicator({
         </div>
       )}
 
+      {/* Most recent unusual move */}
+      {anomalies.length > 0 && (
+        <PriceAnomalyBadge anomaly={anomalies[anomalies.length - 1]} />
+      )}
+
       {/* Low confidence indicator */}
       {trend.confidence === 'low' && (
         <div title="Low confidence - limited data available">
@@ -99,6 +109,30 @@ export function PriceTrendIndicator({
   );
 }
 
+/**
+ * Badge for an unusual price move, e.g. "Buyout"
+ */
+export function PriceAnomalyBadge({
+  anomaly,
+  currency = 'usd',
+  className = ''
+}: {
+  anomaly: PriceAnomaly;
+  currency?: PriceCurrency;
+  className?: string;
+}) {
+  const { text, colorClass } = getAnomalyBadge(anomaly);
+
+  return (
+    <div
+      className={`px-1.5 py-0.5 rounded text-xs border ${colorClass} ${className}`}
+      title={describeAnomaly(anomaly, price => formatProviderPrice(price, currency))}
+    >
+      {text}
+    </div>
+  );
+}
+
 /**
  * Compact version for use in card grids
  */
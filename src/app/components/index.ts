@@ -8,4 +8,8 @@ export { LoadingSpinner } from './LoadingSpinner';
 export { Modal, ConfirmDialog } from './Modal';
 export { Navigation } from './Navigation';
 export { DataSourceIndicator } from './DataSourceIndicator';
-export { PriceTrendIndicator } from './PriceTrendIndicator';
+export { PriceTrendIndicator, PriceAnomalyBadge } from './PriceTrendIndicator';
+export { IndicatorToggles, IndicatorOscillators } from './PriceIndicators';
+export { PriceAlertMonitor } from './PriceAlertMonitor';
+export { PortfolioRepricingMonitor } from './PortfolioRepricingMonitor';
+export { PortfolioSnapshotRecorder } from './PortfolioSnapshotRecorder';
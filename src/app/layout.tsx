@@ -2,6 +2,9 @@ import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
 import './globals.css'
 import { Navigation } from './components/Navigation'
+import { PriceAlertMonitor } from './components/PriceAlertMonitor'
+import { PortfolioRepricingMonitor } from './components/PortfolioRepricingMonitor'
+import { PortfolioSnapshotRecorder } from './components/PortfolioSnapshotRecorder'
 import { ThemeProvider } from '@/lib/contexts/ThemeContext'
 
 const inter = Inter({ subsets: ['latin'] })
@@ -34,6 +37,9 @@ export default function RootLayout({
             <main className="container mx-auto px-4 py-8">
               {children}
             </main>
+            <PriceAlertMonitor />
+            <PortfolioRepricingMonitor />
+            <PortfolioSnapshotRecorder />
           </div>
         </ThemeProvider>
       </body>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 
 // Simple debounce utility function
 function debounce<T extends (...args: any[]) => any>(func: T, wait: number): T {
@@ -11,19 +11,23 @@ function debounce<T extends (...args: any[]) => any>(func: T, wait: number): T {
   }) as T;
 }
 import { X, Search, Plus } from 'lucide-react';
-import { MTGCard, PortfolioCard } from '@/lib/types';
+import { CurrencyCode, MTGCard, PortfolioCard } from '@/lib/types';
 // Using new unified API client
 // import { searchCards } from '@/lib/api/scryfall';
 import { LoadingSpinner } from '@/app/components/LoadingSpinner';
 import { ErrorMessage } from '@/app/components/ErrorMessage';
 import { CardItem } from '@/app/cards/components/CardItem';
 import { getPreferences } from '@/lib/storage';
+import { valuationService } from '@/lib/services/valuationService';
+import { fxRateService } from '@/lib/services/fxRateService';
+import { CURRENCY_LABELS, SUPPORTED_CURRENCIES, formatCurrency } from '@/lib/utils/currency';
 import { Calculator, Percent } from 'lucide-react';
 
 interface AddCardModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAddCard: (card: PortfolioCard) => void;
+  baseCurrency?: CurrencyCode; // The portfolio's base currency
 }
 
 const conditionOptions = [
@@ -36,7 +40,7 @@ const conditionOptions = [
   { value: 'poor', label: 'Poor (PR)' },
 ] as const;
 
-export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps) {
+export function AddCardModal({ isOpen, onClose, onAddCard, baseCurrency = 'usd' }: AddCardModalProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<MTGCard[]>([]);
   const [selectedCard, setSelectedCard] = useState<MTGCard | null>(null);
@@ -46,10 +50,16 @@ export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps)
   // Form state
   const [quantity, setQuantity] = useState(1);
   const [purchasePrice, setPurchasePrice] = useState('');
+  const [purchaseCurrency, setPurchaseCurrency] = useState<CurrencyCode>(baseCurrency);
   const [condition, setCondition] = useState<PortfolioCard['condition']>('near_mint');
   const [foil, setFoil] = useState(false);
   const [notes, setNotes] = useState('');
 
+  // Purchases default to the base currency of the portfolio being viewed
+  useEffect(() => {
+    setPurchaseCurrency(baseCurrency);
+  }, [baseCurrency]);
+
   // Debounced search function
   const debouncedSearch = useCallback(
     debounce(async (query: string) => {
@@ -102,7 +112,7 @@ export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps)
     setSelectedCard(card);
     // Auto-fill purchase price based on user's default buy price percentage
     const preferences = getPreferences();
-    const currentPrice = card.prices.usd || card.prices.eur || 0;
+    const currentPrice = valuationService.getMarketPrice(card, foil, purchaseCurrency);
     if (currentPrice > 0) {
       const buyPricePercentage = preferences.defaultBuyPricePercentage || 90;
       const estimatedBuyPrice = (currentPrice * buyPricePercentage) / 100;
@@ -122,6 +132,7 @@ export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps)
       condition,
       foil,
       notes: notes.trim() || undefined,
+      purchaseCurrency,
     };
 
     onAddCard(portfolioCard);
@@ -130,6 +141,7 @@ export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps)
     setSelectedCard(null);
     setQuantity(1);
     setPurchasePrice('');
+    setPurchaseCurrency(baseCurrency);
     setCondition('near_mint');
     setFoil(false);
     setNotes('');
@@ -157,6 +169,10 @@ export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps)
     onClose();
   };
 
+  const selectedMarketPrice = selectedCard
+    ? valuationService.getMarketPrice(selectedCard, foil, purchaseCurrency)
+    : 0;
+
   if (!isOpen) return null;
 
   return (
@@ -270,7 +286,7 @@ export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps)
                     <h3 className="font-semibold text-foreground">{selectedCard.name}</h3>
                     <p className="text-sm text-muted-foreground">{selectedCard.setName}</p>
                     <p className="text-sm text-muted-foreground">
-                      Current Price: ${selectedCard.prices.usd ? Number(selectedCard.prices.usd).toFixed(2) : 'N/A'}
+                      Current Price: {selectedMarketPrice > 0 ? formatCurrency(selectedMarketPrice, purchaseCurrency) : 'N/A'}
                     </p>
                   </div>
                   <button
@@ -299,9 +315,9 @@ export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps)
 
                 <div className="space-y-2">
                   <label className="block text-sm font-medium text-foreground">
-                    Purchase Price (USD) *
+                    Purchase Price *
                   </label>
-                  <div className="relative">
+                  <div className="flex space-x-2">
                     <input
                       type="number"
                       step="0.01"
@@ -309,12 +325,28 @@ export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps)
                       value={purchasePrice}
                       onChange={(e) => setPurchasePrice(e.target.value)}
                       placeholder="0.00"
-                      className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                      className="flex-1 px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
                     />
+                    <select
+                      value={purchaseCurrency}
+                      onChange={(e) => setPurchaseCurrency(e.target.value as CurrencyCode)}
+                      className="px-2 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {/* Only currencies that can be converted to the base currency */}
+                      {SUPPORTED_CURRENCIES.filter(code => fxRateService.hasRate(code, baseCurrency)).map(code => (
+                        <option key={code} value={code}>{CURRENCY_LABELS[code]}</option>
+                      ))}
+                    </select>
                   </div>
-                  {selectedCard && selectedCard.prices.usd && (
+                  {purchaseCurrency !== baseCurrency && (
+                    <p className="text-xs text-muted-foreground">
+                      Converted to {baseCurrency.toUpperCase()} with your FX rates when added
+                    </p>
+                  )}
+                  {selectedCard && selectedMarketPrice > 0 && (
                     <BuyPriceEstimator
-                      marketPrice={selectedCard.prices.usd}
+                      marketPrice={selectedMarketPrice}
+                      currency={purchaseCurrency}
                       onPriceSelect={setPurchasePrice}
                     />
                   )}
@@ -401,10 +433,11 @@ export function AddCardModal({ isOpen, onClose, onAddCard }: AddCardModalProps)
 // Buy Price Estimator Component
 interface BuyPriceEstimatorProps {
   marketPrice: number;
+  currency: CurrencyCode;
   onPriceSelect: (price: string) => void;
 }
 
-function BuyPriceEstimator({ marketPrice, onPriceSelect }: BuyPriceEstimatorProps) {
+function BuyPriceEstimator({ marketPrice, currency, onPriceSelect }: BuyPriceEstimatorProps) {
   const preferences = getPreferences();
   const defaultPercentage = preferences.defaultBuyPricePercentage || 90;
   
@@ -418,7 +451,7 @@ function BuyPriceEstimator({ marketPrice, onPriceSelect }: BuyPriceEstimatorProp
       </div>
       
       <div className="text-xs text-muted-foreground mb-3">
-        Market Price: ${marketPrice.toFixed(2)} • Current setting: {defaultPercentage}%
+        Market Price: {formatCurrency(marketPrice, currency)} • Current setting: {defaultPercentage}%
       </div>
       
       <div className="grid grid-cols-3 gap-2">
@@ -440,7 +473,7 @@ function BuyPriceEstimator({ marketPrice, onPriceSelect }: BuyPriceEstimatorProp
                 <Percent className="h-3 w-3" />
                 <span className="font-medium">{percentage}%</span>
               </div>
-              <span className="font-mono">${calculatedPrice.toFixed(2)}</span>
+              <span className="font-mono">{formatCurrency(calculatedPrice, currency)}</span>
             </button>
           );
         })}
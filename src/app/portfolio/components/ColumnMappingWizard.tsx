@@ -0,0 +1,258 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Columns3, AlertTriangle } from 'lucide-react';
+import { ImportColumnMapping, ImportDateFormat, ImportField, PortfolioCard } from '@/lib/types';
+
+interface ColumnMappingWizardProps {
+  headers: string[];
+  rows: string[][]; // Data rows, without the header
+  initialColumns: ImportColumnMapping[];
+  onCancel: () => void;
+  onComplete: (columns: ImportColumnMapping[], profileName: string | null) => void;
+}
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Card name',
+  set: 'Set',
+  scryfallId: 'Scryfall ID',
+  collectorNumber: 'Collector number',
+  quantity: 'Quantity',
+  condition: 'Condition',
+  foil: 'Foil',
+  purchasePrice: 'Purchase price',
+  purchaseCurrency: 'Purchase currency',
+  purchaseDate: 'Purchase date',
+  language: 'Language',
+  notes: 'Notes',
+};
+
+const DATE_FORMAT_LABELS: Record<ImportDateFormat, string> = {
+  iso: 'YYYY-MM-DD',
+  mdy: 'MM/DD/YYYY',
+  dmy: 'DD/MM/YYYY',
+};
+
+const CONDITION_LABELS: Record<PortfolioCard['condition'], string> = {
+  mint: 'Mint',
+  near_mint: 'Near Mint',
+  excellent: 'Excellent',
+  good: 'Good',
+  light_played: 'Light Played',
+  played: 'Played',
+  poor: 'Poor',
+};
+
+const SAMPLE_ROW_COUNT = 3;
+const MAX_CONDITION_VALUES = 20;
+
+const selectClassName =
+  'w-full px-2 py-1 border border-border rounded bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent';
+
+export function ColumnMappingWizard({ headers, rows, initialColumns, onCancel, onComplete }: ColumnMappingWizardProps) {
+  const normalizedHeaders = useMemo(() => headers.map(h => h.toLowerCase().trim()), [headers]);
+  const [columns, setColumns] = useState<ImportColumnMapping[]>(initialColumns);
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+
+  const mappingFor = (header: string) => columns.find(c => c.header === header);
+  const conditionColumn = columns.find(c => c.field === 'condition');
+  const hasName = columns.some(c => c.field === 'name');
+
+  // Distinct values in the condition column, so each can be assigned a condition
+  const conditionValues = useMemo(() => {
+    if (!conditionColumn) return [];
+    const index = normalizedHeaders.indexOf(conditionColumn.header);
+    const values = new Set<string>();
+    for (const row of rows) {
+      const value = row[index]?.trim().toLowerCase();
+      if (value) values.add(value);
+      if (values.size >= MAX_CONDITION_VALUES) break;
+    }
+    return Array.from(values);
+  }, [conditionColumn, normalizedHeaders, rows]);
+
+  const assignField = (header: string, field: ImportField | '') => {
+    // A field can only come from one column
+    const others = columns.filter(c => c.header !== header && c.field !== field);
+    setColumns(field ? [...others, { header, field }] : others);
+  };
+
+  const updateMapping = (header: string, changes: Partial<ImportColumnMapping>) => {
+    setColumns(columns.map(c => (c.header === header ? { ...c, ...changes } : c)));
+  };
+
+  const setConditionValue = (value: string, condition: PortfolioCard['condition'] | '') => {
+    if (!conditionColumn) return;
+    const vocabulary = { ...conditionColumn.conditionValues };
+    if (condition) {
+      vocabulary[value] = condition;
+    } else {
+      delete vocabulary[value];
+    }
+    updateMapping(conditionColumn.header, { conditionValues: vocabulary });
+  };
+
+  const handleContinue = () => {
+    const name = profileName.trim();
+    onComplete(columns, saveProfile && name ? name : null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center space-x-2">
+          <Columns3 className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-medium text-foreground">Map Columns</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          This file&apos;s format wasn&apos;t recognized. Choose what each column contains.
+        </p>
+      </div>
+
+      <div className="max-h-80 overflow-auto border border-border rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-accent border-b border-border">
+            <tr>
+              <th className="text-left p-2">Column</th>
+              <th className="text-left p-2">Sample values</th>
+              <th className="text-left p-2 w-44">Field</th>
+              <th className="text-left p-2 w-40">Format</th>
+            </tr>
+          </thead>
+          <tbody>
+            {headers.map((header, index) => {
+              const normalized = normalizedHeaders[index];
+              const mapping = mappingFor(normalized);
+
+              return (
+                <tr key={index} className="border-b border-border align-top">
+                  <td className="p-2 font-medium text-foreground">{header || `Column ${index + 1}`}</td>
+                  <td className="p-2 text-muted-foreground">
+                    {rows.slice(0, SAMPLE_ROW_COUNT).map((row, rowIndex) => (
+                      <div key={rowIndex} className="truncate max-w-[12rem]">{row[index] || '-'}</div>
+                    ))}
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={mapping?.field || ''}
+                      onChange={(e) => assignField(normalized, e.target.value as ImportField | '')}
+                      className={selectClassName}
+                    >
+                      <option value="">Ignore</option>
+                      {(Object.keys(FIELD_LABELS) as ImportField[]).map(field => (
+                        <option key={field} value={field}>{FIELD_LABELS[field]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    {mapping?.field === 'purchaseDate' && (
+                      <select
+                        value={mapping.dateFormat || ''}
+                        onChange={(e) => updateMapping(normalized, {
+                          dateFormat: (e.target.value || undefined) as ImportDateFormat | undefined,
+                        })}
+                        className={selectClassName}
+                      >
+                        <option value="">As written</option>
+                        {(Object.keys(DATE_FORMAT_LABELS) as ImportDateFormat[]).map(format => (
+                          <option key={format} value={format}>{DATE_FORMAT_LABELS[format]}</option>
+                        ))}
+                      </select>
+                    )}
+                    {mapping?.field === 'purchasePrice' && (
+                      <select
+                        value={mapping.decimalSeparator || ''}
+                        onChange={(e) => updateMapping(normalized, {
+                          decimalSeparator: (e.target.value || undefined) as '.' | ',' | undefined,
+                        })}
+                        className={selectClassName}
+                      >
+                        <option value="">Detect</option>
+                        <option value=".">1,234.56</option>
+                        <option value=",">1.234,56</option>
+                      </select>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {conditionColumn && conditionValues.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-foreground">Condition values</h4>
+          <p className="text-xs text-muted-foreground">
+            Values left on Automatic are matched by name, e.g. &quot;NM&quot; or &quot;Lightly Played&quot;.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {conditionValues.map(value => (
+              <div key={value} className="flex items-center space-x-2">
+                <span className="w-1/2 truncate text-sm text-foreground">{value}</span>
+                <select
+                  value={conditionColumn.conditionValues?.[value] || ''}
+                  onChange={(e) => setConditionValue(value, e.target.value as PortfolioCard['condition'] | '')}
+                  className={selectClassName}
+                >
+                  <option value="">Automatic</option>
+                  {(Object.keys(CONDITION_LABELS) as PortfolioCard['condition'][]).map(condition => (
+                    <option key={condition} value={condition}>{CONDITION_LABELS[condition]}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="saveProfile"
+            checked={saveProfile}
+            onChange={(e) => setSaveProfile(e.target.checked)}
+            className="rounded border-border text-primary focus:ring-primary"
+          />
+          <label htmlFor="saveProfile" className="text-sm text-foreground">
+            Save as an import profile and use it for files with these columns
+          </label>
+        </div>
+        {saveProfile && (
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profile name, e.g. My spreadsheet"
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+        )}
+      </div>
+
+      {!hasName && (
+        <div className="flex items-center space-x-2 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4" />
+          <span>Choose the column that holds the card name.</span>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={onCancel}
+          className="border border-border px-4 py-2 rounded-lg hover:bg-accent transition-colors"
+        >
+          Choose Different File
+        </button>
+        <button
+          onClick={handleContinue}
+          disabled={!hasName || (saveProfile && !profileName.trim())}
+          className="bg-primary text-primary-foreground px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          Import Cards
+        </button>
+      </div>
+    </div>
+  );
+}
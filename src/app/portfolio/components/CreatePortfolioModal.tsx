@@ -1,10 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Wallet } from 'lucide-react';
-import { Portfolio, PortfolioModalProps } from '@/lib/types/all';
-import { savePortfolio } from '@/lib/storage';
+import { CostBasisMethod, CurrencyCode, Portfolio, PortfolioModalProps } from '@/lib/types/all';
+import { getPreferences, savePortfolio } from '@/lib/storage';
 import { Modal } from '@/app/components/Modal';
+import { COST_BASIS_METHOD_LABELS, DEFAULT_COST_BASIS_METHOD } from '@/lib/utils/costBasis';
+import { fxRateService } from '@/lib/services/fxRateService';
+import { CURRENCY_LABELS } from '@/lib/utils/currency';
+
+// The preferred currency, unless the FX rate table doesn't cover it
+function getDefaultCurrency(ratedCurrencies: CurrencyCode[]): CurrencyCode {
+  const preferred = getPreferences().defaultCurrency;
+  return ratedCurrencies.includes(preferred) ? preferred : ratedCurrencies[0];
+}
 
 export function CreatePortfolioModal({
   isOpen,
@@ -13,9 +22,21 @@ export function CreatePortfolioModal({
 }: PortfolioModalProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(DEFAULT_COST_BASIS_METHOD);
+  // Prices can only be valued in currencies the FX rate table covers
+  const [ratedCurrencies, setRatedCurrencies] = useState(() => fxRateService.getRatedCurrencies());
+  const [baseCurrency, setBaseCurrency] = useState<CurrencyCode>(() => getDefaultCurrency(ratedCurrencies));
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
+  // Rates may have been added or removed in Settings since the modal was last open
+  useEffect(() => {
+    if (!isOpen) return;
+    const rated = fxRateService.getRatedCurrencies();
+    setRatedCurrencies(rated);
+    setBaseCurrency(getDefaultCurrency(rated));
+  }, [isOpen]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -36,6 +57,8 @@ export function CreatePortfolioModal({
         totalValue: 0,
         totalCost: 0,
         performance: 0,
+        costBasisMethod,
+        baseCurrency,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -46,6 +69,8 @@ export function CreatePortfolioModal({
       // Reset form
       setName('');
       setDescription('');
+      setCostBasisMethod(DEFAULT_COST_BASIS_METHOD);
+      setBaseCurrency(getDefaultCurrency(ratedCurrencies));
     } catch (err) {
       setError('Failed to create portfolio. Please try again.');
       console.error('Error creating portfolio:', err);
@@ -57,6 +82,8 @@ export function CreatePortfolioModal({
   const handleClose = () => {
     setName('');
     setDescription('');
+    setCostBasisMethod(DEFAULT_COST_BASIS_METHOD);
+    setBaseCurrency(getDefaultCurrency(ratedCurrencies));
     setError('');
     onClose();
   };
@@ -108,6 +135,46 @@ export function CreatePortfolioModal({
             />
           </div>
 
+          <div className="space-y-2">
+            <label htmlFor="costBasisMethod" className="block text-sm font-medium text-foreground">
+              Cost Basis Method
+            </label>
+            <select
+              id="costBasisMethod"
+              value={costBasisMethod}
+              onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              disabled={loading}
+            >
+              {Object.entries(COST_BASIS_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              Decides which purchase lots are used up when cards are removed
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="baseCurrency" className="block text-sm font-medium text-foreground">
+              Base Currency
+            </label>
+            <select
+              id="baseCurrency"
+              value={baseCurrency}
+              onChange={(e) => setBaseCurrency(e.target.value as CurrencyCode)}
+              className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              disabled={loading}
+            >
+              {ratedCurrencies.map(currency => (
+                <option key={currency} value={currency}>{CURRENCY_LABELS[currency]}</option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              Costs and values are tracked in this currency. Add exchange rates in Settings for more currencies.
+            </p>
+          </div>
+
           {/* Actions */}
           <div className="flex space-x-3 pt-4">
             <button
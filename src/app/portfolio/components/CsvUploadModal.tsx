@@ -2,26 +2,30 @@
 
 import { useState, useRef } from 'react';
 import { X, Upload, FileText, AlertTriangle, CheckCircle, Download } from 'lucide-react';
-import { MTGCard, PortfolioCard } from '@/lib/types';
+import { CurrencyCode, ImportColumnMapping, MTGCard, PortfolioCard, PrintingRule } from '@/lib/types';
 import { batchLookupCards } from '@/lib/api/scryfall';
-import { parseEnhancedCsv, generateSampleCsv } from '@/lib/utils/csvFormatDetector';
+import { getImportProfiles, getPrintingRules, saveImportProfile, savePrintingRule } from '@/lib/storage';
+import { generateUUID } from '@/lib/utils/uuid';
+import {
+  CsvEntry,
+  CsvFormat,
+  parseEnhancedCsvFile,
+  parseEntriesWithMappings,
+  generateSampleCsv,
+  suggestColumnMappings
+} from '@/lib/utils/csvFormatDetector';
+import { parseDecklist } from '@/lib/utils/decklistParser';
+import { applyPrintingRules, findPrintingRule, isAmbiguousEntry } from '@/lib/utils/printingRules';
+import { fingerprintImportRows } from '@/lib/utils/importPlan';
+import type { SetCardData } from '@/lib/utils/allPrintingsStorage';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { PrintingChooser } from './PrintingChooser';
 
 interface CsvUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
   onCardsImported: (cards: PortfolioCard[]) => void;
-}
-
-interface CardSphereEntry {
-  name: string;
-  set?: string;
-  scryfallId?: string;  // Add Scryfall ID support
-  quantity: number;
-  condition: PortfolioCard['condition'];
-  foil: boolean;
-  purchasePrice: number;
-  purchaseDate: string;
-  notes?: string;
+  destination?: 'portfolio' | 'watchlist';
 }
 
 interface ImportResult {
@@ -31,137 +35,65 @@ interface ImportResult {
   condition: string;
   foil: boolean;
   purchasePrice: number;
+  purchaseCurrency?: CurrencyCode;
   purchaseDate: string;
   notes?: string;
+  scryfallId?: string;
   card: MTGCard | null;
   error?: string;
   status: 'success' | 'error' | 'pending';
+  ambiguous?: boolean; // The row doesn't say which printing it is
+  remembered?: boolean; // The printing came from a printing rule
 }
 
-export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadModalProps) {
+const MAX_ERRORS_SHOWN = 5;
+
+// Plain-text decklists and MTGO deck files
+const DECKLIST_EXTENSIONS = ['.txt', '.dek'];
+
+const SAMPLE_FORMATS: Array<{ format: CsvFormat; label: string }> = [
+  { format: 'cardsphere', label: 'CardSphere' },
+  { format: 'moxfield', label: 'Moxfield' },
+  { format: 'archidekt', label: 'Archidekt' },
+  { format: 'mtga', label: 'MTGA' },
+  { format: 'deckbox', label: 'Deckbox' },
+  { format: 'manabox', label: 'ManaBox' },
+  { format: 'delver', label: 'Delver Lens' },
+  { format: 'dragonshield', label: 'Dragon Shield' },
+  { format: 'tcgplayer', label: 'TCGplayer' },
+];
+
+export function CsvUploadModal({ isOpen, onClose, onCardsImported, destination = 'portfolio' }: CsvUploadModalProps) {
   const [file, setFile] = useState<File | null>(null);
   const [importing, setImporting] = useState(false);
   const [results, setResults] = useState<ImportResult[]>([]);
   const [progress, setProgress] = useState(0);
   const [detectedFormat, setDetectedFormat] = useState<string | null>(null);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [parseWarnings, setParseWarnings] = useState<string[]>([]);
+  const [pastedList, setPastedList] = useState('');
+  const [mapping, setMapping] = useState<{
+    headers: string[];
+    rows: string[][]; // Header first
+    columns: ImportColumnMapping[];
+  } | null>(null);
+  const [choosingIndex, setChoosingIndex] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   if (!isOpen) return null;
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
-    if (selectedFile && selectedFile.type === 'text/csv') {
+    // Excel exports are often typed as application/vnd.ms-excel, so trust the extension too
+    if (selectedFile && (selectedFile.type === 'text/csv' || selectedFile.name.toLowerCase().endsWith('.csv') || isDecklistFile(selectedFile))) {
       setFile(selectedFile);
       setResults([]);
+      setParseErrors([]);
+      setParseWarnings([]);
+      setMapping(null);
     }
   };
 
-  const parseCardSphereCSV = (csvContent: string): CardSphereEntry[] => {
-    const lines = csvContent.split('\n').filter(line => line.trim());
-    
-    // Parse CSV with proper quote handling
-    const parseCSVLine = (line: string): string[] => {
-      const result: string[] = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          result.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      
-      result.push(current.trim());
-      return result;
-    };
-    
-    const headers = parseCSVLine(lines[0]).map(h => h.trim().toLowerCase());
-    
-    // Debug: Log headers
-    console.log('CSV Headers:', headers);
-    
-    // Map common CardSphere CSV headers
-    const headerMap: Record<string, string> = {
-      'name': 'name',
-      'card name': 'name',
-      'card_name': 'name',
-      'set': 'set',
-      'set code': 'set',
-      'set_code': 'set',
-      'edition': 'set',
-      'quantity': 'quantity',
-      'count': 'quantity',  // CardSphere uses 'Count' for quantity
-      'qty': 'quantity',
-      'condition': 'condition',
-      'foil': 'foil',
-      'is foil': 'foil',
-      'is_foil': 'foil',
-      'price': 'purchasePrice',
-      'purchase price': 'purchasePrice',
-      'purchase_price': 'purchasePrice',
-      'cost': 'purchasePrice',
-      'date': 'purchaseDate',
-      'purchase date': 'purchaseDate',
-      'purchase_date': 'purchaseDate',
-      'acquired date': 'purchaseDate',
-      'last modified': 'purchaseDate',  // CardSphere uses 'Last Modified'
-      'notes': 'notes',
-      'comment': 'notes',
-      'comments': 'notes',
-      'tags': 'notes',  // CardSphere uses 'Tags' which we can map to notes
-      'scryfall id': 'scryfallId',  // CardSphere includes Scryfall ID - use this!
-      'scryfall_id': 'scryfallId'
-    };
-
-    const entries: CardSphereEntry[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = parseCSVLine(lines[i]);
-      const entry: any = {};
-
-      // Debug: Log first row
-      if (i === 1) {
-        console.log('First row values:', values);
-        console.log('Values length:', values.length);
-      }
-
-      headers.forEach((header, index) => {
-        const mappedField = headerMap[header];
-        if (mappedField && values[index] && values[index] !== '') {
-          entry[mappedField] = values[index];
-          
-          // Debug: Log Scryfall ID mapping
-          if (i === 1 && mappedField === 'scryfallId') {
-            console.log(`Mapped Scryfall ID: header="${header}", index=${index}, value="${values[index]}"`);
-          }
-        }
-      });
-
-      if (entry.name) {
-        entries.push({
-          name: entry.name,
-          set: entry.set || undefined,
-          scryfallId: entry.scryfallId || undefined,  // Include Scryfall ID
-          quantity: parseInt(entry.quantity) || 1,
-          condition: mapCondition(entry.condition) || 'near_mint',
-          foil: parseFoil(entry.foil),
-          purchasePrice: parseFloat(entry.purchasePrice) || 0,
-          purchaseDate: entry.purchaseDate || new Date().toISOString().split('T')[0],
-          notes: entry.notes || undefined
-        });
-      }
-    }
-
-    return entries;
-  };
-
   const mapCondition = (condition: string): PortfolioCard['condition'] => {
     const conditionLower = condition?.toLowerCase() || '';
     if (conditionLower.includes('mint') && !conditionLower.includes('near')) return 'mint';
@@ -174,66 +106,76 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
     return 'near_mint';
   };
 
-  const parseFoil = (foil: string): boolean => {
-    const foilLower = foil?.toLowerCase() || '';
-    return foilLower === 'true' || foilLower === 'yes' || foilLower === '1' || foilLower === 'foil';
-  };
-
   const handleImport = async () => {
     if (!file) return;
 
+    if (isDecklistFile(file)) {
+      await importDecklist(await file.text());
+      return;
+    }
+
     setImporting(true);
     setProgress(0);
 
     try {
-      const csvContent = await file.text();
-      const parseResult = parseEnhancedCsv(csvContent);
-      
-      if (parseResult.entries.length === 0) {
-        throw new Error('No valid card entries found in CSV file');
+      // Parsing reports the first half of the progress, card lookup the rest
+      const parseResult = await parseEnhancedCsvFile(
+        file,
+        fraction => setProgress(Math.round(fraction * 50)),
+        getImportProfiles()
+      );
+      setParseErrors(parseResult.errors);
+      setParseWarnings(parseResult.warnings);
+
+      // Nothing recognizable, so let the user say what each column holds
+      if (parseResult.format.format === 'unknown' && !parseResult.profile && parseResult.rows.length > 1) {
+        setMapping({
+          headers: parseResult.headers,
+          rows: parseResult.rows,
+          columns: suggestColumnMappings(parseResult.headers),
+        });
+        return;
       }
 
       // Show format detection results
-      setDetectedFormat(`${parseResult.format.format} (${Math.round(parseResult.format.confidence * 100)}% confidence)`);
-      console.log(`Detected format: ${parseResult.format.format} (${Math.round(parseResult.format.confidence * 100)}% confidence)`);
-      if (parseResult.warnings.length > 0) {
-        console.warn('Import warnings:', parseResult.warnings);
-      }
-      if (parseResult.errors.length > 0) {
-        console.error('Import errors:', parseResult.errors);
-      }
+      setDetectedFormat(parseResult.profile
+        ? `${parseResult.profile.name} (saved profile)`
+        : `${parseResult.format.format} (${Math.round(parseResult.format.confidence * 100)}% confidence)`);
 
-      // Initialize results
-      const initialResults: ImportResult[] = parseResult.entries.map(entry => ({
-        ...entry,
-        card: null,
-        status: 'pending' as const
-      }));
-      setResults(initialResults);
-
-      // Batch lookup cards from Scryfall
-      const lookupEntries = parseResult.entries.map(entry => ({
-        name: entry.name,
-        set: entry.set,
-        scryfallId: entry.scryfallId  // Include Scryfall ID for direct lookup
-      }));
-
-      const lookupResults = await batchLookupCards(lookupEntries);
-      
-      // Update results with lookup data
-      const finalResults: ImportResult[] = parseResult.entries.map((entry, index) => {
-        const lookupResult = lookupResults[index];
-        return {
-          ...entry,
-          card: lookupResult.card,
-          error: lookupResult.error,
-          status: lookupResult.card ? 'success' : 'error'
-        };
+      await lookupEntries(parseResult.entries);
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      alert(error instanceof Error ? error.message : 'Error importing CSV file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleMappingComplete = async (columns: ImportColumnMapping[], profileName: string | null) => {
+    if (!mapping) return;
+
+    const errors = [...parseErrors];
+    const entries = parseEntriesWithMappings(mapping.rows, columns, errors);
+    setParseErrors(errors);
+
+    if (profileName) {
+      const now = new Date().toISOString();
+      saveImportProfile({
+        id: generateUUID(),
+        name: profileName,
+        headers: mapping.headers.map(h => h.toLowerCase().trim()),
+        columns,
+        createdAt: now,
+        updatedAt: now,
       });
+    }
 
-      setResults(finalResults);
-      setProgress(100);
-      
+    setMapping(null);
+    setDetectedFormat(profileName ? `${profileName} (saved profile)` : 'custom column mapping');
+    setImporting(true);
+
+    try {
+      await lookupEntries(entries);
     } catch (error) {
       console.error('Error importing CSV:', error);
       alert(error instanceof Error ? error.message : 'Error importing CSV file');
@@ -242,6 +184,106 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
     }
   };
 
+  const importDecklist = async (content: string) => {
+    setImporting(true);
+    setProgress(0);
+
+    try {
+      const decklist = parseDecklist(content);
+      setParseErrors(decklist.errors);
+      setParseWarnings(decklist.warnings);
+      setDetectedFormat(decklist.format === 'dek' ? 'MTGO deck file' : 'Decklist');
+
+      await lookupEntries(decklist.entries);
+    } catch (error) {
+      console.error('Error importing decklist:', error);
+      alert(error instanceof Error ? error.message : 'Error importing decklist');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const lookupEntries = async (entries: CsvEntry[]) => {
+    if (entries.length === 0) {
+      throw new Error('No valid card entries found in CSV file');
+    }
+
+    // Rows that don't say which printing they are use the printing chosen before
+    const resolvedEntries = applyPrintingRules(entries, getPrintingRules());
+
+    // Initialize results
+    const initialResults: ImportResult[] = resolvedEntries.map((entry, index) => ({
+      ...entry,
+      card: null,
+      status: 'pending' as const,
+      ambiguous: isAmbiguousEntry(entry),
+      remembered: isAmbiguousEntry(entries[index]) && !isAmbiguousEntry(entry)
+    }));
+    setResults(initialResults);
+
+    // Batch lookup cards from Scryfall
+    const lookupResults = await batchLookupCards(resolvedEntries.map(entry => ({
+      name: entry.name,
+      set: entry.set,
+      scryfallId: entry.scryfallId,  // Include Scryfall ID for direct lookup
+      collectorNumber: entry.collectorNumber
+    })));
+    
+    // Update results with lookup data
+    const finalResults: ImportResult[] = initialResults.map((entry, index) => {
+      const lookupResult = lookupResults[index];
+      return {
+        ...entry,
+        card: lookupResult.card,
+        error: lookupResult.error,
+        status: lookupResult.card ? 'success' : 'error'
+      };
+    });
+
+    setResults(finalResults);
+    setProgress(100);
+  };
+
+  const handleChoosePrinting = async (printing: SetCardData) => {
+    if (choosingIndex === null || !printing.identifiers?.scryfallId) return;
+
+    const row = results[choosingIndex];
+    const scryfallId = printing.identifiers.scryfallId;
+    const rule: PrintingRule = {
+      id: generateUUID(),
+      name: row.name.toLowerCase().trim(),
+      set: row.set?.toLowerCase().trim() || undefined,
+      scryfallId,
+      setCode: printing.setCode,
+      collectorNumber: printing.number,
+      createdAt: new Date().toISOString(),
+    };
+    setChoosingIndex(null);
+
+    const [lookupResult] = await batchLookupCards([{ name: row.name, scryfallId }]);
+    if (!lookupResult?.card) {
+      alert(`Couldn't look up ${printing.name} (${printing.setCode.toUpperCase()}) on Scryfall`);
+      return;
+    }
+
+    savePrintingRule(rule);
+
+    // Other rows with the same name and set get the same printing
+    setResults(previous => previous.map(result =>
+      (result.ambiguous || result.remembered) && findPrintingRule([rule], result)
+        ? {
+            ...result,
+            scryfallId,
+            card: lookupResult.card,
+            error: undefined,
+            status: 'success',
+            ambiguous: false,
+            remembered: true
+          }
+        : result
+    ));
+  };
+
   const handleConfirmImport = () => {
     const successfulImports = results.filter(result => result.status === 'success' && result.card);
     
@@ -250,15 +292,19 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
       
       // Use CSV purchase price if provided, otherwise fall back to Scryfall price
       let purchasePrice = result.purchasePrice;
+      let purchaseCurrency = result.purchaseCurrency;
       
       // If no purchase price in CSV, use Scryfall price - prioritize foil price if card is foil
       if (!purchasePrice || purchasePrice === 0) {
         if (result.foil && card.prices.usdFoil) {
           purchasePrice = card.prices.usdFoil;
+          purchaseCurrency = 'usd';
         } else if (card.prices.usd) {
           purchasePrice = card.prices.usd;
+          purchaseCurrency = 'usd';
         } else if (card.prices.eur) {
           purchasePrice = card.prices.eur;
+          purchaseCurrency = 'eur';
         } else {
           purchasePrice = 0;
         }
@@ -269,6 +315,7 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
         card: card,
         quantity: result.quantity,
         purchasePrice: purchasePrice,
+        purchaseCurrency,
         purchaseDate: result.purchaseDate,
         condition: mapCondition(result.condition),
         foil: result.foil,
@@ -276,11 +323,12 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
       };
     });
 
-    onCardsImported(portfolioCards);
+    // Fingerprinted with the file's own prices, before market prices fill the gaps
+    onCardsImported(fingerprintImportRows(portfolioCards, successfulImports.map(result => result.purchasePrice)));
     onClose();
   };
 
-  const downloadSampleCSV = (format: 'cardsphere' | 'moxfield' | 'archidekt' | 'mtga' = 'cardsphere') => {
+  const downloadSampleCSV = (format: CsvFormat = 'cardsphere') => {
     const sampleCSV = generateSampleCsv(format);
 
     const blob = new Blob([sampleCSV], { type: 'text/csv' });
@@ -294,6 +342,8 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
 
   const successCount = results.filter(r => r.status === 'success').length;
   const errorCount = results.filter(r => r.status === 'error').length;
+  const ambiguousCount = results.filter(r => r.status === 'success' && r.ambiguous).length;
+  const choosingRow = choosingIndex !== null ? results[choosingIndex] : null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -302,7 +352,9 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
         <div className="flex items-center justify-between p-6 border-b border-border">
           <div className="flex items-center space-x-2">
             <FileText className="h-5 w-5 text-primary" />
-            <h2 className="text-xl font-semibold text-foreground">Import CSV Collection</h2>
+            <h2 className="text-xl font-semibold text-foreground">
+              {destination === 'watchlist' ? 'Import Cards to Watchlist' : 'Import CSV Collection'}
+            </h2>
           </div>
           <button
             onClick={onClose}
@@ -315,7 +367,7 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
         {/* Content */}
         <div className="p-6 space-y-6 overflow-y-auto max-h-[calc(90vh-180px)]">
           {/* File Upload */}
-          {!file && (
+          {!file && !importing && results.length === 0 && (
             <div className="space-y-4">
               <div className="text-center">
                 <div className="border-2 border-dashed border-border rounded-lg p-8">
@@ -324,12 +376,12 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
                     Upload CSV Collection File
                   </h3>
                   <p className="text-muted-foreground mb-4">
-                    Supports CardSphere, Moxfield, Archidekt, MTGA, and other common CSV formats
+                    Supports CardSphere, Moxfield, Archidekt, MTGA, Deckbox, ManaBox, Delver Lens, Dragon Shield, TCGplayer and other common CSV formats, plus decklists and MTGO .dek files
                   </p>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".csv"
+                    accept=".csv,.txt,.dek"
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -342,47 +394,52 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <label htmlFor="pastedList" className="block text-sm font-medium text-foreground">
+                  Or paste a decklist
+                </label>
+                <textarea
+                  id="pastedList"
+                  value={pastedList}
+                  onChange={(e) => setPastedList(e.target.value)}
+                  placeholder={'4 Lightning Bolt (M10) 146\n1 Sol Ring (C21) 263 *F*\n\nSideboard\n2 Duress'}
+                  rows={5}
+                  className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground placeholder-muted-foreground font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                />
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => importDecklist(pastedList)}
+                    disabled={!pastedList.trim()}
+                    className="bg-primary text-primary-foreground px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                  >
+                    Import List
+                  </button>
+                </div>
+              </div>
+
               <div className="bg-accent rounded-lg p-4">
                 <h4 className="font-medium text-foreground mb-2">Supported Formats & Samples:</h4>
                 <p className="text-sm text-muted-foreground mb-3">
                   Automatic format detection supports major collection platforms. Download sample templates:
                 </p>
                 <div className="grid grid-cols-2 gap-2">
-                  <button
-                    onClick={() => downloadSampleCSV('cardsphere')}
-                    className="flex items-center space-x-2 text-primary hover:text-primary/80 transition-colors text-sm"
-                  >
-                    <Download className="h-3 w-3" />
-                    <span>CardSphere</span>
-                  </button>
-                  <button
-                    onClick={() => downloadSampleCSV('moxfield')}
-                    className="flex items-center space-x-2 text-primary hover:text-primary/80 transition-colors text-sm"
-                  >
-                    <Download className="h-3 w-3" />
-                    <span>Moxfield</span>
-                  </button>
-                  <button
-                    onClick={() => downloadSampleCSV('archidekt')}
-                    className="flex items-center space-x-2 text-primary hover:text-primary/80 transition-colors text-sm"
-                  >
-                    <Download className="h-3 w-3" />
-                    <span>Archidekt</span>
-                  </button>
-                  <button
-                    onClick={() => downloadSampleCSV('mtga')}
-                    className="flex items-center space-x-2 text-primary hover:text-primary/80 transition-colors text-sm"
-                  >
-                    <Download className="h-3 w-3" />
-                    <span>MTGA</span>
-                  </button>
+                  {SAMPLE_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => downloadSampleCSV(format)}
+                      className="flex items-center space-x-2 text-primary hover:text-primary/80 transition-colors text-sm"
+                    >
+                      <Download className="h-3 w-3" />
+                      <span>{label}</span>
+                    </button>
+                  ))}
                 </div>
               </div>
             </div>
           )}
 
           {/* File Selected */}
-          {file && !importing && results.length === 0 && (
+          {file && !importing && results.length === 0 && !mapping && (
             <div className="space-y-4">
               <div className="space-y-2">
                 <div className="flex items-center space-x-2 text-foreground">
@@ -412,6 +469,20 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
             </div>
           )}
 
+          {/* Column Mapping */}
+          {mapping && !importing && (
+            <ColumnMappingWizard
+              headers={mapping.headers}
+              rows={mapping.rows.slice(1)}
+              initialColumns={mapping.columns}
+              onCancel={() => {
+                setMapping(null);
+                setFile(null);
+              }}
+              onComplete={handleMappingComplete}
+            />
+          )}
+
           {/* Import Progress */}
           {importing && (
             <div className="space-y-4">
@@ -447,6 +518,49 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
                 </div>
               </div>
 
+              {detectedFormat && (
+                <div className="text-sm text-muted-foreground">
+                  Detected format: <span className="font-medium text-foreground">{detectedFormat}</span>
+                </div>
+              )}
+
+              {parseWarnings.length > 0 && (
+                <div className="bg-accent border border-border rounded-lg p-3 text-sm">
+                  <p className="font-medium text-foreground mb-1">
+                    {parseWarnings.length} warning{parseWarnings.length === 1 ? '' : 's'}
+                  </p>
+                  <ul className="space-y-0.5 text-muted-foreground">
+                    {parseWarnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {parseErrors.length > 0 && (
+                <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 text-sm">
+                  <p className="font-medium text-yellow-800 dark:text-yellow-200 mb-1">
+                    {parseErrors.length} problem{parseErrors.length === 1 ? '' : 's'} found while reading the file
+                  </p>
+                  <ul className="space-y-0.5 text-yellow-700 dark:text-yellow-300">
+                    {parseErrors.slice(0, MAX_ERRORS_SHOWN).map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                    {parseErrors.length > MAX_ERRORS_SHOWN && (
+                      <li>...and {parseErrors.length - MAX_ERRORS_SHOWN} more</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              {ambiguousCount > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {ambiguousCount} row{ambiguousCount === 1 ? " doesn't" : "s don't"} say which printing
+                  {ambiguousCount === 1 ? ' it is' : ' they are'}, so Scryfall&apos;s default printing was used.
+                  Choose a printing to use it for these cards in this and later imports.
+                </p>
+              )}
+
               <div className="max-h-64 overflow-y-auto border border-border rounded-lg">
                 <table className="w-full text-sm">
                   <thead className="bg-accent border-b border-border">
@@ -461,14 +575,26 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
                     {results.map((result, index) => (
                       <tr key={index} className="border-b border-border">
                         <td className="p-2">{result.name}</td>
-                        <td className="p-2">{result.set || '-'}</td>
+                        <td className="p-2">
+                          {result.card ? `${result.card.setCode.toUpperCase()} #${result.card.number}` : result.set || '-'}
+                        </td>
                         <td className="p-2">{result.quantity}</td>
                         <td className="p-2">
                           {result.status === 'success' ? (
-                            <span className="flex items-center space-x-1 text-green-600">
-                              <CheckCircle className="h-4 w-4" />
-                              <span>Found</span>
-                            </span>
+                            <div className="flex items-center space-x-3">
+                              <span className="flex items-center space-x-1 text-green-600">
+                                <CheckCircle className="h-4 w-4" />
+                                <span>Found</span>
+                              </span>
+                              {(result.ambiguous || result.remembered) && (
+                                <button
+                                  onClick={() => setChoosingIndex(index)}
+                                  className="text-xs text-primary hover:text-primary/80 transition-colors"
+                                >
+                                  {result.ambiguous ? 'Choose printing' : 'Remembered printing'}
+                                </button>
+                              )}
+                            </div>
                           ) : (
                             <span className="flex items-center space-x-1 text-red-600" title={result.error}>
                               <AlertTriangle className="h-4 w-4" />
@@ -494,7 +620,9 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
                     onClick={handleConfirmImport}
                     className="bg-primary text-primary-foreground px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors"
                   >
-                    Import {successCount} Cards
+                    {destination === 'watchlist'
+                      ? `Add ${successCount} Cards to Watchlist`
+                      : `Import ${successCount} Cards`}
                   </button>
                 </div>
               )}
@@ -502,6 +630,21 @@ export function CsvUploadModal({ isOpen, onClose, onCardsImported }: CsvUploadMo
           )}
         </div>
       </div>
+
+      {choosingRow && (
+        <PrintingChooser
+          isOpen
+          onClose={() => setChoosingIndex(null)}
+          name={choosingRow.name}
+          set={choosingRow.set}
+          onChoose={handleChoosePrinting}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+function isDecklistFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return DECKLIST_EXTENSIONS.some(extension => name.endsWith(extension));
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { PortfolioCard } from '@/lib/types';
+import { Modal } from '@/app/components/Modal';
+import { EXPORT_FORMATS, ExportFormat, exportCollection, getExportFileName } from '@/lib/utils/collectionExport';
+
+interface ExportCollectionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  portfolioName: string;
+  cards: PortfolioCard[];
+  filteredCards: PortfolioCard[]; // Cards matching the current search
+}
+
+export function ExportCollectionModal({
+  isOpen,
+  onClose,
+  portfolioName,
+  cards,
+  filteredCards,
+}: ExportCollectionModalProps) {
+  const [format, setFormat] = useState<ExportFormat>('moxfield');
+  const [onlyFiltered, setOnlyFiltered] = useState(false);
+
+  const isFiltered = filteredCards.length !== cards.length;
+  const selectedCards = onlyFiltered && isFiltered ? filteredCards : cards;
+
+  const handleDownload = () => {
+    const content = exportCollection(selectedCards, format);
+    const blob = new Blob([content], { type: EXPORT_FORMATS[format].mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = getExportFileName(portfolioName, format);
+    a.click();
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Export Collection"
+      icon={Download}
+      size="sm"
+    >
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="exportFormat" className="block text-sm font-medium text-foreground">
+            Format
+          </label>
+          <select
+            id="exportFormat"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(value => (
+              <option key={value} value={value}>{EXPORT_FORMATS[value].label}</option>
+            ))}
+          </select>
+          {format === 'tcgplayer_mass_entry' && (
+            <p className="text-xs text-muted-foreground">
+              Mass Entry lists have no condition or finish, so only names, sets and quantities are exported
+            </p>
+          )}
+        </div>
+
+        {isFiltered && (
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="onlyFiltered"
+              checked={onlyFiltered}
+              onChange={(e) => setOnlyFiltered(e.target.checked)}
+              className="rounded border-border text-primary focus:ring-primary"
+            />
+            <label htmlFor="onlyFiltered" className="text-sm text-foreground">
+              Only cards matching the current search ({filteredCards.length} of {cards.length})
+            </label>
+          </div>
+        )}
+
+        <div className="flex space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-border text-foreground rounded-lg hover:bg-accent transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={selectedCards.length === 0}
+            className="flex-1 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 font-medium"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RotateCcw, Upload } from 'lucide-react';
+import { ImportBatch } from '@/lib/types';
+import { ConfirmDialog } from '@/app/components/Modal';
+import { getImportBatches, rollbackImportBatch } from '@/lib/storage';
+import { IMPORT_STRATEGY_LABELS } from '@/lib/utils/importPlan';
+
+interface ImportHistoryProps {
+  portfolioId: string;
+  refreshKey?: string; // Changes whenever the portfolio is saved
+  onRolledBack: () => void;
+  className?: string;
+}
+
+export function ImportHistory({ portfolioId, refreshKey, onRolledBack, className = '' }: ImportHistoryProps) {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [rollbackTarget, setRollbackTarget] = useState<ImportBatch | null>(null);
+
+  useEffect(() => {
+    setBatches(getImportBatches(portfolioId));
+  }, [portfolioId, refreshKey]);
+
+  const handleRollback = () => {
+    if (!rollbackTarget) return;
+
+    try {
+      rollbackImportBatch(rollbackTarget.id);
+      onRolledBack();
+    } catch (error) {
+      console.error('Error rolling back import:', error);
+      alert(error instanceof Error ? error.message : 'Error rolling back import');
+    }
+  };
+
+  if (batches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`bg-card border border-border rounded-lg ${className}`}>
+      <div className="flex items-center space-x-2 p-4 border-b border-border">
+        <Upload className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold text-foreground">Recent Imports</h3>
+      </div>
+      <div className="divide-y divide-border">
+        {batches.map(batch => (
+          <div key={batch.id} className="flex items-center justify-between p-4 text-sm">
+            <div>
+              <div className="text-foreground">
+                {new Date(batch.importedAt).toLocaleString()} · {IMPORT_STRATEGY_LABELS[batch.strategy]}
+              </div>
+              <div className="text-muted-foreground">
+                {batch.changedRows} holding{batch.changedRows === 1 ? '' : 's'} changed
+                {batch.rolledBackAt && ` · Rolled back ${new Date(batch.rolledBackAt).toLocaleDateString()}`}
+              </div>
+            </div>
+            {!batch.rolledBackAt && (
+              <button
+                onClick={() => setRollbackTarget(batch)}
+                className="flex items-center space-x-1 border border-border px-3 py-1 rounded-lg hover:bg-accent transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>Roll Back</span>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <ConfirmDialog
+        isOpen={rollbackTarget !== null}
+        onClose={() => setRollbackTarget(null)}
+        onConfirm={handleRollback}
+        title="Roll Back Import"
+        message="Holdings changed by this import will be restored and its transactions deleted."
+        confirmText="Roll Back"
+        icon={RotateCcw}
+        destructive
+      />
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ClipboardList } from 'lucide-react';
+import { ImportBatch, ImportMergeStrategy, ImportRowAction, Portfolio, PortfolioCard } from '@/lib/types';
+import { Modal } from '@/app/components/Modal';
+import { ErrorMessage } from '@/app/components/ErrorMessage';
+import { applyImportPlan, getImportBatches } from '@/lib/storage';
+import { IMPORT_STRATEGY_LABELS, countChanges, getImportedFingerprints, planImport } from '@/lib/utils/importPlan';
+
+interface ImportPreviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  portfolio: Portfolio;
+  cards: PortfolioCard[]; // Looked-up rows from the import
+  onApplied: (batch: ImportBatch) => void;
+}
+
+const ACTION_LABELS: Record<ImportRowAction, string> = {
+  create: 'New',
+  increase: 'Increase',
+  replace: 'Replace',
+  skip: 'Skip',
+  remove: 'Remove',
+};
+
+const ACTION_CLASSES: Record<ImportRowAction, string> = {
+  create: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  increase: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  replace: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  skip: 'bg-accent text-muted-foreground',
+  remove: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const CONDITION_LABELS: Record<PortfolioCard['condition'], string> = {
+  mint: 'M',
+  near_mint: 'NM',
+  excellent: 'EX',
+  good: 'GD',
+  light_played: 'LP',
+  played: 'PL',
+  poor: 'PO',
+};
+
+export function ImportPreviewModal({ isOpen, onClose, portfolio, cards, onApplied }: ImportPreviewModalProps) {
+  const [strategy, setStrategy] = useState<ImportMergeStrategy>('add');
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  const plan = useMemo(
+    () => planImport(portfolio.cards, cards, strategy, getImportedFingerprints(getImportBatches(portfolio.id))),
+    [portfolio.id, portfolio.cards, cards, strategy]
+  );
+  const changes = countChanges(plan);
+
+  const counts = plan.rows.reduce<Partial<Record<ImportRowAction, number>>>((totals, row) => {
+    totals[row.action] = (totals[row.action] || 0) + 1;
+    return totals;
+  }, {});
+
+  const handleApply = () => {
+    try {
+      const batch = applyImportPlan(portfolio.id, plan);
+      if (batch) {
+        onApplied(batch);
+      }
+    } catch (error) {
+      // e.g. a purchase currency without an exchange rate to the base currency
+      setApplyError(error instanceof Error ? error.message : 'Failed to apply the import');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Review Import"
+      icon={ClipboardList}
+      size="lg"
+    >
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="mergeStrategy" className="block text-sm font-medium text-foreground">
+            Existing holdings
+          </label>
+          <select
+            id="mergeStrategy"
+            value={strategy}
+            onChange={(e) => {
+              setStrategy(e.target.value as ImportMergeStrategy);
+              setApplyError(null);
+            }}
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {Object.entries(IMPORT_STRATEGY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">
+            {strategy === 'add' && 'Rows are added as new purchases. Rows imported before are skipped.'}
+            {strategy === 'replace' && 'Holdings in the file are set to the quantities in the file.'}
+            {strategy === 'sync' && 'The portfolio is made to match the file. Holdings not in the file are removed.'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-sm">
+          {(Object.keys(ACTION_LABELS) as ImportRowAction[])
+            .filter(action => counts[action])
+            .map(action => (
+              <span key={action} className={`px-2 py-1 rounded ${ACTION_CLASSES[action]}`}>
+                {counts[action]} {ACTION_LABELS[action].toLowerCase()}
+              </span>
+            ))}
+        </div>
+
+        <div className="max-h-80 overflow-y-auto border border-border rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-accent border-b border-border">
+              <tr>
+                <th className="text-left p-2">Card</th>
+                <th className="text-left p-2">Printing</th>
+                <th className="text-right p-2">Quantity</th>
+                <th className="text-left p-2">Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.rows.map((row, index) => (
+                <tr key={index} className="border-b border-border">
+                  <td className="p-2 text-foreground">{row.holding.card.name}</td>
+                  <td className="p-2 text-muted-foreground">
+                    {row.holding.card.setCode.toUpperCase()} · {CONDITION_LABELS[row.holding.condition]}
+                    {row.holding.foil ? ' · Foil' : ''}
+                  </td>
+                  <td className="p-2 text-right text-foreground">
+                    {row.action === 'skip' ? row.newQuantity : `${row.previousQuantity} → ${row.newQuantity}`}
+                  </td>
+                  <td className="p-2">
+                    <span className={`px-2 py-0.5 rounded text-xs ${ACTION_CLASSES[row.action]}`} title={row.reason}>
+                      {ACTION_LABELS[row.action]}
+                    </span>
+                    {row.reason && (
+                      <span className="ml-2 text-xs text-muted-foreground">{row.reason}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {applyError && <ErrorMessage message={applyError} />}
+
+        <div className="flex space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-border text-foreground rounded-lg hover:bg-accent transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={changes === 0}
+            className="flex-1 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 font-medium"
+          >
+            {changes === 0 ? 'Nothing to Import' : `Apply ${changes} Change${changes === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -2,15 +2,20 @@
 
 import { useState } from 'react';
 import Image from 'next/image';
-import { Edit3, Trash2, TrendingUp, TrendingDown, MoreVertical } from 'lucide-react';
-import { PortfolioCard } from '@/lib/types';
+import { Edit3, Trash2, TrendingUp, TrendingDown, MoreVertical, DollarSign } from 'lucide-react';
+import { CurrencyCode, PortfolioCard, SaleDetails } from '@/lib/types';
+import { getHoldingLots, summarizeLots } from '@/lib/utils/costBasis';
+import { valuationService } from '@/lib/services/valuationService';
+import { formatCurrency } from '@/lib/utils/currency';
 import { usePriceTrends } from '@/lib/hooks/usePriceTrends';
 import { PriceTrendIndicator } from '@/app/components/PriceTrendIndicator';
 
 interface PortfolioCardItemProps {
   portfolioCard: PortfolioCard;
+  currency?: CurrencyCode; // The portfolio's base currency
   onRemove: () => void;
   onUpdate: (card: PortfolioCard) => void;
+  onSell: (quantity: number, sale: SaleDetails) => void;
 }
 
 const conditionLabels = {
@@ -23,8 +28,9 @@ const conditionLabels = {
   poor: 'Poor',
 };
 
-export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: PortfolioCardItemProps) {
+export function PortfolioCardItem({ portfolioCard, currency = 'usd', onRemove, onUpdate, onSell }: PortfolioCardItemProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const [isSelling, setIsSelling] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
   const [editForm, setEditForm] = useState({
     quantity: portfolioCard.quantity,
@@ -36,9 +42,15 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
   // Fetch price trends for performance context
   const { trends, loading: trendsLoading } = usePriceTrends(portfolioCard.card.id);
 
-  const currentPrice = portfolioCard.card.prices.usd || 0;
+  const lots = getHoldingLots(portfolioCard);
+  const hasMultipleLots = lots.length > 1;
+  const hasForeignLots = lots.some(lot => lot.currency && lot.currency !== currency);
+
+  const marketPrice = valuationService.getMarketPrice(portfolioCard.card, portfolioCard.foil, currency);
+  const multipliers = valuationService.getConditionMultipliers();
+  const currentPrice = valuationService.getUnitValue(portfolioCard, multipliers, currency);
   const totalValue = currentPrice * portfolioCard.quantity;
-  const totalCost = portfolioCard.purchasePrice * portfolioCard.quantity;
+  const totalCost = summarizeLots(lots).totalCost;
   const gainLoss = totalValue - totalCost;
   const gainLossPercent = totalCost > 0 ? (gainLoss / totalCost) * 100 : 0;
 
@@ -55,6 +67,33 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
     setIsEditing(false);
   };
 
+  const resetSellForm = () => ({
+    quantity: portfolioCard.quantity,
+    pricePerCard: currentPrice,
+    fees: 0,
+    shipping: 0,
+    saleDate: new Date().toISOString().split('T')[0],
+  });
+
+  const [sellForm, setSellForm] = useState(resetSellForm);
+
+  const saleProceeds = sellForm.quantity * sellForm.pricePerCard - sellForm.fees - sellForm.shipping;
+
+  const handleConfirmSale = () => {
+    onSell(sellForm.quantity, {
+      pricePerCard: sellForm.pricePerCard,
+      fees: sellForm.fees,
+      shipping: sellForm.shipping,
+      saleDate: sellForm.saleDate,
+    });
+    setIsSelling(false);
+  };
+
+  const handleCancelSale = () => {
+    setSellForm(resetSellForm());
+    setIsSelling(false);
+  };
+
   const handleCancelEdit = () => {
     setEditForm({
       quantity: portfolioCard.quantity,
@@ -116,6 +155,7 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
                   <button
                     onClick={() => {
                       setIsEditing(true);
+                      setIsSelling(false);
                       setShowMenu(false);
                     }}
                     className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-foreground hover:bg-accent transition-colors"
@@ -123,6 +163,18 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
                     <Edit3 className="h-3 w-3" />
                     <span>Edit</span>
                   </button>
+                  <button
+                    onClick={() => {
+                      setSellForm(resetSellForm());
+                      setIsSelling(true);
+                      setIsEditing(false);
+                      setShowMenu(false);
+                    }}
+                    className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-foreground hover:bg-accent transition-colors"
+                  >
+                    <DollarSign className="h-3 w-3" />
+                    <span>Sell</span>
+                  </button>
                   <button
                     onClick={() => {
                       if (confirm('Are you sure you want to remove this card from your portfolio?')) {
@@ -148,17 +200,27 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
                 <span className="ml-1 font-medium">{portfolioCard.quantity}</span>
               </div>
               <div>
-                <span className="text-muted-foreground">Purchase:</span>
-                <span className="ml-1 font-medium">${portfolioCard.purchasePrice.toFixed(2)}</span>
+                <span className="text-muted-foreground">{hasMultipleLots ? 'Avg Cost:' : 'Purchase:'}</span>
+                <span className="ml-1 font-medium">{formatCurrency(portfolioCard.purchasePrice, currency)}</span>
               </div>
               <div className="flex items-center space-x-2">
-                <div>
+                <div
+                  title={portfolioCard.lastPricedAt
+                    ? `Last priced ${new Date(portfolioCard.lastPricedAt).toLocaleString()}`
+                    : `Price from ${new Date(portfolioCard.purchaseDate).toLocaleDateString()}`}
+                >
                   <span className="text-muted-foreground">Current:</span>
-                  <span className="ml-1 font-medium">${currentPrice.toFixed(2)}</span>
+                  <span className="ml-1 font-medium">{formatCurrency(currentPrice, currency)}</span>
+                  {currentPrice !== marketPrice && (
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      (NM {formatCurrency(marketPrice, currency)})
+                    </span>
+                  )}
                 </div>
                 {!trendsLoading && trends?.trend7d && (
                   <PriceTrendIndicator 
                     trend={trends.trend7d} 
+                    anomalies={trends.anomalies}
                     timeframe="7d" 
                     size="sm"
                     showPercentage={false}
@@ -167,7 +229,7 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
               </div>
               <div>
                 <span className="text-muted-foreground">Total Value:</span>
-                <span className="ml-1 font-medium">${totalValue.toFixed(2)}</span>
+                <span className="ml-1 font-medium">{formatCurrency(totalValue, currency)}</span>
               </div>
             </div>
           ) : (
@@ -188,7 +250,9 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
                   />
                 </div>
                 <div>
-                  <label className="block text-xs text-muted-foreground mb-1">Purchase Price</label>
+                  <label className="block text-xs text-muted-foreground mb-1">
+                    {hasMultipleLots ? 'Price for Added Copies' : 'Purchase Price'}
+                  </label>
                   <input
                     type="number"
                     step="0.01"
@@ -246,6 +310,90 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
             </div>
           )}
 
+          {/* Sell Form */}
+          {isSelling && !isEditing && (
+            <div className="mt-3 p-3 border border-border rounded-lg space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Quantity Sold</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={portfolioCard.quantity}
+                    value={sellForm.quantity}
+                    onChange={(e) => setSellForm(prev => ({
+                      ...prev,
+                      quantity: Math.min(portfolioCard.quantity, Math.max(1, parseInt(e.target.value) || 1))
+                    }))}
+                    className="w-full px-2 py-1 text-sm border border-border rounded bg-background focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Sale Price (each)</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={sellForm.pricePerCard}
+                    onChange={(e) => setSellForm(prev => ({ ...prev, pricePerCard: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-2 py-1 text-sm border border-border rounded bg-background focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Fees</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={sellForm.fees}
+                    onChange={(e) => setSellForm(prev => ({ ...prev, fees: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-2 py-1 text-sm border border-border rounded bg-background focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Shipping</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={sellForm.shipping}
+                    onChange={(e) => setSellForm(prev => ({ ...prev, shipping: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-2 py-1 text-sm border border-border rounded bg-background focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Sale Date</label>
+                  <input
+                    type="date"
+                    max={new Date().toISOString().split('T')[0]}
+                    value={sellForm.saleDate}
+                    onChange={(e) => setSellForm(prev => ({ ...prev, saleDate: e.target.value }))}
+                    className="w-full px-2 py-1 text-sm border border-border rounded bg-background focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                </div>
+              </div>
+
+              <div className="text-xs text-muted-foreground">
+                Net proceeds: {formatCurrency(saleProceeds, currency)}
+              </div>
+
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleConfirmSale}
+                  className="px-3 py-1 text-sm bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors"
+                >
+                  Record Sale
+                </button>
+                <button
+                  onClick={handleCancelSale}
+                  className="px-3 py-1 text-sm border border-border text-foreground rounded hover:bg-accent transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Performance */}
           {!isEditing && (
             <div className="mt-2 space-y-1">
@@ -259,7 +407,7 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
                     <TrendingDown className="h-3 w-3" />
                   )}
                   <span>
-                    {gainLoss >= 0 ? '+' : ''}${gainLoss.toFixed(2)} 
+                    {gainLoss >= 0 ? '+' : ''}{formatCurrency(gainLoss, currency)} 
                     ({gainLossPercent >= 0 ? '+' : ''}{gainLossPercent.toFixed(1)}%)
                   </span>
                 </div>
@@ -276,6 +424,20 @@ export function PortfolioCardItem({ portfolioCard, onRemove, onUpdate }: Portfol
                 </div>
               )}
               
+              {(hasMultipleLots || hasForeignLots) && (
+                <div className="text-xs text-muted-foreground mt-2 space-y-0.5">
+                  {lots.map(lot => (
+                    <div key={lot.id}>
+                      {lot.quantity} × {formatCurrency(lot.pricePerCard, currency)}
+                      {lot.currency && lot.currency !== currency && lot.originalPricePerCard !== undefined && (
+                        <> (paid {formatCurrency(lot.originalPricePerCard, lot.currency)})</>
+                      )}
+                      {' '}• {new Date(lot.purchaseDate).toLocaleDateString()}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {portfolioCard.notes && (
                 <div className="text-xs text-muted-foreground italic truncate max-w-xs mt-2">
                   {portfolioCard.notes}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { Trash2, TrendingUp, TrendingDown, MoreVertical } from 'lucide-react';
 import { Portfolio } from '@/lib/types';
 import { deletePortfolio } from '@/lib/storage';
+import { formatCurrency } from '@/lib/utils/currency';
 
 interface PortfolioListProps {
   portfolios: Portfolio[];
@@ -71,7 +72,7 @@ export function PortfolioList({
                     
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-muted-foreground">Value:</span>
-                      <span className="font-medium">${portfolio.totalValue.toFixed(2)}</span>
+                      <span className="font-medium">{formatCurrency(portfolio.totalValue, portfolio.baseCurrency)}</span>
                     </div>
                     
                     <div className="flex items-center justify-between text-sm">
@@ -127,7 +128,7 @@ export function PortfolioList({
                 <div className={`text-xs font-medium ${
                   gainLoss >= 0 ? 'text-green-600' : 'text-red-600'
                 }`}>
-                  {gainLoss >= 0 ? '+' : ''}${gainLoss.toFixed(2)} total
+                  {gainLoss >= 0 ? '+' : ''}{formatCurrency(gainLoss, portfolio.baseCurrency)} total
                 </div>
               </div>
             </div>
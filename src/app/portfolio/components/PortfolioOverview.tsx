@@ -1,13 +1,33 @@
 'use client';
 
-import { useState } from 'react';
-import { Plus, Search, TrendingUp, TrendingDown, Edit3, DollarSign, Upload } from 'lucide-react';
-import { Portfolio, PortfolioCard } from '@/lib/types';
-import { savePortfolio } from '@/lib/storage';
+import { useState, useMemo } from 'react';
+import { Plus, Search, TrendingUp, TrendingDown, Edit3, DollarSign, Upload, Download, RefreshCw } from 'lucide-react';
+import { CostBasisMethod, Portfolio, PortfolioCard, SaleDetails } from '@/lib/types';
+import {
+  savePortfolio,
+  getPortfolioById,
+  addCardToPortfolioWithTracking,
+  removeCardFromPortfolioWithTracking,
+  sellCardFromPortfolioWithTracking,
+  updateCardInPortfolioWithTracking,
+} from '@/lib/storage';
+import { PortfolioTimelineService } from '@/lib/services/portfolioTimelineService';
+import { portfolioRepricingService } from '@/lib/services/portfolioRepricingService';
+import { valuationService } from '@/lib/services/valuationService';
+import {
+  COST_BASIS_METHOD_LABELS,
+  DEFAULT_COST_BASIS_METHOD,
+  getHoldingCostBasis,
+} from '@/lib/utils/costBasis';
+import { formatCurrency } from '@/lib/utils/currency';
+import { ErrorMessage } from '@/app/components/ErrorMessage';
 import { AddCardModal } from './AddCardModal';
 import { PortfolioCardItem } from './PortfolioCardItem';
 import { TransactionHistory } from './TransactionHistory';
 import { CsvUploadModal } from './CsvUploadModal';
+import { ExportCollectionModal } from './ExportCollectionModal';
+import { ImportPreviewModal } from './ImportPreviewModal';
+import { ImportHistory } from './ImportHistory';
 
 interface PortfolioOverviewProps {
   portfolio: Portfolio;
@@ -20,109 +40,94 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
   const [sortBy, setSortBy] = useState<'name' | 'value' | 'performance' | 'quantity'>('name');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [showCsvUploadModal, setShowCsvUploadModal] = useState(false);
-
-  const handleAddCard = (card: PortfolioCard) => {
-    const existingCardIndex = portfolio.cards.findIndex(
-      c => c.cardId === card.cardId && c.foil === card.foil && c.condition === card.condition
-    );
-
-    let updatedCards: PortfolioCard[];
-    
-    if (existingCardIndex >= 0) {
-      // Update existing card quantity
-      updatedCards = portfolio.cards.map((c, index) =>
-        index === existingCardIndex
-          ? { ...c, quantity: c.quantity + card.quantity }
-          : c
-      );
-    } else {
-      // Add new card
-      updatedCards = [...portfolio.cards, card];
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PortfolioCard[] | null>(null);
+  const [repricing, setRepricing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const currency = portfolio.baseCurrency || 'usd';
+
+  // Reload after a tracked change so lots and totals come from storage
+  const reloadPortfolio = () => {
+    const updatedPortfolio = getPortfolioById(portfolio.id);
+    if (updatedPortfolio) {
+      onPortfolioUpdated(updatedPortfolio);
     }
+  };
 
-    // Recalculate portfolio totals
-    const totalValue = updatedCards.reduce((sum, c) => {
-      const currentPrice = c.card.prices.usd || 0;
-      return sum + (currentPrice * c.quantity);
-    }, 0);
-
-    const totalCost = updatedCards.reduce((sum, c) => {
-      return sum + (c.purchasePrice * c.quantity);
-    }, 0);
-
-    const performance = totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0;
-
-    const updatedPortfolio: Portfolio = {
-      ...portfolio,
-      cards: updatedCards,
-      totalValue,
-      totalCost,
-      performance,
-      updatedAt: new Date().toISOString(),
-    };
-
-    savePortfolio(updatedPortfolio);
-    onPortfolioUpdated(updatedPortfolio);
+  const handleAddCard = (card: PortfolioCard) => {
+    addCardToPortfolioWithTracking(portfolio.id, card);
+    reloadPortfolio();
     setShowAddCardModal(false);
   };
 
   const handleRemoveCard = (cardId: string, foil: boolean, condition: string) => {
-    const updatedCards = portfolio.cards.filter(
-      c => !(c.cardId === cardId && c.foil === foil && c.condition === condition)
-    );
-
-    // Recalculate totals
-    const totalValue = updatedCards.reduce((sum, c) => {
-      const currentPrice = c.card.prices.usd || 0;
-      return sum + (currentPrice * c.quantity);
-    }, 0);
-
-    const totalCost = updatedCards.reduce((sum, c) => {
-      return sum + (c.purchasePrice * c.quantity);
-    }, 0);
-
-    const performance = totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0;
+    removeCardFromPortfolioWithTracking(portfolio.id, cardId, foil, condition);
+    reloadPortfolio();
+  };
 
-    const updatedPortfolio: Portfolio = {
-      ...portfolio,
-      cards: updatedCards,
-      totalValue,
-      totalCost,
-      performance,
-      updatedAt: new Date().toISOString(),
-    };
+  const handleSellCard = (card: PortfolioCard, quantity: number, sale: SaleDetails) => {
+    setActionError(null);
+    try {
+      sellCardFromPortfolioWithTracking(portfolio.id, card.cardId, card.foil, card.condition, quantity, sale);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Failed to record sale');
+    }
+    reloadPortfolio();
+  };
 
-    savePortfolio(updatedPortfolio);
-    onPortfolioUpdated(updatedPortfolio);
+  const handleUpdateCard = (originalCard: PortfolioCard, updatedCard: PortfolioCard) => {
+    setActionError(null);
+    try {
+      updateCardInPortfolioWithTracking(
+        portfolio.id,
+        originalCard.cardId,
+        originalCard.foil,
+        originalCard.condition,
+        {
+          quantity: updatedCard.quantity,
+          purchasePrice: updatedCard.purchasePrice !== originalCard.purchasePrice
+            ? updatedCard.purchasePrice
+            : undefined,
+          condition: updatedCard.condition,
+          notes: updatedCard.notes,
+        }
+      );
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Failed to update card');
+    }
+    reloadPortfolio();
   };
 
-  const handleUpdateCard = (updatedCard: PortfolioCard) => {
-    const updatedCards = portfolio.cards.map(c =>
-      c.cardId === updatedCard.cardId && 
-      c.foil === updatedCard.foil && 
-      c.condition === updatedCard.condition
-        ? updatedCard
-        : c
-    );
+  // Sales are only in the transaction log, so re-read it whenever the portfolio is saved
+  const realizedGains = useMemo(
+    () => PortfolioTimelineService.getRealizedGainSummary(portfolio.id),
+    [portfolio.id, portfolio.updatedAt]
+  );
 
-    // Recalculate totals
-    const totalValue = updatedCards.reduce((sum, c) => {
-      const currentPrice = c.card.prices.usd || 0;
-      return sum + (currentPrice * c.quantity);
-    }, 0);
+  // Stored lots were consumed under the current method, so it stays fixed after the first sale or removal
+  const costBasisMethodLocked = useMemo(
+    () => PortfolioTimelineService.hasConsumedLots(portfolio.id),
+    [portfolio.id, portfolio.updatedAt]
+  );
 
-    const totalCost = updatedCards.reduce((sum, c) => {
-      return sum + (c.purchasePrice * c.quantity);
-    }, 0);
+  const handleRefreshPrices = async () => {
+    setRepricing(true);
+    try {
+      await portfolioRepricingService.repricePortfolios({ portfolioIds: [portfolio.id], force: true });
+      reloadPortfolio();
+    } catch (error) {
+      console.error('Error refreshing prices:', error);
+    } finally {
+      setRepricing(false);
+    }
+  };
 
-    const performance = totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0;
+  const handleCostBasisMethodChange = (costBasisMethod: CostBasisMethod) => {
+    if (costBasisMethodLocked) return;
 
     const updatedPortfolio: Portfolio = {
       ...portfolio,
-      cards: updatedCards,
-      totalValue,
-      totalCost,
-      performance,
+      costBasisMethod,
       updatedAt: new Date().toISOString(),
     };
 
@@ -130,50 +135,9 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
     onPortfolioUpdated(updatedPortfolio);
   };
 
+  // Imports are reviewed against the current holdings before anything is saved
   const handleCsvImport = (cards: PortfolioCard[]) => {
-    // Add all imported cards to the portfolio
-    const updatedCards = [...portfolio.cards];
-    
-    cards.forEach(newCard => {
-      const existingCardIndex = updatedCards.findIndex(
-        c => c.cardId === newCard.cardId && c.foil === newCard.foil && c.condition === newCard.condition
-      );
-
-      if (existingCardIndex >= 0) {
-        // Update existing card quantity
-        updatedCards[existingCardIndex] = {
-          ...updatedCards[existingCardIndex],
-          quantity: updatedCards[existingCardIndex].quantity + newCard.quantity
-        };
-      } else {
-        // Add new card
-        updatedCards.push(newCard);
-      }
-    });
-
-    // Recalculate portfolio totals
-    const totalValue = updatedCards.reduce((sum, c) => {
-      const currentPrice = c.card.prices.usd || 0;
-      return sum + (currentPrice * c.quantity);
-    }, 0);
-
-    const totalCost = updatedCards.reduce((sum, c) => {
-      return sum + (c.purchasePrice * c.quantity);
-    }, 0);
-
-    const performance = totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0;
-
-    const updatedPortfolio: Portfolio = {
-      ...portfolio,
-      cards: updatedCards,
-      totalValue,
-      totalCost,
-      performance,
-      updatedAt: new Date().toISOString(),
-    };
-
-    savePortfolio(updatedPortfolio);
-    onPortfolioUpdated(updatedPortfolio);
+    setPendingImport(cards);
     setShowCsvUploadModal(false);
   };
 
@@ -183,6 +147,7 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
     card.card.setName.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const multipliers = valuationService.getConditionMultipliers();
   const sortedCards = filteredCards.sort((a, b) => {
     let aValue: any, bValue: any;
 
@@ -192,12 +157,12 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
         bValue = b.card.name;
         break;
       case 'value':
-        aValue = (a.card.prices.usd || 0) * a.quantity;
-        bValue = (b.card.prices.usd || 0) * b.quantity;
+        aValue = valuationService.getHoldingValue(a, multipliers, currency);
+        bValue = valuationService.getHoldingValue(b, multipliers, currency);
         break;
       case 'performance':
-        const aGain = ((a.card.prices.usd || 0) - a.purchasePrice) * a.quantity;
-        const bGain = ((b.card.prices.usd || 0) - b.purchasePrice) * b.quantity;
+        const aGain = valuationService.getHoldingValue(a, multipliers, currency) - getHoldingCostBasis(a);
+        const bGain = valuationService.getHoldingValue(b, multipliers, currency) - getHoldingCostBasis(b);
         aValue = aGain;
         bValue = bGain;
         break;
@@ -221,6 +186,7 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
 
   const gainLoss = portfolio.totalValue - portfolio.totalCost;
 
+
   return (
     <div className="space-y-6">
       {/* Portfolio Header */}
@@ -231,8 +197,37 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
             {portfolio.description && (
               <p className="text-muted-foreground mt-1">{portfolio.description}</p>
             )}
+            <div className="flex items-center space-x-2 mt-2 text-sm">
+              <label htmlFor="cost-basis-method" className="text-muted-foreground">Cost basis:</label>
+              <select
+                id="cost-basis-method"
+                value={portfolio.costBasisMethod || DEFAULT_COST_BASIS_METHOD}
+                onChange={(e) => handleCostBasisMethodChange(e.target.value as CostBasisMethod)}
+                disabled={costBasisMethodLocked}
+                title={costBasisMethodLocked
+                  ? 'The cost basis method can\'t change once cards have been sold or removed'
+                  : undefined}
+                className="px-2 py-1 border border-border rounded bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+              >
+                {Object.entries(COST_BASIS_METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <span className="text-muted-foreground">· Base currency: {currency.toUpperCase()}</span>
+            </div>
           </div>
           <div className="flex space-x-2">
+            <button
+              onClick={handleRefreshPrices}
+              disabled={repricing || portfolio.cards.length === 0}
+              title={portfolio.lastRepricedAt
+                ? `Prices updated ${new Date(portfolio.lastRepricedAt).toLocaleString()}`
+                : 'Prices have not been refreshed yet'}
+              className="flex items-center space-x-2 border border-border text-foreground px-4 py-2 rounded-lg hover:bg-accent transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${repricing ? 'animate-spin' : ''}`} />
+              <span>{repricing ? 'Refreshing...' : 'Refresh Prices'}</span>
+            </button>
             <button
               onClick={() => setShowCsvUploadModal(true)}
               className="flex items-center space-x-2 border border-border text-foreground px-4 py-2 rounded-lg hover:bg-accent transition-colors"
@@ -240,6 +235,14 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
               <Upload className="h-4 w-4" />
               <span>Import CSV</span>
             </button>
+            <button
+              onClick={() => setShowExportModal(true)}
+              disabled={portfolio.cards.length === 0}
+              className="flex items-center space-x-2 border border-border text-foreground px-4 py-2 rounded-lg hover:bg-accent transition-colors disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              <span>Export</span>
+            </button>
             <button
               onClick={() => setShowAddCardModal(true)}
               className="flex items-center space-x-2 bg-primary text-primary-foreground px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors"
@@ -251,7 +254,7 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
         </div>
 
         {/* Portfolio Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div>
             <div className="text-sm text-muted-foreground mb-1">Total Cards</div>
             <div className="text-xl font-semibold text-foreground">
@@ -262,19 +265,24 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
           <div>
             <div className="text-sm text-muted-foreground mb-1">Current Value</div>
             <div className="text-xl font-semibold text-foreground">
-              ${portfolio.totalValue.toFixed(2)}
+              {formatCurrency(portfolio.totalValue, currency)}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {portfolio.lastRepricedAt
+                ? `Priced ${new Date(portfolio.lastRepricedAt).toLocaleDateString()}`
+                : 'Using prices from when cards were added'}
             </div>
           </div>
 
           <div>
             <div className="text-sm text-muted-foreground mb-1">Total Cost</div>
             <div className="text-xl font-semibold text-foreground">
-              ${portfolio.totalCost.toFixed(2)}
+              {formatCurrency(portfolio.totalCost, currency)}
             </div>
           </div>
 
           <div>
-            <div className="text-sm text-muted-foreground mb-1">Gain/Loss</div>
+            <div className="text-sm text-muted-foreground mb-1">Unrealized Gain/Loss</div>
             <div className={`text-xl font-semibold flex items-center space-x-1 ${
               gainLoss >= 0 ? 'text-green-600' : 'text-red-600'
             }`}>
@@ -284,16 +292,30 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
                 <TrendingDown className="h-5 w-5" />
               )}
               <span>
-                {gainLoss >= 0 ? '+' : ''}${gainLoss.toFixed(2)}
+                {gainLoss >= 0 ? '+' : ''}{formatCurrency(gainLoss, currency)}
               </span>
               <span className="text-sm">
                 ({portfolio.performance >= 0 ? '+' : ''}{portfolio.performance.toFixed(1)}%)
               </span>
             </div>
           </div>
+
+          <div>
+            <div className="text-sm text-muted-foreground mb-1">Realized Gain/Loss</div>
+            <div className={`text-xl font-semibold ${
+              realizedGains.realizedGain >= 0 ? 'text-green-600' : 'text-red-600'
+            }`}>
+              {realizedGains.realizedGain >= 0 ? '+' : ''}{formatCurrency(realizedGains.realizedGain, currency)}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {realizedGains.cardsSold} card{realizedGains.cardsSold !== 1 ? 's' : ''} sold
+            </div>
+          </div>
         </div>
       </div>
 
+      {actionError && <ErrorMessage message={actionError} />}
+
       {/* Search and Filters */}
       <div className="flex flex-col sm:flex-row gap-4">
         <div className="flex-1 relative">
@@ -365,8 +387,10 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
               <PortfolioCardItem
                 key={`${card.cardId}-${card.foil}-${card.condition}`}
                 portfolioCard={card}
+                currency={currency}
                 onRemove={() => handleRemoveCard(card.cardId, card.foil, card.condition)}
-                onUpdate={handleUpdateCard}
+                onUpdate={(updatedCard) => handleUpdateCard(card, updatedCard)}
+                onSell={(quantity, sale) => handleSellCard(card, quantity, sale)}
               />
             ))}
           </div>
@@ -376,6 +400,16 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
       {/* Transaction History */}
       <TransactionHistory 
         portfolioId={portfolio.id}
+        refreshKey={portfolio.updatedAt}
+        currency={currency}
+        className="mt-6"
+      />
+
+      {/* Import History */}
+      <ImportHistory
+        portfolioId={portfolio.id}
+        refreshKey={portfolio.updatedAt}
+        onRolledBack={reloadPortfolio}
         className="mt-6"
       />
 
@@ -384,6 +418,7 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
         isOpen={showAddCardModal}
         onClose={() => setShowAddCardModal(false)}
         onAddCard={handleAddCard}
+        baseCurrency={currency}
       />
 
       {/* CSV Upload Modal */}
@@ -392,6 +427,27 @@ export function PortfolioOverview({ portfolio, onPortfolioUpdated }: PortfolioOv
         onClose={() => setShowCsvUploadModal(false)}
         onCardsImported={handleCsvImport}
       />
+
+      {/* Import Preview Modal */}
+      <ImportPreviewModal
+        isOpen={pendingImport !== null}
+        onClose={() => setPendingImport(null)}
+        portfolio={portfolio}
+        cards={pendingImport || []}
+        onApplied={() => {
+          setPendingImport(null);
+          reloadPortfolio();
+        }}
+      />
+
+      {/* Export Modal */}
+      <ExportCollectionModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        portfolioName={portfolio.name}
+        cards={portfolio.cards}
+        filteredCards={filteredCards}
+      />
     </div>
   );
 }
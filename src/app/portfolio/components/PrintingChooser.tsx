@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { Layers } from 'lucide-react';
+import { Modal } from '@/app/components/Modal';
+import { allPrintingsStorage, type SetCardData } from '@/lib/utils/allPrintingsStorage';
+import { getPrintingImageUrl } from '@/lib/utils/printingRules';
+
+interface PrintingChooserProps {
+  isOpen: boolean;
+  onClose: () => void;
+  name: string;
+  set?: string; // Set code from the import row, if any
+  onChoose: (printing: SetCardData) => void;
+}
+
+// Printings of one card are rarely more than a few hundred
+const MAX_PRINTINGS = 500;
+
+export function PrintingChooser({ isOpen, onClose, name, set, onChoose }: PrintingChooserProps) {
+  const [printings, setPrintings] = useState<SetCardData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [available, setAvailable] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const loadPrintings = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const isAvailable = await allPrintingsStorage.isDataAvailable();
+        const results = isAvailable ? await allPrintingsStorage.searchCards(name, MAX_PRINTINGS, true) : [];
+        // Narrow to the row's set, unless the set code matches nothing
+        const inSet = set ? results.filter(p => p.setCode.toLowerCase() === set.toLowerCase()) : [];
+
+        if (!cancelled) {
+          setAvailable(isAvailable);
+          setPrintings(inSet.length > 0 ? inSet : results);
+        }
+      } catch (err) {
+        console.error('Error loading printings:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+          setPrintings([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadPrintings();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, name, set]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Choose Printing"
+      subtitle={`${name}${set ? ` (${set.toUpperCase()})` : ''}`}
+      icon={Layers}
+      size="xl"
+    >
+      {loading ? (
+        <p className="text-center text-muted-foreground py-8">Loading printings...</p>
+      ) : error ? (
+        <p className="text-center text-muted-foreground py-8">
+          Printings are unavailable because the AllPrintings database couldn&apos;t be read ({error}).
+        </p>
+      ) : !available ? (
+        <p className="text-center text-muted-foreground py-8">
+          The AllPrintings database hasn&apos;t been downloaded. Download it from the admin page to choose printings.
+        </p>
+      ) : printings.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No printings found for {name}.</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            The printing you choose is remembered for rows with this name in later imports.
+          </p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 max-h-[60vh] overflow-y-auto">
+            {printings.map(printing => (
+              <button
+                key={printing.uuid}
+                onClick={() => onChoose(printing)}
+                disabled={!printing.identifiers?.scryfallId}
+                className="border border-border rounded-lg p-2 text-left hover:border-primary hover:bg-accent transition-colors disabled:opacity-50"
+              >
+                <div className="aspect-[488/680] bg-accent rounded mb-2 overflow-hidden">
+                  {printing.identifiers?.scryfallId && (
+                    <Image
+                      src={getPrintingImageUrl(printing.identifiers.scryfallId)}
+                      alt={`${printing.name} (${printing.setCode})`}
+                      width={146}
+                      height={204}
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </div>
+                <div className="text-sm font-medium text-foreground">
+                  {printing.setCode.toUpperCase()} #{printing.number}
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1 text-xs">
+                  {printing.frameVersion && (
+                    <span className="px-1.5 py-0.5 rounded bg-accent text-muted-foreground">
+                      {printing.frameVersion === 'future' ? 'Future' : printing.frameVersion} frame
+                    </span>
+                  )}
+                  {printing.isPromo && (
+                    <span className="px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">
+                      Promo
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -1,23 +1,26 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { History, TrendingUp, TrendingDown, Calendar, Package } from 'lucide-react';
-import { PortfolioTransaction } from '@/lib/types';
+import { History, TrendingUp, TrendingDown, Calendar, Package, DollarSign } from 'lucide-react';
+import { CurrencyCode, PortfolioTransaction } from '@/lib/types';
 import { PortfolioTimelineService } from '@/lib/services/portfolioTimelineService';
+import { formatCurrency as formatAmount } from '@/lib/utils/currency';
 
 interface TransactionHistoryProps {
   portfolioId: string;
   className?: string;
+  refreshKey?: string; // Changes whenever the portfolio is saved
+  currency?: CurrencyCode; // The portfolio's base currency
 }
 
-export function TransactionHistory({ portfolioId, className = '' }: TransactionHistoryProps) {
+export function TransactionHistory({ portfolioId, className = '', refreshKey, currency = 'usd' }: TransactionHistoryProps) {
   const [transactions, setTransactions] = useState<PortfolioTransaction[]>([]);
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | 'all'>('30d');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadTransactions();
-  }, [portfolioId, timeRange]);
+  }, [portfolioId, timeRange, refreshKey]);
 
   const loadTransactions = () => {
     setLoading(true);
@@ -57,7 +60,7 @@ export function TransactionHistory({ portfolioId, className = '' }: TransactionH
     });
   };
 
-  const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+  const formatCurrency = (value: number) => formatAmount(value, currency);
 
   const getTransactionIcon = (type: PortfolioTransaction['type']) => {
     switch (type) {
@@ -65,6 +68,8 @@ export function TransactionHistory({ portfolioId, className = '' }: TransactionH
         return <TrendingUp className="h-4 w-4 text-green-500" />;
       case 'remove':
         return <TrendingDown className="h-4 w-4 text-red-500" />;
+      case 'sell':
+        return <DollarSign className="h-4 w-4 text-purple-500" />;
       default:
         return <Package className="h-4 w-4 text-blue-500" />;
     }
@@ -76,6 +81,8 @@ export function TransactionHistory({ portfolioId, className = '' }: TransactionH
         return 'text-green-600 bg-green-50 border-green-200';
       case 'remove':
         return 'text-red-600 bg-red-50 border-red-200';
+      case 'sell':
+        return 'text-purple-600 bg-purple-50 border-purple-200';
       default:
         return 'text-blue-600 bg-blue-50 border-blue-200';
     }
@@ -99,6 +106,12 @@ export function TransactionHistory({ portfolioId, className = '' }: TransactionH
           quantity: `-${absQuantity}`,
           value: `-${formatCurrency(totalValue)}`
         };
+      case 'sell':
+        return {
+          action: 'Sold',
+          quantity: `-${absQuantity}`,
+          value: formatCurrency(totalValue)
+        };
       default:
         return {
           action: 'Updated',
@@ -179,7 +192,22 @@ export function TransactionHistory({ portfolioId, className = '' }: TransactionH
                         </p>
                         <p className="text-xs text-muted-foreground mt-1">
                           {formatCurrency(transaction.pricePerCard)} per card
+                          {transaction.currency && transaction.currency !== currency && transaction.originalPricePerCard !== undefined && (
+                            <> (paid {formatAmount(transaction.originalPricePerCard, transaction.currency)})</>
+                          )}
                         </p>
+                        {transaction.type === 'sell' && transaction.realizedGain !== undefined && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {transaction.saleDate && `Sold ${transaction.saleDate} • `}
+                            Cost basis {formatCurrency(transaction.costBasis || 0)}
+                            {(transaction.fees || 0) > 0 && ` • Fees ${formatCurrency(transaction.fees || 0)}`}
+                            {(transaction.shipping || 0) > 0 && ` • Shipping ${formatCurrency(transaction.shipping || 0)}`}
+                            {' • '}
+                            <span className={transaction.realizedGain >= 0 ? 'text-green-600' : 'text-red-600'}>
+                              Realized {transaction.realizedGain >= 0 ? '+' : ''}{formatCurrency(transaction.realizedGain)}
+                            </span>
+                          </p>
+                        )}
                         {transaction.notes && (
                           <p className="text-xs text-muted-foreground mt-1 italic">
                             {transaction.notes}
@@ -189,7 +217,7 @@ export function TransactionHistory({ portfolioId, className = '' }: TransactionH
                       
                       <div className="text-right flex-shrink-0 ml-4">
                         <p className={`text-sm font-medium ${
-                          transaction.type === 'add' ? 'text-green-600' : 'text-red-600'
+                          transaction.type === 'add' ? 'text-green-600' : transaction.type === 'sell' ? 'text-purple-600' : 'text-red-600'
                         }`}>
                           {value}
                         </p>
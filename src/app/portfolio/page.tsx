@@ -2,8 +2,12 @@
 
 import { useState, useEffect } from 'react';
 import { Plus, Wallet, TrendingUp, TrendingDown } from 'lucide-react';
-import { Portfolio } from '@/lib/types';
-import { getPortfolios } from '@/lib/storage';
+import { CurrencyCode, Portfolio } from '@/lib/types';
+import { getPortfolios, getPreferences } from '@/lib/storage';
+import { portfolioRepricingService } from '@/lib/services/portfolioRepricingService';
+import { fxRateService } from '@/lib/services/fxRateService';
+import { formatCurrency } from '@/lib/utils/currency';
+import { ErrorMessage } from '@/app/components/ErrorMessage';
 import { PortfolioList } from './components/PortfolioList';
 import { PortfolioOverview } from './components/PortfolioOverview';
 import { CreatePortfolioModal } from './components/CreatePortfolioModal';
@@ -13,12 +17,14 @@ export default function PortfolioPage() {
   const [selectedPortfolio, setSelectedPortfolio] = useState<Portfolio | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [displayCurrency, setDisplayCurrency] = useState<CurrencyCode>('usd');
 
   useEffect(() => {
     const loadPortfolios = () => {
       try {
         const savedPortfolios = getPortfolios();
         setPortfolios(savedPortfolios);
+        setDisplayCurrency(getPreferences().defaultCurrency);
         
         // Auto-select first portfolio if available
         if (savedPortfolios.length > 0 && !selectedPortfolio) {
@@ -34,6 +40,20 @@ export default function PortfolioPage() {
     loadPortfolios();
   }, [selectedPortfolio]);
 
+  // Pick up refreshed prices whenever a repricing run finishes
+  useEffect(() => {
+    const handleRepriced = () => {
+      const savedPortfolios = getPortfolios();
+      setPortfolios(savedPortfolios);
+      setSelectedPortfolio(prev =>
+        prev ? savedPortfolios.find(p => p.id === prev.id) || prev : prev
+      );
+    };
+
+    portfolioRepricingService.onComplete(handleRepriced);
+    return () => portfolioRepricingService.offComplete(handleRepriced);
+  }, []);
+
   const handlePortfolioCreated = (portfolio: Portfolio) => {
     setPortfolios(prev => [...prev, portfolio]);
     setSelectedPortfolio(portfolio);
@@ -58,8 +78,16 @@ export default function PortfolioPage() {
   };
 
   // Calculate summary stats
-  const totalValue = portfolios.reduce((sum, p) => sum + p.totalValue, 0);
-  const totalCost = portfolios.reduce((sum, p) => sum + p.totalCost, 0);
+  // Portfolios are stored in their own base currency, so convert before summing
+  const missingRates = fxRateService.getMissingRates(portfolios.map(p => p.baseCurrency || 'usd'), displayCurrency);
+  const toDisplayCurrency = (amount: number, portfolio: Portfolio) =>
+    fxRateService.convert(amount, portfolio.baseCurrency || 'usd', displayCurrency);
+  const totalValue = missingRates.length === 0
+    ? portfolios.reduce((sum, p) => sum + toDisplayCurrency(p.totalValue, p), 0)
+    : 0;
+  const totalCost = missingRates.length === 0
+    ? portfolios.reduce((sum, p) => sum + toDisplayCurrency(p.totalCost, p), 0)
+    : 0;
   const totalGainLoss = totalValue - totalCost;
   const totalPerformance = totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0;
 
@@ -107,42 +135,51 @@ export default function PortfolioPage() {
             </div>
           </div>
 
-          <div className="bg-card border border-border rounded-lg p-4">
-            <div className="flex items-center space-x-2 mb-2">
-              <span className="text-sm text-muted-foreground">Current Value</span>
-            </div>
-            <div className="text-2xl font-bold text-foreground">
-              ${totalValue.toFixed(2)}
-            </div>
-          </div>
+          {missingRates.length > 0 ? (
+            <ErrorMessage
+              className="md:col-span-3"
+              message={fxRateService.describeMissingRates(missingRates, displayCurrency)}
+            />
+          ) : (
+            <>
+              <div className="bg-card border border-border rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <span className="text-sm text-muted-foreground">Current Value</span>
+                </div>
+                <div className="text-2xl font-bold text-foreground">
+                  {formatCurrency(totalValue, displayCurrency)}
+                </div>
+              </div>
 
-          <div className="bg-card border border-border rounded-lg p-4">
-            <div className="flex items-center space-x-2 mb-2">
-              <span className="text-sm text-muted-foreground">Total Cost</span>
-            </div>
-            <div className="text-2xl font-bold text-foreground">
-              ${totalCost.toFixed(2)}
-            </div>
-          </div>
+              <div className="bg-card border border-border rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <span className="text-sm text-muted-foreground">Total Cost</span>
+                </div>
+                <div className="text-2xl font-bold text-foreground">
+                  {formatCurrency(totalCost, displayCurrency)}
+                </div>
+              </div>
 
-          <div className="bg-card border border-border rounded-lg p-4">
-            <div className="flex items-center space-x-2 mb-2">
-              {totalGainLoss >= 0 ? (
-                <TrendingUp className="h-4 w-4 text-green-500" />
-              ) : (
-                <TrendingDown className="h-4 w-4 text-red-500" />
-              )}
-              <span className="text-sm text-muted-foreground">Gain/Loss</span>
-            </div>
-            <div className={`text-2xl font-bold ${
-              totalGainLoss >= 0 ? 'text-green-600' : 'text-red-600'
-            }`}>
-              {totalGainLoss >= 0 ? '+' : ''}${totalGainLoss.toFixed(2)}
-              <span className="text-sm ml-1">
-                ({totalPerformance >= 0 ? '+' : ''}{totalPerformance.toFixed(1)}%)
-              </span>
-            </div>
-          </div>
+              <div className="bg-card border border-border rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  {totalGainLoss >= 0 ? (
+                    <TrendingUp className="h-4 w-4 text-green-500" />
+                  ) : (
+                    <TrendingDown className="h-4 w-4 text-red-500" />
+                  )}
+                  <span className="text-sm text-muted-foreground">Gain/Loss</span>
+                </div>
+                <div className={`text-2xl font-bold ${
+                  totalGainLoss >= 0 ? 'text-green-600' : 'text-red-600'
+                }`}>
+                  {totalGainLoss >= 0 ? '+' : ''}{formatCurrency(totalGainLoss, displayCurrency)}
+                  <span className="text-sm ml-1">
+                    ({totalPerformance >= 0 ? '+' : ''}{totalPerformance.toFixed(1)}%)
+                  </span>
+                </div>
+              </div>
+            </>
+          )}
         </div>
       )}
 
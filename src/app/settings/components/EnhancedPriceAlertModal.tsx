@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import { X, TrendingUp, TrendingDown, AlertTriangle, Target, Info } from 'lucide-react';
 import { MTGCard, PriceAlert, PriceHistory } from '@/lib/types';
-import { getPriceHistoryForCard } from '@/lib/api/mtgjson';
+import { getPreferredPriceProvider, getPriceHistoryForCard } from '@/lib/api/mtgjson';
 import { searchCards } from '@/lib/api/scryfall';
 import { LoadingSpinner } from '@/app/components/LoadingSpinner';
 
@@ -42,7 +42,8 @@ export function EnhancedPriceAlertModal({ isOpen, onClose, onCreateAlert }: Enha
 
     setLoading(true);
     try {
-      const history = await getPriceHistoryForCard(selectedCard);
+      // Suggested targets are in USD, like the alerts
+      const history = await getPriceHistoryForCard(selectedCard, getPreferredPriceProvider('usd'));
       setPriceHistory(history);
       
       if (history) {
@@ -15,10 +15,15 @@ import {
   AlertTriangle,
   Sun,
   Moon,
-  Monitor
+  Monitor,
+  Scale
 } from 'lucide-react';
-import { UserPreferences, PriceAlert } from '@/lib/types';
-import { getPreferences, savePreferences } from '@/lib/storage';
+import { UserPreferences, PriceAlert, PortfolioCard, CurrencyCode, FxRateTable, PriceProvider } from '@/lib/types';
+import { getPreferences, savePreferences, recalculateAllPortfolioTotals } from '@/lib/storage';
+import { DEFAULT_CONDITION_MULTIPLIERS } from '@/lib/services/valuationService';
+import { fxRateService } from '@/lib/services/fxRateService';
+import { CURRENCY_LABELS, SUPPORTED_CURRENCIES } from '@/lib/utils/currency';
+import { DEFAULT_PRICE_PROVIDER, PRICE_PROVIDERS } from '@/lib/utils/priceProviders';
 import { useTheme } from '@/lib/contexts/ThemeContext';
 import { SettingsSection } from './components/SettingsSection';
 import { SettingsField } from './components/SettingsField';
@@ -30,6 +35,7 @@ const SETTINGS_SECTIONS = [
   { id: 'general', name: 'General', icon: User },
   { id: 'appearance', name: 'Appearance', icon: Palette },
   { id: 'notifications', name: 'Notifications', icon: Bell },
+  { id: 'valuation', name: 'Valuation', icon: Scale },
   { id: 'data', name: 'Data Management', icon: Database },
 ] as const;
 
@@ -88,6 +94,8 @@ export default function SettingsPage() {
     setSaving(true);
     try {
       savePreferences(preferences);
+      // Stored portfolio values depend on the condition multipliers
+      recalculateAllPortfolioTotals();
       setHasChanges(false);
       // Show success feedback (you could add a toast here)
       console.log('Preferences saved successfully');
@@ -208,6 +216,12 @@ export default function SettingsPage() {
                 onPreferenceChange={handlePreferenceChange}
               />
             )}
+            {activeSection === 'valuation' && (
+              <ValuationSettings 
+                preferences={preferences}
+                onPreferenceChange={handlePreferenceChange}
+              />
+            )}
             {activeSection === 'data' && (
               <DataManagementSettings />
             )}
@@ -226,6 +240,9 @@ function GeneralSettings({
   preferences: UserPreferences;
   onPreferenceChange: (key: keyof UserPreferences, value: any) => void;
 }) {
+  // Totals can only be shown in currencies the FX rate table covers
+  const ratedCurrencies = fxRateService.getRatedCurrencies();
+
   return (
     <SettingsSection 
       title="General Settings" 
@@ -235,15 +252,34 @@ function GeneralSettings({
         {/* Default Currency */}
         <SettingsField
           label="Default Currency"
-          description="Choose your preferred currency for displaying card prices."
+          description="Currency for analytics and the default base currency of new portfolios. Currencies need an exchange rate under Valuation."
         >
           <select
             value={preferences.defaultCurrency}
-            onChange={(e) => onPreferenceChange('defaultCurrency', e.target.value as 'usd' | 'eur')}
+            onChange={(e) => onPreferenceChange('defaultCurrency', e.target.value as CurrencyCode)}
             className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
           >
-            <option value="usd">USD ($)</option>
-            <option value="eur">EUR (€)</option>
+            {SUPPORTED_CURRENCIES
+              .filter(currency => currency === preferences.defaultCurrency || ratedCurrencies.includes(currency))
+              .map(currency => (
+                <option key={currency} value={currency}>{CURRENCY_LABELS[currency]}</option>
+              ))}
+          </select>
+        </SettingsField>
+
+        {/* Price Provider */}
+        <SettingsField
+          label="Price History Provider"
+          description="Store whose prices are shown in price history charts. Charts in USD fall back to TCGplayer when this store prices in another currency."
+        >
+          <select
+            value={preferences.priceProvider || DEFAULT_PRICE_PROVIDER}
+            onChange={(e) => onPreferenceChange('priceProvider', e.target.value as PriceProvider)}
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {Object.entries(PRICE_PROVIDERS).map(([value, info]) => (
+              <option key={value} value={value}>{info.label} ({info.currency.toUpperCase()})</option>
+            ))}
           </select>
         </SettingsField>
 
@@ -321,6 +357,161 @@ function GeneralSettings({
   );
 }
 
+// Valuation Settings Component
+const CONDITION_LABELS: Record<PortfolioCard['condition'], string> = {
+  mint: 'Mint',
+  near_mint: 'Near Mint',
+  excellent: 'Excellent',
+  good: 'Good',
+  light_played: 'Light Played',
+  played: 'Played',
+  poor: 'Poor',
+};
+
+function ValuationSettings({ 
+  preferences, 
+  onPreferenceChange 
+}: { 
+  preferences: UserPreferences;
+  onPreferenceChange: (key: keyof UserPreferences, value: any) => void;
+}) {
+  const multipliers = { ...DEFAULT_CONDITION_MULTIPLIERS, ...preferences.conditionMultipliers };
+
+  const handleMultiplierChange = (condition: PortfolioCard['condition'], percent: number) => {
+    if (isNaN(percent)) return;
+    const clamped = Math.min(Math.max(percent, 0), 200);
+    onPreferenceChange('conditionMultipliers', { ...multipliers, [condition]: clamped / 100 });
+  };
+
+  return (
+    <SettingsSection 
+      title="Valuation" 
+      description="Control how holdings are valued from market prices."
+    >
+      <div className="space-y-6">
+        <SettingsField
+          label="Condition Multipliers"
+          description="Holdings are valued at the market price for their finish (foil or non-foil) times the multiplier for their condition."
+        >
+          <div className="space-y-2">
+            {(Object.keys(CONDITION_LABELS) as PortfolioCard['condition'][]).map(condition => (
+              <div key={condition} className="flex items-center justify-between p-3 border border-border rounded-lg bg-accent/50">
+                <span className="text-sm font-medium">{CONDITION_LABELS[condition]}</span>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    min="0"
+                    max="200"
+                    step="1"
+                    value={Math.round(multipliers[condition] * 100)}
+                    onChange={(e) => handleMultiplierChange(condition, parseInt(e.target.value))}
+                    className="w-20 px-2 py-1 text-sm border border-border rounded bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </SettingsField>
+
+        <button
+          onClick={() => onPreferenceChange('conditionMultipliers', { ...DEFAULT_CONDITION_MULTIPLIERS })}
+          className="flex items-center space-x-2 px-3 py-2 text-sm border border-border rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+        >
+          <RotateCcw className="h-4 w-4" />
+          <span>Restore Default Multipliers</span>
+        </button>
+
+        <FxRateSettings />
+      </div>
+    </SettingsSection>
+  );
+}
+
+// Exchange rates are saved as soon as they change, separately from preferences
+function FxRateSettings() {
+  const [table, setTable] = useState<FxRateTable>(() => fxRateService.getRateTable());
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleRateChange = (currency: CurrencyCode, value: string) => {
+    const rate = parseFloat(value);
+    if (!(rate > 0)) return;
+
+    fxRateService.setManualRate(currency, rate);
+    setTable(fxRateService.getRateTable());
+  };
+
+  const handleImportRates = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const imported = fxRateService.parseRatesFile(e.target?.result as string);
+        fxRateService.saveRateTable(imported);
+        setTable(fxRateService.getRateTable());
+        setImportError(null);
+      } catch (error) {
+        setImportError(error instanceof Error ? error.message : 'Failed to read rates file');
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  return (
+    <SettingsField
+      label="Exchange Rates"
+      description={`Rates are units of each currency per 1 ${table.base.toUpperCase()}. Used to value portfolios and purchases in other currencies.${
+        table.updatedAt ? ` Last updated ${new Date(table.updatedAt).toLocaleDateString()} (${table.source}).` : ''
+      }`}
+    >
+      <div className="space-y-2">
+        {SUPPORTED_CURRENCIES.filter(currency => currency !== table.base).map(currency => (
+          <div key={currency} className="flex items-center justify-between p-3 border border-border rounded-lg bg-accent/50">
+            <span className="text-sm font-medium">{CURRENCY_LABELS[currency]}</span>
+            <div className="flex items-center space-x-2">
+              {!table.rates[currency] && (
+                <span className="text-xs text-orange-600">Not set</span>
+              )}
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                defaultValue={table.rates[currency] ?? ''}
+                key={`${currency}-${table.updatedAt}`}
+                onBlur={(e) => handleRateChange(currency, e.target.value)}
+                className="w-28 px-2 py-1 text-sm border border-border rounded bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center space-x-2 pt-2">
+          <input
+            type="file"
+            accept=".json,.csv,.txt"
+            onChange={handleImportRates}
+            className="hidden"
+            id="import-fx-rates"
+          />
+          <label
+            htmlFor="import-fx-rates"
+            className="flex items-center space-x-2 px-3 py-2 text-sm border border-border rounded-lg hover:bg-accent cursor-pointer transition-colors"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import Rates File</span>
+          </label>
+        </div>
+        {importError && (
+          <p className="text-xs text-destructive">{importError}</p>
+        )}
+      </div>
+    </SettingsField>
+  );
+}
+
 // Appearance Settings Component
 function AppearanceSettings({ 
   preferences, 
@@ -484,6 +675,15 @@ function NotificationSettings({
                       <p className="text-xs text-muted-foreground">
                         Alert when price goes {alert.condition} ${alert.targetPrice.toFixed(2)}
                       </p>
+                      {alert.triggeredAt ? (
+                        <p className="text-xs text-amber-600">
+                          Triggered at ${alert.triggeredPrice?.toFixed(2)} on {new Date(alert.triggeredAt).toLocaleDateString()}
+                        </p>
+                      ) : alert.lastCheckedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Last checked {new Date(alert.lastCheckedAt).toLocaleString()}
+                        </p>
+                      )}
                     </div>
                     <button
                       onClick={() => {
@@ -12,9 +12,10 @@ import {
   Filter,
   Target,
   AlertTriangle,
-  DollarSign
+  DollarSign,
+  Upload
 } from 'lucide-react';
-import { MTGCard, PriceAlert, UserPreferences } from '@/lib/types';
+import { MTGCard, PortfolioCard, PriceAlert, UserPreferences } from '@/lib/types';
 import { getWatchlist, addToWatchlist, removeFromWatchlist, isInWatchlist, getPreferences, savePreferences } from '@/lib/storage';
 import { getCard } from '@/lib/api/scryfall';
 import { LoadingSpinner } from '@/app/components/LoadingSpinner';
@@ -22,7 +23,9 @@ import { ErrorMessage } from '@/app/components/ErrorMessage';
 import { CardItem } from '@/app/cards/components/CardItem';
 import { CardModal } from '@/app/cards/components/CardModal';
 import { EnhancedPriceAlertModal } from '@/app/settings/components/EnhancedPriceAlertModal';
+import { CsvUploadModal } from '@/app/portfolio/components/CsvUploadModal';
 import { usePriceTrends } from '@/lib/hooks/usePriceTrends';
+import { priceAlertService } from '@/lib/services/priceAlertService';
 
 interface WishlistCardData {
   card: MTGCard;
@@ -46,12 +49,21 @@ export default function WishlistPage() {
   const [sortBy, setSortBy] = useState<'name' | 'price' | 'alerts' | 'change'>('name');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  const [checkingAlerts, setCheckingAlerts] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
 
   useEffect(() => {
     loadWishlistData();
     loadPreferences();
   }, []);
 
+  // Pick up alerts fired by the background monitor
+  useEffect(() => {
+    const handleTrigger = () => loadPreferences();
+    priceAlertService.onTrigger(handleTrigger);
+    return () => priceAlertService.offTrigger(handleTrigger);
+  }, []);
+
   const loadPreferences = () => {
     try {
       const prefs = getPreferences();
@@ -112,6 +124,12 @@ export default function WishlistPage() {
     loadWishlistData(); // Refresh the list
   };
 
+  const handleCardsImported = (cards: PortfolioCard[]) => {
+    cards.forEach(card => addToWatchlist(card.cardId));
+    setShowImportModal(false);
+    loadWishlistData();
+  };
+
   const handleRemoveFromWatchlist = (cardId: string) => {
     removeFromWatchlist(cardId);
     setWishlistCards(prev => prev.filter(item => item.card.id !== cardId));
@@ -149,6 +167,23 @@ export default function WishlistPage() {
     loadWishlistData(); // Refresh to remove alert
   };
 
+  const handleResetAlert = (alertId: string) => {
+    priceAlertService.resetAlert(alertId);
+    loadPreferences();
+  };
+
+  const handleCheckAlerts = async () => {
+    setCheckingAlerts(true);
+    try {
+      await priceAlertService.evaluateAlerts();
+      loadPreferences();
+    } catch (err) {
+      console.error('Error checking price alerts:', err);
+    } finally {
+      setCheckingAlerts(false);
+    }
+  };
+
   const handleCardClick = (card: MTGCard) => {
     setSelectedCard(card);
     setShowCardModal(true);
@@ -227,14 +262,7 @@ export default function WishlistPage() {
   }, [wishlistCards, searchQuery, filterBy, sortBy, sortOrder]);
 
   const activeAlerts = preferences?.priceAlerts.filter(alert => alert.active) || [];
-  const triggeredAlerts = activeAlerts.filter(alert => {
-    const card = wishlistCards.find(item => item.card.id === alert.cardId)?.card;
-    if (!card || !card.prices.usd) return false;
-    
-    return alert.condition === 'below' 
-      ? card.prices.usd <= alert.targetPrice
-      : card.prices.usd >= alert.targetPrice;
-  });
+  const triggeredAlerts = activeAlerts.filter(alert => alert.triggeredAt);
 
   if (loading) {
     return (
@@ -257,6 +285,21 @@ export default function WishlistPage() {
         </div>
         
         <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="flex items-center space-x-2 px-4 py-2 border border-border rounded-lg hover:bg-accent transition-colors"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import List</span>
+          </button>
+          <button
+            onClick={handleCheckAlerts}
+            disabled={checkingAlerts || activeAlerts.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 border border-border rounded-lg hover:bg-accent transition-colors disabled:opacity-50"
+          >
+            <Target className="h-4 w-4" />
+            <span>{checkingAlerts ? 'Checking...' : 'Check Now'}</span>
+          </button>
           <button
             onClick={() => openAlertModal()}
             className="flex items-center space-x-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
@@ -371,7 +414,7 @@ export default function WishlistPage() {
                     <div>
                       <p className="font-medium text-gray-900">{cardData.card.name}</p>
                       <p className="text-sm text-gray-600">
-                        Target: ${alert.targetPrice} • Current: ${cardData.card.prices.usd}
+                        Target: ${alert.targetPrice} • Triggered at: ${alert.triggeredPrice?.toFixed(2)} on {new Date(alert.triggeredAt!).toLocaleDateString()}
                       </p>
                     </div>
                   </div>
@@ -382,6 +425,12 @@ export default function WishlistPage() {
                     >
                       View Card
                     </button>
+                    <button
+                      onClick={() => handleResetAlert(alert.id)}
+                      className="text-sm text-gray-600 hover:text-gray-800"
+                    >
+                      Re-arm
+                    </button>
                     <button
                       onClick={() => handleRemoveAlert(alert.id)}
                       className="text-sm text-red-600 hover:text-red-800"
@@ -481,6 +530,13 @@ export default function WishlistPage() {
         }}
         onCreateAlert={handleCreateAlert}
       />
+
+      <CsvUploadModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onCardsImported={handleCardsImported}
+        destination="watchlist"
+      />
     </div>
   );
 }
@@ -0,0 +1,50 @@
+import { convertMTGJSONPrices, getPreferredPriceProvider } from '../mtgjson'
+import { savePreferences } from '@/lib/storage'
+import { MTGJSONCardPrices } from '@/lib/types'
+
+const prices: MTGJSONCardPrices = {
+  paper: {
+    tcgplayer: {
+      normal: [{ date: '2024-01-02', price: 2 }, { date: '2024-01-01', price: 1 }],
+      foil: [{ date: '2024-01-01', price: 5 }],
+    },
+    cardmarket: {
+      normal: [{ date: '2024-01-01', price: 0.9 }],
+      foil: [{ date: '2024-01-01', price: 4 }],
+    },
+  },
+  mtgo: {
+    cardhoarder: {
+      normal: [{ date: '2024-01-01', price: 0.03 }],
+    },
+  },
+}
+
+describe('convertMTGJSONPrices', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('labels prices with the provider and its currency', () => {
+    expect(convertMTGJSONPrices('uuid', prices, 'Test', 'cardmarket').map(p => [p.priceType, p.price, p.provider])).toEqual([
+      ['eur', 0.9, 'cardmarket'],
+      ['eurFoil', 4, 'cardmarket'],
+    ])
+    expect(convertMTGJSONPrices('uuid', prices, 'Test', 'cardhoarder').map(p => [p.priceType, p.price])).toEqual([
+      ['tix', 0.03],
+    ])
+  })
+
+  it('uses the provider picked in settings by default', () => {
+    savePreferences({ priceProvider: 'cardmarket' })
+
+    expect(convertMTGJSONPrices('uuid', prices, 'Test').every(p => p.provider === 'cardmarket')).toBe(true)
+    expect(getPreferredPriceProvider('usd')).toBe('tcgplayer')
+  })
+
+  it('sorts prices by date', () => {
+    const converted = convertMTGJSONPrices('uuid', prices, 'Test', 'tcgplayer')
+
+    expect(converted.map(p => p.date)).toEqual(['2024-01-01', '2024-01-01', '2024-01-02'])
+  })
+})
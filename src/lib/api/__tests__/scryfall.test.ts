@@ -8,6 +8,8 @@ import {
   getCardSuggestions,
 } from '../scryfall'
 import { mockFetch } from '@/test-utils'
+import { priceObservationService } from '@/lib/services/priceObservationService'
+import { MTGCard } from '@/lib/types'
 
 // Mock the rate limiting delay to speed up tests
 jest.mock('../scryfall', () => {
@@ -186,50 +188,53 @@ describe('Scryfall API', () => {
   })
 
   describe('getPriceHistory', () => {
-    it('should generate mock price history', async () => {
-      const mockCardResponse = {
-        id: 'test-id',
-        name: 'Lightning Bolt',
-        prices: { usd: '1.00' },
-        mana_cost: '{R}',
-        cmc: 1,
-        type_line: 'Instant',
-        set_name: 'Test Set',
-        set: 'tst',
-        rarity: 'common',
-        legalities: {},
-      }
-      
+    const mockCardResponse = {
+      id: 'test-id',
+      name: 'Lightning Bolt',
+      prices: { usd: '1.00' },
+      mana_cost: '{R}',
+      cmc: 1,
+      type_line: 'Instant',
+      set_name: 'Test Set',
+      set: 'tst',
+      rarity: 'common',
+      legalities: {},
+    }
+
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it('should fall back to recorded prices', async () => {
+      priceObservationService.recordObservations(
+        [{ id: 'test-id', prices: { usd: 0.8 } } as MTGCard],
+        new Date(Date.now() - 24 * 60 * 60 * 1000)
+      )
       mockFetch(mockCardResponse)
 
       const history = await getPriceHistory('test-id', 7)
 
-      expect(history).toHaveLength(8) // 7 days + today
-      expect(history[0]).toHaveProperty('date')
-      expect(history[0]).toHaveProperty('price')
+      expect(history.map(point => point.price)).toEqual([0.8, 1])
       expect(history[0]).toHaveProperty('priceType', 'usd')
     })
 
-    it('should handle cards without price', async () => {
-      const mockCardResponse = {
-        id: 'test-id',
-        name: 'Test Card',
-        prices: {},
-        mana_cost: '',
-        cmc: 0,
-        type_line: 'Token',
-        set_name: 'Test Set',
-        set: 'tst',
-        rarity: 'common',
-        legalities: {},
-      }
-      
+    it('should only return prices from the requested days and price type', async () => {
+      const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+      priceObservationService.recordObservations([{ id: 'test-id', prices: { usd: 0.5 } } as MTGCard], daysAgo(10))
+      priceObservationService.recordObservations([{ id: 'test-id', prices: { usd: 0.8, usdFoil: 3 } } as MTGCard], daysAgo(1))
+      mockFetch(mockCardResponse)
+
+      const history = await getPriceHistory('test-id', 7)
+
+      expect(history.map(point => [point.price, point.priceType])).toEqual([[0.8, 'usd'], [1, 'usd']])
+    })
+
+    it('should not make up prices without enough recorded ones', async () => {
       mockFetch(mockCardResponse)
 
       const history = await getPriceHistory('test-id')
 
-      expect(history).toHaveLength(31) // 30 days + today
-      expect(history.every(point => point.price >= 0.01)).toBe(true)
+      expect(history).toEqual([])
     })
   })
 
@@ -5,6 +5,7 @@
  */
 
 import { MTGCard } from '@/lib/types';
+import { priceObservationService } from '@/lib/services/priceObservationService';
 
 // API Response Types (matching our server responses)
 export interface APIResponse<T = any> {
@@ -197,7 +198,9 @@ export async function getCard(cardId: string, options: { set?: string } = {}): P
   const queryString = params.toString();
   const endpoint = `/${cardId}${queryString ? `?${queryString}` : ''}`;
   
-  return apiRequest<MTGCard>(endpoint);
+  const card = await apiRequest<MTGCard>(endpoint);
+  priceObservationService.recordObservation(card);
+  return card;
 }
 
 /**
@@ -210,10 +213,12 @@ export async function batchLookupCards(
     set?: string;
   }>
 ): Promise<BatchLookupResponse> {
-  return apiRequest<BatchLookupResponse>('/batch', {
+  const response = await apiRequest<BatchLookupResponse>('/batch', {
     method: 'POST',
     body: JSON.stringify({ identifiers }),
   });
+  priceObservationService.recordObservations(response.found);
+  return response;
 }
 
 /**
@@ -1,19 +1,28 @@
 import { 
   MTGJSONCard, 
   MTGJSONCardPrices, 
+  MTGJSONFileCardPrices,
   MTGJSONPricePoint, 
   MTGJSONConfig, 
   MTGJSONCache,
   PriceHistory,
+  PriceCurrency,
+  PriceProvider,
+  PriceWindow,
   ProcessedCardPrice,
   MTGCard 
 } from '@/lib/types';
+import { getSettings } from '@/lib/storage';
+import { DEFAULT_PRICE_PROVIDER, PRICE_PROVIDERS, getProviderPriceTypes } from '@/lib/utils/priceProviders';
+import { summarizePriceSeries } from '@/lib/utils/priceAnalysis';
+import { getWindowStart } from '@/lib/utils/priceSeries';
+import { priceSeriesService } from '@/lib/services/priceSeriesService';
 
 // MTGJSON Configuration
 const MTGJSON_CONFIG: MTGJSONConfig = {
   baseUrl: 'https://mtgjson.com/api/v5',
   cacheExpiry: 24 * 60 * 60 * 1000, // 24 hours
-  preferredProvider: 'tcgplayer',
+  preferredProvider: DEFAULT_PRICE_PROVIDER, // Used when the user hasn't picked one
   enableCaching: true,
 };
 
@@ -110,6 +119,8 @@ function setCachedData<T>(key: string, data: T, customExpiry?: number): void {
 
 // Import the card mapping service
 import { cardMappingService } from '@/lib/services/cardMappingService';
+import { mtgjsonPriceUpdateService } from '@/lib/services/mtgjsonPriceUpdateService';
+import { normalizeMTGJSONPrices } from '@/lib/utils/mtgjsonPriceMerge';
 
 // Map Scryfall card to MTGJSON UUID
 export async function getCardMapping(scryfallCard: MTGCard): Promise<string | null> {
@@ -141,7 +152,7 @@ export async function fetchPriceHistoryByUUID(uuid: string): Promise<MTGJSONCard
     // Try to get from AllPrices data
     const priceData = await getAllPricesData();
     if (priceData && priceData[uuid]) {
-      const cardPrices = priceData[uuid];
+      const cardPrices = normalizeMTGJSONPrices(priceData[uuid]);
       
       // Cache the result
       setCachedData(cacheKey, cardPrices);
@@ -158,10 +169,20 @@ export async function fetchPriceHistoryByUUID(uuid: string): Promise<MTGJSONCard
 }
 
 // Fetch and cache AllPrices.json data
-let allPricesCache: Record<string, MTGJSONCardPrices> | null = null;
-let allPricesLoadingPromise: Promise<Record<string, MTGJSONCardPrices> | null> | null = null;
+let allPricesCache: Record<string, MTGJSONCardPrices | MTGJSONFileCardPrices> | null = null;
+let allPricesLoadingPromise: Promise<Record<string, MTGJSONCardPrices | MTGJSONFileCardPrices> | null> | null = null;
 
-async function getAllPricesData(): Promise<Record<string, MTGJSONCardPrices> | null> {
+// Daily updates change the stored histories, so drop what was read from them
+mtgjsonPriceUpdateService.onUpdate(updatedUuids => {
+  allPricesCache = null;
+  if (typeof window === 'undefined') return;
+  updatedUuids.forEach(uuid => localStorage.removeItem(`${CACHE_KEYS.PRICE_HISTORY}${uuid}`));
+  priceSeriesService.invalidateSync(updatedUuids).catch(error => {
+    console.error('Error resetting price series sync times:', error);
+  });
+});
+
+async function getAllPricesData(): Promise<Record<string, MTGJSONCardPrices | MTGJSONFileCardPrices> | null> {
   // Return cached data if available
   if (allPricesCache) {
     return allPricesCache;
@@ -177,105 +198,87 @@ async function getAllPricesData(): Promise<Record<string, MTGJSONCardPrices> | n
   return allPricesLoadingPromise;
 }
 
-async function loadAllPricesData(): Promise<Record<string, MTGJSONCardPrices> | null> {
+async function loadAllPricesData(): Promise<Record<string, MTGJSONCardPrices | MTGJSONFileCardPrices> | null> {
   try {
     console.log('Loading MTGJSON AllPrices data...');
 
-    // Check if we have cached AllPrices data
-    const cachedAllPrices = getCachedData<{
-      data: Record<string, MTGJSONCardPrices>;
-      timestamp: number;
-      version: string;
-    }>('mtgjson-all-prices-data');
-
-    // Use cached data if it's less than 24 hours old
-    if (cachedAllPrices && (Date.now() - cachedAllPrices.timestamp) < 24 * 60 * 60 * 1000) {
-      console.log('Using cached AllPrices data');
-      allPricesCache = cachedAllPrices.data;
-      return allPricesCache;
-    }
+    // Stored by the Admin panel's AllPrices download and by daily updates
+    const storedAllPrices = mtgjsonPriceUpdateService.getStoredPrices();
 
-    // Check if data was manually initialized via Admin panel
-    if (cachedAllPrices) {
-      console.log('Using manually initialized MTGJSON data');
-      allPricesCache = cachedAllPrices.data;
-      return allPricesCache;
+    if (!storedAllPrices) {
+      // The AllPrices.json file is very large (200+ MB) and can cause issues
+      // Data should be initialized via Admin panel for better user experience
+      console.warn('AllPrices.json not found - use Admin panel to initialize MTGJSON data');
+      return null;
     }
 
-    // The AllPrices.json file is very large (200+ MB) and can cause issues
-    // Data should be initialized via Admin panel for better user experience
-    console.warn('AllPrices.json not found - use Admin panel to initialize MTGJSON data');
-    console.log('Price history features will use trend-based simulation until MTGJSON data is loaded');
-    
-    return null;
+    // Append the latest day's prices in the background once a day
+    if (Date.now() - storedAllPrices.timestamp > MTGJSON_CONFIG.cacheExpiry) {
+      mtgjsonPriceUpdateService.update().then(result => {
+        if (!result.success) {
+          console.warn('MTGJSON daily price update failed:', result.error);
+        }
+      });
+    }
 
-    // Note: Chunked downloading disabled for current implementation
-    // console.log('Fetching fresh AllPrices data from MTGJSON...');
-    // const response = await rateLimitedFetch('https://mtgjson.com/api/v5/AllPrices.json');
-    // 
-    // if (!response.ok) {
-    //   throw new Error(`Failed to fetch AllPrices: ${response.status} ${response.statusText}`);
-    // }
-    //
-    // // Parse the JSON response with better error handling
-    // let allPricesResponse;
-    // try {
-    //   allPricesResponse = await response.json();
-    // } catch (jsonError) {
-    //   throw new Error(`Failed to parse AllPrices JSON: ${jsonError.message}. The file may be corrupted or incomplete.`);
-    // }
+    allPricesCache = storedAllPrices.data;
+    return allPricesCache;
   } catch (error) {
     console.error('Failed to load AllPrices data:', error);
-    
-    // Try to use stale cached data as fallback
-    const staleCache = getCachedData<{
-      data: Record<string, MTGJSONCardPrices>;
-      timestamp: number;
-    }>('mtgjson-all-prices-data');
-
-    if (staleCache) {
-      console.warn('Using stale AllPrices cache due to fetch failure');
-      allPricesCache = staleCache.data;
-      return allPricesCache;
-    }
-
     return null;
   } finally {
     allPricesLoadingPromise = null;
   }
 }
 
+/**
+ * The user's default price provider. Pass a currency when prices must be
+ * in it, e.g. USD alert targets; a default in another currency then falls
+ * back to the configured provider.
+ */
+export function getPreferredPriceProvider(currency?: PriceCurrency): PriceProvider {
+  const provider = (typeof window !== 'undefined' && getSettings().priceProvider) || MTGJSON_CONFIG.preferredProvider;
+
+  if (currency && PRICE_PROVIDERS[provider].currency !== currency) {
+    return MTGJSON_CONFIG.preferredProvider;
+  }
+  return provider;
+}
+
 // Convert MTGJSON price data to our internal format
 export function convertMTGJSONPrices(
   uuid: string,
   mtgjsonPrices: MTGJSONCardPrices,
-  cardName: string
+  cardName: string,
+  provider: PriceProvider = getPreferredPriceProvider()
 ): ProcessedCardPrice[] {
   const processedPrices: ProcessedCardPrice[] = [];
   
   try {
-    // Get the preferred provider's data
-    const provider = MTGJSON_CONFIG.preferredProvider;
-    const paperPrices = mtgjsonPrices.paper?.[provider];
+    const providerPrices: { normal?: MTGJSONPricePoint[]; foil?: MTGJSONPricePoint[] } | undefined = provider === 'cardhoarder'
+      ? mtgjsonPrices.mtgo?.cardhoarder
+      : mtgjsonPrices.paper?.[provider];
+    const priceTypes = getProviderPriceTypes(provider);
     
-    if (paperPrices?.normal) {
-      paperPrices.normal.forEach(pricePoint => {
-        processedPrices.push({
-          cardId: uuid,
-          date: pricePoint.date,
-          price: pricePoint.price,
-          priceType: 'usd',
-        });
+    providerPrices?.normal?.forEach(pricePoint => {
+      processedPrices.push({
+        cardId: uuid,
+        date: pricePoint.date,
+        price: pricePoint.price,
+        priceType: priceTypes.normal,
+        provider,
       });
-    }
+    });
     
-    if (paperPrices?.foil) {
-      paperPrices.foil.forEach(pricePoint => {
+    const foilType = priceTypes.foil;
+    if (foilType) {
+      providerPrices?.foil?.forEach(pricePoint => {
         processedPrices.push({
           cardId: uuid,
           date: pricePoint.date,
           price: pricePoint.price,
-          priceType: 'usdFoil',
+          priceType: foilType,
+          provider,
         });
       });
     }
@@ -286,74 +289,97 @@ export function convertMTGJSONPrices(
   return processedPrices.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 }
 
-// Get price history for a Scryfall card
-export async function getPriceHistoryForCard(scryfallCard: MTGCard): Promise<PriceHistory | null> {
+// Get price history for a Scryfall card from one provider
+export async function getPriceHistoryForCard(
+  scryfallCard: MTGCard,
+  provider: PriceProvider = getPreferredPriceProvider(),
+  window: PriceWindow = 'all'
+): Promise<PriceHistory | null> {
+  const histories = await getPriceHistoriesForCard(scryfallCard, [provider], window);
+  return histories[0] || null;
+}
+
+/**
+ * Price histories for a card from several providers, e.g. to overlay them.
+ * Providers without prices for the card are left out. Histories come from
+ * the local price series store, which is synced with MTGJSON once a day
+ * and after each daily price update.
+ */
+export async function getPriceHistoriesForCard(
+  scryfallCard: MTGCard,
+  providers: PriceProvider[],
+  window: PriceWindow = 'all'
+): Promise<PriceHistory[]> {
   try {
     // First, get the MTGJSON UUID mapping
     const uuid = await getCardMapping(scryfallCard);
     if (!uuid) {
       console.log(`No MTGJSON mapping found for ${scryfallCard.name}`);
-      return null;
-    }
-
-    // Fetch the price history
-    const mtgjsonPrices = await fetchPriceHistoryByUUID(uuid);
-    if (!mtgjsonPrices) {
-      return null;
+      return [];
     }
 
-    // Convert to our internal format
-    const processedPrices = convertMTGJSONPrices(uuid, mtgjsonPrices, scryfallCard.name);
-    
-    if (processedPrices.length === 0) {
-      return null;
+    // Without MTGJSON data to sync from, the stored series are still the best history
+    const mtgjsonPrices = await priceSeriesService.needsSync(uuid)
+      ? await fetchPriceHistoryByUUID(uuid)
+      : null;
+
+    if (mtgjsonPrices) {
+      try {
+        await priceSeriesService.syncHistory(uuid, mtgjsonPrices);
+      } catch {
+        // Without IndexedDB the histories are read straight from MTGJSON data
+        const windowStart = getWindowStart(window);
+        return providers
+          .map(provider => buildPriceHistory(
+            scryfallCard.id,
+            uuid,
+            provider,
+            convertMTGJSONPrices(uuid, mtgjsonPrices, scryfallCard.name, provider)
+              .filter(price => price.date >= windowStart)
+          ))
+          .filter((history): history is PriceHistory => history !== null);
+      }
     }
 
-    // Calculate trend and volatility
-    const prices = processedPrices.map(p => p.price);
-    const averagePrice = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-    
-    // Simple trend calculation (last 7 days vs previous 7 days)
-    const recent = prices.slice(-7);
-    const previous = prices.slice(-14, -7);
-    const recentAvg = recent.reduce((sum, p) => sum + p, 0) / recent.length;
-    const previousAvg = previous.reduce((sum, p) => sum + p, 0) / previous.length;
-    
-    const trend: 'up' | 'down' | 'stable' = 
-      recentAvg > previousAvg * 1.05 ? 'up' :
-      recentAvg < previousAvg * 0.95 ? 'down' : 'stable';
-
-    // Calculate volatility (standard deviation)
-    const variance = prices.reduce((sum, price) => sum + Math.pow(price - averagePrice, 2), 0) / prices.length;
-    const volatility = Math.sqrt(variance);
-
-    // Calculate percentage changes
-    const percentChange24h = prices.length >= 2 ? 
-      ((prices[prices.length - 1] - prices[prices.length - 2]) / prices[prices.length - 2]) * 100 : undefined;
-    
-    const percentChange7d = recent.length > 0 && previous.length > 0 ? 
-      ((recentAvg - previousAvg) / previousAvg) * 100 : undefined;
-
-    return {
-      cardId: scryfallCard.id,
-      uuid,
-      prices: processedPrices,
-      trend,
-      volatility,
-      averagePrice,
-      percentChange24h,
-      percentChange7d,
-      lastUpdated: new Date().toISOString(),
-      provider: 'mtgjson',
-    };
+    const histories = await Promise.all(
+      providers.map(provider => priceSeriesService.getPriceHistory(scryfallCard.id, uuid, provider, window))
+    );
+    return histories.filter((history): history is PriceHistory => history !== null);
   } catch (error) {
     // Don't spam console with AllPrices errors - this is expected until data is loaded
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     if (!errorMessage.includes('AllPrices')) {
       console.error(`Error getting price history for ${scryfallCard.name}:`, error);
     }
+    return [];
+  }
+}
+
+function buildPriceHistory(
+  cardId: string,
+  uuid: string,
+  provider: PriceProvider,
+  processedPrices: ProcessedCardPrice[]
+): PriceHistory | null {
+  if (processedPrices.length === 0) {
     return null;
   }
+
+  // Statistics come from normal prices, unless the card is only printed in foil
+  const normalType = getProviderPriceTypes(provider).normal;
+  const normalPrices = processedPrices.filter(p => p.priceType === normalType);
+  const prices = (normalPrices.length > 0 ? normalPrices : processedPrices).map(p => p.price);
+
+  return {
+    cardId,
+    uuid,
+    prices: processedPrices,
+    ...summarizePriceSeries(prices),
+    lastUpdated: new Date().toISOString(),
+    provider: 'mtgjson',
+    priceProvider: provider,
+    currency: PRICE_PROVIDERS[provider].currency,
+  };
 }
 
 // Batch fetch price histories for multiple cards
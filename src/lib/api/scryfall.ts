@@ -17,7 +17,8 @@
  * - batchLookupCards() -> import { batchLookupCards } from '@/lib/api/client'
  */
 
-import { MTGCard } from '@/lib/types';
+import { MTGCard, PriceCurrency } from '@/lib/types';
+import { priceObservationService } from '@/lib/services/priceObservationService';
 
 const SCRYFALL_API_BASE = 'https://api.scryfall.com';
 const API_PROXY_BASE = '/api/cards'; // Our Next.js API routes
@@ -255,6 +256,13 @@ export async function advancedSearch(
 }
 
 export async function getCard(cardId: string): Promise<MTGCard> {
+  const card = await fetchCardById(cardId);
+  priceObservationService.recordObservation(card);
+  return card;
+}
+
+// Fetch a card without recording its prices, for callers that record a batch at once
+async function fetchCardById(cardId: string): Promise<MTGCard> {
   try {
     const apiBase = getApiBase();
     const endpoint = apiBase === SCRYFALL_API_BASE ? `/cards/${cardId}` : `/${cardId}`;
@@ -280,55 +288,61 @@ interface PriceHistoryPoint {
 }
 
 export async function getPriceHistory(cardId: string, days: number = 30): Promise<PriceHistoryPoint[]> {
+  return (await getPriceHistoryWithSource(cardId, days)).points;
+}
+
+/**
+ * Price history of one price type over the last `days` days from MTGJSON,
+ * falling back to the Scryfall prices recorded locally. With neither there
+ * are no points, never made-up ones.
+ */
+export async function getPriceHistoryWithSource(
+  cardId: string,
+  days: number = 30,
+  priceType: PriceHistoryPoint['priceType'] = 'usd'
+): Promise<{
+  points: PriceHistoryPoint[];
+  source: 'mtgjson' | 'recorded' | 'none';
+}> {
+  const currency = priceType.replace('Foil', '') as PriceCurrency;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const inWindow = (point: { date: string; priceType: string }) =>
+    point.priceType === priceType && point.date >= since;
+
   try {
     // First try to get real historical data from MTGJSON
-    const { getPriceHistoryForCard } = await import('./mtgjson');
+    const { getPreferredPriceProvider, getPriceHistoryForCard } = await import('./mtgjson');
     
     const card = await getCard(cardId);
-    const mtgjsonHistory = await getPriceHistoryForCard(card);
+    const mtgjsonHistory = await getPriceHistoryForCard(card, getPreferredPriceProvider(currency));
+    const points = (mtgjsonHistory?.prices || []).filter(inWindow);
     
-    if (mtgjsonHistory && mtgjsonHistory.prices.length > 0) {
+    if (points.length > 0) {
       // Convert MTGJSON data to our expected format
-      return mtgjsonHistory.prices
-        .slice(-days) // Get last N days
-        .map(price => ({
+      return {
+        points: points.map(price => ({
           date: price.date,
           price: price.price,
-          priceType: price.priceType as 'usd' | 'usdFoil' | 'eur' | 'eurFoil' | 'tix',
-        }));
-    }
-    
-    // Fallback to mock data if MTGJSON data is not available
-    console.log(`Using mock price history for ${card.name} - MTGJSON data not available`);
-    
-    const currentPrice = card.prices.usd || 0;
-    
-    // Generate mock historical data
-    const history: PriceHistoryPoint[] = [];
-    const now = new Date();
-    
-    for (let i = days; i >= 0; i--) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      
-      // Generate realistic price variation (±5% daily change)
-      const variation = (Math.random() - 0.5) * 0.1; // ±5%
-      const dailyMultiplier = 1 + variation;
-      const basePrice = currentPrice * Math.pow(0.99 + Math.random() * 0.02, i); // Slight downward trend over time
-      const price = Math.max(0.01, basePrice * dailyMultiplier);
-      
-      history.push({
-        date: date.toISOString().split('T')[0],
-        price: Math.round(price * 100) / 100,
-        priceType: 'usd',
-      });
+          priceType,
+        })),
+        source: 'mtgjson',
+      };
     }
-    
-    return history;
   } catch (error) {
     console.error('Error fetching price history:', error);
-    return [];
   }
+
+  const recorded = priceObservationService.getRecordedPriceHistory(cardId, currency);
+  if (recorded) {
+    return {
+      points: recorded.prices
+        .filter(inWindow)
+        .map(({ date, price, priceType }) => ({ date, price, priceType })),
+      source: 'recorded',
+    };
+  }
+
+  return { points: [], source: 'none' };
 }
 
 // Get random cards for featured/popular sections
@@ -400,7 +414,11 @@ const setNameMappings: Record<string, string> = {
 };
 
 // Get card by exact name and set (for CardSphere CSV mapping)
-export async function getCardByNameAndSet(cardName: string, setCode?: string): Promise<MTGCard | null> {
+export async function getCardByNameAndSet(
+  cardName: string,
+  setCode?: string,
+  collectorNumber?: string
+): Promise<MTGCard | null> {
   // Normalize the set code if it's a full name
   let normalizedSetCode = setCode;
   if (setCode && setNameMappings[setCode]) {
@@ -409,6 +427,11 @@ export async function getCardByNameAndSet(cardName: string, setCode?: string): P
 
   // Try multiple search strategies
   const searchStrategies = [
+    // Strategy 0: Exact printing when the export has a collector number
+    () => normalizedSetCode && collectorNumber
+      ? `!"${cardName}" set:${normalizedSetCode} cn:"${collectorNumber}"`
+      : null,
+
     // Strategy 1: Exact name with normalized set
     () => {
       let searchQuery = `!"${cardName}"`;
@@ -471,7 +494,7 @@ export async function getCardByNameAndSet(cardName: string, setCode?: string): P
 }
 
 // Batch lookup for CardSphere CSV import
-export async function batchLookupCards(cardEntries: Array<{name: string, set?: string, scryfallId?: string}>): Promise<Array<{
+export async function batchLookupCards(cardEntries: Array<{name: string, set?: string, scryfallId?: string, collectorNumber?: string}>): Promise<Array<{
   name: string;
   set?: string;
   scryfallId?: string;
@@ -479,6 +502,7 @@ export async function batchLookupCards(cardEntries: Array<{name: string, set?: s
   error?: string;
 }>> {
   const results = [];
+  const found: MTGCard[] = [];
   
   for (const entry of cardEntries) {
     try {
@@ -487,7 +511,7 @@ export async function batchLookupCards(cardEntries: Array<{name: string, set?: s
       // Strategy 1: Try Scryfall ID first (most reliable)
       if (entry.scryfallId) {
         try {
-          card = await getCard(entry.scryfallId);
+          card = await fetchCardById(entry.scryfallId);
         } catch (error) {
           console.log(`Failed to fetch card by Scryfall ID ${entry.scryfallId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -495,9 +519,13 @@ export async function batchLookupCards(cardEntries: Array<{name: string, set?: s
       
       // Strategy 2: Fall back to name + set search if ID lookup failed
       if (!card) {
-        card = await getCardByNameAndSet(entry.name, entry.set);
+        card = await getCardByNameAndSet(entry.name, entry.set, entry.collectorNumber);
       }
       
+      if (card) {
+        found.push(card);
+      }
+
       results.push({
         name: entry.name,
         set: entry.set,
@@ -515,6 +543,9 @@ export async function batchLookupCards(cardEntries: Array<{name: string, set?: s
       });
     }
   }
+
+  // One write of the observation store for the whole batch
+  priceObservationService.recordObservations(found);
   
   return results;
 }
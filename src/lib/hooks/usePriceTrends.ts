@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { getPriceHistory } from '@/lib/api/scryfall';
+import { getPriceHistoryWithSource } from '@/lib/api/scryfall';
 import { analyzePriceTrends, PriceTrendAnalysis } from '@/lib/utils/priceAnalysis';
 import { isRealPriceDataAvailable, getMTGJSONStatusMessage } from '@/lib/utils/mtgjsonStatus';
 
@@ -21,7 +21,7 @@ interface UsePriceTrendsReturn {
   trends: PriceTrendAnalysis | null;
   loading: boolean;
   error: string | null;
-  dataSource: 'mtgjson' | 'unknown';
+  dataSource: 'mtgjson' | 'recorded' | 'unknown';
   dataSourceMessage: string;
   refresh: () => void;
 }
@@ -30,11 +30,13 @@ interface UsePriceTrendsReturn {
 const trendsCache = new Map<string, {
   data: PriceTrendAnalysis;
   timestamp: number;
-  isMockData?: boolean;
+  source?: 'mtgjson' | 'recorded' | 'none';
   promise?: Promise<PriceTrendAnalysis>;
 }>();
 
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+// Enough days of prices for anomaly detection to have a window before the last 14 days
+const HISTORY_DAYS = 120;
 
 /**
  * Hook to fetch and analyze price trends for a card
@@ -47,7 +49,7 @@ export function usePriceTrends(
   const [trends, setTrends] = useState<PriceTrendAnalysis | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [dataSource, setDataSource] = useState<'mtgjson' | 'unknown'>('unknown');
+  const [dataSource, setDataSource] = useState<'mtgjson' | 'recorded' | 'unknown'>('unknown');
   const [dataSourceMessage, setDataSourceMessage] = useState<string>('');
   const abortControllerRef = useRef<AbortController | null>(null);
   const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -69,14 +71,15 @@ export function usePriceTrends(
     // Create new request
     const promise = (async () => {
       try {
-        const priceHistory: PriceHistoryPoint[] = await getPriceHistory(cardId);
+        const { points, source } = await getPriceHistoryWithSource(cardId, HISTORY_DAYS);
+        const priceHistory: PriceHistoryPoint[] = points;
         const analysis = analyzePriceTrends(priceHistory);
         
         // Cache the result
         trendsCache.set(cardId, {
           data: analysis,
           timestamp: now,
-          isMockData: false,
+          source,
         });
         
         return analysis;
@@ -126,10 +129,16 @@ export function usePriceTrends(
           setError(null);
           
           // Update data source information
-          const hasRealData = isRealPriceDataAvailable();
-          if (hasRealData) {
+          const source = trendsCache.get(cardId)?.source;
+          if (source === 'mtgjson' || (!source && isRealPriceDataAvailable())) {
             setDataSource('mtgjson');
             setDataSourceMessage('Using real historical price data from MTGJSON');
+          } else if (source === 'recorded') {
+            setDataSource('recorded');
+            setDataSourceMessage('Using Scryfall prices recorded on this device');
+          } else if (source === 'none') {
+            setDataSource('unknown');
+            setDataSourceMessage('Insufficient price data - prices are recorded each time the card is viewed');
           } else {
             setDataSource('unknown');
             setDataSourceMessage('No price data available - MTGJSON not initialized');
@@ -266,12 +275,14 @@ export function useBatchPriceTrends(
     }
 
     try {
-      const priceHistory: PriceHistoryPoint[] = await getPriceHistory(cardId);
+      const { points, source } = await getPriceHistoryWithSource(cardId, HISTORY_DAYS);
+      const priceHistory: PriceHistoryPoint[] = points;
       const analysis = analyzePriceTrends(priceHistory);
       
       trendsCache.set(cardId, {
         data: analysis,
         timestamp: now,
+        source,
       });
       
       return analysis;
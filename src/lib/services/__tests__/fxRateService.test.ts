@@ -0,0 +1,85 @@
+import { fxRateService, MissingFxRateError } from '../fxRateService'
+import { valuationService } from '../valuationService'
+import { addCardToPortfolioWithTracking, getPortfolioById, savePortfolio } from '@/lib/storage'
+import { FxRateTable, Portfolio, PortfolioCard } from '@/lib/types'
+import { mockMTGCard, mockPortfolio, mockPortfolioCard } from '@/test-utils'
+
+describe('fxRateService', () => {
+  const rates: FxRateTable = {
+    base: 'usd',
+    rates: { usd: 1, eur: 0.8, gbp: 0.5 },
+    source: 'manual',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('converts through the base currency', () => {
+    expect(fxRateService.convert(10, 'usd', 'eur', rates)).toBe(8)
+    expect(fxRateService.convert(8, 'eur', 'gbp', rates)).toBe(5)
+    expect(fxRateService.getRate('usd', 'jpy', rates)).toBeNull()
+    expect(() => fxRateService.convert(10, 'usd', 'jpy', rates)).toThrow(MissingFxRateError)
+  })
+
+  it('lists the currencies without a rate to the target', () => {
+    expect(fxRateService.getRatedCurrencies(rates)).toEqual(['usd', 'eur', 'gbp'])
+    expect(fxRateService.getMissingRates(['usd', 'eur', 'jpy', 'jpy'], 'gbp', rates)).toEqual(['jpy'])
+    expect(fxRateService.getMissingRates(['usd', 'eur'], 'jpy', rates)).toEqual(['usd', 'eur'])
+    expect(fxRateService.getMissingRates(['jpy'], 'jpy', rates)).toEqual([])
+  })
+
+  it('parses JSON and CSV rates files', () => {
+    const json = fxRateService.parseRatesFile('{"base":"EUR","rates":{"USD":1.25,"XYZ":3}}')
+    expect(json.base).toBe('eur')
+    expect(json.rates).toEqual({ eur: 1, usd: 1.25 })
+    expect(json.source).toBe('file')
+
+    const csv = fxRateService.parseRatesFile('currency,rate\nEUR,0.9\nGBP,0.75\n')
+    expect(csv.rates).toEqual({ usd: 1, eur: 0.9, gbp: 0.75 })
+
+    expect(() => fxRateService.parseRatesFile('nothing useful')).toThrow('No usable exchange rates')
+  })
+
+  it('prefers Cardmarket EUR prices for EUR valuations', () => {
+    fxRateService.saveRateTable(rates)
+    const card = mockMTGCard({ prices: { usd: 10, eur: 7 } })
+    const usdOnly = mockMTGCard({ prices: { usd: 10, eur: null } })
+
+    expect(valuationService.getMarketPrice(card, false, 'eur')).toBe(7)
+    expect(valuationService.getMarketPrice(usdOnly, false, 'eur')).toBe(8)
+    expect(valuationService.getMarketPrice(usdOnly, false, 'gbp')).toBe(5)
+  })
+
+  it('converts foreign-currency purchases into the portfolio base currency', () => {
+    fxRateService.saveRateTable(rates)
+    const portfolio = mockPortfolio({ cards: [], baseCurrency: 'eur' }) as Portfolio
+    savePortfolio(portfolio)
+
+    addCardToPortfolioWithTracking(portfolio.id, mockPortfolioCard({
+      quantity: 2,
+      purchasePrice: 10,
+      purchaseCurrency: 'usd',
+    }) as PortfolioCard)
+
+    const holding = getPortfolioById(portfolio.id)!.cards[0]
+    expect(holding.purchasePrice).toBe(8)
+    expect(holding.purchaseCurrency).toBeUndefined()
+    expect(holding.lots?.[0]).toMatchObject({ pricePerCard: 8, currency: 'usd', originalPricePerCard: 10 })
+    expect(getPortfolioById(portfolio.id)!.totalCost).toBe(16)
+  })
+
+  it('refuses purchases in a currency without a rate', () => {
+    fxRateService.saveRateTable(rates)
+    const portfolio = mockPortfolio({ cards: [], baseCurrency: 'eur' }) as Portfolio
+    savePortfolio(portfolio)
+
+    expect(() => addCardToPortfolioWithTracking(portfolio.id, mockPortfolioCard({
+      quantity: 1,
+      purchasePrice: 1000,
+      purchaseCurrency: 'jpy',
+    }) as PortfolioCard)).toThrow('No exchange rate from JPY to EUR')
+    expect(getPortfolioById(portfolio.id)!.cards).toHaveLength(0)
+  })
+})
@@ -0,0 +1,77 @@
+import { createPriceFileSource, mtgjsonPriceUpdateService } from '../mtgjsonPriceUpdateService'
+import { MTGJSONPricesFile } from '@/lib/types'
+import allPricesToday from './fixtures/AllPricesToday.json'
+
+const source = createPriceFileSource(allPricesToday as MTGJSONPricesFile)
+
+// As stored by the admin panel's AllPrices download
+const storeAllPrices = (version: string) => {
+  localStorage.setItem('mtgjson-all-prices-data', JSON.stringify({
+    data: {
+      'bolt-uuid': {
+        paper: {
+          tcgplayer: {
+            retail: { normal: { '2024-05-01': 1, '2024-05-02': 1.1 } },
+            currency: 'USD',
+          },
+        },
+      },
+    },
+    timestamp: 0,
+    version,
+    totalCards: 1,
+  }))
+}
+
+describe('mtgjsonPriceUpdateService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('appends only the new day to stored histories', async () => {
+    storeAllPrices('5.2.2+20240501')
+
+    const result = await mtgjsonPriceUpdateService.update(source)
+    const stored = mtgjsonPriceUpdateService.getStoredPrices()
+
+    expect(result).toMatchObject({ success: true, updated: true, cardsUpdated: 2, pointsAdded: 4 })
+    expect(stored?.version).toBe('5.2.2+20240502')
+    expect(stored?.data['bolt-uuid']).toEqual({
+      paper: {
+        tcgplayer: {
+          normal: [{ date: '2024-05-01', price: 1 }, { date: '2024-05-02', price: 1.1 }],
+          foil: [{ date: '2024-05-02', price: 3.5 }],
+        },
+        cardmarket: { normal: [{ date: '2024-05-02', price: 0.9 }] },
+      },
+      mtgo: {
+        cardhoarder: { normal: [{ date: '2024-05-02', price: 0.02 }] },
+      },
+    })
+    expect(stored?.data['opt-uuid']).toEqual({
+      paper: { tcgplayer: { normal: [{ date: '2024-05-02', price: 0.25 }] } },
+    })
+  })
+
+  it('skips the update when the stored version is current', async () => {
+    storeAllPrices('5.2.2+20240502')
+    const getPricesToday = jest.spyOn(source, 'getPricesToday')
+
+    const result = await mtgjsonPriceUpdateService.update(source)
+
+    expect(result).toMatchObject({ success: true, updated: false })
+    expect(getPricesToday).not.toHaveBeenCalled()
+    getPricesToday.mockRestore()
+  })
+
+  it('tells listeners which cards changed', async () => {
+    const listener = jest.fn()
+    mtgjsonPriceUpdateService.onUpdate(listener)
+
+    await mtgjsonPriceUpdateService.update(source)
+    mtgjsonPriceUpdateService.offUpdate(listener)
+
+    expect(listener).toHaveBeenCalledWith(['bolt-uuid', 'opt-uuid'])
+    expect(mtgjsonPriceUpdateService.getStoredPrices()?.totalCards).toBe(2)
+  })
+})
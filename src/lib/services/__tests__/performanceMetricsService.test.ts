@@ -0,0 +1,120 @@
+import { PerformanceMetricsService } from '../performanceMetricsService'
+import { portfolioSnapshotService } from '../portfolioSnapshotService'
+import { Portfolio, PortfolioSnapshot, PortfolioTransaction } from '@/lib/types'
+import { mockPortfolio } from '@/test-utils'
+
+jest.mock('../portfolioSnapshotService', () => ({
+  portfolioSnapshotService: { getSnapshots: jest.fn() },
+}))
+
+const mockGetSnapshots = portfolioSnapshotService.getSnapshots as jest.Mock
+
+const snapshot = (date: string, totalValue: number): PortfolioSnapshot => ({
+  portfolioId: 'test-portfolio-id',
+  date,
+  cards: [],
+  totalValue,
+  totalCost: 0,
+  currency: 'usd',
+})
+
+const transaction = (overrides: Partial<PortfolioTransaction>): PortfolioTransaction => ({
+  id: `tx-${Math.random()}`,
+  portfolioId: 'test-portfolio-id',
+  type: 'add',
+  timestamp: '2024-01-01T12:00:00.000Z',
+  cardId: 'test-card-id',
+  quantityChange: 1,
+  pricePerCard: 0,
+  previousQuantity: 0,
+  newQuantity: 1,
+  ...overrides,
+})
+
+describe('PerformanceMetricsService', () => {
+  const portfolio = mockPortfolio() as Portfolio
+
+  const saveTransactions = (transactions: PortfolioTransaction[]) => {
+    localStorage.setItem('mtg-portfolio-transactions-test-portfolio-id', JSON.stringify(transactions))
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    mockGetSnapshots.mockReset()
+  })
+
+  it('separates growth from money added during the period', async () => {
+    mockGetSnapshots.mockResolvedValue([
+      snapshot('2024-01-01', 100),
+      snapshot('2024-01-02', 110),
+      snapshot('2024-01-03', 220),
+    ])
+    saveTransactions([
+      transaction({ timestamp: '2024-01-01T09:00:00.000Z', quantityChange: 10, pricePerCard: 10 }),
+      transaction({ timestamp: '2024-01-03T09:00:00.000Z', quantityChange: 10, pricePerCard: 11 }),
+    ])
+
+    const metrics = await PerformanceMetricsService.getReturnMetrics(portfolio, '2024-01-01', '2024-01-03', 'usd')
+
+    expect(metrics.startValue).toBe(100)
+    expect(metrics.endValue).toBe(220)
+    // The purchase on the start date is already part of the start value
+    expect(metrics.netContributions).toBe(110)
+    expect(metrics.timeWeightedReturn).toBeCloseTo(10)
+    expect(metrics.moneyWeightedReturn).toBeGreaterThan(0)
+  })
+
+  it('counts sale proceeds net of fees as money taken out', async () => {
+    mockGetSnapshots.mockResolvedValue([
+      snapshot('2024-01-01', 100),
+      snapshot('2024-01-02', 50),
+    ])
+    saveTransactions([
+      transaction({
+        type: 'sell',
+        timestamp: '2024-01-02T09:00:00.000Z',
+        quantityChange: -5,
+        pricePerCard: 11,
+        fees: 3,
+        shipping: 2,
+      }),
+    ])
+
+    const metrics = await PerformanceMetricsService.getReturnMetrics(portfolio, '2024-01-01', '2024-01-02', 'usd')
+
+    expect(metrics.netContributions).toBe(-50)
+    expect(metrics.timeWeightedReturn).toBeCloseTo(0)
+  })
+
+  it('combines portfolios into a single return', async () => {
+    const other = mockPortfolio({ id: 'other-portfolio-id' }) as Portfolio
+    mockGetSnapshots.mockImplementation(async (id: string) => id === portfolio.id
+      ? [snapshot('2024-01-01', 100), snapshot('2024-01-02', 120)]
+      : [snapshot('2024-01-01', 100), snapshot('2024-01-02', 100)])
+
+    const metrics = await PerformanceMetricsService.getCombinedReturnMetrics(
+      [portfolio, other], '2024-01-01', '2024-01-02', 'usd'
+    )
+
+    expect(metrics.portfolioId).toBeUndefined()
+    expect(metrics.startValue).toBe(200)
+    expect(metrics.endValue).toBe(220)
+    expect(metrics.timeWeightedReturn).toBeCloseTo(10)
+  })
+
+  it('returns null metrics for an empty portfolio', async () => {
+    mockGetSnapshots.mockResolvedValue([])
+
+    const metrics = await PerformanceMetricsService.getReturnMetrics(portfolio, '2024-01-01', '2024-01-05', 'usd')
+
+    expect(metrics.timeWeightedReturn).toBeNull()
+    expect(metrics.moneyWeightedReturn).toBeNull()
+  })
+
+  it('starts trailing periods from today', () => {
+    const now = new Date('2024-03-31T12:00:00.000Z')
+
+    expect(PerformanceMetricsService.getPeriodStart('7d', now)).toBe('2024-03-24')
+    expect(PerformanceMetricsService.getPeriodStart('1y', now)).toBe('2023-04-01')
+  })
+})
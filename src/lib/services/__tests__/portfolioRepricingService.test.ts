@@ -0,0 +1,86 @@
+import { portfolioRepricingService } from '../portfolioRepricingService'
+import { getPortfolioById, savePortfolio } from '@/lib/storage'
+import { batchLookupCards } from '@/lib/api/client'
+import { Portfolio } from '@/lib/types'
+import { mockMTGCard, mockPortfolio, mockPortfolioCard } from '@/test-utils'
+
+jest.mock('@/lib/api/client', () => ({
+  batchLookupCards: jest.fn(),
+}))
+
+const mockBatchLookup = batchLookupCards as jest.Mock
+
+describe('portfolioRepricingService', () => {
+  const portfolioWith = (cards: unknown[]) => {
+    const portfolio = mockPortfolio({ cards }) as Portfolio
+    savePortfolio(portfolio)
+    return portfolio
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    mockBatchLookup.mockReset()
+  })
+
+  it('rewrites embedded prices and recomputes totals', async () => {
+    const portfolio = portfolioWith([
+      mockPortfolioCard({ quantity: 4, purchasePrice: 1, card: mockMTGCard({ prices: { usd: 0.25 } }) }),
+    ])
+    mockBatchLookup.mockResolvedValue({
+      found: [mockMTGCard({ prices: { usd: 2 } })],
+      notFound: [],
+      summary: { total: 1, found: 1, notFound: 0 },
+    })
+
+    const result = await portfolioRepricingService.repricePortfolios()
+
+    expect(mockBatchLookup).toHaveBeenCalledWith([{ id: 'test-card-id' }])
+    expect(result.cardsRepriced).toBe(1)
+    expect(result.portfoliosUpdated).toBe(1)
+
+    const updated = getPortfolioById(portfolio.id)!
+    expect(updated.cards[0].card.prices.usd).toBe(2)
+    expect(updated.cards[0].lastPricedAt).toBeDefined()
+    expect(updated.lastRepricedAt).toBe(updated.cards[0].lastPricedAt)
+    expect(updated.totalValue).toBe(8)
+    expect(updated.performance).toBe(100)
+  })
+
+  it('skips holdings priced recently unless forced', async () => {
+    portfolioWith([mockPortfolioCard({ lastPricedAt: new Date().toISOString() })])
+    mockBatchLookup.mockResolvedValue({ found: [], notFound: [], summary: { total: 0, found: 0, notFound: 0 } })
+
+    const skipped = await portfolioRepricingService.repricePortfolios()
+    expect(skipped.cardsRequested).toBe(0)
+    expect(mockBatchLookup).not.toHaveBeenCalled()
+
+    await portfolioRepricingService.repricePortfolios({ force: true })
+    expect(mockBatchLookup).toHaveBeenCalledTimes(1)
+  })
+
+  it('splits large holdings into batches of 100', async () => {
+    const cards = Array.from({ length: 150 }, (_, i) => mockPortfolioCard({ cardId: `card-${i}` }))
+    portfolioWith(cards)
+    mockBatchLookup.mockResolvedValue({ found: [], notFound: [], summary: { total: 0, found: 0, notFound: 0 } })
+
+    await portfolioRepricingService.repricePortfolios()
+
+    expect(mockBatchLookup).toHaveBeenCalledTimes(2)
+    expect(mockBatchLookup.mock.calls[0][0]).toHaveLength(100)
+    expect(mockBatchLookup.mock.calls[1][0]).toHaveLength(50)
+  })
+
+  it('runs again after the current run for calls it does not cover', async () => {
+    const portfolio = portfolioWith([mockPortfolioCard({ lastPricedAt: new Date().toISOString() })])
+    mockBatchLookup.mockResolvedValue({ found: [], notFound: [], summary: { total: 0, found: 0, notFound: 0 } })
+
+    const running = portfolioRepricingService.repricePortfolios()
+    const shared = portfolioRepricingService.repricePortfolios({ portfolioIds: [portfolio.id] })
+    const forced = portfolioRepricingService.repricePortfolios({ portfolioIds: [portfolio.id], force: true })
+
+    expect(await shared).toBe(await running)
+    expect((await running).cardsRequested).toBe(0)
+    expect((await forced).cardsRequested).toBe(1)
+    expect(mockBatchLookup).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,81 @@
+import { portfolioSnapshotService } from '../portfolioSnapshotService'
+import { savePortfolio } from '@/lib/storage'
+import { CompactPortfolioSnapshot, Portfolio } from '@/lib/types'
+import { mockMTGCard, mockPortfolio, mockPortfolioCard } from '@/test-utils'
+
+// jsdom has no IndexedDB, so keep snapshots in memory
+const mockSnapshots = new Map<string, CompactPortfolioSnapshot>()
+
+jest.mock('@/lib/storage', () => {
+  const actual = jest.requireActual('@/lib/storage')
+  const inRange = (s: CompactPortfolioSnapshot, id: string, start = '', end = '\uffff') =>
+    s.portfolioId === id && s.date >= start && s.date <= end
+
+  return {
+    ...actual,
+    getPortfolioSnapshots: jest.fn(async (id: string, start?: string, end?: string) =>
+      Array.from(mockSnapshots.values()).filter(s => inRange(s, id, start, end))),
+    getLatestPortfolioSnapshot: jest.fn(async (id: string) =>
+      Array.from(mockSnapshots.values())
+        .filter(s => s.portfolioId === id)
+        .sort((a, b) => b.date.localeCompare(a.date))[0] || null),
+    savePortfolioSnapshots: jest.fn(async (snapshots: CompactPortfolioSnapshot[]) => {
+      snapshots.forEach(s => mockSnapshots.set(`${s.portfolioId}|${s.date}`, s))
+    }),
+  }
+})
+
+describe('portfolioSnapshotService', () => {
+  const now = new Date('2024-03-10T12:00:00.000Z')
+
+  beforeEach(() => {
+    localStorage.clear()
+    mockSnapshots.clear()
+
+    savePortfolio(mockPortfolio({
+      cards: [
+        mockPortfolioCard({
+          quantity: 2,
+          purchasePrice: 3,
+          purchaseDate: '2024-03-07T09:00:00.000Z',
+          card: mockMTGCard({ prices: { usd: 5 } }),
+        }),
+      ],
+      totalValue: 10,
+      totalCost: 6,
+    }) as Portfolio)
+  })
+
+  it('backfills every day since the first transaction', async () => {
+    const result = await portfolioSnapshotService.recordSnapshots(now)
+
+    expect(result.snapshotsRecorded).toBe(4)
+    expect(result.daysBackfilled).toBe(3)
+
+    const snapshots = await portfolioSnapshotService.getSnapshots('test-portfolio-id')
+    expect(snapshots.map(s => s.date)).toEqual(['2024-03-07', '2024-03-08', '2024-03-09', '2024-03-10'])
+    expect(snapshots[0]).toMatchObject({ totalValue: 10, totalCost: 6, backfilled: true, currency: 'usd' })
+    expect(snapshots[3]).toMatchObject({ backfilled: false })
+    expect(snapshots[3].cards).toEqual([
+      { cardId: 'test-card-id', quantity: 2, totalCost: 6, averageCostBasis: 3 },
+    ])
+  })
+
+  it('only backfills the days missed since the last snapshot', async () => {
+    await portfolioSnapshotService.recordSnapshots(now)
+
+    const result = await portfolioSnapshotService.recordSnapshots(new Date('2024-03-13T08:00:00.000Z'))
+
+    expect(result.daysBackfilled).toBe(2)
+    const dates = (await portfolioSnapshotService.getSnapshots('test-portfolio-id', '2024-03-10')).map(s => s.date)
+    expect(dates).toEqual(['2024-03-10', '2024-03-11', '2024-03-12', '2024-03-13'])
+  })
+
+  it('overwrites the current day when recorded again', async () => {
+    await portfolioSnapshotService.recordSnapshots(now)
+    const result = await portfolioSnapshotService.recordSnapshots(now)
+
+    expect(result.snapshotsRecorded).toBe(1)
+    expect(mockSnapshots.size).toBe(4)
+  })
+})
@@ -0,0 +1,183 @@
+import { PortfolioTimelineService } from '../portfolioTimelineService'
+import {
+  addCardToPortfolioWithTracking,
+  getPortfolioById,
+  savePortfolio,
+  sellCardFromPortfolioWithTracking,
+  updateCardInPortfolioWithTracking,
+} from '@/lib/storage'
+import { Portfolio, PortfolioCard } from '@/lib/types'
+import { mockPortfolio, mockPortfolioCard } from '@/test-utils'
+
+const purchase = (quantity: number, purchasePrice: number, purchaseDate: string) =>
+  mockPortfolioCard({ quantity, purchasePrice, purchaseDate }) as PortfolioCard
+
+describe('PortfolioTimelineService sales', () => {
+  const setupPortfolio = (overrides: Partial<Portfolio> = {}) => {
+    const portfolio = mockPortfolio(overrides) as Portfolio
+    savePortfolio(portfolio)
+    addCardToPortfolioWithTracking(portfolio.id, purchase(2, 10, '2024-01-01T00:00:00.000Z'))
+    addCardToPortfolioWithTracking(portfolio.id, purchase(2, 30, '2024-02-01T00:00:00.000Z'))
+    return portfolio
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('matches a FIFO sale against the oldest lots', () => {
+    const portfolio = setupPortfolio()
+
+    const transaction = sellCardFromPortfolioWithTracking(
+      portfolio.id, 'test-card-id', false, 'near_mint', 3,
+      { pricePerCard: 25, fees: 4, shipping: 1 }
+    )
+
+    expect(transaction?.type).toBe('sell')
+    expect(transaction?.costBasis).toBe(10 * 2 + 30)
+    expect(transaction?.realizedGain).toBe(75 - 4 - 1 - 50)
+
+    const updated = getPortfolioById(portfolio.id)
+    expect(updated?.cards[0].quantity).toBe(1)
+    expect(updated?.totalCost).toBe(30)
+  })
+
+  it('matches a LIFO sale against the newest lots', () => {
+    const portfolio = setupPortfolio({ costBasisMethod: 'lifo' })
+
+    const transaction = sellCardFromPortfolioWithTracking(
+      portfolio.id, 'test-card-id', false, 'near_mint', 2,
+      { pricePerCard: 25 }
+    )
+
+    expect(transaction?.costBasis).toBe(60)
+    expect(transaction?.realizedGain).toBe(-10)
+    expect(getPortfolioById(portfolio.id)?.totalCost).toBe(20)
+  })
+
+  it('records the date a sale was made', () => {
+    const portfolio = setupPortfolio()
+
+    const transaction = sellCardFromPortfolioWithTracking(
+      portfolio.id, 'test-card-id', false, 'near_mint', 2,
+      { pricePerCard: 25, saleDate: '2024-03-01' }
+    )
+
+    expect(transaction?.saleDate).toBe('2024-03-01')
+    expect(() => sellCardFromPortfolioWithTracking(
+      portfolio.id, 'test-card-id', false, 'near_mint', 1,
+      { pricePerCard: 25, saleDate: '2024-01-15' }
+    )).toThrow('bought later, on 2024-02-01')
+    expect(getPortfolioById(portfolio.id)?.cards[0].quantity).toBe(2)
+  })
+
+  it('summarizes realized gains across sales', () => {
+    const portfolio = setupPortfolio()
+
+    sellCardFromPortfolioWithTracking(portfolio.id, 'test-card-id', false, 'near_mint', 1, { pricePerCard: 15 })
+    sellCardFromPortfolioWithTracking(portfolio.id, 'test-card-id', false, 'near_mint', 3, { pricePerCard: 40, fees: 6 })
+
+    const summary = PortfolioTimelineService.getRealizedGainSummary(portfolio.id)
+    expect(summary.salesCount).toBe(2)
+    expect(summary.cardsSold).toBe(4)
+    expect(summary.proceeds).toBe(135)
+    expect(summary.costBasis).toBe(80)
+    expect(summary.realizedGain).toBe(135 - 6 - 80)
+    expect(getPortfolioById(portfolio.id)?.cards).toHaveLength(0)
+  })
+
+  it('drops sold cards from the replayed composition', () => {
+    const portfolio = setupPortfolio()
+    sellCardFromPortfolioWithTracking(portfolio.id, 'test-card-id', false, 'near_mint', 3, { pricePerCard: 25 })
+
+    const today = new Date().toISOString().split('T')[0]
+    const position = PortfolioTimelineService.getPortfolioAtDate(portfolio.id, today).get('test-card-id')
+
+    expect(position?.quantity).toBe(1)
+    expect(position?.totalCost).toBe(30)
+  })
+
+  it('drops a holding whose quantity is edited to zero', () => {
+    const portfolio = setupPortfolio()
+
+    updateCardInPortfolioWithTracking(portfolio.id, 'test-card-id', false, 'near_mint', { quantity: 0 })
+
+    const updated = getPortfolioById(portfolio.id)
+    expect(updated?.cards).toHaveLength(0)
+    expect(updated?.totalCost).toBe(0)
+
+    const today = new Date().toISOString().split('T')[0]
+    expect(PortfolioTimelineService.getPortfolioAtDate(portfolio.id, today).has('test-card-id')).toBe(false)
+  })
+
+  it('replays backdated purchases in purchase date order', () => {
+    const portfolio = mockPortfolio() as Portfolio
+    savePortfolio(portfolio)
+    addCardToPortfolioWithTracking(portfolio.id, purchase(2, 30, '2024-03-01T00:00:00.000Z'))
+    addCardToPortfolioWithTracking(portfolio.id, purchase(2, 10, '2024-01-01T00:00:00.000Z'))
+
+    const transaction = sellCardFromPortfolioWithTracking(
+      portfolio.id, 'test-card-id', false, 'near_mint', 2, { pricePerCard: 25 }
+    )
+
+    const today = new Date().toISOString().split('T')[0]
+    const position = PortfolioTimelineService.getPortfolioAtDate(portfolio.id, today).get('test-card-id')
+
+    expect(transaction?.costBasis).toBe(20)
+    expect(position?.totalCost).toBe(getPortfolioById(portfolio.id)?.totalCost)
+    expect(position?.totalCost).toBe(60)
+  })
+
+  it('replays foil and non-foil copies of a card as separate holdings', () => {
+    const portfolio = mockPortfolio() as Portfolio
+    savePortfolio(portfolio)
+    addCardToPortfolioWithTracking(portfolio.id, purchase(2, 10, '2024-01-01T00:00:00.000Z'))
+    addCardToPortfolioWithTracking(portfolio.id, {
+      ...purchase(2, 50, '2024-02-01T00:00:00.000Z'),
+      foil: true,
+    })
+
+    const sale = sellCardFromPortfolioWithTracking(portfolio.id, 'test-card-id', true, 'near_mint', 1, { pricePerCard: 60 })
+
+    const today = new Date().toISOString().split('T')[0]
+    const position = PortfolioTimelineService.getPortfolioAtDate(portfolio.id, today).get('test-card-id')
+
+    expect(sale?.costBasis).toBe(50)
+    expect(position?.quantity).toBe(3)
+    expect(position?.totalCost).toBe(getPortfolioById(portfolio.id)?.totalCost)
+    expect(position?.totalCost).toBe(70)
+  })
+
+  it('replays a purchase price edit', () => {
+    const portfolio = mockPortfolio() as Portfolio
+    savePortfolio(portfolio)
+    addCardToPortfolioWithTracking(portfolio.id, purchase(2, 10, '2024-01-01T00:00:00.000Z'))
+
+    updateCardInPortfolioWithTracking(portfolio.id, 'test-card-id', false, 'near_mint', { purchasePrice: 12, condition: 'played' })
+
+    const today = new Date().toISOString().split('T')[0]
+    const position = PortfolioTimelineService.getPortfolioAtDate(portfolio.id, today).get('test-card-id')
+    const sale = sellCardFromPortfolioWithTracking(portfolio.id, 'test-card-id', false, 'played', 1, { pricePerCard: 20 })
+
+    expect(position?.totalCost).toBe(24)
+    expect(sale?.costBasis).toBe(12)
+    expect(PortfolioTimelineService.getPortfolioAtDate(portfolio.id, today).get('test-card-id')?.totalCost).toBe(12)
+  })
+
+  it('refuses to re-price a holding bought in several lots', () => {
+    const portfolio = setupPortfolio()
+
+    expect(() => updateCardInPortfolioWithTracking(portfolio.id, 'test-card-id', false, 'near_mint', { purchasePrice: 12 }))
+      .toThrow("purchase price can't be edited")
+    expect(getPortfolioById(portfolio.id)?.totalCost).toBe(80)
+  })
+
+  it('reports consumed lots once cards were sold', () => {
+    const portfolio = setupPortfolio()
+    expect(PortfolioTimelineService.hasConsumedLots(portfolio.id)).toBe(false)
+
+    sellCardFromPortfolioWithTracking(portfolio.id, 'test-card-id', false, 'near_mint', 1, { pricePerCard: 15 })
+
+    expect(PortfolioTimelineService.hasConsumedLots(portfolio.id)).toBe(true)
+  })
+})
@@ -0,0 +1,109 @@
+import { priceAlertService } from '../priceAlertService'
+import { getPreferences, savePreferences } from '@/lib/storage'
+import { getCard } from '@/lib/api/scryfall'
+import { getPriceHistoryForCard } from '@/lib/api/mtgjson'
+import { PriceAlert } from '@/lib/types'
+import { mockMTGCard } from '@/test-utils'
+
+jest.mock('@/lib/api/scryfall', () => ({
+  getCard: jest.fn(),
+}))
+
+jest.mock('@/lib/api/mtgjson', () => ({
+  getPreferredPriceProvider: () => 'tcgplayer',
+  getPriceHistoryForCard: jest.fn(),
+}))
+
+const mockGetCard = getCard as jest.Mock
+const mockGetPriceHistory = getPriceHistoryForCard as jest.Mock
+
+const alert = (overrides: Partial<PriceAlert> = {}): PriceAlert => ({
+  id: 'alert-1',
+  cardId: 'test-card-id',
+  targetPrice: 10,
+  condition: 'above',
+  active: true,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+describe('priceAlertService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    mockGetCard.mockReset()
+    mockGetPriceHistory.mockReset()
+  })
+
+  it('checks a price against the alert condition', () => {
+    expect(priceAlertService.isAlertMet(alert({ condition: 'above' }), 10)).toBe(true)
+    expect(priceAlertService.isAlertMet(alert({ condition: 'above' }), 9.99)).toBe(false)
+    expect(priceAlertService.isAlertMet(alert({ condition: 'below' }), 10)).toBe(true)
+    expect(priceAlertService.isAlertMet(alert({ condition: 'below' }), 10.01)).toBe(false)
+  })
+
+  it('triggers a met alert once and records it in the history', async () => {
+    savePreferences({ priceAlerts: [alert(), alert({ id: 'alert-2', targetPrice: 20 })] })
+    mockGetCard.mockResolvedValue(mockMTGCard({ prices: { usd: 12 } }))
+    const onTrigger = jest.fn()
+    priceAlertService.onTrigger(onTrigger)
+
+    const first = await priceAlertService.evaluateAlerts()
+    const second = await priceAlertService.evaluateAlerts()
+    priceAlertService.offTrigger(onTrigger)
+
+    expect(first.checked).toBe(2)
+    expect(first.triggered.map(t => [t.alertId, t.price, t.priceSource])).toEqual([['alert-1', 12, 'scryfall']])
+    expect(second.triggered).toEqual([])
+    expect(onTrigger).toHaveBeenCalledTimes(1)
+
+    const [triggered, pending] = getPreferences().priceAlerts
+    expect(triggered).toMatchObject({ triggeredPrice: 12, triggeredAt: first.evaluatedAt })
+    expect(pending.triggeredAt).toBeUndefined()
+    expect(pending.lastCheckedAt).toBe(second.evaluatedAt)
+
+    const history = JSON.parse(localStorage.getItem('mtg-price-alert-history')!)
+    expect(history).toHaveLength(1)
+    expect(priceAlertService.getTriggerHistory()).toEqual(history)
+    expect(history[0]).toMatchObject({ alertId: 'alert-1', cardName: 'Lightning Bolt', price: 12 })
+  })
+
+  it('triggers a re-armed alert again', async () => {
+    savePreferences({ priceAlerts: [alert()] })
+    mockGetCard.mockResolvedValue(mockMTGCard({ prices: { usd: 12 } }))
+
+    await priceAlertService.evaluateAlerts()
+    priceAlertService.resetAlert('alert-1')
+    await priceAlertService.evaluateAlerts()
+
+    expect(priceAlertService.getTriggerHistory()).toHaveLength(2)
+  })
+
+  it('falls back to the latest MTGJSON price without a Scryfall USD price', async () => {
+    savePreferences({ priceAlerts: [alert({ condition: 'below', targetPrice: 5 })] })
+    mockGetCard.mockResolvedValue(mockMTGCard({ prices: { usd: null } }))
+    mockGetPriceHistory.mockResolvedValue({
+      prices: [
+        { cardId: 'uuid', date: '2024-05-01', price: 6, priceType: 'usd' },
+        { cardId: 'uuid', date: '2024-05-01', price: 15, priceType: 'usdFoil' },
+        { cardId: 'uuid', date: '2024-05-02', price: 4.5, priceType: 'usd' },
+      ],
+    })
+
+    const result = await priceAlertService.evaluateAlerts()
+
+    expect(mockGetPriceHistory).toHaveBeenCalledWith(expect.objectContaining({ id: 'test-card-id' }), 'tcgplayer')
+    expect(result.triggered.map(t => [t.price, t.priceSource])).toEqual([[4.5, 'mtgjson']])
+  })
+
+  it('reports cards without any current price', async () => {
+    savePreferences({ priceAlerts: [alert()] })
+    mockGetCard.mockResolvedValue(mockMTGCard({ prices: { usd: null } }))
+    mockGetPriceHistory.mockResolvedValue(null)
+
+    const result = await priceAlertService.evaluateAlerts()
+
+    expect(result.checked).toBe(0)
+    expect(result.errors).toEqual([{ cardId: 'test-card-id', error: 'No current price available' }])
+    expect(priceAlertService.getTriggerHistory()).toEqual([])
+  })
+})
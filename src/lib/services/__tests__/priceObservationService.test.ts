@@ -0,0 +1,63 @@
+import { priceObservationService } from '../priceObservationService'
+import { MTGCard } from '@/lib/types'
+
+const card = (prices: MTGCard['prices']): MTGCard => ({ id: 'card-1', prices } as MTGCard)
+
+describe('priceObservationService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('keeps one observation per card per day', () => {
+    priceObservationService.recordObservation(card({ usd: 1 }), new Date('2024-01-01T08:00:00Z'))
+    priceObservationService.recordObservation(card({ usd: 1.5 }), new Date('2024-01-01T20:00:00Z'))
+
+    expect(priceObservationService.getObservations('card-1')).toEqual([{ date: '2024-01-01', usd: 1.5 }])
+  })
+
+  it('has no history until prices were recorded on two days', () => {
+    priceObservationService.recordObservation(card({ usd: 1 }), new Date('2024-01-01T00:00:00Z'))
+
+    expect(priceObservationService.getRecordedPriceHistory('card-1')).toBeNull()
+  })
+
+  it('builds a recorded history in the requested currency', () => {
+    priceObservationService.recordObservation(card({ usd: 2, eur: 1.8 }), new Date('2024-01-02T00:00:00Z'))
+    priceObservationService.recordObservation(card({ usd: 1, usdFoil: 3, eur: 0.9 }), new Date('2024-01-01T00:00:00Z'))
+
+    const history = priceObservationService.getRecordedPriceHistory('card-1', 'eur')
+
+    expect(history).toMatchObject({ provider: 'recorded', priceProvider: 'cardmarket', currency: 'eur', averagePrice: 1.35 })
+    expect(history?.prices.map(p => [p.date, p.priceType, p.price])).toEqual([
+      ['2024-01-01', 'eur', 0.9],
+      ['2024-01-02', 'eur', 1.8],
+    ])
+  })
+
+  it('records a batch of cards in one write', () => {
+    const setItem = jest.spyOn(Storage.prototype, 'setItem')
+
+    priceObservationService.recordObservations(
+      Array.from({ length: 50 }, (_, i) => ({ id: `card-${i}`, prices: { usd: i + 1 } } as MTGCard)),
+      new Date('2024-01-01T00:00:00Z')
+    )
+
+    expect(setItem).toHaveBeenCalledTimes(1)
+    expect(priceObservationService.getObservations('card-49')).toEqual([{ date: '2024-01-01', usd: 50 }])
+    setItem.mockRestore()
+  })
+
+  it('drops the cards observed longest ago to stay within its size budget', () => {
+    const prices = { usd: 1.23, usdFoil: 4.56, eur: 1.11, eurFoil: 4.01, tix: 0.02 }
+    const days = Array.from({ length: 180 }, (_, i) => new Date(Date.UTC(2024, 0, 1 + i)))
+
+    days.forEach(day => priceObservationService.recordObservations(
+      Array.from({ length: 60 }, (_, i) => ({ id: `card-${i}`, prices } as MTGCard)),
+      day
+    ))
+
+    expect(localStorage.getItem('mtg-price-observations')!.length).toBeLessThanOrEqual(512 * 1024)
+    expect(priceObservationService.getObservations('card-0').length).toBeLessThan(180)
+    expect(priceObservationService.getObservations('card-59')).toHaveLength(180)
+  })
+})
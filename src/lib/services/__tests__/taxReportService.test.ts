@@ -0,0 +1,125 @@
+import { TaxReportService } from '../taxReportService'
+import { fxRateService, MissingFxRateError } from '../fxRateService'
+import { Portfolio, PortfolioTransaction } from '@/lib/types'
+import { mockPortfolio } from '@/test-utils'
+
+const sale = (overrides: Partial<PortfolioTransaction>): PortfolioTransaction => ({
+  id: 'sale-1',
+  portfolioId: 'test-portfolio-id',
+  type: 'sell',
+  timestamp: '2024-06-15T12:00:00.000Z',
+  cardId: 'test-card-id',
+  quantityChange: -3,
+  pricePerCard: 20,
+  previousQuantity: 3,
+  newQuantity: 0,
+  cardName: 'Lightning Bolt',
+  ...overrides,
+})
+
+const storeTransactions = (portfolioId: string, transactions: PortfolioTransaction[]) => {
+  localStorage.setItem(`mtg-portfolio-transactions-${portfolioId}`, JSON.stringify(transactions))
+}
+
+describe('TaxReportService', () => {
+  const portfolio = mockPortfolio() as Portfolio
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('splits a sale into one row per matched lot', () => {
+    storeTransactions(portfolio.id, [
+      sale({
+        fees: 3,
+        shipping: 0,
+        costBasis: 25,
+        matchedLots: [
+          { id: 'lot-1', quantity: 1, pricePerCard: 5, purchaseDate: '2023-01-10T00:00:00.000Z' },
+          { id: 'lot-2', quantity: 2, pricePerCard: 10, purchaseDate: '2024-01-10T00:00:00.000Z' },
+        ],
+      }),
+    ])
+
+    const report = TaxReportService.generateReport([portfolio], 2024)
+
+    expect(report.rows).toHaveLength(2)
+    expect(report.rows[0]).toMatchObject({
+      description: '1 Lightning Bolt',
+      dateAcquired: '2023-01-10',
+      dateSold: '2024-06-15',
+      proceeds: 20,
+      costBasis: 5,
+      adjustment: -1,
+      gainLoss: 14,
+      term: 'long',
+    })
+    expect(report.rows[1]).toMatchObject({ quantity: 2, adjustment: -2, gainLoss: 18, term: 'short' })
+    expect(report.totals.long.gainLoss).toBe(14)
+    expect(report.totals.short.proceeds).toBe(40)
+  })
+
+  it('only includes sales from the requested year', () => {
+    storeTransactions(portfolio.id, [
+      sale({ id: 'sale-2023', timestamp: '2023-12-31T10:00:00.000Z', costBasis: 30 }),
+      sale({ id: 'sale-2024', costBasis: 30 }),
+      { ...sale({ id: 'add-1' }), type: 'add', quantityChange: 3 },
+    ])
+
+    const report = TaxReportService.generateReport([portfolio], 2024)
+
+    expect(report.rows.map(r => r.transactionId)).toEqual(['sale-2024'])
+    expect(TaxReportService.getReportYears([portfolio])).toEqual([2024, 2023])
+  })
+
+  it('reports a sale in the year it was made rather than recorded', () => {
+    storeTransactions(portfolio.id, [
+      sale({ timestamp: '2025-01-05T10:00:00.000Z', saleDate: '2024-12-30', costBasis: 30 }),
+    ])
+
+    const report = TaxReportService.generateReport([portfolio], 2024)
+
+    expect(report.rows.map(r => r.dateSold)).toEqual(['2024-12-30'])
+    expect(TaxReportService.getReportYears([portfolio])).toEqual([2024])
+  })
+
+  it('classifies holdings of exactly one year as short-term', () => {
+    expect(TaxReportService.getHoldingTerm('2023-06-15', '2024-06-15')).toBe('short')
+    expect(TaxReportService.getHoldingTerm('2023-06-15', '2024-06-16')).toBe('long')
+  })
+
+  it('exports short-term and long-term parts as CSV', () => {
+    storeTransactions(portfolio.id, [
+      sale({
+        cardName: 'Jace, the Mind Sculptor',
+        quantityChange: -1,
+        costBasis: 50,
+        matchedLots: [
+          { id: 'lot-1', quantity: 1, pricePerCard: 50, purchaseDate: '2024-02-01T00:00:00.000Z' },
+        ],
+      }),
+    ])
+
+    const csv = TaxReportService.toCsv(TaxReportService.generateReport([portfolio], 2024))
+    const lines = csv.split('\n')
+
+    expect(lines).toContain('Part I - Short-term (held one year or less)')
+    expect(lines).toContain('"1 Jace, the Mind Sculptor",2024-02-01,2024-06-15,20.00,50.00,,,(30.00),Test Portfolio')
+    expect(lines).toContain('Part II - Long-term (held more than one year)')
+  })
+
+  it('converts portfolios in other currencies into the report currency', () => {
+    const eurPortfolio = mockPortfolio({ id: 'eur-portfolio', baseCurrency: 'eur' }) as Portfolio
+    fxRateService.saveRateTable({ base: 'usd', rates: { usd: 1, eur: 0.8 }, source: 'manual', updatedAt: '2024-01-01T00:00:00.000Z' })
+    storeTransactions(portfolio.id, [sale({ costBasis: 30 })])
+    storeTransactions(eurPortfolio.id, [sale({ id: 'sale-eur', portfolioId: eurPortfolio.id, costBasis: 24, pricePerCard: 16 })])
+
+    expect(TaxReportService.getReportCurrency([portfolio, eurPortfolio], 'eur')).toBe('eur')
+
+    const report = TaxReportService.generateReport([portfolio, eurPortfolio], 2024, 'usd')
+
+    expect(report.currency).toBe('usd')
+    expect(report.totals.short).toMatchObject({ proceeds: 120, costBasis: 60, gainLoss: 60 })
+    expect(() => TaxReportService.generateReport([portfolio, eurPortfolio], 2024, 'jpy')).toThrow(MissingFxRateError)
+  })
+})
@@ -0,0 +1,51 @@
+import { valuationService, DEFAULT_CONDITION_MULTIPLIERS } from '../valuationService'
+import { savePreferences, getPreferences, savePortfolio, getPortfolioById, recalculateAllPortfolioTotals } from '@/lib/storage'
+import { Portfolio, PortfolioCard } from '@/lib/types'
+import { mockMTGCard, mockPortfolio, mockPortfolioCard } from '@/test-utils'
+
+describe('valuationService', () => {
+  const holding = (overrides: Record<string, unknown> = {}) =>
+    mockPortfolioCard({
+      quantity: 2,
+      card: mockMTGCard({ prices: { usd: 10, usdFoil: 30 } }),
+      ...overrides,
+    }) as PortfolioCard
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('values foil holdings at the foil price', () => {
+    expect(valuationService.getUnitValue(holding({ foil: false }))).toBe(10)
+    expect(valuationService.getUnitValue(holding({ foil: true }))).toBe(30)
+  })
+
+  it('falls back to the other finish when only one price exists', () => {
+    const foilOnly = mockMTGCard({ prices: { usd: null, usdFoil: 12 } })
+    const normalOnly = mockMTGCard({ prices: { usd: 4, usdFoil: null } })
+
+    expect(valuationService.getMarketPrice(foilOnly, false)).toBe(12)
+    expect(valuationService.getMarketPrice(normalOnly, true)).toBe(4)
+  })
+
+  it('scales holdings by their condition multiplier', () => {
+    const played = holding({ condition: 'played' })
+
+    expect(valuationService.getHoldingValue(played)).toBeCloseTo(20 * DEFAULT_CONDITION_MULTIPLIERS.played)
+
+    savePreferences({ ...getPreferences(), conditionMultipliers: { ...DEFAULT_CONDITION_MULTIPLIERS, played: 0.5 } })
+    expect(valuationService.getHoldingValue(played)).toBe(10)
+  })
+
+  it('recomputes stored portfolio totals with the current multipliers', () => {
+    const portfolio = mockPortfolio({
+      cards: [holding({ condition: 'poor', purchasePrice: 5 })],
+      totalValue: 20,
+    }) as Portfolio
+    savePortfolio(portfolio)
+
+    recalculateAllPortfolioTotals()
+
+    expect(getPortfolioById(portfolio.id)!.totalValue).toBeCloseTo(20 * DEFAULT_CONDITION_MULTIPLIERS.poor)
+  })
+})
@@ -91,6 +91,15 @@ class CardMappingService {
         return;
       }
 
+      // Data stored by the MTGJSON import is searched in storage rather
+      // than downloaded and parsed again
+      const { allPrintingsStorage } = await import('@/lib/utils/allPrintingsStorage');
+      if (await allPrintingsStorage.isDataAvailable()) {
+        console.log('Using stored AllPrintings data');
+        await this.loadMappingCache();
+        return;
+      }
+
       // Fetch fresh data from MTGJSON
       console.log('Fetching fresh AllPrintings data from MTGJSON...');
       const response = await fetch(this.MTGJSON_ALL_PRINTINGS_URL);
@@ -109,7 +118,6 @@ class CardMappingService {
       this.allPrintingsData = data;
       
       // Store using the optimized storage system
-      const { allPrintingsStorage } = await import('@/lib/utils/allPrintingsStorage');
       await allPrintingsStorage.storeAllPrintings(data);
       
       await this.loadMappingCache();
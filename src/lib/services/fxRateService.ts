@@ -0,0 +1,178 @@
+/**
+ * FX Rate Service
+ * Converts amounts between currencies using a rate table that is either
+ * imported from a local rates file or entered manually in settings
+ */
+
+import { CurrencyCode, FxRateTable } from '@/lib/types';
+import { getFxRates, saveFxRates, recalculateAllPortfolioTotals } from '@/lib/storage';
+import { isCurrencyCode, SUPPORTED_CURRENCIES } from '@/lib/utils/currency';
+
+/**
+ * Thrown when an amount has to be converted between currencies the rate
+ * table has no rate for
+ */
+export class MissingFxRateError extends Error {
+  constructor(public readonly from: CurrencyCode, public readonly to: CurrencyCode) {
+    super(`No exchange rate from ${from.toUpperCase()} to ${to.toUpperCase()}. Add one in Settings.`);
+    this.name = 'MissingFxRateError';
+  }
+}
+
+const EMPTY_RATE_TABLE: FxRateTable = {
+  base: 'usd',
+  rates: { usd: 1 },
+  source: 'manual',
+  updatedAt: '',
+};
+
+class FxRateService {
+  /**
+   * The stored rate table, or an empty USD table when none is saved
+   */
+  getRateTable(): FxRateTable {
+    try {
+      return getFxRates() || EMPTY_RATE_TABLE;
+    } catch (error) {
+      console.error('Error loading FX rates:', error);
+      return EMPTY_RATE_TABLE;
+    }
+  }
+
+  /**
+   * Save a rate table and revalue portfolios held in other currencies
+   */
+  saveRateTable(table: FxRateTable): boolean {
+    const saved = saveFxRates({ ...table, rates: { ...table.rates, [table.base]: 1 } });
+    if (saved) {
+      recalculateAllPortfolioTotals();
+    }
+    return saved;
+  }
+
+  /**
+   * Set a single rate, expressed against the table's base currency
+   */
+  setManualRate(currency: CurrencyCode, rate: number): boolean {
+    if (!(rate > 0)) return false;
+
+    const table = this.getRateTable();
+    return this.saveRateTable({
+      ...table,
+      rates: { ...table.rates, [currency]: rate },
+      source: 'manual',
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Units of `to` per one unit of `from`, or null without rates for both
+   */
+  getRate(from: CurrencyCode, to: CurrencyCode, table: FxRateTable = this.getRateTable()): number | null {
+    if (from === to) return 1;
+
+    const fromRate = from === table.base ? 1 : table.rates[from];
+    const toRate = to === table.base ? 1 : table.rates[to];
+    if (!fromRate || !toRate) return null;
+
+    return toRate / fromRate;
+  }
+
+  hasRate(from: CurrencyCode, to: CurrencyCode, table?: FxRateTable): boolean {
+    return this.getRate(from, to, table) !== null;
+  }
+
+  /**
+   * Currencies the table has a rate for, which can all be converted into
+   * each other
+   */
+  getRatedCurrencies(table: FxRateTable = this.getRateTable()): CurrencyCode[] {
+    return SUPPORTED_CURRENCIES.filter(currency => currency === table.base || !!table.rates[currency]);
+  }
+
+  /**
+   * The currencies among `from` that can't be converted to `to`, so
+   * totals can be refused instead of summed unconverted
+   */
+  getMissingRates(from: CurrencyCode[], to: CurrencyCode, table: FxRateTable = this.getRateTable()): CurrencyCode[] {
+    return Array.from(new Set(from)).filter(currency => !this.hasRate(currency, to, table));
+  }
+
+  /**
+   * Message for totals that can't be shown without the missing rates
+   */
+  describeMissingRates(missing: CurrencyCode[], to: CurrencyCode): string {
+    const currencies = missing.map(currency => currency.toUpperCase()).join(', ');
+    return `No exchange rate from ${currencies} to ${to.toUpperCase()}. Add the missing rates in Settings under Valuation to see these totals.`;
+  }
+
+  /**
+   * Convert an amount between currencies. Throws a MissingFxRateError
+   * when the table has no rate for the pair.
+   */
+  convert(amount: number, from: CurrencyCode, to: CurrencyCode, table?: FxRateTable): number {
+    const rate = this.getRate(from, to, table);
+    if (rate === null) {
+      throw new MissingFxRateError(from, to);
+    }
+    return amount * rate;
+  }
+
+  /**
+   * Parse a local rates file. Accepts JSON in the common
+   * `{ "base": "USD", "rates": { "EUR": 0.92 } }` shape, or CSV lines of
+   * `currency,rate` against USD. Unsupported currencies are ignored.
+   */
+  parseRatesFile(content: string): FxRateTable {
+    const trimmed = content.trim();
+    let base = 'usd';
+    let entries: Array<[string, unknown]>;
+
+    if (trimmed.startsWith('{')) {
+      let data: { base?: unknown; rates?: unknown };
+      try {
+        data = JSON.parse(trimmed);
+      } catch {
+        throw new Error('Rates file is not valid JSON');
+      }
+
+      if (typeof data.base === 'string') {
+        base = data.base.toLowerCase();
+      }
+      const rates = data.rates && typeof data.rates === 'object' ? data.rates : data;
+      entries = Object.entries(rates as Record<string, unknown>);
+    } else {
+      entries = trimmed
+        .split(/\r?\n/)
+        .map(line => line.split(/[,;\t]/).map(value => value.trim()))
+        .filter(fields => fields.length >= 2)
+        .map(([currency, rate]) => [currency, parseFloat(rate)]);
+    }
+
+    if (!isCurrencyCode(base)) {
+      throw new Error(`Unsupported base currency: ${base.toUpperCase()}`);
+    }
+
+    const rates: FxRateTable['rates'] = { [base]: 1 };
+    for (const [currency, rate] of entries) {
+      const code = currency.toLowerCase();
+      if (isCurrencyCode(code) && typeof rate === 'number' && rate > 0) {
+        rates[code] = rate;
+      }
+    }
+
+    if (Object.keys(rates).length < 2) {
+      throw new Error('No usable exchange rates found in file');
+    }
+
+    return {
+      base,
+      rates,
+      source: 'file',
+      updatedAt: new Date().toISOString(),
+    };
+  }
+}
+
+// Export singleton instance
+export const fxRateService = new FxRateService();
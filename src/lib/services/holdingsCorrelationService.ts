@@ -0,0 +1,68 @@
+/**
+ * Holdings Correlation Service
+ * Correlates the daily price moves of the most valuable held cards, using
+ * their stored MTGJSON price histories
+ */
+
+import { MTGCard, Portfolio, PriceWindow } from '@/lib/types';
+import { getPreferredPriceProvider, getPriceHistoryForCard } from '@/lib/api/mtgjson';
+import { valuationService } from '@/lib/services/valuationService';
+import { analyzeCorrelations, CorrelationAnalysis } from '@/lib/utils/priceCorrelation';
+import { getProviderPriceTypes } from '@/lib/utils/priceProviders';
+
+export interface HoldingsCorrelation extends CorrelationAnalysis {
+  cards: Record<string, MTGCard>;
+  skipped: number; // Held cards left out: past the most valuable, or without price history
+}
+
+class HoldingsCorrelationService {
+  private readonly MAX_CARDS = 25;
+  private readonly BATCH_SIZE = 10;
+
+  /**
+   * Correlations between the held cards worth the most across all
+   * portfolios, up to 25 of them so the heatmap stays readable
+   */
+  async analyzeHoldings(portfolios: Portfolio[], window: PriceWindow = '90d'): Promise<HoldingsCorrelation> {
+    const multipliers = valuationService.getConditionMultipliers();
+    const holdings = new Map<string, { card: MTGCard; value: number }>();
+
+    portfolios.forEach(portfolio => {
+      portfolio.cards.forEach(holding => {
+        const existing = holdings.get(holding.card.id);
+        holdings.set(holding.card.id, {
+          card: holding.card,
+          value: (existing?.value || 0) + valuationService.getHoldingValue(holding, multipliers),
+        });
+      });
+    });
+
+    const cards = Array.from(holdings.values())
+      .sort((a, b) => b.value - a.value)
+      .slice(0, this.MAX_CARDS)
+      .map(holding => holding.card);
+
+    const provider = getPreferredPriceProvider('usd');
+    const normalType = getProviderPriceTypes(provider).normal;
+    const series: { id: string; points: { date: string; price: number }[] }[] = [];
+
+    for (let i = 0; i < cards.length; i += this.BATCH_SIZE) {
+      const histories = await Promise.all(
+        cards.slice(i, i + this.BATCH_SIZE).map(card => getPriceHistoryForCard(card, provider, window))
+      );
+      histories.forEach((history, j) => {
+        const points = (history?.prices || []).filter(price => price.priceType === normalType);
+        if (points.length > 1) series.push({ id: cards[i + j].id, points });
+      });
+    }
+
+    return {
+      ...analyzeCorrelations(series),
+      cards: Object.fromEntries(cards.map(card => [card.id, card])),
+      skipped: holdings.size - series.length,
+    };
+  }
+}
+
+// Export singleton instance
+export const holdingsCorrelationService = new HoldingsCorrelationService();
@@ -5,9 +5,15 @@
 
 import { cardMappingService } from './cardMappingService';
 import { allPrintingsStorage } from '@/lib/utils/allPrintingsStorage';
+import {
+  ALL_PRINTINGS_URL,
+  ingestAllPrintings,
+  AllPrintingsIngestProgress,
+  AllPrintingsWorkerMessage,
+} from '@/lib/utils/allPrintingsIngest';
 
 interface InitializationProgress {
-  stage: 'checking' | 'downloading' | 'processing' | 'complete' | 'error';
+  stage: 'checking' | 'downloading' | 'processing' | 'complete' | 'cancelled' | 'error';
   progress: number;
   message: string;
   error?: string;
@@ -28,6 +34,9 @@ interface InitializationResult {
 class MTGJSONInitService {
   private initializationPromise: Promise<InitializationResult> | null = null;
   private progressCallbacks: ((progress: InitializationProgress) => void)[] = [];
+  private ingestWorker: Worker | null = null;
+  private ingestController: AbortController | null = null; // Without worker support
+  private cancelRequested = false;
 
   /**
    * Check if MTGJSON data is available and fresh
@@ -101,6 +110,30 @@ class MTGJSONInitService {
     }
   }
 
+  /**
+   * Stop the AllPrintings import in progress. The sets stored so far are
+   * kept, and the next initialization resumes from there.
+   */
+  cancelInitialization(): void {
+    if (!this.ingestWorker && !this.ingestController) return;
+
+    this.cancelRequested = true;
+    this.ingestWorker?.postMessage({ type: 'cancel' });
+    this.ingestController?.abort();
+  }
+
+  /**
+   * An AllPrintings import that was cancelled or interrupted, if any
+   */
+  async getResumableImport(): Promise<{ version: string; setsStored: number; startedAt: string } | null> {
+    const state = await allPrintingsStorage.getIngestState();
+    return state ? {
+      version: state.version,
+      setsStored: state.completedSets.length,
+      startedAt: state.startedAt,
+    } : null;
+  }
+
   /**
    * Get current initialization statistics
    */
@@ -158,6 +191,8 @@ class MTGJSONInitService {
   // Private methods
 
   private async performInitialization(): Promise<InitializationResult> {
+    this.cancelRequested = false;
+
     try {
       this.updateProgress({
         stage: 'checking',
@@ -169,10 +204,13 @@ class MTGJSONInitService {
       const isDataAvailable = await allPrintingsStorage.isDataAvailable();
       
       if (!isDataAvailable) {
+        const resumable = await this.getResumableImport();
         this.updateProgress({
           stage: 'downloading',
           progress: 10,
-          message: 'Downloading AllPrintings.json from MTGJSON...',
+          message: resumable
+            ? `Resuming AllPrintings import (${resumable.setsStored} sets already stored)...`
+            : 'Downloading AllPrintings.json from MTGJSON...',
         });
 
         await this.downloadAllPrintings();
@@ -219,6 +257,19 @@ class MTGJSONInitService {
         } : undefined,
       };
     } catch (error) {
+      if (this.cancelRequested) {
+        this.updateProgress({
+          stage: 'cancelled',
+          progress: 0,
+          message: 'Import cancelled - it will resume where it stopped',
+        });
+
+        return {
+          success: false,
+          message: 'MTGJSON initialization cancelled',
+        };
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
       this.updateProgress({
@@ -240,28 +291,24 @@ class MTGJSONInitService {
 
   private async downloadAllPrintings(): Promise<void> {
     try {
-      // Download AllPrintings.json
-      const response = await fetch('https://mtgjson.com/api/v5/AllPrintings.json');
-      
-      if (!response.ok) {
-        throw new Error(`Download failed: ${response.status} ${response.statusText}`);
-      }
-
-      this.updateProgress({
-        stage: 'downloading',
-        progress: 30,
-        message: 'Parsing AllPrintings data...',
-      });
-
-      const data = await response.json();
+      const onProgress = (progress: AllPrintingsIngestProgress) => {
+        const fraction = progress.totalBytes ? progress.bytesReceived / progress.totalBytes : 0;
+        const downloaded = this.formatBytes(progress.bytesReceived);
 
-      this.updateProgress({
-        stage: 'processing',
-        progress: 50,
-        message: 'Storing AllPrintings data...',
-      });
+        this.updateProgress({
+          stage: 'downloading',
+          progress: Math.round(10 + fraction * 55),
+          message: `Stored ${progress.setsStored} sets (${progress.cardsStored.toLocaleString()} cards, ${
+            progress.totalBytes ? `${downloaded} of ${this.formatBytes(progress.totalBytes)}` : downloaded
+          })...`,
+        });
+      };
 
-      await allPrintingsStorage.storeAllPrintings(data);
+      if (typeof Worker === 'undefined') {
+        await this.ingestOnMainThread(onProgress);
+      } else {
+        await this.ingestInWorker(onProgress);
+      }
 
       this.updateProgress({
         stage: 'processing',
@@ -269,11 +316,63 @@ class MTGJSONInitService {
         message: 'AllPrintings data stored successfully',
       });
     } catch (error) {
+      if (this.cancelRequested) throw error;
+
       console.error('Error downloading AllPrintings:', error);
       throw new Error(`Failed to download AllPrintings: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private async ingestInWorker(onProgress: (progress: AllPrintingsIngestProgress) => void): Promise<void> {
+    const { createAllPrintingsIngestWorker } = await import('@/lib/workers');
+
+    return new Promise((resolve, reject) => {
+      const worker = createAllPrintingsIngestWorker();
+      this.ingestWorker = worker;
+
+      const finish = (error?: Error) => {
+        worker.terminate();
+        this.ingestWorker = null;
+        if (error) reject(error);
+        else resolve();
+      };
+
+      worker.onmessage = (event: MessageEvent<AllPrintingsWorkerMessage>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            onProgress(message.progress);
+            break;
+          case 'complete':
+            finish();
+            break;
+          case 'cancelled':
+            finish(new Error('AllPrintings import cancelled'));
+            break;
+          case 'error':
+            finish(new Error(message.message));
+            break;
+        }
+      };
+      worker.onerror = (event) => finish(new Error(event.message || 'AllPrintings worker failed'));
+
+      worker.postMessage({ type: 'start', url: ALL_PRINTINGS_URL });
+    });
+  }
+
+  // Still streamed set by set, but parsing competes with the page
+  private async ingestOnMainThread(onProgress: (progress: AllPrintingsIngestProgress) => void): Promise<void> {
+    this.ingestController = new AbortController();
+    try {
+      await ingestAllPrintings(ALL_PRINTINGS_URL, {
+        signal: this.ingestController.signal,
+        onProgress,
+      });
+    } finally {
+      this.ingestController = null;
+    }
+  }
+
   private updateProgress(progress: InitializationProgress) {
     this.progressCallbacks.forEach(callback => {
       try {
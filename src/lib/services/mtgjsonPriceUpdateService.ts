@@ -0,0 +1,175 @@
+/**
+ * MTGJSON Price Update Service
+ * Keeps the stored AllPrices histories current by appending each day's
+ * AllPricesToday prices, instead of downloading the full AllPrices file again
+ */
+
+import { MTGJSONCardPrices, MTGJSONFileCardPrices, MTGJSONMeta, MTGJSONPricesFile } from '@/lib/types';
+import { mergeDailyPrices } from '@/lib/utils/mtgjsonPriceMerge';
+
+const MTGJSON_BASE_URL = 'https://mtgjson.com/api/v5';
+
+/**
+ * Where the current MTGJSON version and today's prices come from
+ */
+export interface MTGJSONPriceSource {
+  getMeta(): Promise<MTGJSONMeta>;
+  getPricesToday(): Promise<MTGJSONPricesFile>;
+}
+
+// Stored by the admin panel's AllPrices download and by daily updates
+export interface StoredAllPrices {
+  data: Record<string, MTGJSONCardPrices | MTGJSONFileCardPrices>;
+  timestamp: number;
+  version: string;
+  totalCards: number;
+}
+
+interface PriceUpdateResult {
+  success: boolean;
+  updated: boolean;
+  message: string;
+  version?: string;
+  cardsUpdated?: number;
+  pointsAdded?: number;
+  error?: string;
+}
+
+async function fetchMTGJSONFile<T>(file: string): Promise<T> {
+  const response = await fetch(`${MTGJSON_BASE_URL}/${file}`);
+  if (!response.ok) {
+    throw new Error(`MTGJSON API Error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+export const remotePriceSource: MTGJSONPriceSource = {
+  getMeta: async () => (await fetchMTGJSONFile<{ data: MTGJSONMeta }>('Meta.json')).data,
+  getPricesToday: () => fetchMTGJSONFile<MTGJSONPricesFile>('AllPricesToday.json'),
+};
+
+/**
+ * A source serving an already loaded AllPricesToday file, e.g. a local copy
+ */
+export function createPriceFileSource(file: MTGJSONPricesFile): MTGJSONPriceSource {
+  return {
+    getMeta: async () => file.meta,
+    getPricesToday: async () => file,
+  };
+}
+
+class MTGJSONPriceUpdateService {
+  private readonly STORAGE_KEY = 'mtgjson-all-prices-data';
+  private updatePromise: Promise<PriceUpdateResult> | null = null;
+  private updateCallbacks: ((updatedUuids: string[]) => void)[] = [];
+
+  getStoredPrices(): StoredAllPrices | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error reading stored MTGJSON prices:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Compare the stored version with MTGJSON's current one
+   */
+  async checkForUpdate(source: MTGJSONPriceSource = remotePriceSource): Promise<{
+    updateAvailable: boolean;
+    currentVersion: string | null;
+    latestVersion: string;
+  }> {
+    const meta = await source.getMeta();
+    const currentVersion = this.getStoredPrices()?.version || null;
+
+    return {
+      updateAvailable: currentVersion !== meta.version,
+      currentVersion,
+      latestVersion: meta.version,
+    };
+  }
+
+  /**
+   * Append today's prices to the stored histories when MTGJSON has a newer
+   * version. Without stored histories, today's prices start them.
+   */
+  async update(source: MTGJSONPriceSource = remotePriceSource): Promise<PriceUpdateResult> {
+    // Return the update in progress, if any
+    if (this.updatePromise) {
+      return this.updatePromise;
+    }
+
+    this.updatePromise = this.performUpdate(source);
+    try {
+      return await this.updatePromise;
+    } finally {
+      this.updatePromise = null;
+    }
+  }
+
+  /**
+   * Called with the UUIDs of the cards whose histories changed
+   */
+  onUpdate(callback: (updatedUuids: string[]) => void) {
+    this.updateCallbacks.push(callback);
+  }
+
+  offUpdate(callback: (updatedUuids: string[]) => void) {
+    const index = this.updateCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.updateCallbacks.splice(index, 1);
+    }
+  }
+
+  private async performUpdate(source: MTGJSONPriceSource): Promise<PriceUpdateResult> {
+    try {
+      const { updateAvailable, latestVersion } = await this.checkForUpdate(source);
+      if (!updateAvailable) {
+        return {
+          success: true,
+          updated: false,
+          message: `Price data is up to date (${latestVersion})`,
+          version: latestVersion,
+        };
+      }
+
+      const today = await source.getPricesToday();
+      const stored = this.getStoredPrices();
+      const { data, cardsUpdated, pointsAdded } = mergeDailyPrices(stored?.data || {}, today.data);
+
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify({
+        data,
+        timestamp: Date.now(),
+        version: today.meta.version,
+        totalCards: Object.keys(data).length,
+      } as StoredAllPrices));
+
+      const updatedUuids = Object.keys(today.data);
+      this.updateCallbacks.forEach(callback => callback(updatedUuids));
+
+      return {
+        success: true,
+        updated: true,
+        message: `Added ${pointsAdded.toLocaleString()} prices for ${cardsUpdated.toLocaleString()} cards from ${today.meta.date}`,
+        version: today.meta.version,
+        cardsUpdated,
+        pointsAdded,
+      };
+    } catch (error) {
+      console.error('MTGJSON price update failed:', error);
+      return {
+        success: false,
+        updated: false,
+        message: 'Failed to update MTGJSON price data',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const mtgjsonPriceUpdateService = new MTGJSONPriceUpdateService();
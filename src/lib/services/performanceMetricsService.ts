@@ -0,0 +1,165 @@
+/**
+ * Performance Metrics Service
+ *
+ * Time-weighted and money-weighted (XIRR) returns per portfolio, from the
+ * daily snapshots and the transaction log. Purchases count as money added
+ * and sales (net of fees and shipping) or removals as money taken out.
+ */
+
+import { CurrencyCode, Portfolio, PortfolioTransaction, ReturnMetrics } from '@/lib/types';
+import { CashFlow, Valuation, calculateTimeWeightedReturn, calculateXirr } from '@/lib/utils/returns';
+import { PortfolioTimelineService } from './portfolioTimelineService';
+import { portfolioSnapshotService } from './portfolioSnapshotService';
+import { fxRateService } from './fxRateService';
+
+export class PerformanceMetricsService {
+  /**
+   * Returns for one portfolio over (startDate, endDate], in `currency`
+   */
+  static async getReturnMetrics(
+    portfolio: Portfolio,
+    startDate: string,
+    endDate: string,
+    currency: CurrencyCode
+  ): Promise<ReturnMetrics> {
+    const valuations = await this.getDailyValues(portfolio, startDate, endDate, currency);
+    const flows = this.getCashFlows(portfolio, startDate, endDate, currency);
+
+    return { portfolioId: portfolio.id, ...this.buildMetrics(valuations, flows, startDate, endDate) };
+  }
+
+  /**
+   * Returns for several portfolios treated as one, in `currency`
+   */
+  static async getCombinedReturnMetrics(
+    portfolios: Portfolio[],
+    startDate: string,
+    endDate: string,
+    currency: CurrencyCode
+  ): Promise<ReturnMetrics> {
+    const totals = new Map<string, number>();
+    const flows: CashFlow[] = [];
+
+    for (const portfolio of portfolios) {
+      const valuations = await this.getDailyValues(portfolio, startDate, endDate, currency);
+      valuations.forEach(v => totals.set(v.date, (totals.get(v.date) || 0) + v.value));
+      flows.push(...this.getCashFlows(portfolio, startDate, endDate, currency));
+    }
+
+    const valuations = Array.from(totals.entries()).map(([date, value]) => ({ date, value }));
+    return this.buildMetrics(valuations, flows, startDate, endDate);
+  }
+
+  /**
+   * Start date for a trailing period such as '30d' or '1y', ending today
+   */
+  static getPeriodStart(period: '7d' | '30d' | '90d' | '1y', now: Date = new Date()): string {
+    const days = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 }[period];
+    const start = new Date(now);
+    start.setUTCDate(start.getUTCDate() - days);
+    return this.toDate(start);
+  }
+
+  // Private methods
+
+  private static buildMetrics(
+    valuations: Valuation[],
+    flows: CashFlow[],
+    startDate: string,
+    endDate: string
+  ): ReturnMetrics {
+    const sorted = [...valuations].sort((a, b) => a.date.localeCompare(b.date));
+    const startValue = sorted[0]?.value || 0;
+    const endValue = sorted[sorted.length - 1]?.value || 0;
+
+    // XIRR works from the investor's side: money paid in is negative
+    const investorFlows: CashFlow[] = [
+      { date: startDate, amount: -startValue },
+      ...flows.map(f => ({ date: f.date, amount: -f.amount })),
+      { date: endDate, amount: endValue },
+    ];
+
+    const twr = calculateTimeWeightedReturn(sorted, flows);
+    const mwr = calculateXirr(investorFlows);
+
+    return {
+      startDate,
+      endDate,
+      startValue,
+      endValue,
+      netContributions: flows.reduce((sum, f) => sum + f.amount, 0),
+      timeWeightedReturn: twr === null ? null : twr * 100,
+      moneyWeightedReturn: mwr === null ? null : mwr * 100,
+    };
+  }
+
+  /**
+   * One value per day from startDate to endDate. Days without a snapshot
+   * carry the previous value forward, and today uses the live total.
+   */
+  private static async getDailyValues(
+    portfolio: Portfolio,
+    startDate: string,
+    endDate: string,
+    currency: CurrencyCode
+  ): Promise<Valuation[]> {
+    const snapshots = await portfolioSnapshotService.getSnapshots(portfolio.id, undefined, endDate);
+    const base = portfolio.baseCurrency || 'usd';
+    const today = this.toDate(new Date());
+
+    const values: Valuation[] = [];
+    let index = 0;
+    let value = 0;
+
+    for (let date = startDate; date <= endDate; date = this.addDays(date, 1)) {
+      while (index < snapshots.length && snapshots[index].date <= date) {
+        const snapshot = snapshots[index++];
+        value = fxRateService.convert(snapshot.totalValue, snapshot.currency || base, currency);
+      }
+
+      values.push({
+        date,
+        value: date === today ? fxRateService.convert(portfolio.totalValue, base, currency) : value,
+      });
+    }
+
+    return values;
+  }
+
+  /**
+   * Money moved into the portfolio during (startDate, endDate], negative
+   * when taken out
+   */
+  private static getCashFlows(
+    portfolio: Portfolio,
+    startDate: string,
+    endDate: string,
+    currency: CurrencyCode
+  ): CashFlow[] {
+    const base = portfolio.baseCurrency || 'usd';
+
+    return PortfolioTimelineService.getTransactions(portfolio.id)
+      .map(t => ({ date: this.toDate(new Date(t.timestamp)), amount: this.getFlowAmount(t) }))
+      .filter(f => f.date > startDate && f.date <= endDate && f.amount !== 0)
+      .map(f => ({ ...f, amount: fxRateService.convert(f.amount, base, currency) }));
+  }
+
+  private static getFlowAmount(transaction: PortfolioTransaction): number {
+    const amount = transaction.quantityChange * transaction.pricePerCard;
+    if (transaction.type === 'sell') {
+      // Fees and shipping reduce what the sale returned
+      return amount + (transaction.fees || 0) + (transaction.shipping || 0);
+    }
+    return amount;
+  }
+
+  private static toDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private static addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00.000Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return this.toDate(result);
+  }
+}
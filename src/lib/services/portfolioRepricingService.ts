@@ -0,0 +1,212 @@
+/**
+ * Portfolio Repricing Service
+ * Periodically refreshes the prices embedded in portfolio holdings through
+ * the batch card endpoint so portfolio values follow the market
+ */
+
+import { MTGCard, Portfolio } from '@/lib/types';
+import { getPortfolios, updatePortfolioPrices } from '@/lib/storage';
+import { batchLookupCards } from '@/lib/api/client';
+
+interface RepricingOptions {
+  portfolioIds?: string[]; // Defaults to every portfolio
+  force?: boolean; // Reprice cards even if they were priced recently
+}
+
+interface RepricingResult {
+  portfoliosUpdated: number;
+  cardsRequested: number;
+  cardsRepriced: number;
+  notFound: string[];
+  errors: string[];
+  completedAt: string;
+}
+
+class PortfolioRepricingService {
+  private readonly BATCH_SIZE = 100; // Maximum accepted by /api/cards/batch
+  private readonly DEFAULT_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+  private readonly STALE_AFTER = 12 * 60 * 60 * 1000; // Scryfall prices update daily
+
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private repricingPromise: Promise<RepricingResult> | null = null;
+  private repricingOptions: RepricingOptions = {};
+  private completeCallbacks: ((result: RepricingResult) => void)[] = [];
+
+  /**
+   * Start repricing on an interval (runs once immediately)
+   */
+  start(intervalMs: number = this.DEFAULT_INTERVAL): void {
+    if (this.intervalId) return;
+
+    this.repricePortfolios().catch(error => {
+      console.error('Error repricing portfolios:', error);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.repricePortfolios().catch(error => {
+        console.error('Error repricing portfolios:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the periodic repricing
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.intervalId !== null;
+  }
+
+  isRepricing(): boolean {
+    return this.repricingPromise !== null;
+  }
+
+  /**
+   * Add completion callback
+   */
+  onComplete(callback: (result: RepricingResult) => void) {
+    this.completeCallbacks.push(callback);
+  }
+
+  /**
+   * Remove completion callback
+   */
+  offComplete(callback: (result: RepricingResult) => void) {
+    const index = this.completeCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.completeCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Refresh the prices of stale holdings. A call during a run shares it
+   * when the run covers the call's portfolios and force, and otherwise
+   * runs again once it completes.
+   */
+  async repricePortfolios(options: RepricingOptions = {}): Promise<RepricingResult> {
+    if (this.repricingPromise) {
+      if (this.covers(this.repricingOptions, options)) {
+        return this.repricingPromise;
+      }
+      return this.repricingPromise
+        .catch(() => undefined)
+        .then(() => this.repricePortfolios(options));
+    }
+
+    this.repricingOptions = options;
+    this.repricingPromise = this.performRepricing(options);
+    try {
+      return await this.repricingPromise;
+    } finally {
+      this.repricingPromise = null;
+    }
+  }
+
+  /**
+   * Whether a holding's price is older than the staleness window
+   */
+  isStale(lastPricedAt: string | undefined, now: number = Date.now()): boolean {
+    if (!lastPricedAt) return true;
+    return now - new Date(lastPricedAt).getTime() > this.STALE_AFTER;
+  }
+
+  // Private methods
+
+  private covers(running: RepricingOptions, requested: RepricingOptions): boolean {
+    const coversPortfolios = !running.portfolioIds ||
+      (!!requested.portfolioIds && requested.portfolioIds.every(id => running.portfolioIds!.includes(id)));
+    return coversPortfolios && (running.force === true || requested.force !== true);
+  }
+
+  private async performRepricing(options: RepricingOptions): Promise<RepricingResult> {
+    const result: RepricingResult = {
+      portfoliosUpdated: 0,
+      cardsRequested: 0,
+      cardsRepriced: 0,
+      notFound: [],
+      errors: [],
+      completedAt: '',
+    };
+
+    const portfolios = getPortfolios().filter(
+      p => !options.portfolioIds || options.portfolioIds.includes(p.id)
+    );
+
+    const cardIds = this.collectCardIds(portfolios, options.force === true);
+    result.cardsRequested = cardIds.length;
+
+    if (cardIds.length > 0) {
+      const freshCards = new Map<string, MTGCard>();
+
+      for (let i = 0; i < cardIds.length; i += this.BATCH_SIZE) {
+        const batch = cardIds.slice(i, i + this.BATCH_SIZE);
+
+        try {
+          const response = await batchLookupCards(batch.map(id => ({ id })));
+          response.found.forEach(card => freshCards.set(card.id, card));
+          response.notFound.forEach(entry => {
+            if (entry.identifier?.id) result.notFound.push(entry.identifier.id);
+          });
+        } catch (error) {
+          result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+
+      const pricedAt = new Date().toISOString();
+
+      for (const portfolio of portfolios) {
+        if (!portfolio.cards.some(c => freshCards.has(c.cardId))) continue;
+
+        if (updatePortfolioPrices(portfolio.id, freshCards, pricedAt)) {
+          result.portfoliosUpdated++;
+        }
+      }
+
+      result.cardsRepriced = freshCards.size;
+    }
+
+    result.completedAt = new Date().toISOString();
+    this.notifyComplete(result);
+    return result;
+  }
+
+  /**
+   * Unique card IDs that need a fresh price
+   */
+  private collectCardIds(portfolios: Portfolio[], force: boolean): string[] {
+    const now = Date.now();
+    const ids = new Set<string>();
+
+    portfolios.forEach(portfolio => {
+      portfolio.cards.forEach(card => {
+        if (force || this.isStale(card.lastPricedAt, now)) {
+          ids.add(card.cardId);
+        }
+      });
+    });
+
+    return Array.from(ids);
+  }
+
+  private notifyComplete(result: RepricingResult) {
+    this.completeCallbacks.forEach(callback => {
+      try {
+        callback(result);
+      } catch (error) {
+        console.error('Error in repricing callback:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const portfolioRepricingService = new PortfolioRepricingService();
+
+// Export types
+export type { RepricingOptions, RepricingResult };
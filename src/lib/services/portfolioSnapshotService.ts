@@ -0,0 +1,231 @@
+/**
+ * Portfolio Snapshot Service
+ * Records one snapshot per portfolio per day in IndexedDB. Runs when the
+ * app opens and backfills the days missed since the last snapshot, so the
+ * timeline charts recorded values instead of re-estimating them.
+ */
+
+import { CompactPortfolioSnapshot, Portfolio, PortfolioSnapshot } from '@/lib/types';
+import {
+  getPortfolios,
+  getLatestPortfolioSnapshot,
+  getPortfolioSnapshots,
+  savePortfolioSnapshots
+} from '@/lib/storage';
+import { getHoldingCostBasis } from '@/lib/utils/costBasis';
+import { PortfolioTimelineService } from './portfolioTimelineService';
+import { valuationService } from './valuationService';
+
+interface SnapshotRecordingResult {
+  portfoliosRecorded: number;
+  snapshotsRecorded: number;
+  daysBackfilled: number;
+}
+
+class PortfolioSnapshotService {
+  private readonly MAX_BACKFILL_DAYS = 365;
+
+  private recordingPromise: Promise<SnapshotRecordingResult> | null = null;
+
+  /**
+   * Record today's snapshot for every portfolio, backfilling missed days
+   */
+  async recordSnapshots(now: Date = new Date()): Promise<SnapshotRecordingResult> {
+    // Return existing run if one is in progress
+    if (this.recordingPromise) {
+      return this.recordingPromise;
+    }
+
+    this.recordingPromise = this.performRecording(now);
+    try {
+      return await this.recordingPromise;
+    } finally {
+      this.recordingPromise = null;
+    }
+  }
+
+  /**
+   * Snapshots for a portfolio between two dates (inclusive), oldest first
+   */
+  async getSnapshots(portfolioId: string, startDate?: string, endDate?: string): Promise<PortfolioSnapshot[]> {
+    const stored = await getPortfolioSnapshots(portfolioId, startDate, endDate);
+    return stored
+      .map(snapshot => this.expand(snapshot))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Private methods
+
+  private async performRecording(now: Date): Promise<SnapshotRecordingResult> {
+    const result: SnapshotRecordingResult = {
+      portfoliosRecorded: 0,
+      snapshotsRecorded: 0,
+      daysBackfilled: 0,
+    };
+
+    const today = this.toDate(now);
+
+    for (const portfolio of getPortfolios()) {
+      try {
+        const snapshots = await this.buildSnapshots(portfolio, today);
+        await savePortfolioSnapshots(snapshots);
+
+        result.portfoliosRecorded++;
+        result.snapshotsRecorded += snapshots.length;
+        result.daysBackfilled += snapshots.filter(s => s.backfilled).length;
+      } catch (error) {
+        console.error(`Error recording snapshots for portfolio ${portfolio.id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Today's snapshot plus one backfilled snapshot per missed day
+   */
+  private async buildSnapshots(portfolio: Portfolio, today: string): Promise<CompactPortfolioSnapshot[]> {
+    // Holdings saved before transactions were tracked have nothing to replay yet
+    if (portfolio.cards.length > 0 && PortfolioTimelineService.getTransactions(portfolio.id).length === 0) {
+      PortfolioTimelineService.convertToEnhancedPortfolio(portfolio);
+    }
+
+    const latest = await getLatestPortfolioSnapshot(portfolio.id);
+    const snapshots = this.missedDates(portfolio, latest?.date, today)
+      .map(date => this.buildBackfilledSnapshot(portfolio, date));
+
+    snapshots.push(this.buildCurrentSnapshot(portfolio, today));
+    return snapshots;
+  }
+
+  /**
+   * Days after the last snapshot (or since tracking began) up to yesterday
+   */
+  private missedDates(portfolio: Portfolio, lastDate: string | undefined, today: string): string[] {
+    let start: string;
+    if (lastDate) {
+      start = this.addDays(lastDate, 1);
+    } else {
+      const firstTransaction = PortfolioTimelineService.getTimelineStats(portfolio.id).firstTransaction;
+      start = this.toDate(new Date(firstTransaction || portfolio.createdAt));
+    }
+
+    const earliest = this.addDays(today, -this.MAX_BACKFILL_DAYS);
+    if (start < earliest) start = earliest;
+
+    const dates: string[] = [];
+    for (let date = start; date < today; date = this.addDays(date, 1)) {
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  private buildCurrentSnapshot(portfolio: Portfolio, date: string): CompactPortfolioSnapshot {
+    const holdings = new Map<string, [string, number, number]>();
+    portfolio.cards.forEach(card => {
+      const entry = holdings.get(card.cardId) || [card.cardId, 0, 0];
+      entry[1] += card.quantity;
+      entry[2] += getHoldingCostBasis(card);
+      holdings.set(card.cardId, entry);
+    });
+
+    return {
+      portfolioId: portfolio.id,
+      date,
+      totalValue: portfolio.totalValue,
+      totalCost: portfolio.totalCost,
+      currency: portfolio.baseCurrency || 'usd',
+      backfilled: false,
+      holdings: Array.from(holdings.values()),
+    };
+  }
+
+  /**
+   * Rebuild a missed day from the transaction log. Past prices were never
+   * observed, so positions are valued at the latest known price per card.
+   */
+  private buildBackfilledSnapshot(portfolio: Portfolio, date: string): CompactPortfolioSnapshot {
+    const positions = PortfolioTimelineService.getPortfolioAtDate(portfolio.id, date, portfolio.costBasisMethod);
+    const unitValues = this.latestUnitValues(portfolio);
+
+    const holdings: Array<[string, number, number]> = [];
+    let totalValue = 0;
+    let totalCost = 0;
+
+    positions.forEach((position, cardId) => {
+      holdings.push([cardId, position.quantity, position.totalCost]);
+      totalValue += (unitValues.get(cardId) || 0) * position.quantity;
+      totalCost += position.totalCost;
+    });
+
+    return {
+      portfolioId: portfolio.id,
+      date,
+      totalValue,
+      totalCost,
+      currency: portfolio.baseCurrency || 'usd',
+      backfilled: true,
+      holdings,
+    };
+  }
+
+  /**
+   * Value of one copy of each card, from the current holdings or, for
+   * cards no longer held, the last recorded transaction price
+   */
+  private latestUnitValues(portfolio: Portfolio): Map<string, number> {
+    const values = new Map<string, number>();
+
+    PortfolioTimelineService.getTransactions(portfolio.id).forEach(t => {
+      values.set(t.cardId, t.pricePerCard);
+    });
+
+    const multipliers = valuationService.getConditionMultipliers();
+    const currency = portfolio.baseCurrency || 'usd';
+    const totals = new Map<string, { value: number; quantity: number }>();
+    portfolio.cards.forEach(card => {
+      const total = totals.get(card.cardId) || { value: 0, quantity: 0 };
+      total.value += valuationService.getHoldingValue(card, multipliers, currency);
+      total.quantity += card.quantity;
+      totals.set(card.cardId, total);
+    });
+    totals.forEach((total, cardId) => {
+      if (total.quantity > 0) values.set(cardId, total.value / total.quantity);
+    });
+
+    return values;
+  }
+
+  private expand(snapshot: CompactPortfolioSnapshot): PortfolioSnapshot {
+    return {
+      portfolioId: snapshot.portfolioId,
+      date: snapshot.date,
+      cards: snapshot.holdings.map(([cardId, quantity, totalCost]) => ({
+        cardId,
+        quantity,
+        totalCost,
+        averageCostBasis: quantity > 0 ? totalCost / quantity : 0,
+      })),
+      totalValue: snapshot.totalValue,
+      totalCost: snapshot.totalCost,
+      currency: snapshot.currency,
+      backfilled: snapshot.backfilled,
+    };
+  }
+
+  private toDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00.000Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return this.toDate(result);
+  }
+}
+
+// Export singleton instance
+export const portfolioSnapshotService = new PortfolioSnapshotService();
+
+// Export types
+export type { SnapshotRecordingResult };
@@ -12,9 +12,19 @@ import {
   EnhancedPortfolio,
   Portfolio,
   PortfolioCard,
-  MTGCard
+  MTGCard,
+  CostBasisMethod,
+  PurchaseLot,
+  RealizedGainSummary
 } from '@/lib/types';
 import { generateUUID } from '@/lib/utils/uuid';
+import {
+  consumeLots,
+  DEFAULT_COST_BASIS_METHOD,
+  getHoldingLots,
+  summarizeLots
+} from '@/lib/utils/costBasis';
+import { getHoldingKey } from '@/lib/utils/importPlan';
 import { getPriceHistoryForCard } from '@/lib/api/mtgjson';
 
 export class PortfolioTimelineService {
@@ -31,7 +41,12 @@ export class PortfolioTimelineService {
     quantityChange: number,
     pricePerCard: number,
     previousQuantity: number,
-    notes?: string
+    notes?: string,
+    details?: Pick<
+      PortfolioTransaction,
+      | 'fees' | 'shipping' | 'costBasis' | 'realizedGain' | 'matchedLots' | 'cardName' | 'saleDate' | 'currency' | 'originalPricePerCard'
+      | 'source' | 'importBatchId' | 'purchaseDate' | 'foil' | 'condition' | 'previousPricePerCard' | 'newCondition'
+    >
   ): PortfolioTransaction {
     const transaction: PortfolioTransaction = {
       id: generateUUID(),
@@ -44,7 +59,8 @@ export class PortfolioTimelineService {
       previousQuantity,
       newQuantity: previousQuantity + quantityChange,
       notes,
-      source: 'manual'
+      source: 'manual',
+      ...details
     };
 
     // Store transaction
@@ -77,72 +93,125 @@ export class PortfolioTimelineService {
   }
 
   /**
-   * Calculate portfolio composition at a specific date
+   * Delete the transactions recorded by an import, when it is rolled back
+   */
+  static removeImportBatchTransactions(portfolioId: string, importBatchId: string): number {
+    const transactions = this.getTransactions(portfolioId);
+    const remaining = transactions.filter(t => t.importBatchId !== importBatchId);
+
+    try {
+      localStorage.setItem(`${this.STORAGE_KEY}-${portfolioId}`, JSON.stringify(remaining));
+    } catch (error) {
+      console.error('Error removing import transactions:', error);
+    }
+
+    return transactions.length - remaining.length;
+  }
+
+  /**
+   * Whether lots have been consumed by a sale or removal. The stored lots
+   * then depend on the cost basis method, so it can no longer change.
+   */
+  static hasConsumedLots(portfolioId: string): boolean {
+    return this.getTransactions(portfolioId).some(t =>
+      (t.type === 'remove' || t.type === 'sell') && t.quantityChange < 0
+    );
+  }
+
+  /**
+   * The holding a transaction applies to. Transactions recorded before
+   * finish and condition were kept fall back to the card.
+   */
+  private static getTransactionHoldingKey(transaction: PortfolioTransaction): string {
+    return transaction.condition
+      ? getHoldingKey({ cardId: transaction.cardId, foil: !!transaction.foil, condition: transaction.condition })
+      : transaction.cardId;
+  }
+
+  /**
+   * Calculate portfolio composition at a specific date, consuming
+   * purchase lots on removal according to the cost basis method. Lots are
+   * kept per holding like in storage, and positions are summed per card.
    */
   static getPortfolioAtDate(
     portfolioId: string, 
-    targetDate: string
+    targetDate: string,
+    costBasisMethod: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
   ): Map<string, { quantity: number; totalCost: number; averageCostBasis: number }> {
     const transactions = this.getTransactions(portfolioId)
       .filter(t => t.timestamp.split('T')[0] <= targetDate)
       .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
-    const cardPositions = new Map<string, { 
+    const holdingPositions = new Map<string, { 
+      cardId: string;
       quantity: number; 
       totalCost: number; 
       averageCostBasis: number;
-      costBasis: number[]; // For FIFO/LIFO tracking
+      lots: PurchaseLot[];
     }>();
 
     for (const transaction of transactions) {
-      const existing = cardPositions.get(transaction.cardId) || {
+      let key = this.getTransactionHoldingKey(transaction);
+      const existing = holdingPositions.get(key) || {
+        cardId: transaction.cardId,
         quantity: 0,
         totalCost: 0,
         averageCostBasis: 0,
-        costBasis: []
+        lots: []
       };
 
       if (transaction.type === 'add') {
-        // Add cards with their cost basis
-        existing.quantity += transaction.quantityChange;
-        existing.totalCost += transaction.quantityChange * transaction.pricePerCard;
-        
-        // Add individual cost basis entries for FIFO/LIFO
-        for (let i = 0; i < transaction.quantityChange; i++) {
-          existing.costBasis.push(transaction.pricePerCard);
-        }
-      } else if (transaction.type === 'remove' && transaction.quantityChange < 0) {
+        // Each addition becomes its own lot, dated like the stored lot so
+        // FIFO and LIFO consume them in the same order
+        existing.lots.push({
+          id: transaction.id,
+          quantity: transaction.quantityChange,
+          pricePerCard: transaction.pricePerCard,
+          purchaseDate: transaction.purchaseDate || transaction.timestamp
+        });
+      } else if ((transaction.type === 'remove' || transaction.type === 'sell') && transaction.quantityChange < 0) {
         // Remove cards (quantityChange is negative)
         const removeQuantity = Math.abs(transaction.quantityChange);
-        const actualRemove = Math.min(removeQuantity, existing.quantity);
-        
-        existing.quantity -= actualRemove;
-        
-        // Remove cost basis using FIFO method (for simplicity in PoC)
-        const removedCosts = existing.costBasis.splice(0, actualRemove);
-        const removedCost = removedCosts.reduce((sum, cost) => sum + cost, 0);
-        existing.totalCost -= removedCost;
+        existing.lots = consumeLots(existing.lots, removeQuantity, costBasisMethod).remaining;
+      } else if (transaction.type === 'update') {
+        if (transaction.previousPricePerCard !== undefined) {
+          existing.lots = existing.lots.map(lot => ({ ...lot, pricePerCard: transaction.pricePerCard }));
+        }
+        if (transaction.newCondition && transaction.newCondition !== transaction.condition) {
+          // Move the lots to the holding in the new condition
+          const newKey = getHoldingKey({
+            cardId: transaction.cardId,
+            foil: !!transaction.foil,
+            condition: transaction.newCondition
+          });
+          existing.lots = [...(holdingPositions.get(newKey)?.lots || []), ...existing.lots];
+          holdingPositions.delete(key);
+          key = newKey;
+        }
       }
 
-      // Calculate average cost basis
-      existing.averageCostBasis = existing.quantity > 0 
-        ? existing.totalCost / existing.quantity 
-        : 0;
+      const summary = summarizeLots(existing.lots);
+      existing.quantity = summary.quantity;
+      existing.totalCost = summary.totalCost;
+      existing.averageCostBasis = summary.averageCostBasis;
 
       if (existing.quantity > 0) {
-        cardPositions.set(transaction.cardId, existing);
+        holdingPositions.set(key, existing);
       } else {
-        cardPositions.delete(transaction.cardId);
+        holdingPositions.delete(key);
       }
     }
 
-    // Convert to simpler format for return
+    // Sum the holdings of each card
     const result = new Map<string, { quantity: number; totalCost: number; averageCostBasis: number }>();
-    cardPositions.forEach((position, cardId) => {
-      result.set(cardId, {
-        quantity: position.quantity,
-        totalCost: position.totalCost,
-        averageCostBasis: position.averageCostBasis
+    holdingPositions.forEach(position => {
+      const card = result.get(position.cardId) || { quantity: 0, totalCost: 0, averageCostBasis: 0 };
+      const quantity = card.quantity + position.quantity;
+      const totalCost = card.totalCost + position.totalCost;
+      result.set(position.cardId, {
+        quantity,
+        totalCost,
+        averageCostBasis: quantity > 0 ? totalCost / quantity : 0
       });
     });
 
@@ -156,7 +225,8 @@ export class PortfolioTimelineService {
     portfolioId: string,
     startDate: string,
     endDate: string,
-    currentCards: Map<string, MTGCard>
+    currentCards: Map<string, MTGCard>,
+    costBasisMethod: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
   ): Promise<PortfolioTimelineEntry[]> {
     const timeline: PortfolioTimelineEntry[] = [];
     const start = new Date(startDate);
@@ -167,7 +237,7 @@ export class PortfolioTimelineService {
       const dateString = date.toISOString().split('T')[0];
       
       // Get portfolio composition at this date
-      const portfolioAtDate = this.getPortfolioAtDate(portfolioId, dateString);
+      const portfolioAtDate = this.getPortfolioAtDate(portfolioId, dateString, costBasisMethod);
       
       let portfolioValue = 0;
       let portfolioCost = 0;
@@ -225,19 +295,30 @@ export class PortfolioTimelineService {
     
     // If no transactions exist, create initial transactions for existing cards
     if (transactions.length === 0) {
-      const initialTransactions: PortfolioTransaction[] = portfolio.cards.map(card => ({
-        id: generateUUID(),
-        portfolioId: portfolio.id,
-        type: 'add' as const,
-        timestamp: portfolio.createdAt,
-        cardId: card.cardId,
-        quantityChange: card.quantity,
-        pricePerCard: card.purchasePrice,
-        previousQuantity: 0,
-        newQuantity: card.quantity,
-        notes: 'Initial portfolio creation',
-        source: 'manual' as const
-      }));
+      // One transaction per purchase lot so the replay keeps lot costs
+      const initialTransactions: PortfolioTransaction[] = [];
+      portfolio.cards.forEach(card => {
+        let runningQuantity = 0;
+        getHoldingLots(card).forEach(lot => {
+          initialTransactions.push({
+            id: generateUUID(),
+            portfolioId: portfolio.id,
+            type: 'add',
+            timestamp: lot.purchaseDate || portfolio.createdAt,
+            cardId: card.cardId,
+            foil: card.foil,
+            condition: card.condition,
+            quantityChange: lot.quantity,
+            pricePerCard: lot.pricePerCard,
+            previousQuantity: runningQuantity,
+            newQuantity: runningQuantity + lot.quantity,
+            notes: 'Initial portfolio creation',
+            source: 'manual',
+            purchaseDate: lot.purchaseDate
+          });
+          runningQuantity += lot.quantity;
+        });
+      });
 
       // Store the initial transactions
       try {
@@ -255,7 +336,7 @@ export class PortfolioTimelineService {
       transactions: this.getTransactions(portfolio.id),
       settings: {
         trackTimeline: true,
-        costBasisMethod: 'fifo'
+        costBasisMethod: portfolio.costBasisMethod || DEFAULT_COST_BASIS_METHOD
       }
     };
   }
@@ -329,13 +410,43 @@ export class PortfolioTimelineService {
       if (transaction.type === 'add') {
         stats.totalCardsAdded += transaction.quantityChange;
         stats.totalInvested += transaction.quantityChange * transaction.pricePerCard;
-      } else if (transaction.type === 'remove') {
+      } else if (transaction.type === 'remove' || transaction.type === 'sell') {
         stats.totalCardsRemoved += Math.abs(transaction.quantityChange);
       }
     }
 
     return stats;
   }
+
+  /**
+   * Sum the realized gains of all recorded sales for a portfolio
+   */
+  static getRealizedGainSummary(portfolioId: string): RealizedGainSummary {
+    const summary: RealizedGainSummary = {
+      salesCount: 0,
+      cardsSold: 0,
+      proceeds: 0,
+      fees: 0,
+      shipping: 0,
+      costBasis: 0,
+      realizedGain: 0
+    };
+
+    for (const transaction of this.getTransactions(portfolioId)) {
+      if (transaction.type !== 'sell') continue;
+
+      const quantity = Math.abs(transaction.quantityChange);
+      summary.salesCount++;
+      summary.cardsSold += quantity;
+      summary.proceeds += quantity * transaction.pricePerCard;
+      summary.fees += transaction.fees || 0;
+      summary.shipping += transaction.shipping || 0;
+      summary.costBasis += transaction.costBasis || 0;
+      summary.realizedGain += transaction.realizedGain || 0;
+    }
+
+    return summary;
+  }
 }
 
 export default PortfolioTimelineService;
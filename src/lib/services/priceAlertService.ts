@@ -0,0 +1,277 @@
+/**
+ * Price Alert Evaluation Service
+ * Periodically checks the user's price alerts against current prices
+ * and records when an alert fires
+ */
+
+import { MTGCard, PriceAlert, PriceAlertTrigger } from '@/lib/types';
+import { getPreferences, savePreferences } from '@/lib/storage';
+import { getCard } from '@/lib/api/scryfall';
+import { getPreferredPriceProvider, getPriceHistoryForCard } from '@/lib/api/mtgjson';
+import { generateUUID } from '@/lib/utils/uuid';
+
+interface AlertEvaluationResult {
+  checked: number;
+  triggered: PriceAlertTrigger[];
+  errors: Array<{ cardId: string; error: string }>;
+  evaluatedAt: string;
+}
+
+interface ResolvedPrice {
+  card: MTGCard;
+  price: number;
+  source: PriceAlertTrigger['priceSource'];
+}
+
+class PriceAlertService {
+  private readonly HISTORY_KEY = 'mtg-price-alert-history';
+  private readonly MAX_HISTORY_ENTRIES = 200;
+  private readonly DEFAULT_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private evaluationPromise: Promise<AlertEvaluationResult> | null = null;
+  private triggerCallbacks: ((trigger: PriceAlertTrigger) => void)[] = [];
+
+  /**
+   * Start evaluating alerts on an interval (runs once immediately)
+   */
+  start(intervalMs: number = this.DEFAULT_INTERVAL): void {
+    if (this.intervalId) return;
+
+    this.evaluateAlerts().catch(error => {
+      console.error('Error evaluating price alerts:', error);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.evaluateAlerts().catch(error => {
+        console.error('Error evaluating price alerts:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the periodic evaluation
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.intervalId !== null;
+  }
+
+  /**
+   * Add trigger callback
+   */
+  onTrigger(callback: (trigger: PriceAlertTrigger) => void) {
+    this.triggerCallbacks.push(callback);
+  }
+
+  /**
+   * Remove trigger callback
+   */
+  offTrigger(callback: (trigger: PriceAlertTrigger) => void) {
+    const index = this.triggerCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.triggerCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Check every active, untriggered alert against the current price
+   */
+  async evaluateAlerts(): Promise<AlertEvaluationResult> {
+    // Return existing evaluation if one is in progress
+    if (this.evaluationPromise) {
+      return this.evaluationPromise;
+    }
+
+    this.evaluationPromise = this.performEvaluation();
+    try {
+      return await this.evaluationPromise;
+    } finally {
+      this.evaluationPromise = null;
+    }
+  }
+
+  /**
+   * Whether a price satisfies an alert's condition
+   */
+  isAlertMet(alert: PriceAlert, price: number): boolean {
+    return alert.condition === 'below'
+      ? price <= alert.targetPrice
+      : price >= alert.targetPrice;
+  }
+
+  /**
+   * Re-arm a triggered alert so it is evaluated again
+   */
+  resetAlert(alertId: string): boolean {
+    const preferences = getPreferences();
+    const priceAlerts = preferences.priceAlerts.map(alert =>
+      alert.id === alertId
+        ? { ...alert, active: true, triggeredAt: undefined, triggeredPrice: undefined }
+        : alert
+    );
+    return savePreferences({ priceAlerts });
+  }
+
+  /**
+   * Get recorded alert triggers, newest first
+   */
+  getTriggerHistory(): PriceAlertTrigger[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const stored = localStorage.getItem(this.HISTORY_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading alert trigger history:', error);
+      return [];
+    }
+  }
+
+  clearTriggerHistory(): void {
+    try {
+      localStorage.removeItem(this.HISTORY_KEY);
+    } catch (error) {
+      console.error('Error clearing alert trigger history:', error);
+    }
+  }
+
+  // Private methods
+
+  private async performEvaluation(): Promise<AlertEvaluationResult> {
+    const evaluatedAt = new Date().toISOString();
+    const preferences = getPreferences();
+    const pendingAlerts = preferences.priceAlerts.filter(alert => alert.active && !alert.triggeredAt);
+
+    const result: AlertEvaluationResult = {
+      checked: 0,
+      triggered: [],
+      errors: [],
+      evaluatedAt,
+    };
+
+    if (pendingAlerts.length === 0) {
+      return result;
+    }
+
+    // Resolve each card's price once, even if it has several alerts
+    const cardIds = Array.from(new Set(pendingAlerts.map(alert => alert.cardId)));
+    const prices = new Map<string, ResolvedPrice>();
+
+    for (const cardId of cardIds) {
+      try {
+        const resolved = await this.resolveCurrentPrice(cardId);
+        if (resolved) {
+          prices.set(cardId, resolved);
+        } else {
+          result.errors.push({ cardId, error: 'No current price available' });
+        }
+      } catch (error) {
+        result.errors.push({
+          cardId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const updates = new Map<string, Partial<PriceAlert>>();
+
+    for (const alert of pendingAlerts) {
+      const resolved = prices.get(alert.cardId);
+      if (!resolved) continue;
+
+      result.checked++;
+
+      if (this.isAlertMet(alert, resolved.price)) {
+        const trigger: PriceAlertTrigger = {
+          id: generateUUID(),
+          alertId: alert.id,
+          cardId: alert.cardId,
+          cardName: resolved.card.name,
+          condition: alert.condition,
+          targetPrice: alert.targetPrice,
+          price: resolved.price,
+          priceSource: resolved.source,
+          triggeredAt: evaluatedAt,
+        };
+
+        result.triggered.push(trigger);
+        updates.set(alert.id, {
+          lastCheckedAt: evaluatedAt,
+          triggeredAt: evaluatedAt,
+          triggeredPrice: resolved.price,
+        });
+      } else {
+        updates.set(alert.id, { lastCheckedAt: evaluatedAt });
+      }
+    }
+
+    // Re-read preferences so alerts edited during evaluation are not clobbered
+    const latest = getPreferences();
+    savePreferences({
+      priceAlerts: latest.priceAlerts.map(alert =>
+        updates.has(alert.id) ? { ...alert, ...updates.get(alert.id) } : alert
+      ),
+    });
+
+    if (result.triggered.length > 0) {
+      this.recordTriggers(result.triggered);
+      result.triggered.forEach(trigger => this.notifyTrigger(trigger));
+    }
+
+    return result;
+  }
+
+  /**
+   * Current price from Scryfall, falling back to the latest MTGJSON point
+   */
+  private async resolveCurrentPrice(cardId: string): Promise<ResolvedPrice | null> {
+    const card = await getCard(cardId);
+
+    if (card.prices.usd != null && card.prices.usd > 0) {
+      return { card, price: card.prices.usd, source: 'scryfall' };
+    }
+
+    // Alert targets are in USD
+    const history = await getPriceHistoryForCard(card, getPreferredPriceProvider('usd'));
+    const normalPrices = history?.prices.filter(p => p.priceType === 'usd') || [];
+    const latest = normalPrices[normalPrices.length - 1];
+
+    if (latest) {
+      return { card, price: latest.price, source: 'mtgjson' };
+    }
+
+    return null;
+  }
+
+  private recordTriggers(triggers: PriceAlertTrigger[]): void {
+    try {
+      const history = [...triggers, ...this.getTriggerHistory()].slice(0, this.MAX_HISTORY_ENTRIES);
+      localStorage.setItem(this.HISTORY_KEY, JSON.stringify(history));
+    } catch (error) {
+      console.error('Error storing alert trigger history:', error);
+    }
+  }
+
+  private notifyTrigger(trigger: PriceAlertTrigger) {
+    this.triggerCallbacks.forEach(callback => {
+      try {
+        callback(trigger);
+      } catch (error) {
+        console.error('Error in alert trigger callback:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const priceAlertService = new PriceAlertService();
+
+// Export types
+export type { AlertEvaluationResult };
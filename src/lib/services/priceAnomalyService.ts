@@ -0,0 +1,105 @@
+/**
+ * Price Anomaly Service
+ * Scans the MTGJSON price histories of held and watched cards for unusual
+ * moves, for the analytics events feed
+ */
+
+import { MTGCard, Portfolio, PriceAnomalyEvent, PriceWindow } from '@/lib/types';
+import { getWatchlist } from '@/lib/storage';
+import { getCard } from '@/lib/api/scryfall';
+import { getPreferredPriceProvider, getPriceHistoryForCard } from '@/lib/api/mtgjson';
+import { AnomalyDetectionOptions, detectPriceAnomalies } from '@/lib/utils/priceAnomalies';
+import { getProviderPriceTypes } from '@/lib/utils/priceProviders';
+
+interface ScannedCard {
+  card: MTGCard;
+  source: PriceAnomalyEvent['source'];
+}
+
+class PriceAnomalyService {
+  private readonly BATCH_SIZE = 10;
+  private readonly DEFAULT_LOOKBACK_DAYS = 30;
+
+  /**
+   * Unusual moves in the last `lookbackDays` for every card held in a
+   * portfolio or on the watchlist, newest first
+   */
+  async scanCards(
+    portfolios: Portfolio[],
+    lookbackDays: number = this.DEFAULT_LOOKBACK_DAYS,
+    options: Partial<AnomalyDetectionOptions> = {}
+  ): Promise<PriceAnomalyEvent[]> {
+    const cards = await this.getScannedCards(portfolios);
+    const since = new Date();
+    since.setDate(since.getDate() - lookbackDays);
+    // Leaves room for the detection window before the look-back
+    const window: PriceWindow = lookbackDays <= 60 ? '90d' : 'all';
+
+    const events: PriceAnomalyEvent[] = [];
+    for (let i = 0; i < cards.length; i += this.BATCH_SIZE) {
+      const batch = await Promise.all(
+        cards.slice(i, i + this.BATCH_SIZE).map(scanned =>
+          this.scanCard(scanned, window, { ...options, since: since.toISOString().split('T')[0] })
+        )
+      );
+      events.push(...batch.flat());
+    }
+
+    return events.sort((a, b) => b.date.localeCompare(a.date) || Math.abs(b.changePercent) - Math.abs(a.changePercent));
+  }
+
+  private async scanCard(
+    { card, source }: ScannedCard,
+    window: PriceWindow,
+    options: Partial<AnomalyDetectionOptions>
+  ): Promise<PriceAnomalyEvent[]> {
+    try {
+      const provider = getPreferredPriceProvider('usd');
+      const history = await getPriceHistoryForCard(card, provider, window);
+      if (!history) return [];
+
+      const normalType = getProviderPriceTypes(provider).normal;
+      return detectPriceAnomalies(history.prices.filter(price => price.priceType === normalType), options)
+        .map(anomaly => ({
+          ...anomaly,
+          cardId: card.id,
+          cardName: card.name,
+          setName: card.setName,
+          source,
+          currency: history.currency || 'usd',
+        }));
+    } catch (error) {
+      console.error(`Error scanning prices of ${card.name}:`, error);
+      return [];
+    }
+  }
+
+  // Held cards, then watched cards that aren't held
+  private async getScannedCards(portfolios: Portfolio[]): Promise<ScannedCard[]> {
+    const scanned = new Map<string, ScannedCard>();
+
+    portfolios.forEach(portfolio => {
+      portfolio.cards.forEach(({ card }) => {
+        if (!scanned.has(card.id)) scanned.set(card.id, { card, source: 'holding' });
+      });
+    });
+
+    const watched = getWatchlist().filter(cardId => !scanned.has(cardId));
+    const cards = await Promise.all(watched.map(async cardId => {
+      try {
+        return await getCard(cardId);
+      } catch (error) {
+        console.error(`Error loading watchlist card ${cardId}:`, error);
+        return null;
+      }
+    }));
+    cards.forEach(card => {
+      if (card) scanned.set(card.id, { card, source: 'watchlist' });
+    });
+
+    return Array.from(scanned.values());
+  }
+}
+
+// Export singleton instance
+export const priceAnomalyService = new PriceAnomalyService();
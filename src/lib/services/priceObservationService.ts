@@ -0,0 +1,181 @@
+/**
+ * Price Observation Service
+ * Records the Scryfall prices of each card fetched, one observation per
+ * card per day, building a local price history for cards MTGJSON has no
+ * history for
+ */
+
+import { MTGCard, PriceCurrency, PriceHistory, PriceObservation, ProcessedCardPrice } from '@/lib/types';
+import { summarizePriceSeries } from '@/lib/utils/priceAnalysis';
+
+type ObservationStore = Record<string, PriceObservation[]>; // Card ID -> observations, oldest first
+
+const PRICE_FIELDS = ['usd', 'usdFoil', 'eur', 'eurFoil', 'tix'] as const;
+
+// Scryfall's prices come from these stores
+const CURRENCY_PROVIDERS = {
+  usd: 'tcgplayer',
+  eur: 'cardmarket',
+  tix: 'cardhoarder',
+} as const;
+
+class PriceObservationService {
+  private readonly STORAGE_KEY = 'mtg-price-observations';
+  private readonly MAX_DAYS_PER_CARD = 180;
+  private readonly MAX_CARDS = 300; // Cards observed longest ago are dropped first
+  private readonly MAX_STORE_LENGTH = 512 * 1024; // Characters, well below the localStorage quota shared with portfolios
+
+  // Fewer points than this aren't a history
+  readonly MIN_OBSERVATIONS = 2;
+
+  /**
+   * Record today's prices for fetched cards. A later fetch on the same day
+   * replaces that day's observation.
+   */
+  recordObservations(cards: MTGCard[], observedAt: Date = new Date()): void {
+    if (typeof window === 'undefined' || cards.length === 0) return;
+
+    const date = observedAt.toISOString().split('T')[0];
+    const store = this.loadStore();
+    let changed = false;
+
+    cards.forEach(card => {
+      const observation = this.toObservation(card, date);
+      if (!observation) return;
+
+      const observations = (store[card.id] || []).filter(o => o.date !== date);
+      observations.push(observation);
+      observations.sort((a, b) => a.date.localeCompare(b.date));
+
+      // Re-insert so the most recently observed cards come last
+      delete store[card.id];
+      store[card.id] = observations.slice(-this.MAX_DAYS_PER_CARD);
+      changed = true;
+    });
+
+    if (changed) {
+      this.saveStore(this.trimStore(store));
+    }
+  }
+
+  recordObservation(card: MTGCard, observedAt?: Date): void {
+    this.recordObservations([card], observedAt);
+  }
+
+  getObservations(cardId: string): PriceObservation[] {
+    return this.loadStore()[cardId] || [];
+  }
+
+  /**
+   * Recorded prices as price points, optionally only one price type
+   */
+  getPricePoints(cardId: string, priceType?: ProcessedCardPrice['priceType']): ProcessedCardPrice[] {
+    const fields = priceType ? [priceType] : PRICE_FIELDS;
+
+    return this.getObservations(cardId).flatMap(observation =>
+      fields
+        .filter(field => observation[field] !== undefined)
+        .map(field => ({
+          cardId,
+          date: observation.date,
+          price: observation[field]!,
+          priceType: field,
+        }))
+    );
+  }
+
+  /**
+   * Recorded history in one currency, or null while there are fewer than
+   * MIN_OBSERVATIONS normal prices
+   */
+  getRecordedPriceHistory(cardId: string, currency: PriceCurrency = 'usd'): PriceHistory | null {
+    const normalPrices = this.getPricePoints(cardId, currency);
+    if (normalPrices.length < this.MIN_OBSERVATIONS) {
+      return null;
+    }
+
+    const foilPrices = currency === 'tix' ? [] : this.getPricePoints(cardId, `${currency}Foil`);
+    const observations = this.getObservations(cardId);
+
+    return {
+      cardId,
+      prices: [...normalPrices, ...foilPrices].sort((a, b) => a.date.localeCompare(b.date)),
+      ...summarizePriceSeries(normalPrices.map(p => p.price)),
+      lastUpdated: observations[observations.length - 1]?.date,
+      provider: 'recorded',
+      priceProvider: CURRENCY_PROVIDERS[currency],
+      currency,
+    };
+  }
+
+  clearObservations(): void {
+    try {
+      localStorage.removeItem(this.STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing price observations:', error);
+    }
+  }
+
+  private toObservation(card: MTGCard, date: string): PriceObservation | null {
+    const observation: PriceObservation = { date };
+    let hasPrice = false;
+
+    PRICE_FIELDS.forEach(field => {
+      const price = card.prices?.[field];
+      if (price != null && price > 0) {
+        observation[field] = price;
+        hasPrice = true;
+      }
+    });
+
+    return hasPrice ? observation : null;
+  }
+
+  /**
+   * Keep the most recently observed cards within MAX_CARDS and
+   * MAX_STORE_LENGTH, returning the store serialized
+   */
+  private trimStore(store: ObservationStore): string {
+    let cardIds = Object.keys(store).slice(-this.MAX_CARDS);
+    let serialized = this.serialize(store, cardIds);
+
+    // Drop the oldest quarter of cards until the store fits
+    while (serialized.length > this.MAX_STORE_LENGTH && cardIds.length > 1) {
+      cardIds = cardIds.slice(Math.ceil(cardIds.length / 4));
+      serialized = this.serialize(store, cardIds);
+    }
+
+    return serialized;
+  }
+
+  private serialize(store: ObservationStore, cardIds: string[]): string {
+    const trimmed: ObservationStore = {};
+    cardIds.forEach(id => {
+      trimmed[id] = store[id];
+    });
+    return JSON.stringify(trimmed);
+  }
+
+  private loadStore(): ObservationStore {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error loading price observations:', error);
+      return {};
+    }
+  }
+
+  private saveStore(serialized: string): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, serialized);
+    } catch (error) {
+      // Give the space back to portfolio data rather than keep a stale history
+      console.error('Error saving price observations:', error);
+      this.clearObservations();
+    }
+  }
+}
+
+// Export singleton instance
+export const priceObservationService = new PriceObservationService();
@@ -0,0 +1,136 @@
+/**
+ * Price Series Service
+ * Keeps MTGJSON price histories as time series in IndexedDB, one point per
+ * (uuid, provider, finish, date). Histories are appended to once a day and
+ * compacted by the retention policy, and charts read any window from the
+ * store instead of re-parsing the full history.
+ */
+
+import {
+  MTGJSONCardPrices,
+  PriceFinish,
+  PriceHistory,
+  PriceProvider,
+  PriceRetentionPolicy,
+  PriceSeriesPoint,
+  PriceWindow,
+} from '@/lib/types';
+import {
+  clearPriceSeriesSyncedAt,
+  getCardPriceSeries,
+  getPriceSeriesPoints,
+  getPriceSeriesSyncedAt,
+  replaceCardPriceSeries,
+  setPriceSeriesSyncedAt,
+} from '@/lib/storage';
+import {
+  DEFAULT_RETENTION_POLICY,
+  compactSeries,
+  flattenPriceHistory,
+  getWindowStart,
+  toProcessedPrices,
+} from '@/lib/utils/priceSeries';
+import { PRICE_PROVIDERS } from '@/lib/utils/priceProviders';
+import { summarizePriceSeries } from '@/lib/utils/priceAnalysis';
+
+const seriesKey = (point: Pick<PriceSeriesPoint, 'provider' | 'finish'>) => `${point.provider}:${point.finish}`;
+
+class PriceSeriesService {
+  private retentionPolicy: PriceRetentionPolicy = DEFAULT_RETENTION_POLICY;
+
+  setRetentionPolicy(policy: PriceRetentionPolicy): void {
+    this.retentionPolicy = policy;
+  }
+
+  /**
+   * Whether a card's series haven't been brought up to date today
+   */
+  async needsSync(uuid: string): Promise<boolean> {
+    return (await getPriceSeriesSyncedAt(uuid)) === null;
+  }
+
+  /**
+   * Sync the cards again on their next read, e.g. after new prices arrived
+   */
+  async invalidateSync(uuids: string[]): Promise<void> {
+    if (uuids.length === 0) return;
+    await clearPriceSeriesSyncedAt(uuids);
+  }
+
+  /**
+   * Append the dates a card's series don't have yet from its MTGJSON
+   * history, then compact them. Older dates aren't re-added, so compacted
+   * points stay compacted.
+   */
+  async syncHistory(uuid: string, prices: MTGJSONCardPrices, now: Date = new Date()): Promise<void> {
+    const stored = await getCardPriceSeries(uuid);
+
+    const latestDates = new Map<string, string>();
+    stored.forEach(point => {
+      const key = seriesKey(point);
+      if (point.date > (latestDates.get(key) || '')) latestDates.set(key, point.date);
+    });
+
+    const newPoints = flattenPriceHistory(uuid, prices)
+      .filter(point => point.date > (latestDates.get(seriesKey(point)) || ''));
+
+    const series = new Map<string, PriceSeriesPoint[]>();
+    [...stored, ...newPoints].forEach(point => {
+      const key = seriesKey(point);
+      series.set(key, [...(series.get(key) || []), point]);
+    });
+
+    const compacted = Array.from(series.values())
+      .flatMap(points => compactSeries(points, this.retentionPolicy, now));
+
+    await replaceCardPriceSeries(uuid, compacted);
+    await setPriceSeriesSyncedAt(uuid, now.getTime());
+  }
+
+  /**
+   * Points of one provider's series in a chart window, oldest first
+   */
+  async getSeries(
+    uuid: string,
+    provider: PriceProvider,
+    finish: PriceFinish,
+    window: PriceWindow = 'all',
+    now: Date = new Date()
+  ): Promise<PriceSeriesPoint[]> {
+    return getPriceSeriesPoints(uuid, provider, finish, getWindowStart(window, now));
+  }
+
+  /**
+   * A provider's prices in a chart window as a price history, or null
+   * without stored prices
+   */
+  async getPriceHistory(
+    cardId: string,
+    uuid: string,
+    provider: PriceProvider,
+    window: PriceWindow = 'all'
+  ): Promise<PriceHistory | null> {
+    const [normal, foil] = await Promise.all([
+      this.getSeries(uuid, provider, 'normal', window),
+      this.getSeries(uuid, provider, 'foil', window),
+    ]);
+    if (normal.length === 0 && foil.length === 0) return null;
+
+    // Statistics come from normal prices, unless the card is only printed in foil
+    const summarized = normal.length > 0 ? normal : foil;
+
+    return {
+      cardId,
+      uuid,
+      prices: toProcessedPrices(cardId, [...normal, ...foil]).sort((a, b) => a.date.localeCompare(b.date)),
+      ...summarizePriceSeries(summarized.map(point => point.price)),
+      lastUpdated: new Date().toISOString(),
+      provider: 'mtgjson',
+      priceProvider: provider,
+      currency: PRICE_PROVIDERS[provider].currency,
+    };
+  }
+}
+
+// Export singleton instance
+export const priceSeriesService = new PriceSeriesService();
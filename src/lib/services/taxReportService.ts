@@ -0,0 +1,240 @@
+/**
+ * Tax Report Service
+ *
+ * Builds a yearly capital-gains report from recorded sale transactions,
+ * one row per matched purchase lot, in a Form 8949-like layout
+ */
+
+import {
+  CurrencyCode,
+  HoldingTerm,
+  Portfolio,
+  PortfolioTransaction,
+  TaxReport,
+  TaxReportRow,
+  TaxReportTotals
+} from '@/lib/types';
+import { PortfolioTimelineService } from './portfolioTimelineService';
+import { fxRateService } from './fxRateService';
+
+const VARIOUS = 'VARIOUS';
+
+export class TaxReportService {
+  /**
+   * The portfolios' shared base currency, or the fallback when they differ
+   */
+  static getReportCurrency(portfolios: Portfolio[], fallback: CurrencyCode = 'usd'): CurrencyCode {
+    const currencies = Array.from(new Set(portfolios.map(p => p.baseCurrency || 'usd')));
+    return currencies.length === 1 ? currencies[0] : fallback;
+  }
+
+  /**
+   * Generate the report for a tax year across the given portfolios, with
+   * amounts converted into one currency. Throws a MissingFxRateError when
+   * a portfolio's base currency has no rate to it.
+   */
+  static generateReport(
+    portfolios: Portfolio[],
+    year: number,
+    currency: CurrencyCode = this.getReportCurrency(portfolios)
+  ): TaxReport {
+    const rows: TaxReportRow[] = [];
+
+    for (const portfolio of portfolios) {
+      const sales = PortfolioTimelineService.getTransactions(portfolio.id)
+        .filter(t => t.type === 'sell' && this.getSaleDate(t).startsWith(`${year}-`));
+      if (sales.length === 0) continue;
+
+      const rate = fxRateService.convert(1, portfolio.baseCurrency || 'usd', currency);
+      for (const sale of sales) {
+        rows.push(...this.buildRows(portfolio, sale).map(row => ({
+          ...row,
+          proceeds: row.proceeds * rate,
+          costBasis: row.costBasis * rate,
+          adjustment: row.adjustment * rate,
+          gainLoss: row.gainLoss * rate
+        })));
+      }
+    }
+
+    rows.sort((a, b) => a.dateSold.localeCompare(b.dateSold) || a.dateAcquired.localeCompare(b.dateAcquired));
+
+    return {
+      year,
+      currency,
+      generatedAt: new Date().toISOString(),
+      rows,
+      totals: {
+        short: this.sumRows(rows.filter(r => r.term === 'short')),
+        long: this.sumRows(rows.filter(r => r.term === 'long'))
+      }
+    };
+  }
+
+  /**
+   * Years that have at least one sale, newest first
+   */
+  static getReportYears(portfolios: Portfolio[]): number[] {
+    const years = new Set<number>();
+
+    for (const portfolio of portfolios) {
+      PortfolioTimelineService.getTransactions(portfolio.id)
+        .filter(t => t.type === 'sell')
+        .forEach(t => years.add(parseInt(this.getSaleDate(t).slice(0, 4))));
+    }
+
+    return Array.from(years).sort((a, b) => b - a);
+  }
+
+  /**
+   * Held for more than one year counts as long-term
+   */
+  static getHoldingTerm(dateAcquired: string, dateSold: string): HoldingTerm {
+    if (dateAcquired === VARIOUS) return 'short';
+
+    const [year, month, day] = dateAcquired.split('-');
+    const oneYearLater = `${parseInt(year) + 1}-${month}-${day}`;
+    return dateSold > oneYearLater ? 'long' : 'short';
+  }
+
+  /**
+   * Export the report as CSV with separate short-term and long-term parts
+   */
+  static toCsv(report: TaxReport): string {
+    const header = [
+      '(a) Description of property',
+      '(b) Date acquired',
+      '(c) Date sold',
+      '(d) Proceeds',
+      '(e) Cost basis',
+      '(f) Code',
+      '(g) Adjustment',
+      '(h) Gain or (loss)',
+      'Portfolio'
+    ];
+
+    const lines: string[][] = [];
+    const parts: Array<{ term: HoldingTerm; title: string }> = [
+      { term: 'short', title: 'Part I - Short-term (held one year or less)' },
+      { term: 'long', title: 'Part II - Long-term (held more than one year)' }
+    ];
+
+    lines.push([`Capital Gains Report ${report.year}`]);
+    lines.push([`Generated ${report.generatedAt.split('T')[0]}`]);
+    lines.push([`Amounts in ${report.currency.toUpperCase()}`]);
+
+    for (const { term, title } of parts) {
+      const rows = report.rows.filter(r => r.term === term);
+      const totals = report.totals[term];
+
+      lines.push([]);
+      lines.push([title]);
+      lines.push(header);
+
+      rows.forEach(row => {
+        lines.push([
+          row.description,
+          row.dateAcquired,
+          row.dateSold,
+          this.formatAmount(row.proceeds),
+          this.formatAmount(row.costBasis),
+          row.adjustment !== 0 ? 'E' : '',
+          row.adjustment !== 0 ? this.formatAmount(row.adjustment) : '',
+          this.formatAmount(row.gainLoss),
+          row.portfolioName
+        ]);
+      });
+
+      lines.push([
+        'Totals',
+        '',
+        '',
+        this.formatAmount(totals.proceeds),
+        this.formatAmount(totals.costBasis),
+        '',
+        this.formatAmount(totals.adjustment),
+        this.formatAmount(totals.gainLoss),
+        ''
+      ]);
+    }
+
+    return lines.map(line => line.map(value => this.escapeCsv(value)).join(',')).join('\n');
+  }
+
+  // Private methods
+
+  /**
+   * Split a sale into one row per matched lot, allocating proceeds and
+   * selling expenses by quantity
+   */
+  private static buildRows(portfolio: Portfolio, sale: PortfolioTransaction): TaxReportRow[] {
+    const soldQuantity = Math.abs(sale.quantityChange);
+    const cardName = sale.cardName || this.cardNameFromPortfolio(portfolio, sale.cardId);
+    const dateSold = this.getSaleDate(sale);
+    const expenses = (sale.fees || 0) + (sale.shipping || 0);
+
+    const lots = sale.matchedLots && sale.matchedLots.length > 0
+      ? sale.matchedLots.map(lot => ({
+          quantity: lot.quantity,
+          costBasis: lot.quantity * lot.pricePerCard,
+          dateAcquired: this.toDate(lot.purchaseDate)
+        }))
+      : [{ quantity: soldQuantity, costBasis: sale.costBasis || 0, dateAcquired: VARIOUS }];
+
+    return lots.map(lot => {
+      const share = soldQuantity > 0 ? lot.quantity / soldQuantity : 0;
+      const proceeds = lot.quantity * sale.pricePerCard;
+      const adjustment = expenses > 0 ? -expenses * share : 0;
+
+      return {
+        portfolioId: portfolio.id,
+        portfolioName: portfolio.name,
+        transactionId: sale.id,
+        description: `${lot.quantity} ${cardName}`,
+        quantity: lot.quantity,
+        dateAcquired: lot.dateAcquired,
+        dateSold,
+        proceeds,
+        costBasis: lot.costBasis,
+        adjustment,
+        gainLoss: proceeds - lot.costBasis + adjustment,
+        term: this.getHoldingTerm(lot.dateAcquired, dateSold)
+      };
+    });
+  }
+
+  private static sumRows(rows: TaxReportRow[]): TaxReportTotals {
+    return rows.reduce<TaxReportTotals>(
+      (totals, row) => ({
+        proceeds: totals.proceeds + row.proceeds,
+        costBasis: totals.costBasis + row.costBasis,
+        adjustment: totals.adjustment + row.adjustment,
+        gainLoss: totals.gainLoss + row.gainLoss
+      }),
+      { proceeds: 0, costBasis: 0, adjustment: 0, gainLoss: 0 }
+    );
+  }
+
+  private static cardNameFromPortfolio(portfolio: Portfolio, cardId: string): string {
+    return portfolio.cards.find(c => c.cardId === cardId)?.card.name || cardId;
+  }
+
+  private static toDate(timestamp: string): string {
+    return timestamp.split('T')[0];
+  }
+
+  // Sales recorded before sale dates were entered are dated when recorded
+  private static getSaleDate(sale: PortfolioTransaction): string {
+    return this.toDate(sale.saleDate || sale.timestamp);
+  }
+
+  private static formatAmount(value: number): string {
+    return value < 0 ? `(${Math.abs(value).toFixed(2)})` : value.toFixed(2);
+  }
+
+  private static escapeCsv(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
+
+export default TaxReportService;
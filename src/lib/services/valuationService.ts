@@ -0,0 +1,110 @@
+/**
+ * Valuation Service
+ * Single source for the market value of portfolio holdings. Foil holdings
+ * use foil prices and every holding is scaled by its condition multiplier.
+ * Values in other currencies are converted through the FX rate table.
+ */
+
+import { CurrencyCode, MTGCard, Portfolio, PortfolioCard } from '@/lib/types';
+import { getPreferences } from '@/lib/storage';
+import { fxRateService } from './fxRateService';
+
+type CardCondition = PortfolioCard['condition'];
+type ConditionMultipliers = Record<CardCondition, number>;
+
+const DEFAULT_CONDITION_MULTIPLIERS: ConditionMultipliers = {
+  mint: 1,
+  near_mint: 1,
+  excellent: 0.92,
+  good: 0.85,
+  light_played: 0.8,
+  played: 0.65,
+  poor: 0.4,
+};
+
+class ValuationService {
+  /**
+   * Condition multipliers from settings, filled in with defaults
+   */
+  getConditionMultipliers(): ConditionMultipliers {
+    try {
+      return { ...DEFAULT_CONDITION_MULTIPLIERS, ...getPreferences().conditionMultipliers };
+    } catch (error) {
+      console.error('Error loading condition multipliers:', error);
+      return { ...DEFAULT_CONDITION_MULTIPLIERS };
+    }
+  }
+
+  /**
+   * Near-mint market price for the finish held. EUR valuations prefer the
+   * Cardmarket EUR price and everything else prefers the USD price; the
+   * other market is converted when the preferred one has no price for the
+   * finish. Falls back to the other finish when a printing only has one.
+   * Markets without an FX rate to the target currency are skipped.
+   */
+  getMarketPrice(card: MTGCard, foil: boolean, currency: CurrencyCode = 'usd'): number {
+    const rates = fxRateService.getRateTable();
+    const markets = (currency === 'eur' ? ['eur', 'usd'] as const : ['usd', 'eur'] as const)
+      .filter(market => fxRateService.hasRate(market, currency, rates));
+    const finishes = foil ? [true, false] : [false, true];
+
+    for (const isFoil of finishes) {
+      for (const market of markets) {
+        const price = isFoil
+          ? (market === 'eur' ? card.prices.eurFoil : card.prices.usdFoil)
+          : card.prices[market];
+
+        if (price) {
+          return fxRateService.convert(price, market, currency, rates);
+        }
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Value of a single copy of a holding
+   */
+  getUnitValue(
+    holding: PortfolioCard,
+    multipliers: ConditionMultipliers = this.getConditionMultipliers(),
+    currency: CurrencyCode = 'usd'
+  ): number {
+    const multiplier = multipliers[holding.condition] ?? 1;
+    return this.getMarketPrice(holding.card, holding.foil, currency) * multiplier;
+  }
+
+  /**
+   * Value of every copy of a holding
+   */
+  getHoldingValue(
+    holding: PortfolioCard,
+    multipliers: ConditionMultipliers = this.getConditionMultipliers(),
+    currency: CurrencyCode = 'usd'
+  ): number {
+    return this.getUnitValue(holding, multipliers, currency) * holding.quantity;
+  }
+
+  /**
+   * Value of all holdings in a portfolio
+   */
+  getPortfolioValue(
+    portfolio: Portfolio,
+    multipliers: ConditionMultipliers = this.getConditionMultipliers(),
+    currency: CurrencyCode = 'usd'
+  ): number {
+    return portfolio.cards.reduce(
+      (sum, holding) => sum + this.getHoldingValue(holding, multipliers, currency),
+      0
+    );
+  }
+}
+
+// Export singleton instance
+export const valuationService = new ValuationService();
+
+export { DEFAULT_CONDITION_MULTIPLIERS };
+
+// Export types
+export type { ConditionMultipliers };
@@ -3,12 +3,39 @@
  * 
  * This module consolidates all storage operations including:
  * - LocalStorage operations (portfolios, watchlist, settings)
- * - IndexedDB cache operations (MTGJSON data, price history)
+ * - IndexedDB operations (MTGJSON cache, price time series)
  * - Storage cleanup and quota management
  * - Data import/export functionality
  */
 
-import { Portfolio, UserPreferences, MTGJSONCardPrices, MTGJSONCard, PriceHistory } from '@/lib/types/all';
+import {
+  Portfolio,
+  UserPreferences,
+  MTGJSONCardPrices,
+  MTGJSONCard,
+  FxRateTable,
+  CompactPortfolioSnapshot,
+  ImportBatch,
+  ImportPlan,
+  ImportProfile,
+  PrintingRule,
+  PriceFinish,
+  PriceProvider,
+  PriceSeriesPoint
+} from '@/lib/types/all';
+import {
+  createLot,
+  DEFAULT_COST_BASIS_METHOD,
+  ensureLots,
+  getHoldingCostBasis,
+  getHoldingLots,
+  mergeHoldings,
+  reduceHolding,
+  summarizeLots,
+  withLots,
+} from '@/lib/utils/costBasis';
+import { getHoldingKey } from '@/lib/utils/importPlan';
+import { generateUUID } from '@/lib/utils/uuid';
 
 // ============================================================================
 // STORAGE KEYS AND CONFIGURATION
@@ -18,8 +45,15 @@ const STORAGE_KEYS = {
   PORTFOLIOS: 'mtg-portfolios',
   WATCHLIST: 'mtg-watchlist',
   SETTINGS: 'mtg-settings',
+  FX_RATES: 'mtg-fx-rates',
+  IMPORT_PROFILES: 'mtg-import-profiles',
+  IMPORT_BATCHES: 'mtg-import-batches',
+  PRINTING_RULES: 'mtg-printing-rules',
 } as const;
 
+// Imports kept per portfolio for rolling back
+const MAX_IMPORT_BATCHES = 10;
+
 const DEFAULT_SETTINGS: UserPreferences = {
   defaultCurrency: 'usd',
   showFoilPrices: false,
@@ -32,16 +66,17 @@ const DEFAULT_SETTINGS: UserPreferences = {
 
 // IndexedDB configuration for MTGJSON data
 const DB_NAME = 'MTGJSONCache';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORES = {
-  PRICE_HISTORY: 'priceHistory',
+  PRICE_POINTS: 'pricePoints',
   CARD_MAPPINGS: 'cardMappings',
   METADATA: 'metadata',
+  PORTFOLIO_SNAPSHOTS: 'portfolioSnapshots',
 } as const;
 
 // Cache expiry times
 const CACHE_EXPIRY = {
-  PRICE_HISTORY: 24 * 60 * 60 * 1000, // 24 hours
+  PRICE_SERIES_SYNC: 24 * 60 * 60 * 1000, // 24 hours
   CARD_MAPPINGS: 7 * 24 * 60 * 60 * 1000, // 7 days
   METADATA: 60 * 60 * 1000, // 1 hour
 } as const;
@@ -133,11 +168,14 @@ class UnifiedStorageManager {
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
 
-        // Create price history store
-        if (!db.objectStoreNames.contains(STORES.PRICE_HISTORY)) {
-          const priceStore = db.createObjectStore(STORES.PRICE_HISTORY, { keyPath: 'uuid' });
-          priceStore.createIndex('cardId', 'cardId', { unique: false });
-          priceStore.createIndex('lastUpdated', 'lastUpdated', { unique: false });
+        // Whole price histories were cached per uuid before version 3
+        if (db.objectStoreNames.contains('priceHistory')) {
+          db.deleteObjectStore('priceHistory');
+        }
+
+        // Create price time-series store (added in version 3)
+        if (!db.objectStoreNames.contains(STORES.PRICE_POINTS)) {
+          db.createObjectStore(STORES.PRICE_POINTS, { keyPath: ['uuid', 'provider', 'finish', 'date'] });
         }
 
         // Create card mappings store
@@ -151,6 +189,11 @@ class UnifiedStorageManager {
         if (!db.objectStoreNames.contains(STORES.METADATA)) {
           db.createObjectStore(STORES.METADATA, { keyPath: 'key' });
         }
+
+        // Create portfolio snapshots store (added in version 2)
+        if (!db.objectStoreNames.contains(STORES.PORTFOLIO_SNAPSHOTS)) {
+          db.createObjectStore(STORES.PORTFOLIO_SNAPSHOTS, { keyPath: ['portfolioId', 'date'] });
+        }
       };
     });
 
@@ -269,6 +312,7 @@ class UnifiedStorageManager {
   deletePortfolio(portfolioId: string): boolean {
     const portfolios = this.getPortfolios();
     const filteredPortfolios = portfolios.filter(p => p.id !== portfolioId);
+    void this.deletePortfolioSnapshots(portfolioId);
     return this.saveToStorage(STORAGE_KEYS.PORTFOLIOS, filteredPortfolios);
   }
 
@@ -289,6 +333,10 @@ class UnifiedStorageManager {
       c => c.cardId === card.cardId && c.foil === card.foil && c.condition === card.condition
     );
 
+    this.ensureTimelineSeeded(portfolio);
+    card = this.toBaseCurrency(portfolio, card);
+    const purchaseLot = card.lots?.[0];
+
     let previousQuantity = 0;
     let updatedCards: import('@/lib/types').PortfolioCard[];
     
@@ -296,11 +344,11 @@ class UnifiedStorageManager {
       previousQuantity = portfolio.cards[existingCardIndex].quantity;
       updatedCards = portfolio.cards.map((c, index) =>
         index === existingCardIndex
-          ? { ...c, quantity: c.quantity + card.quantity }
+          ? mergeHoldings(c, card)
           : c
       );
     } else {
-      updatedCards = [...portfolio.cards, card];
+      updatedCards = [...portfolio.cards, ensureLots(card)];
     }
 
     // Record transaction
@@ -312,7 +360,15 @@ class UnifiedStorageManager {
       card.quantity,
       card.purchasePrice,
       previousQuantity,
-      `Added ${card.quantity} ${card.card.name}${card.foil ? ' (Foil)' : ''}`
+      `Added ${card.quantity} ${card.card.name}${card.foil ? ' (Foil)' : ''}`,
+      {
+        foil: card.foil,
+        condition: card.condition,
+        purchaseDate: purchaseLot?.purchaseDate,
+        ...(purchaseLot?.currency
+          ? { currency: purchaseLot.currency, originalPricePerCard: purchaseLot.originalPricePerCard }
+          : {})
+      }
     );
 
     // Update portfolio
@@ -340,21 +396,23 @@ class UnifiedStorageManager {
 
     if (cardIndex === -1) return;
 
+    this.ensureTimelineSeeded(portfolio);
+
     const existingCard = portfolio.cards[cardIndex];
     const previousQuantity = existingCard.quantity;
     const removeQuantity = quantityToRemove || previousQuantity;
 
-    let updatedCards: import('@/lib/types').PortfolioCard[];
-    
-    if (removeQuantity >= previousQuantity) {
-      updatedCards = portfolio.cards.filter((_, index) => index !== cardIndex);
-    } else {
-      updatedCards = portfolio.cards.map((c, index) =>
-        index === cardIndex
-          ? { ...c, quantity: c.quantity - removeQuantity }
-          : c
-      );
-    }
+    // Consume lots according to the portfolio's cost basis method
+    const { holding, consumed } = reduceHolding(
+      existingCard,
+      removeQuantity,
+      portfolio.costBasisMethod || DEFAULT_COST_BASIS_METHOD
+    );
+    const removedCostBasis = summarizeLots(consumed).averageCostBasis;
+
+    const updatedCards = holding
+      ? portfolio.cards.map((c, index) => (index === cardIndex ? holding : c))
+      : portfolio.cards.filter((_, index) => index !== cardIndex);
 
     // Record transaction
     const PortfolioTimelineService = require('@/lib/services/portfolioTimelineService').PortfolioTimelineService;
@@ -362,10 +420,11 @@ class UnifiedStorageManager {
       portfolioId,
       'remove',
       cardId,
-      -removeQuantity,
-      existingCard.purchasePrice,
+      -Math.min(removeQuantity, previousQuantity),
+      removedCostBasis,
       previousQuantity,
-      `Removed ${removeQuantity} ${existingCard.card.name}${foil ? ' (Foil)' : ''}`
+      `Removed ${removeQuantity} ${existingCard.card.name}${foil ? ' (Foil)' : ''}`,
+      { foil, condition: existingCard.condition }
     );
 
     // Update portfolio
@@ -377,14 +436,458 @@ class UnifiedStorageManager {
     this.savePortfolio(updatedPortfolio);
   }
 
+  sellCardFromPortfolioWithTracking(
+    portfolioId: string,
+    cardId: string,
+    foil: boolean,
+    condition: string,
+    quantityToSell: number,
+    sale: import('@/lib/types').SaleDetails
+  ): import('@/lib/types').PortfolioTransaction | null {
+    const portfolio = this.getPortfolioById(portfolioId);
+    if (!portfolio) return null;
+
+    const cardIndex = portfolio.cards.findIndex(
+      c => c.cardId === cardId && c.foil === foil && c.condition === condition
+    );
+
+    if (cardIndex === -1) return null;
+
+    this.ensureTimelineSeeded(portfolio);
+
+    const existingCard = portfolio.cards[cardIndex];
+    const previousQuantity = existingCard.quantity;
+    const soldQuantity = Math.min(quantityToSell, previousQuantity);
+    if (soldQuantity <= 0) return null;
+
+    // Match the sale against lots according to the portfolio's cost basis method
+    const { holding, consumed } = reduceHolding(
+      existingCard,
+      soldQuantity,
+      portfolio.costBasisMethod || DEFAULT_COST_BASIS_METHOD
+    );
+
+    // A sale can't be dated in the future or before the lots it is matched to were bought
+    const today = new Date().toISOString().split('T')[0];
+    const saleDate = sale.saleDate || today;
+    const lastPurchaseDate = consumed
+      .map(lot => lot.purchaseDate.split('T')[0])
+      .reduce((latest, date) => (date > latest ? date : latest), '');
+    if (saleDate > today) {
+      throw new Error(`A sale can't be dated after today (${saleDate})`);
+    }
+    if (saleDate < lastPurchaseDate) {
+      throw new Error(`${existingCard.card.name} sold on ${saleDate} includes copies bought later, on ${lastPurchaseDate}`);
+    }
+
+    const fees = sale.fees || 0;
+    const shipping = sale.shipping || 0;
+    const costBasis = summarizeLots(consumed).totalCost;
+    const realizedGain = soldQuantity * sale.pricePerCard - fees - shipping - costBasis;
+
+    const updatedCards = holding
+      ? portfolio.cards.map((c, index) => (index === cardIndex ? holding : c))
+      : portfolio.cards.filter((_, index) => index !== cardIndex);
+
+    // Record transaction
+    const PortfolioTimelineService = require('@/lib/services/portfolioTimelineService').PortfolioTimelineService;
+    const transaction = PortfolioTimelineService.recordTransaction(
+      portfolioId,
+      'sell',
+      cardId,
+      -soldQuantity,
+      sale.pricePerCard,
+      previousQuantity,
+      sale.notes || `Sold ${soldQuantity} ${existingCard.card.name}${foil ? ' (Foil)' : ''}`,
+      {
+        foil,
+        condition: existingCard.condition,
+        fees,
+        shipping,
+        costBasis,
+        realizedGain,
+        matchedLots: consumed,
+        cardName: existingCard.card.name,
+        saleDate
+      }
+    );
+
+    // Update portfolio
+    const updatedPortfolio = this.recalculatePortfolioTotals({
+      ...portfolio,
+      cards: updatedCards
+    });
+
+    this.savePortfolio(updatedPortfolio);
+    return transaction;
+  }
+
+  updateCardInPortfolioWithTracking(
+    portfolioId: string,
+    cardId: string,
+    foil: boolean,
+    condition: string,
+    updates: Partial<Pick<import('@/lib/types').PortfolioCard, 'quantity' | 'purchasePrice' | 'condition' | 'notes'>>
+  ): void {
+    const portfolio = this.getPortfolioById(portfolioId);
+    if (!portfolio) return;
+
+    const cardIndex = portfolio.cards.findIndex(
+      c => c.cardId === cardId && c.foil === foil && c.condition === condition
+    );
+
+    if (cardIndex === -1) return;
+
+    const existingCard = portfolio.cards[cardIndex];
+    const method = portfolio.costBasisMethod || DEFAULT_COST_BASIS_METHOD;
+    const PortfolioTimelineService = require('@/lib/services/portfolioTimelineService').PortfolioTimelineService;
+    this.ensureTimelineSeeded(portfolio);
+
+    let holding: import('@/lib/types').PortfolioCard | null = existingCard;
+    const lots = getHoldingLots(existingCard);
+    const quantityChange = (updates.quantity ?? existingCard.quantity) - existingCard.quantity;
+
+    // A single lot can be re-priced directly; with several lots the price
+    // only applies to newly added copies
+    const repriced = updates.purchasePrice !== undefined && lots.length === 1;
+    if (updates.purchasePrice !== undefined && lots.length > 1 && quantityChange <= 0) {
+      throw new Error(
+        `${existingCard.card.name} was bought in ${lots.length} lots at different prices, so its purchase price can't be edited. A new price only applies to added copies.`
+      );
+    }
+    if (repriced) {
+      holding = withLots(existingCard, [{ ...lots[0], pricePerCard: updates.purchasePrice! }]);
+    }
+
+    if (quantityChange > 0) {
+      const pricePerCard = updates.purchasePrice ?? holding.purchasePrice;
+      const lot = createLot(quantityChange, pricePerCard);
+      holding = withLots(holding, [...getHoldingLots(holding), lot]);
+      PortfolioTimelineService.recordTransaction(
+        portfolioId,
+        'add',
+        cardId,
+        quantityChange,
+        pricePerCard,
+        existingCard.quantity,
+        `Added ${quantityChange} ${existingCard.card.name}${foil ? ' (Foil)' : ''}`,
+        { foil, condition: existingCard.condition, purchaseDate: lot.purchaseDate }
+      );
+    } else if (quantityChange < 0) {
+      const { holding: reduced, consumed } = reduceHolding(holding, -quantityChange, method);
+      // Nothing left when the quantity is set to 0
+      holding = reduced;
+      PortfolioTimelineService.recordTransaction(
+        portfolioId,
+        'remove',
+        cardId,
+        quantityChange,
+        summarizeLots(consumed).averageCostBasis,
+        existingCard.quantity,
+        `Removed ${-quantityChange} ${existingCard.card.name}${foil ? ' (Foil)' : ''}`,
+        { foil, condition: existingCard.condition }
+      );
+    }
+
+    const updatedCard = holding && {
+      ...holding,
+      condition: updates.condition ?? holding.condition,
+      notes: 'notes' in updates ? updates.notes : holding.notes,
+    };
+
+    // Re-pricing and condition changes are replayed from an 'update' transaction
+    if (updatedCard && (repriced || updatedCard.condition !== existingCard.condition)) {
+      PortfolioTimelineService.recordTransaction(
+        portfolioId,
+        'update',
+        cardId,
+        0,
+        updatedCard.purchasePrice,
+        updatedCard.quantity,
+        `Updated ${existingCard.card.name}${foil ? ' (Foil)' : ''}`,
+        {
+          foil,
+          condition: existingCard.condition,
+          ...(repriced ? { previousPricePerCard: lots[0].pricePerCard } : {}),
+          ...(updatedCard.condition !== existingCard.condition ? { newCondition: updatedCard.condition } : {})
+        }
+      );
+    }
+
+    const updatedPortfolio = this.recalculatePortfolioTotals({
+      ...portfolio,
+      cards: updatedCard
+        ? portfolio.cards.map((c, index) => (index === cardIndex ? updatedCard : c))
+        : portfolio.cards.filter((_, index) => index !== cardIndex)
+    });
+
+    this.savePortfolio(updatedPortfolio);
+  }
+
+  /**
+   * Apply a planned import, recording its transactions under a new import
+   * batch so the whole import can be rolled back. Imported prices are
+   * converted to the base currency, throwing a MissingFxRateError when a
+   * rate is missing.
+   */
+  applyImportPlan(portfolioId: string, plan: ImportPlan): ImportBatch | null {
+    const portfolio = this.getPortfolioById(portfolioId);
+    if (!portfolio) return null;
+
+    // Checked before anything is recorded, so nothing is half imported
+    const { fxRateService, MissingFxRateError } = require('@/lib/services/fxRateService');
+    const baseCurrency = portfolio.baseCurrency || 'usd';
+    const [missingRate] = fxRateService.getMissingRates(
+      plan.rows.flatMap(row => (row.action !== 'skip' && row.holding.purchaseCurrency ? [row.holding.purchaseCurrency] : [])),
+      baseCurrency
+    );
+    if (missingRate) {
+      throw new MissingFxRateError(missingRate, baseCurrency);
+    }
+
+    this.ensureTimelineSeeded(portfolio);
+
+    const PortfolioTimelineService = require('@/lib/services/portfolioTimelineService').PortfolioTimelineService;
+    const method = portfolio.costBasisMethod || DEFAULT_COST_BASIS_METHOD;
+    const batch: ImportBatch = {
+      id: generateUUID(),
+      portfolioId,
+      strategy: plan.strategy,
+      importedAt: new Date().toISOString(),
+      changedRows: 0,
+      holdingKeys: [],
+      previousHoldings: [],
+      rowFingerprints: [],
+    };
+    const cards = new Map(portfolio.cards.map(c => [getHoldingKey(c), c]));
+
+    plan.rows.forEach(row => {
+      if (row.action === 'skip') return;
+
+      // Fingerprints of added rows are kept on their lot and the batch, so
+      // re-imports of the same file are skipped
+      const { importFingerprint, ...imported } = row.holding;
+      const fingerprint = plan.strategy === 'add' ? importFingerprint : undefined;
+      const key = getHoldingKey(row.holding);
+      const existing = cards.get(key);
+      const name = `${row.holding.card.name}${row.holding.foil ? ' (Foil)' : ''}`;
+      const tracking = {
+        source: 'csv_import' as const,
+        importBatchId: batch.id,
+        foil: row.holding.foil,
+        condition: row.holding.condition,
+      };
+
+      if (!batch.holdingKeys.includes(key)) {
+        batch.holdingKeys.push(key);
+        if (existing) batch.previousHoldings.push(existing);
+      }
+      batch.changedRows++;
+
+      const quantityChange = row.action === 'remove'
+        ? -(existing?.quantity || 0)
+        : row.action === 'replace'
+          ? row.holding.quantity - (existing?.quantity || 0)
+          : row.holding.quantity;
+      const previousQuantity = existing?.quantity || 0;
+
+      if (quantityChange > 0) {
+        // Added copies become a lot at the imported price, in the base currency
+        let added = this.toBaseCurrency(portfolio, quantityChange === imported.quantity
+          ? imported
+          : { ...imported, quantity: quantityChange, lots: undefined });
+        const purchaseLot = added.lots?.[0];
+        if (fingerprint) {
+          added = withLots(added, (added.lots || []).map(lot => ({ ...lot, importFingerprint: fingerprint })));
+          batch.rowFingerprints!.push(fingerprint);
+        }
+        cards.set(key, existing ? mergeHoldings(existing, added) : added);
+        PortfolioTimelineService.recordTransaction(
+          portfolioId,
+          'add',
+          row.holding.cardId,
+          quantityChange,
+          added.purchasePrice,
+          previousQuantity,
+          `Imported ${quantityChange} ${name}`,
+          {
+            ...tracking,
+            purchaseDate: purchaseLot?.purchaseDate,
+            ...(purchaseLot?.currency
+              ? { currency: purchaseLot.currency, originalPricePerCard: purchaseLot.originalPricePerCard }
+              : {})
+          }
+        );
+      } else if (quantityChange < 0 && existing) {
+        const { holding, consumed } = reduceHolding(existing, -quantityChange, method);
+        if (holding) {
+          cards.set(key, holding);
+        } else {
+          cards.delete(key);
+        }
+        PortfolioTimelineService.recordTransaction(
+          portfolioId,
+          'remove',
+          row.holding.cardId,
+          quantityChange,
+          summarizeLots(consumed).averageCostBasis,
+          previousQuantity,
+          `Import removed ${-quantityChange} ${name}`,
+          tracking
+        );
+      }
+    });
+
+    const updatedPortfolio = this.recalculatePortfolioTotals({
+      ...portfolio,
+      cards: Array.from(cards.values())
+    });
+
+    this.savePortfolio(updatedPortfolio);
+    this.saveImportBatch(batch);
+    return batch;
+  }
+
+  /**
+   * Undo an import: restore the holdings it changed and delete its
+   * transactions. Fails when those holdings have changed since.
+   */
+  rollbackImportBatch(batchId: string): Portfolio {
+    const batch = this.getImportBatches().find(b => b.id === batchId);
+    if (!batch) {
+      throw new Error('Import not found');
+    }
+    if (batch.rolledBackAt) {
+      throw new Error('This import has already been rolled back');
+    }
+
+    const portfolio = this.getPortfolioById(batch.portfolioId);
+    if (!portfolio) {
+      throw new Error('The portfolio this import was made to no longer exists');
+    }
+
+    const PortfolioTimelineService = require('@/lib/services/portfolioTimelineService').PortfolioTimelineService;
+    const transactions: import('@/lib/types').PortfolioTransaction[] = PortfolioTimelineService.getTransactions(portfolio.id);
+    const cardIds = new Set(transactions.filter(t => t.importBatchId === batch.id).map(t => t.cardId));
+    // Transactions are stored in the order they were recorded
+    const firstIndex = transactions.findIndex(t => t.importBatchId === batch.id);
+    const laterChanges = firstIndex < 0 ? [] : transactions.slice(firstIndex).filter(t =>
+      t.importBatchId !== batch.id && cardIds.has(t.cardId)
+    );
+    if (laterChanges.length > 0) {
+      throw new Error('Cards from this import have changed since it was made, so it can no longer be rolled back');
+    }
+
+    const restoredCards = [
+      ...portfolio.cards.filter(c => !batch.holdingKeys.includes(getHoldingKey(c))),
+      ...batch.previousHoldings
+    ];
+
+    PortfolioTimelineService.removeImportBatchTransactions(portfolio.id, batch.id);
+
+    const updatedPortfolio = this.recalculatePortfolioTotals({
+      ...portfolio,
+      cards: restoredCards
+    });
+
+    this.savePortfolio(updatedPortfolio);
+    this.saveImportBatch({ ...batch, rolledBackAt: new Date().toISOString() });
+    return updatedPortfolio;
+  }
+
+  /**
+   * Replace the embedded prices of a portfolio's cards and recompute totals.
+   * Cards missing from the map keep their previous prices.
+   */
+  updatePortfolioPrices(
+    portfolioId: string,
+    freshCards: Map<string, import('@/lib/types').MTGCard>,
+    pricedAt: string = new Date().toISOString()
+  ): Portfolio | null {
+    const portfolio = this.getPortfolioById(portfolioId);
+    if (!portfolio) return null;
+
+    const updatedCards = portfolio.cards.map(c => {
+      const fresh = freshCards.get(c.cardId);
+      if (!fresh) return c;
+
+      return {
+        ...c,
+        card: { ...c.card, prices: { ...fresh.prices } },
+        lastPricedAt: pricedAt
+      };
+    });
+
+    const updatedPortfolio = this.recalculatePortfolioTotals({
+      ...portfolio,
+      cards: updatedCards,
+      lastRepricedAt: pricedAt
+    });
+
+    this.savePortfolio(updatedPortfolio);
+    return updatedPortfolio;
+  }
+
+  /**
+   * Record the current holdings as initial transactions before the first
+   * tracked change, so the timeline replay starts from the existing lots
+   */
+  private ensureTimelineSeeded(portfolio: Portfolio): void {
+    const PortfolioTimelineService = require('@/lib/services/portfolioTimelineService').PortfolioTimelineService;
+    if (PortfolioTimelineService.getTransactions(portfolio.id).length === 0) {
+      PortfolioTimelineService.convertToEnhancedPortfolio(portfolio);
+    }
+  }
+
+  /**
+   * Recompute stored totals for every portfolio, e.g. after the valuation
+   * settings change
+   */
+  recalculateAllPortfolioTotals(): boolean {
+    const portfolios = this.getPortfolios().map(p => this.recalculatePortfolioTotals(p));
+    return this.saveToStorage(STORAGE_KEYS.PORTFOLIOS, portfolios);
+  }
+
+  /**
+   * Convert a purchase entered in a foreign currency to the portfolio's
+   * base currency, keeping the original price on its lot. Throws a
+   * MissingFxRateError rather than storing the price unconverted.
+   */
+  private toBaseCurrency(
+    portfolio: Portfolio,
+    card: import('@/lib/types').PortfolioCard
+  ): import('@/lib/types').PortfolioCard {
+    const { purchaseCurrency, ...holding } = card;
+    const baseCurrency = portfolio.baseCurrency || 'usd';
+
+    if (!purchaseCurrency || purchaseCurrency === baseCurrency) {
+      return ensureLots(holding);
+    }
+
+    const fxRateService = require('@/lib/services/fxRateService').fxRateService;
+    const lot = {
+      ...createLot(
+        holding.quantity,
+        fxRateService.convert(holding.purchasePrice, purchaseCurrency, baseCurrency),
+        holding.purchaseDate
+      ),
+      currency: purchaseCurrency,
+      originalPricePerCard: holding.purchasePrice,
+    };
+
+    return ensureLots({ ...holding, lots: [lot] });
+  }
+
   private recalculatePortfolioTotals(portfolio: import('@/lib/types').Portfolio): import('@/lib/types').Portfolio {
-    const totalValue = portfolio.cards.reduce((sum, c) => {
-      const currentPrice = c.card.prices.usd || 0;
-      return sum + (currentPrice * c.quantity);
-    }, 0);
+    const valuationService = require('@/lib/services/valuationService').valuationService;
+    const totalValue = valuationService.getPortfolioValue(
+      portfolio,
+      valuationService.getConditionMultipliers(),
+      portfolio.baseCurrency || 'usd'
+    );
 
     const totalCost = portfolio.cards.reduce((sum, c) => {
-      return sum + (c.purchasePrice * c.quantity);
+      return sum + getHoldingCostBasis(c);
     }, 0);
 
     const performance = totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0;
@@ -454,80 +957,91 @@ class UnifiedStorageManager {
   }
 
   // ========================================================================
-  // CACHE MANAGEMENT (INDEXEDDB)
+  // FX RATES
   // ========================================================================
 
-  // Price History Cache Methods
-  async getPriceHistory(uuid: string): Promise<PriceHistory | null> {
-    try {
-      const store = await this.getStore(STORES.PRICE_HISTORY);
-      const request = store.get(uuid);
+  getFxRates(): FxRateTable | null {
+    return this.getFromStorage<FxRateTable | null>(STORAGE_KEYS.FX_RATES, null);
+  }
 
-      return new Promise((resolve, reject) => {
-        request.onsuccess = () => {
-          const result = request.result as CacheEntry<PriceHistory> | undefined;
-          
-          if (!result) {
-            resolve(null);
-            return;
-          }
+  saveFxRates(table: FxRateTable): boolean {
+    return this.saveToStorage(STORAGE_KEYS.FX_RATES, table);
+  }
 
-          // Check if cache entry is expired
-          if (Date.now() > result.expiresAt) {
-            this.removePriceHistory(uuid);
-            resolve(null);
-            return;
-          }
+  // ========================================================================
+  // IMPORT PROFILES
+  // ========================================================================
 
-          resolve(result.data);
-        };
+  getImportProfiles(): ImportProfile[] {
+    return this.getFromStorage<ImportProfile[]>(STORAGE_KEYS.IMPORT_PROFILES, []);
+  }
 
-        request.onerror = () => {
-          reject(new Error('Failed to get price history from cache'));
-        };
-      });
-    } catch (error) {
-      console.error('Error getting price history from cache:', error);
-      return null;
-    }
+  /**
+   * Add a profile, or replace the one with the same id
+   */
+  saveImportProfile(profile: ImportProfile): boolean {
+    const profiles = this.getImportProfiles().filter(p => p.id !== profile.id);
+    profiles.push(profile);
+    return this.saveToStorage(STORAGE_KEYS.IMPORT_PROFILES, profiles);
   }
 
-  async setPriceHistory(uuid: string, priceHistory: PriceHistory): Promise<void> {
-    try {
-      const store = await this.getStore(STORES.PRICE_HISTORY, 'readwrite');
-      
-      const cacheEntry: CacheEntry<PriceHistory> = {
-        data: priceHistory,
-        timestamp: Date.now(),
-        expiresAt: Date.now() + CACHE_EXPIRY.PRICE_HISTORY,
-      };
+  deleteImportProfile(profileId: string): boolean {
+    const profiles = this.getImportProfiles().filter(p => p.id !== profileId);
+    return this.saveToStorage(STORAGE_KEYS.IMPORT_PROFILES, profiles);
+  }
 
-      const request = store.put({ uuid, ...cacheEntry });
+  // ========================================================================
+  // PRINTING RULES
+  // ========================================================================
 
-      return new Promise((resolve, reject) => {
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(new Error('Failed to cache price history'));
-      });
-    } catch (error) {
-      console.error('Error caching price history:', error);
-      throw error;
-    }
+  getPrintingRules(): PrintingRule[] {
+    return this.getFromStorage<PrintingRule[]>(STORAGE_KEYS.PRINTING_RULES, []);
   }
 
-  async removePriceHistory(uuid: string): Promise<void> {
-    try {
-      const store = await this.getStore(STORES.PRICE_HISTORY, 'readwrite');
-      const request = store.delete(uuid);
+  /**
+   * Add a rule, replacing any rule for the same name and set
+   */
+  savePrintingRule(rule: PrintingRule): boolean {
+    const rules = this.getPrintingRules().filter(r => !(r.name === rule.name && r.set === rule.set));
+    rules.push(rule);
+    return this.saveToStorage(STORAGE_KEYS.PRINTING_RULES, rules);
+  }
 
-      return new Promise((resolve, reject) => {
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(new Error('Failed to remove price history'));
-      });
-    } catch (error) {
-      console.error('Error removing price history:', error);
-    }
+  deletePrintingRule(ruleId: string): boolean {
+    const rules = this.getPrintingRules().filter(r => r.id !== ruleId);
+    return this.saveToStorage(STORAGE_KEYS.PRINTING_RULES, rules);
+  }
+
+  // ========================================================================
+  // IMPORT BATCHES
+  // ========================================================================
+
+  /**
+   * Imports, newest first, optionally for one portfolio
+   */
+  getImportBatches(portfolioId?: string): ImportBatch[] {
+    return this.getFromStorage<ImportBatch[]>(STORAGE_KEYS.IMPORT_BATCHES, [])
+      .filter(b => !portfolioId || b.portfolioId === portfolioId)
+      .sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+  }
+
+  /**
+   * Add or update a batch, keeping the latest MAX_IMPORT_BATCHES per portfolio
+   */
+  private saveImportBatch(batch: ImportBatch): boolean {
+    const others = this.getImportBatches().filter(b => b.id !== batch.id);
+    const kept = [batch, ...others]
+      .sort((a, b) => b.importedAt.localeCompare(a.importedAt))
+      .filter((b, _, all) =>
+        all.filter(o => o.portfolioId === b.portfolioId).indexOf(b) < MAX_IMPORT_BATCHES
+      );
+    return this.saveToStorage(STORAGE_KEYS.IMPORT_BATCHES, kept);
   }
 
+  // ========================================================================
+  // CACHE MANAGEMENT (INDEXEDDB)
+  // ========================================================================
+
   // Card Mapping Cache Methods
   async getCardMapping(scryfallId: string): Promise<MTGJSONCard | null> {
     try {
@@ -660,6 +1174,205 @@ class UnifiedStorageManager {
     }
   }
 
+  // Portfolio Snapshot Methods (not cache, never expire)
+  async getPortfolioSnapshots(
+    portfolioId: string,
+    startDate: string = '',
+    endDate: string = '\uffff'
+  ): Promise<CompactPortfolioSnapshot[]> {
+    try {
+      const store = await this.getStore(STORES.PORTFOLIO_SNAPSHOTS);
+      const request = store.getAll(IDBKeyRange.bound([portfolioId, startDate], [portfolioId, endDate]));
+
+      return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result as CompactPortfolioSnapshot[]);
+        request.onerror = () => reject(new Error('Failed to get portfolio snapshots'));
+      });
+    } catch (error) {
+      console.error('Error getting portfolio snapshots:', error);
+      return [];
+    }
+  }
+
+  async getLatestPortfolioSnapshot(portfolioId: string): Promise<CompactPortfolioSnapshot | null> {
+    try {
+      const store = await this.getStore(STORES.PORTFOLIO_SNAPSHOTS);
+      const request = store.openCursor(IDBKeyRange.bound([portfolioId, ''], [portfolioId, '\uffff']), 'prev');
+
+      return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+          const cursor = request.result;
+          resolve(cursor ? (cursor.value as CompactPortfolioSnapshot) : null);
+        };
+        request.onerror = () => reject(new Error('Failed to get latest portfolio snapshot'));
+      });
+    } catch (error) {
+      console.error('Error getting latest portfolio snapshot:', error);
+      return null;
+    }
+  }
+
+  async savePortfolioSnapshots(snapshots: CompactPortfolioSnapshot[]): Promise<void> {
+    if (snapshots.length === 0) return;
+
+    try {
+      const store = await this.getStore(STORES.PORTFOLIO_SNAPSHOTS, 'readwrite');
+      snapshots.forEach(snapshot => store.put(snapshot));
+
+      return new Promise((resolve, reject) => {
+        store.transaction.oncomplete = () => resolve();
+        store.transaction.onerror = () => reject(new Error('Failed to save portfolio snapshots'));
+      });
+    } catch (error) {
+      console.error('Error saving portfolio snapshots:', error);
+      throw error;
+    }
+  }
+
+  async deletePortfolioSnapshots(portfolioId: string): Promise<void> {
+    try {
+      const store = await this.getStore(STORES.PORTFOLIO_SNAPSHOTS, 'readwrite');
+      const request = store.delete(IDBKeyRange.bound([portfolioId, ''], [portfolioId, '\uffff']));
+
+      return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(new Error('Failed to delete portfolio snapshots'));
+      });
+    } catch (error) {
+      console.error('Error deleting portfolio snapshots:', error);
+    }
+  }
+
+  // Price Series Methods (not cache, never expire)
+  async getPriceSeriesPoints(
+    uuid: string,
+    provider: PriceProvider,
+    finish: PriceFinish,
+    startDate: string = '',
+    endDate: string = '\uffff'
+  ): Promise<PriceSeriesPoint[]> {
+    try {
+      const store = await this.getStore(STORES.PRICE_POINTS);
+      const request = store.getAll(IDBKeyRange.bound([uuid, provider, finish, startDate], [uuid, provider, finish, endDate]));
+
+      return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result as PriceSeriesPoint[]);
+        request.onerror = () => reject(new Error('Failed to get price series'));
+      });
+    } catch (error) {
+      console.error('Error getting price series:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Every series of a card, for all providers and finishes
+   */
+  async getCardPriceSeries(uuid: string): Promise<PriceSeriesPoint[]> {
+    try {
+      const store = await this.getStore(STORES.PRICE_POINTS);
+      const request = store.getAll(IDBKeyRange.bound([uuid], [uuid, '\uffff']));
+
+      return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result as PriceSeriesPoint[]);
+        request.onerror = () => reject(new Error('Failed to get card price series'));
+      });
+    } catch (error) {
+      console.error('Error getting card price series:', error);
+      return [];
+    }
+  }
+
+  async replaceCardPriceSeries(uuid: string, points: PriceSeriesPoint[]): Promise<void> {
+    try {
+      const store = await this.getStore(STORES.PRICE_POINTS, 'readwrite');
+      store.delete(IDBKeyRange.bound([uuid], [uuid, '\uffff']));
+      points.forEach(point => store.put(point));
+
+      return new Promise((resolve, reject) => {
+        store.transaction.oncomplete = () => resolve();
+        store.transaction.onerror = () => reject(new Error('Failed to save card price series'));
+      });
+    } catch (error) {
+      console.error('Error saving card price series:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * When a card's series were last brought up to date, or null once that
+   * is more than a day ago
+   */
+  async getPriceSeriesSyncedAt(uuid: string): Promise<number | null> {
+    try {
+      const store = await this.getStore(STORES.METADATA);
+      const request = store.get(`price-series:${uuid}`);
+
+      return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+          const result = request.result as CacheEntry<number> | undefined;
+          resolve(result && Date.now() <= result.expiresAt ? result.data : null);
+        };
+        request.onerror = () => reject(new Error('Failed to get price series sync time'));
+      });
+    } catch (error) {
+      console.error('Error getting price series sync time:', error);
+      return null;
+    }
+  }
+
+  async setPriceSeriesSyncedAt(uuid: string, syncedAt: number = Date.now()): Promise<void> {
+    try {
+      const store = await this.getStore(STORES.METADATA, 'readwrite');
+
+      const cacheEntry: CacheEntry<number> = {
+        data: syncedAt,
+        timestamp: syncedAt,
+        expiresAt: syncedAt + CACHE_EXPIRY.PRICE_SERIES_SYNC,
+      };
+
+      const request = store.put({ key: `price-series:${uuid}`, ...cacheEntry });
+
+      return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(new Error('Failed to save price series sync time'));
+      });
+    } catch (error) {
+      console.error('Error saving price series sync time:', error);
+    }
+  }
+
+  /**
+   * Forget when cards' series were synced, so the next read syncs them again
+   */
+  async clearPriceSeriesSyncedAt(uuids: string[]): Promise<void> {
+    try {
+      const store = await this.getStore(STORES.METADATA, 'readwrite');
+      uuids.forEach(uuid => store.delete(`price-series:${uuid}`));
+
+      return new Promise((resolve, reject) => {
+        store.transaction.oncomplete = () => resolve();
+        store.transaction.onerror = () => reject(new Error('Failed to clear price series sync times'));
+      });
+    } catch (error) {
+      console.error('Error clearing price series sync times:', error);
+    }
+  }
+
+  async clearPriceSeries(): Promise<void> {
+    try {
+      const store = await this.getStore(STORES.PRICE_POINTS, 'readwrite');
+      const request = store.clear();
+
+      return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(new Error('Failed to clear price series'));
+      });
+    } catch (error) {
+      console.error('Error clearing price series:', error);
+    }
+  }
+
   // ========================================================================
   // STORAGE CLEANUP AND MANAGEMENT
   // ========================================================================
@@ -890,6 +1603,9 @@ class UnifiedStorageManager {
         portfolios: this.getPortfolios(),
         watchlist: this.getWatchlist(),
         settings: this.getSettings(),
+        fxRates: this.getFxRates(),
+        importProfiles: this.getImportProfiles(),
+        printingRules: this.getPrintingRules(),
         exportDate: new Date().toISOString(),
       };
       return JSON.stringify(data, null, 2);
@@ -921,6 +1637,18 @@ class UnifiedStorageManager {
       if (data.settings && typeof data.settings === 'object') {
         this.saveToStorage(STORAGE_KEYS.SETTINGS, { ...DEFAULT_SETTINGS, ...data.settings });
       }
+
+      if (data.fxRates && typeof data.fxRates === 'object') {
+        this.saveToStorage(STORAGE_KEYS.FX_RATES, data.fxRates);
+      }
+
+      if (data.importProfiles && Array.isArray(data.importProfiles)) {
+        this.saveToStorage(STORAGE_KEYS.IMPORT_PROFILES, data.importProfiles);
+      }
+
+      if (data.printingRules && Array.isArray(data.printingRules)) {
+        this.saveToStorage(STORAGE_KEYS.PRINTING_RULES, data.printingRules);
+      }
       
       return { success: true };
     } catch (error) {
@@ -982,7 +1710,7 @@ class UnifiedStorageManager {
   async clearExpiredEntries(): Promise<void> {
     try {
       const now = Date.now();
-      const stores = [STORES.PRICE_HISTORY, STORES.CARD_MAPPINGS, STORES.METADATA];
+      const stores = [STORES.CARD_MAPPINGS, STORES.METADATA];
 
       for (const storeName of stores) {
         const store = await this.getStore(storeName, 'readwrite');
@@ -1014,7 +1742,7 @@ class UnifiedStorageManager {
 
   async clearAllCache(): Promise<void> {
     try {
-      const stores = [STORES.PRICE_HISTORY, STORES.CARD_MAPPINGS, STORES.METADATA];
+      const stores = [STORES.CARD_MAPPINGS, STORES.METADATA];
 
       for (const storeName of stores) {
         const store = await this.getStore(storeName, 'readwrite');
@@ -1032,19 +1760,19 @@ class UnifiedStorageManager {
   }
 
   async getCacheStats(): Promise<{
-    priceHistoryCount: number;
+    pricePointCount: number;
     cardMappingCount: number;
     totalSize: number;
     lastCleanup: Date | null;
   }> {
     try {
       const [priceCount, mappingCount] = await Promise.all([
-        this.getStoreCount(STORES.PRICE_HISTORY),
+        this.getStoreCount(STORES.PRICE_POINTS),
         this.getStoreCount(STORES.CARD_MAPPINGS),
       ]);
 
       return {
-        priceHistoryCount: priceCount,
+        pricePointCount: priceCount,
         cardMappingCount: mappingCount,
         totalSize: 0, // IndexedDB doesn't provide easy size calculation
         lastCleanup: null, // Would need to track this separately
@@ -1052,7 +1780,7 @@ class UnifiedStorageManager {
     } catch (error) {
       console.error('Error getting cache stats:', error);
       return {
-        priceHistoryCount: 0,
+        pricePointCount: 0,
         cardMappingCount: 0,
         totalSize: 0,
         lastCleanup: null,
@@ -1107,6 +1835,10 @@ export const deletePortfolio = (portfolioId: string) => storageManager.deletePor
 export const getPortfolioById = (portfolioId: string) => storageManager.getPortfolioById(portfolioId);
 export const addCardToPortfolioWithTracking = (portfolioId: string, card: import('@/lib/types').PortfolioCard) => storageManager.addCardToPortfolioWithTracking(portfolioId, card);
 export const removeCardFromPortfolioWithTracking = (portfolioId: string, cardId: string, foil: boolean, condition: string, quantityToRemove?: number) => storageManager.removeCardFromPortfolioWithTracking(portfolioId, cardId, foil, condition, quantityToRemove);
+export const sellCardFromPortfolioWithTracking = (portfolioId: string, cardId: string, foil: boolean, condition: string, quantityToSell: number, sale: import('@/lib/types').SaleDetails) => storageManager.sellCardFromPortfolioWithTracking(portfolioId, cardId, foil, condition, quantityToSell, sale);
+export const updateCardInPortfolioWithTracking = (portfolioId: string, cardId: string, foil: boolean, condition: string, updates: Partial<Pick<import('@/lib/types').PortfolioCard, 'quantity' | 'purchasePrice' | 'condition' | 'notes'>>) => storageManager.updateCardInPortfolioWithTracking(portfolioId, cardId, foil, condition, updates);
+export const updatePortfolioPrices = (portfolioId: string, freshCards: Map<string, import('@/lib/types').MTGCard>, pricedAt?: string) => storageManager.updatePortfolioPrices(portfolioId, freshCards, pricedAt);
+export const recalculateAllPortfolioTotals = () => storageManager.recalculateAllPortfolioTotals();
 
 // Watchlist functions
 export const getWatchlist = () => storageManager.getWatchlist();
@@ -1121,6 +1853,23 @@ export const resetSettings = () => storageManager.resetSettings();
 export const getPreferences = () => storageManager.getPreferences();
 export const savePreferences = (preferences: Partial<UserPreferences>) => storageManager.savePreferences(preferences);
 
+// FX rate functions
+export const getFxRates = () => storageManager.getFxRates();
+export const saveFxRates = (table: FxRateTable) => storageManager.saveFxRates(table);
+
+// Import profiles
+export const getImportProfiles = () => storageManager.getImportProfiles();
+export const saveImportProfile = (profile: ImportProfile) => storageManager.saveImportProfile(profile);
+export const deleteImportProfile = (profileId: string) => storageManager.deleteImportProfile(profileId);
+export const getPrintingRules = () => storageManager.getPrintingRules();
+export const savePrintingRule = (rule: PrintingRule) => storageManager.savePrintingRule(rule);
+export const deletePrintingRule = (ruleId: string) => storageManager.deletePrintingRule(ruleId);
+
+// Import batches
+export const applyImportPlan = (portfolioId: string, plan: ImportPlan) => storageManager.applyImportPlan(portfolioId, plan);
+export const rollbackImportBatch = (batchId: string) => storageManager.rollbackImportBatch(batchId);
+export const getImportBatches = (portfolioId?: string) => storageManager.getImportBatches(portfolioId);
+
 // Storage management
 export const clearAllData = () => storageManager.clearAllData();
 export const exportData = () => storageManager.exportData();
@@ -1129,14 +1878,22 @@ export const getStorageStats = () => storageManager.getStorageStats();
 export const getStorageUsage = () => storageManager.getStorageUsage();
 
 // Cache functions
-export const getPriceHistory = (uuid: string) => storageManager.getPriceHistory(uuid);
-export const setPriceHistory = (uuid: string, priceHistory: PriceHistory) => storageManager.setPriceHistory(uuid, priceHistory);
-export const removePriceHistory = (uuid: string) => storageManager.removePriceHistory(uuid);
 export const getCardMapping = (scryfallId: string) => storageManager.getCardMapping(scryfallId);
 export const setCardMapping = (scryfallId: string, mtgjsonCard: MTGJSONCard) => storageManager.setCardMapping(scryfallId, mtgjsonCard);
 export const removeCardMapping = (scryfallId: string) => storageManager.removeCardMapping(scryfallId);
 export const getMetadata = () => storageManager.getMetadata();
 export const setMetadata = (metadata: CacheMetadata) => storageManager.setMetadata(metadata);
+export const getPortfolioSnapshots = (portfolioId: string, startDate?: string, endDate?: string) => storageManager.getPortfolioSnapshots(portfolioId, startDate, endDate);
+export const getLatestPortfolioSnapshot = (portfolioId: string) => storageManager.getLatestPortfolioSnapshot(portfolioId);
+export const savePortfolioSnapshots = (snapshots: CompactPortfolioSnapshot[]) => storageManager.savePortfolioSnapshots(snapshots);
+export const deletePortfolioSnapshots = (portfolioId: string) => storageManager.deletePortfolioSnapshots(portfolioId);
+export const getPriceSeriesPoints = (uuid: string, provider: PriceProvider, finish: PriceFinish, startDate?: string, endDate?: string) => storageManager.getPriceSeriesPoints(uuid, provider, finish, startDate, endDate);
+export const getCardPriceSeries = (uuid: string) => storageManager.getCardPriceSeries(uuid);
+export const replaceCardPriceSeries = (uuid: string, points: PriceSeriesPoint[]) => storageManager.replaceCardPriceSeries(uuid, points);
+export const getPriceSeriesSyncedAt = (uuid: string) => storageManager.getPriceSeriesSyncedAt(uuid);
+export const setPriceSeriesSyncedAt = (uuid: string, syncedAt?: number) => storageManager.setPriceSeriesSyncedAt(uuid, syncedAt);
+export const clearPriceSeriesSyncedAt = (uuids: string[]) => storageManager.clearPriceSeriesSyncedAt(uuids);
+export const clearPriceSeries = () => storageManager.clearPriceSeries();
 export const clearExpiredEntries = () => storageManager.clearExpiredEntries();
 export const clearAllCache = () => storageManager.clearAllCache();
 export const getCacheStats = () => storageManager.getCacheStats();
@@ -34,6 +34,10 @@ export interface MTGCardPrices {
 }
 
 // MTGJSON Price Data Types
+export type PriceProvider = 'tcgplayer' | 'cardkingdom' | 'cardmarket' | 'cardhoarder'; // Cardhoarder is MTGO
+
+export type PriceCurrency = 'usd' | 'eur' | 'tix';
+
 export interface MTGJSONPricePoint {
   date: string; // YYYY-MM-DD format
   price: number;
@@ -61,6 +65,34 @@ export interface MTGJSONCardPrices {
   };
 }
 
+// MTGJSON file formats, as downloaded (AllPrices.json, AllPricesToday.json)
+export interface MTGJSONMeta {
+  date: string; // YYYY-MM-DD format
+  version: string;
+}
+
+export interface MTGJSONFileProviderPrices {
+  buylist?: {
+    normal?: Record<string, number>; // Date -> price
+    foil?: Record<string, number>;
+  };
+  retail?: {
+    normal?: Record<string, number>;
+    foil?: Record<string, number>;
+  };
+  currency: string;
+}
+
+export interface MTGJSONFileCardPrices {
+  paper?: Partial<Record<'cardkingdom' | 'cardmarket' | 'tcgplayer', MTGJSONFileProviderPrices>>;
+  mtgo?: Partial<Record<'cardhoarder', MTGJSONFileProviderPrices>>;
+}
+
+export interface MTGJSONPricesFile {
+  meta: MTGJSONMeta;
+  data: Record<string, MTGJSONFileCardPrices>; // UUID -> prices
+}
+
 export interface MTGJSONCard {
   uuid: string;
   name: string;
@@ -75,20 +107,46 @@ export interface ProcessedCardPrice {
   date: string;
   price: number;
   priceType: 'usd' | 'usdFoil' | 'eur' | 'eurFoil' | 'tix';
+  provider?: PriceProvider;
   volume?: number;
   marketCap?: number;
 }
 
 // Portfolio and Investment Types
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export type CurrencyCode = 'usd' | 'eur' | 'gbp' | 'cad' | 'aud' | 'jpy';
+
+export interface FxRateTable {
+  base: CurrencyCode;
+  rates: Partial<Record<CurrencyCode, number>>; // Units of each currency per one unit of base
+  source: 'manual' | 'file';
+  updatedAt: string;
+}
+
+export interface PurchaseLot {
+  id: string;
+  quantity: number;
+  pricePerCard: number; // In the portfolio's base currency
+  purchaseDate: string;
+  currency?: CurrencyCode; // Currency the purchase was paid in
+  originalPricePerCard?: number; // Price paid in that currency
+  importFingerprint?: string; // Import row the lot was added from, see fingerprintImportRows
+}
+
 export interface PortfolioCard {
   cardId: string;
   card: MTGCard;
   quantity: number;
-  purchasePrice: number;
+  purchasePrice: number; // Average cost of the remaining lots
   purchaseDate: string;
   condition: 'mint' | 'near_mint' | 'excellent' | 'good' | 'light_played' | 'played' | 'poor';
   foil: boolean;
   notes?: string;
+  lots?: PurchaseLot[]; // Missing on holdings saved before lot tracking
+  lastPricedAt?: string; // When card.prices was last refreshed
+  purchaseCurrency?: CurrencyCode; // Currency purchasePrice was entered in, converted when added
+  importFingerprint?: string; // Import row the holding was read from, moved onto its lot when imported
 }
 
 export interface Portfolio {
@@ -99,6 +157,9 @@ export interface Portfolio {
   totalValue: number;
   totalCost: number;
   performance: number;
+  costBasisMethod?: CostBasisMethod; // Defaults to 'fifo'
+  baseCurrency?: CurrencyCode; // Defaults to 'usd'
+  lastRepricedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -107,15 +168,51 @@ export interface Portfolio {
 export interface PortfolioTransaction {
   id: string;
   portfolioId: string;
-  type: 'add' | 'remove' | 'update';
+  type: 'add' | 'remove' | 'update' | 'sell';
   timestamp: string;
   cardId: string;
+  foil?: boolean; // With condition, the holding the transaction applies to, see getHoldingKey
+  condition?: PortfolioCard['condition'];
   quantityChange: number; // +5 for add, -2 for sell
-  pricePerCard: number;
+  pricePerCard: number; // Sale price per card for 'sell'
   previousQuantity: number;
   newQuantity: number;
   notes?: string;
   source?: 'manual' | 'csv_import';
+  importBatchId?: string; // Set on 'csv_import' transactions, see ImportBatch
+  // Sale details, only set on 'sell' transactions
+  fees?: number;
+  shipping?: number;
+  costBasis?: number; // Total cost of the lots matched to the sale
+  realizedGain?: number; // Proceeds minus fees, shipping and cost basis
+  matchedLots?: PurchaseLot[]; // Lots consumed by the sale
+  cardName?: string; // Kept so sales can be reported after the holding is gone
+  saleDate?: string; // Date the cards were sold, which can be before the timestamp
+  // Purchase currency, only set on 'add' transactions paid in a foreign currency
+  currency?: CurrencyCode;
+  originalPricePerCard?: number;
+  purchaseDate?: string; // Purchase date of the lot an 'add' created, which can be before the timestamp
+  // Holding edits, only set on 'update' transactions
+  previousPricePerCard?: number; // The holding's lots were re-priced from this to pricePerCard
+  newCondition?: PortfolioCard['condition']; // The holding moved from condition to this one
+}
+
+export interface SaleDetails {
+  pricePerCard: number;
+  fees?: number;
+  shipping?: number;
+  notes?: string;
+  saleDate?: string; // YYYY-MM-DD, defaults to today
+}
+
+export interface RealizedGainSummary {
+  salesCount: number;
+  cardsSold: number;
+  proceeds: number; // Gross sale amount
+  fees: number;
+  shipping: number;
+  costBasis: number;
+  realizedGain: number;
 }
 
 export interface PortfolioSnapshot {
@@ -129,6 +226,19 @@ export interface PortfolioSnapshot {
   }>;
   totalValue: number;
   totalCost: number;
+  currency?: CurrencyCode; // Base currency the totals are in
+  backfilled?: boolean; // Reconstructed for a day the app was not opened
+}
+
+// Stored form of a snapshot, holdings as [cardId, quantity, totalCost] tuples
+export interface CompactPortfolioSnapshot {
+  portfolioId: string;
+  date: string; // YYYY-MM-DD
+  totalValue: number;
+  totalCost: number;
+  currency: CurrencyCode;
+  backfilled: boolean;
+  holdings: Array<[string, number, number]>;
 }
 
 export interface PortfolioTimelineEntry {
@@ -147,10 +257,119 @@ export interface EnhancedPortfolio extends Portfolio {
   snapshots?: PortfolioSnapshot[];
   settings: {
     trackTimeline: boolean;
-    costBasisMethod: 'fifo' | 'lifo' | 'average';
+    costBasisMethod: CostBasisMethod;
   };
 }
 
+// Import Mapping Types
+export type ImportField =
+  | 'name'
+  | 'set'
+  | 'scryfallId'
+  | 'collectorNumber'
+  | 'quantity'
+  | 'condition'
+  | 'foil'
+  | 'purchasePrice'
+  | 'purchaseCurrency'
+  | 'purchaseDate'
+  | 'language'
+  | 'notes';
+
+export type ImportDateFormat = 'iso' | 'mdy' | 'dmy';
+
+export interface ImportColumnMapping {
+  header: string; // Lowercased, trimmed header name
+  field: ImportField;
+  // Transforms, only used for the matching field
+  dateFormat?: ImportDateFormat;
+  decimalSeparator?: '.' | ',';
+  conditionValues?: Record<string, PortfolioCard['condition']>; // Lowercased file value to condition
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  headers: string[]; // Headers of the file the profile was created from
+  columns: ImportColumnMapping[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A printing chosen for import rows that don't say which printing they are
+export interface PrintingRule {
+  id: string;
+  name: string; // Lowercased card name
+  set?: string; // Lowercased set code from the file, when the rows have one
+  scryfallId: string;
+  setCode: string;
+  collectorNumber: string;
+  createdAt: string;
+}
+
+// Import Merge Types
+export type ImportMergeStrategy = 'add' | 'replace' | 'sync';
+
+export type ImportRowAction = 'create' | 'increase' | 'replace' | 'skip' | 'remove';
+
+export interface ImportPlanRow {
+  action: ImportRowAction;
+  holding: PortfolioCard; // Imported holding, or the existing one for 'remove'
+  previousQuantity: number;
+  newQuantity: number;
+  reason?: string; // Why a row is skipped
+}
+
+export interface ImportPlan {
+  strategy: ImportMergeStrategy;
+  rows: ImportPlanRow[];
+}
+
+export interface ImportBatch {
+  id: string;
+  portfolioId: string;
+  strategy: ImportMergeStrategy;
+  importedAt: string;
+  changedRows: number;
+  holdingKeys: string[]; // Holdings the import changed, see getHoldingKey
+  previousHoldings: PortfolioCard[]; // Those holdings as they were before the import
+  rowFingerprints?: string[]; // Rows an 'add' import added, missing on batches saved before fingerprints
+  rolledBackAt?: string;
+}
+
+// Tax Reporting Types
+export type HoldingTerm = 'short' | 'long';
+
+export interface TaxReportRow {
+  portfolioId: string;
+  portfolioName: string;
+  transactionId: string;
+  description: string; // e.g. "4 Lightning Bolt"
+  quantity: number;
+  dateAcquired: string; // YYYY-MM-DD, or 'VARIOUS' when the lots are unknown
+  dateSold: string; // YYYY-MM-DD
+  proceeds: number; // Gross sale amount
+  costBasis: number;
+  adjustment: number; // Selling expenses (fees and shipping) as a negative amount
+  gainLoss: number;
+  term: HoldingTerm;
+}
+
+export interface TaxReportTotals {
+  proceeds: number;
+  costBasis: number;
+  adjustment: number;
+  gainLoss: number;
+}
+
+export interface TaxReport {
+  year: number;
+  currency: CurrencyCode; // All amounts, converted from each portfolio's base currency
+  generatedAt: string;
+  rows: TaxReportRow[];
+  totals: Record<HoldingTerm, TaxReportTotals>;
+}
+
 // Analytics and Statistics Types
 export interface PriceHistory {
   cardId: string;
@@ -163,7 +382,66 @@ export interface PriceHistory {
   percentChange7d?: number;
   percentChange30d?: number;
   lastUpdated?: string;
-  provider?: 'scryfall' | 'mtgjson' | 'mock';
+  provider?: 'scryfall' | 'mtgjson' | 'recorded'; // Where the history came from
+  priceProvider?: PriceProvider; // Whose prices they are
+  currency?: PriceCurrency;
+}
+
+// Price time series, stored per (uuid, provider, finish, date)
+export type PriceFinish = 'normal' | 'foil';
+
+export type PriceResolution = 'day' | 'week' | 'month';
+
+export type PriceWindow = '7d' | '30d' | '90d' | '1y' | 'all';
+
+export interface PriceSeriesPoint {
+  uuid: string;
+  provider: PriceProvider;
+  finish: PriceFinish;
+  date: string; // YYYY-MM-DD; the first day of the week or month for aggregates
+  price: number; // Average price for aggregates
+  resolution: PriceResolution;
+  low?: number;
+  high?: number;
+  count?: number; // Daily prices an aggregate covers
+}
+
+export interface PriceRetentionPolicy {
+  dailyDays: number; // Daily points older than this become weekly averages
+  weeklyDays: number; // Weekly points older than this become monthly averages
+  maxDays: number | null; // Points older than this are dropped; null keeps them
+}
+
+// Statistically unusual price moves
+export type PriceAnomalyType = 'zscore' | 'buyout' | 'breakout';
+
+export interface PriceAnomaly {
+  type: PriceAnomalyType;
+  direction: 'up' | 'down';
+  date: string; // Day the move was detected
+  price: number;
+  baseline: number; // Price the move is measured from
+  changePercent: number;
+  zScore?: number;
+  severity: 'low' | 'medium' | 'high';
+}
+
+export interface PriceAnomalyEvent extends PriceAnomaly {
+  cardId: string;
+  cardName: string;
+  setName: string;
+  source: 'holding' | 'watchlist';
+  currency: PriceCurrency;
+}
+
+// Scryfall prices recorded for a card on one day
+export interface PriceObservation {
+  date: string; // YYYY-MM-DD
+  usd?: number;
+  usdFoil?: number;
+  eur?: number;
+  eurFoil?: number;
+  tix?: number;
 }
 
 export interface MarketStats {
@@ -181,8 +459,12 @@ export interface MarketStats {
 
 export interface InvestmentAnalytics {
   portfolioValue: number;
-  totalGainLoss: number;
+  totalGainLoss: number; // Unrealized plus realized
+  unrealizedGainLoss: number;
+  realizedGainLoss: number;
   percentageReturn: number;
+  timeWeightedReturn?: number | null; // Percent over the selected period
+  moneyWeightedReturn?: number | null; // Annualized XIRR, percent
   bestPerformingCard: PortfolioCard | null;
   worstPerformingCard: PortfolioCard | null;
   diversification: {
@@ -193,6 +475,17 @@ export interface InvestmentAnalytics {
   riskScore: number;
 }
 
+export interface ReturnMetrics {
+  portfolioId?: string; // Unset for combined metrics
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  netContributions: number; // Money added minus money taken out
+  timeWeightedReturn: number | null; // Percent over the period
+  moneyWeightedReturn: number | null; // Annualized XIRR, percent
+}
+
 // Filter and Search Types
 export interface CardFilters {
   name?: string;
@@ -261,10 +554,12 @@ export interface LocalStorageData {
 }
 
 export interface UserPreferences {
-  defaultCurrency: 'usd' | 'eur';
+  defaultCurrency: CurrencyCode;
   showFoilPrices: boolean;
   defaultCondition: PortfolioCard['condition'];
   defaultBuyPricePercentage: number; // Added for buy price estimation slider
+  conditionMultipliers?: Record<PortfolioCard['condition'], number>; // Share of near-mint value per condition
+  priceProvider?: PriceProvider; // Default source of price histories
   priceAlerts: PriceAlert[];
   dashboardLayout: string[];
   theme: 'light' | 'dark' | 'system';
@@ -277,6 +572,21 @@ export interface PriceAlert {
   condition: 'above' | 'below';
   active: boolean;
   createdAt: string;
+  lastCheckedAt?: string;
+  triggeredAt?: string;
+  triggeredPrice?: number;
+}
+
+export interface PriceAlertTrigger {
+  id: string;
+  alertId: string;
+  cardId: string;
+  cardName: string;
+  condition: PriceAlert['condition'];
+  targetPrice: number;
+  price: number;
+  priceSource: 'scryfall' | 'mtgjson';
+  triggeredAt: string;
 }
 
 // Chart and Visualization Types
@@ -296,7 +606,7 @@ export interface TrendData {
 export interface MTGJSONConfig {
   baseUrl: string;
   cacheExpiry: number; // in milliseconds
-  preferredProvider: 'tcgplayer' | 'cardkingdom' | 'cardmarket';
+  preferredProvider: PriceProvider;
   enableCaching: boolean;
 }
 
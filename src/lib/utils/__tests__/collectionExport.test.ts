@@ -0,0 +1,79 @@
+import { ExportFormat, exportCollection, getExportFileName } from '../collectionExport'
+import { parseEnhancedCsv } from '../csvFormatDetector'
+import { PortfolioCard } from '@/lib/types'
+import { mockMTGCard, mockPortfolioCard } from '@/test-utils'
+
+const holding = (card: object, overrides: Partial<PortfolioCard> = {}): PortfolioCard =>
+  mockPortfolioCard({ card: mockMTGCard(card), ...overrides }) as PortfolioCard
+
+const cards: PortfolioCard[] = [
+  holding(
+    { name: 'Lightning Bolt', setCode: 'lea', setName: 'Limited Edition Alpha', number: '161', scryfallId: 'bolt-id' },
+    { quantity: 4, purchasePrice: 25, purchaseDate: '2024-01-15T00:00:00.000Z', condition: 'near_mint' }
+  ),
+  holding(
+    { name: 'Fire // Ice', setCode: 'apc', setName: 'Apocalypse', number: '128', scryfallId: 'fire-ice-id' },
+    { quantity: 2, purchasePrice: 1234.5, purchaseDate: '2023-06-01T00:00:00.000Z', condition: 'played', foil: true, notes: 'Binder 2, "trade" pile' }
+  ),
+]
+
+const CSV_FORMATS: ExportFormat[] = ['moxfield', 'archidekt', 'deckbox', 'tcgplayer']
+
+describe('collectionExport', () => {
+  it.each(CSV_FORMATS)('round-trips %s exports through the importer', format => {
+    const result = parseEnhancedCsv(exportCollection(cards, format))
+
+    expect(result.format.format).toBe(format)
+    expect(result.errors).toEqual([])
+    expect(result.entries.map(entry => ({
+      name: entry.name,
+      set: entry.set?.toLowerCase(),
+      collectorNumber: entry.collectorNumber,
+      quantity: entry.quantity,
+      foil: entry.foil,
+      condition: entry.condition,
+    }))).toEqual([
+      { name: 'Lightning Bolt', set: 'lea', collectorNumber: '161', quantity: 4, foil: false, condition: 'near_mint' },
+      { name: 'Fire // Ice', set: 'apc', collectorNumber: '128', quantity: 2, foil: true, condition: 'played' },
+    ])
+  })
+
+  it.each(['moxfield', 'archidekt', 'deckbox'] as ExportFormat[])('keeps prices and notes in %s exports', format => {
+    const { entries } = parseEnhancedCsv(exportCollection(cards, format))
+
+    expect(entries[0].purchasePrice).toBe(25)
+    expect(entries[1]).toMatchObject({ purchasePrice: 1234.5, notes: 'Binder 2, "trade" pile' })
+  })
+
+  it('keeps Scryfall IDs and purchase dates in Archidekt exports', () => {
+    const { entries } = parseEnhancedCsv(exportCollection(cards, 'archidekt'))
+
+    expect(entries.map(entry => [entry.scryfallId, entry.purchaseDate])).toEqual([
+      ['bolt-id', '2024-01-15'],
+      ['fire-ice-id', '2023-06-01'],
+    ])
+  })
+
+  it('writes grades a tool lacks as the closest one it has', () => {
+    const graded = [holding({}, { condition: 'excellent' }), holding({}, { condition: 'mint' })]
+
+    expect(parseEnhancedCsv(exportCollection(graded, 'deckbox')).entries.map(e => e.condition))
+      .toEqual(['light_played', 'mint'])
+    expect(parseEnhancedCsv(exportCollection(graded, 'tcgplayer')).entries.map(e => e.condition))
+      .toEqual(['light_played', 'near_mint'])
+  })
+
+  it('combines printings in TCGplayer Mass Entry lists', () => {
+    const list = exportCollection([...cards, holding(
+      { name: 'Lightning Bolt', setCode: 'lea', number: '161' },
+      { quantity: 1, condition: 'poor' }
+    )], 'tcgplayer_mass_entry')
+
+    expect(list).toBe('5 Lightning Bolt [LEA]\n2 Fire // Ice [APC]\n')
+  })
+
+  it('names files after the portfolio and format', () => {
+    expect(getExportFileName('My Modern Collection!', 'moxfield')).toBe('my-modern-collection-moxfield.csv')
+    expect(getExportFileName('', 'tcgplayer_mass_entry')).toBe('collection-tcgplayer-mass-entry.txt')
+  })
+})
@@ -0,0 +1,95 @@
+import {
+  consumeLots,
+  getHoldingCostBasis,
+  getHoldingLots,
+  mergeHoldings,
+  reduceHolding,
+  summarizeLots,
+} from '../costBasis'
+import { PortfolioCard, PurchaseLot } from '@/lib/types'
+import { mockPortfolioCard } from '@/test-utils'
+
+const lots: PurchaseLot[] = [
+  { id: 'lot-2', quantity: 2, pricePerCard: 20, purchaseDate: '2024-02-01T00:00:00.000Z' },
+  { id: 'lot-1', quantity: 2, pricePerCard: 10, purchaseDate: '2024-01-01T00:00:00.000Z' },
+  { id: 'lot-3', quantity: 2, pricePerCard: 30, purchaseDate: '2024-03-01T00:00:00.000Z' },
+]
+
+const holding = (overrides: Partial<PortfolioCard> = {}): PortfolioCard =>
+  mockPortfolioCard(overrides) as PortfolioCard
+
+describe('costBasis', () => {
+  describe('consumeLots', () => {
+    it('consumes the oldest lots first with FIFO', () => {
+      const { remaining, consumed } = consumeLots(lots, 3, 'fifo')
+
+      expect(summarizeLots(consumed).totalCost).toBe(10 * 2 + 20)
+      expect(remaining.map(lot => [lot.id, lot.quantity])).toEqual([
+        ['lot-2', 1],
+        ['lot-3', 2],
+      ])
+    })
+
+    it('consumes the newest lots first with LIFO', () => {
+      const { remaining, consumed } = consumeLots(lots, 3, 'lifo')
+
+      expect(summarizeLots(consumed).totalCost).toBe(30 * 2 + 20)
+      expect(remaining.map(lot => [lot.id, lot.quantity])).toEqual([
+        ['lot-1', 2],
+        ['lot-2', 1],
+      ])
+    })
+
+    it('keeps the pooled average with average cost', () => {
+      const { remaining, consumed } = consumeLots(lots, 3, 'average')
+
+      expect(summarizeLots(consumed).averageCostBasis).toBe(20)
+      expect(summarizeLots(remaining)).toEqual({
+        quantity: 3,
+        totalCost: 60,
+        averageCostBasis: 20,
+      })
+    })
+
+    it('never consumes more than is held', () => {
+      const { remaining, consumed } = consumeLots(lots, 10, 'fifo')
+
+      expect(remaining).toHaveLength(0)
+      expect(summarizeLots(consumed).quantity).toBe(6)
+    })
+  })
+
+  describe('holdings', () => {
+    it('treats holdings without lots as a single lot', () => {
+      const card = holding({ quantity: 4, purchasePrice: 2.5 })
+
+      expect(getHoldingLots(card)).toHaveLength(1)
+      expect(getHoldingCostBasis(card)).toBe(10)
+    })
+
+    it('keeps each purchase as its own lot when merging', () => {
+      const existing = holding({ quantity: 2, purchasePrice: 10 })
+      const merged = mergeHoldings(existing, holding({ quantity: 1, purchasePrice: 40 }))
+
+      expect(merged.lots).toHaveLength(2)
+      expect(merged.quantity).toBe(3)
+      expect(merged.purchasePrice).toBe(20)
+      expect(getHoldingCostBasis(merged)).toBe(60)
+    })
+
+    it('updates quantity and average price after a partial removal', () => {
+      const card = holding({ lots, quantity: 6, purchasePrice: 20 })
+      const { holding: reduced, consumed } = reduceHolding(card, 2, 'lifo')
+
+      expect(summarizeLots(consumed).averageCostBasis).toBe(30)
+      expect(reduced?.quantity).toBe(4)
+      expect(reduced?.purchasePrice).toBe(15)
+    })
+
+    it('returns no holding once every lot is consumed', () => {
+      const { holding: reduced } = reduceHolding(holding({ quantity: 1 }), 1)
+
+      expect(reduced).toBeNull()
+    })
+  })
+})
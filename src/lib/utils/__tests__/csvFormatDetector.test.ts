@@ -0,0 +1,198 @@
+import {
+  CsvFormat,
+  detectCsvFormat,
+  findImportProfile,
+  generateSampleCsv,
+  parseEnhancedCsv,
+  parseEntriesWithMappings,
+  suggestColumnMappings,
+} from '../csvFormatDetector'
+import { ImportProfile } from '@/lib/types'
+
+const FORMATS: CsvFormat[] = [
+  'cardsphere',
+  'moxfield',
+  'archidekt',
+  'mtga',
+  'deckbox',
+  'manabox',
+  'delver',
+  'dragonshield',
+  'tcgplayer',
+]
+
+describe('csvFormatDetector', () => {
+  it.each(FORMATS)('detects its own %s sample', format => {
+    const result = detectCsvFormat(generateSampleCsv(format))
+
+    expect(result.format).toBe(format)
+  })
+
+  it('maps Deckbox editions, conditions, languages and prices', () => {
+    const { entries } = parseEnhancedCsv(generateSampleCsv('deckbox'))
+
+    expect(entries).toHaveLength(3)
+    expect(entries[1]).toMatchObject({
+      name: 'Black Lotus',
+      set: 'LEA',
+      collectorNumber: '232',
+      quantity: 1,
+      condition: 'light_played',
+      language: 'en',
+      foil: false,
+      purchasePrice: 15000,
+    })
+    expect(entries[2]).toMatchObject({ quantity: 2, foil: true, condition: 'mint' })
+  })
+
+  it('maps ManaBox set codes, finishes and language codes', () => {
+    const { entries } = parseEnhancedCsv(generateSampleCsv('manabox'))
+
+    expect(entries[0]).toMatchObject({ set: 'lea', collectorNumber: '161', condition: 'near_mint', purchasePrice: 25 })
+    expect(entries[2]).toMatchObject({ foil: true, language: 'ja', quantity: 2 })
+  })
+
+  it('reads ManaBox purchase price currencies', () => {
+    const csv = generateSampleCsv('manabox').replace(/,USD$/m, ',EUR').replace(/,USD$/m, ',XYZ')
+    const { entries, errors } = parseEnhancedCsv(csv)
+
+    expect(entries.map(entry => entry.purchaseCurrency)).toEqual(['eur', 'usd'])
+    expect(errors).toEqual(['Row 3: Unsupported currency "XYZ"'])
+  })
+
+  it('maps Delver Lens collector numbers and lists', () => {
+    const { entries } = parseEnhancedCsv(generateSampleCsv('delver'))
+
+    expect(entries[2]).toMatchObject({
+      name: 'Tarmogoyf',
+      set: 'FUT',
+      collectorNumber: '153',
+      foil: true,
+      notes: 'Binder',
+    })
+  })
+
+  it('reads Dragon Shield exports with a sep= hint line', () => {
+    const { entries, errors } = parseEnhancedCsv(generateSampleCsv('dragonshield'))
+
+    expect(errors).toEqual([])
+    expect(entries[0]).toMatchObject({
+      name: 'Lightning Bolt',
+      set: 'LEA',
+      quantity: 4,
+      condition: 'near_mint',
+      purchasePrice: 25,
+      purchaseDate: '2024-01-15',
+      notes: 'Binder',
+    })
+    expect(entries[2].foil).toBe(true)
+  })
+
+  it('maps TCGplayer printings and conditions', () => {
+    const { entries, warnings } = parseEnhancedCsv(generateSampleCsv('tcgplayer'))
+
+    expect(entries[1]).toMatchObject({ name: 'Black Lotus', condition: 'light_played', foil: false })
+    expect(entries[2]).toMatchObject({ foil: true, set: 'FUT', collectorNumber: '153' })
+    expect(warnings).toContain('TCGplayer CSV detected: Purchase prices not available, defaulting to $0.00')
+  })
+
+  it('normalizes collector numbers and European prices', () => {
+    const { entries } = parseEnhancedCsv(
+      'Count;Tradelist Count;Name;Edition;Card Number;Condition;Language;Foil;My Price\n' +
+      '1;0;Opt;Ixalan;065/279;Heavily Played;German;;"1.234,50 €"\n'
+    )
+
+    expect(entries[0]).toMatchObject({
+      collectorNumber: '65',
+      condition: 'poor',
+      language: 'de',
+      purchasePrice: 1234.5,
+    })
+  })
+
+  it('reads a separator before exactly three digits as a thousands separator', () => {
+    const parsePrices = (prices: string[], decimalSeparator?: '.' | ',') => parseEntriesWithMappings(
+      [['name', 'price'], ...prices.map(price => ['Opt', price])],
+      [{ header: 'name', field: 'name' }, { header: 'price', field: 'purchasePrice', decimalSeparator }],
+      []
+    ).map(entry => entry.purchasePrice)
+
+    expect(parsePrices(['$1,500', '1,234', '1.500 €', '1,234,567', '1,500.25', '12,50', '0,125', '1,2345']))
+      .toEqual([1500, 1234, 1500, 1234567, 1500.25, 12.5, 0.125, 1.2345])
+    expect(parsePrices(['1,234', '1.234'], ',')).toEqual([1.234, 1234])
+  })
+
+  describe('import profiles', () => {
+    const headers = ['Karte', 'Anzahl', 'Zustand', 'Preis', 'Gekauft']
+    const content =
+      'Karte;Anzahl;Zustand;Preis;Gekauft\n' +
+      'Tarmogoyf;2;Sehr gut;"12,50";15.03.2024\n' +
+      'Opt;1;Gespielt;0,25;01.12.23\n'
+
+    const profile: ImportProfile = {
+      id: 'profile-1',
+      name: 'German spreadsheet',
+      headers: headers.map(h => h.toLowerCase()),
+      columns: [
+        { header: 'karte', field: 'name' },
+        { header: 'anzahl', field: 'quantity' },
+        { header: 'zustand', field: 'condition', conditionValues: { 'sehr gut': 'near_mint', gespielt: 'played' } },
+        { header: 'preis', field: 'purchasePrice', decimalSeparator: ',' },
+        { header: 'gekauft', field: 'purchaseDate', dateFormat: 'dmy' },
+      ],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    }
+
+    it('suggests mappings for recognizable headers', () => {
+      expect(suggestColumnMappings(['Card Name', 'Qty', 'Mystery'])).toEqual([
+        { header: 'card name', field: 'name' },
+        { header: 'qty', field: 'quantity' },
+      ])
+    })
+
+    it('applies per-column transforms', () => {
+      const errors: string[] = []
+      const entries = parseEntriesWithMappings(
+        [headers, ['Tarmogoyf', '2', 'Sehr gut', '1.012,50', '03/15/2024']],
+        profile.columns.map(c => (c.field === 'purchaseDate' ? { ...c, dateFormat: 'mdy' as const } : c)),
+        errors
+      )
+
+      expect(errors).toEqual([])
+      expect(entries[0]).toMatchObject({
+        name: 'Tarmogoyf',
+        quantity: 2,
+        condition: 'near_mint',
+        purchasePrice: 1012.5,
+        purchaseDate: '2024-03-15',
+      })
+    })
+
+    it('reports dates that do not match the chosen format', () => {
+      const errors: string[] = []
+      parseEntriesWithMappings([headers, ['Opt', '1', '', '', '2024-13-45']], profile.columns, errors)
+
+      expect(errors).toHaveLength(1)
+      expect(errors[0]).toContain('Unrecognized date "2024-13-45"')
+    })
+
+    it('matches profiles by header set', () => {
+      expect(findImportProfile([...headers].reverse(), [profile])).toBe(profile)
+      expect(findImportProfile([...headers, 'Notizen'], [profile])).toBe(profile)
+      expect(findImportProfile(['Karte', 'Anzahl'], [profile])).toBeNull()
+    })
+
+    it('uses a saved profile for files in an unknown format', () => {
+      expect(parseEnhancedCsv(content).entries).toEqual([])
+
+      const result = parseEnhancedCsv(content, [profile])
+
+      expect(result.profile).toBe(profile)
+      expect(result.entries).toEqual([
+        expect.objectContaining({ name: 'Tarmogoyf', quantity: 2, condition: 'near_mint', purchasePrice: 12.5, purchaseDate: '2024-03-15' }),
+        expect.objectContaining({ name: 'Opt', quantity: 1, condition: 'played', purchasePrice: 0.25, purchaseDate: '2023-12-01' }),
+      ])
+    })
+  })
+})
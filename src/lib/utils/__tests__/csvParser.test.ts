@@ -0,0 +1,113 @@
+import { CsvParser, detectDelimiter, parseCsv, stringifyCsv } from '../csvParser'
+import { parseEnhancedCsv } from '../csvFormatDetector'
+
+describe('csvParser', () => {
+  describe('parseCsv', () => {
+    it('parses quoted fields with delimiters, newlines and escaped quotes', () => {
+      const { rows, errors } = parseCsv(
+        'name,notes\r\n"Fire // Ice","Split card, ""rare"" printing\r\nsecond line"\r\nOpt,\r\n'
+      )
+
+      expect(errors).toEqual([])
+      expect(rows).toEqual([
+        ['name', 'notes'],
+        ['Fire // Ice', 'Split card, "rare" printing\r\nsecond line'],
+        ['Opt', ''],
+      ])
+    })
+
+    it('strips a byte order mark and skips blank lines', () => {
+      const { rows } = parseCsv('\ufeffname,count\n\nLightning Bolt,4\n , \n')
+
+      expect(rows).toEqual([
+        ['name', 'count'],
+        ['Lightning Bolt', '4'],
+      ])
+    })
+
+    it('detects semicolon-delimited exports', () => {
+      const { rows, delimiter } = parseCsv('Name;Set;Price\n"Tarmogoyf";FUT;"12,50"\n')
+
+      expect(delimiter).toBe(';')
+      expect(rows[1]).toEqual(['Tarmogoyf', 'FUT', '12,50'])
+    })
+
+    it('reports the row and column of malformed fields', () => {
+      const { rows, errors } = parseCsv('name,set\nBlack "Lotus",LEA\nOpt,"XLN"x\n"Unclosed,M21\n')
+
+      expect(errors).toEqual([
+        { row: 2, column: 1, line: 2, message: 'Unexpected quote in unquoted field' },
+        { row: 3, column: 2, line: 3, message: 'Unexpected character after closing quote' },
+        { row: 4, column: 1, line: 4, message: 'Unterminated quoted field' },
+      ])
+      expect(rows[1]).toEqual(['Black "Lotus"', 'LEA'])
+      expect(rows[2]).toEqual(['Opt', 'XLNx'])
+    })
+  })
+
+  describe('CsvParser', () => {
+    it('gives the same rows however the input is split into chunks', () => {
+      const content = 'name,notes\r\n"Fire // Ice","a ""b""\nc"\r\nOpt,x\r\n'
+      const parser = new CsvParser()
+      const rows: string[][] = []
+
+      for (const char of content) {
+        rows.push(...parser.push(char))
+      }
+      rows.push(...parser.finish())
+
+      expect(rows).toEqual(parseCsv(content).rows)
+      expect(parser.getErrors()).toEqual([])
+    })
+
+    it('parses a large export', () => {
+      const lines = ['name,set,quantity']
+      for (let i = 0; i < 50000; i++) {
+        lines.push(`"Card ${i}, the ""Great""",SET,${i % 4 + 1}`)
+      }
+
+      const { rows, errors } = parseCsv(lines.join('\n'))
+
+      expect(errors).toEqual([])
+      expect(rows).toHaveLength(50001)
+      expect(rows[50000]).toEqual(['Card 49999, the "Great"', 'SET', '4'])
+    })
+  })
+
+  describe('detectDelimiter', () => {
+    it('ignores delimiters inside quotes', () => {
+      expect(detectDelimiter('"a;b;c","d;e"\n1,2')).toBe(',')
+      expect(detectDelimiter('name\tset\tcount')).toBe('\t')
+      expect(detectDelimiter('name')).toBe(',')
+    })
+  })
+
+  describe('stringifyCsv', () => {
+    it('quotes only the fields that need it and parses back unchanged', () => {
+      const rows = [
+        ['name', 'notes'],
+        ['Fire // Ice', 'Split card, "rare"\nprinting'],
+        ['Opt', ' padded '],
+      ]
+      const csv = stringifyCsv(rows)
+
+      expect(csv).toBe('name,notes\r\nFire // Ice,"Split card, ""rare""\nprinting"\r\nOpt," padded "\r\n')
+      expect(parseCsv(csv).rows).toEqual(rows)
+      expect(parseCsv(stringifyCsv(rows, ';')).rows).toEqual(rows)
+    })
+  })
+
+  describe('parseEnhancedCsv', () => {
+    it('imports entries from quoted multi-line exports and reports parse errors', () => {
+      const result = parseEnhancedCsv(
+        'name,set,quantity,notes\n"Lightning Bolt, Alpha",lea,4,"first\nsecond"\nOpt,xln,"2"x,\n'
+      )
+
+      expect(result.entries.map(e => [e.name, e.quantity, e.notes])).toEqual([
+        ['Lightning Bolt, Alpha', 4, 'first\nsecond'],
+        ['Opt', 2, undefined],
+      ])
+      expect(result.errors).toEqual(['Row 3, column 3: Unexpected character after closing quote'])
+    })
+  })
+})
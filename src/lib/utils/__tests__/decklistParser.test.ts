@@ -0,0 +1,79 @@
+import { parseDecklist } from '../decklistParser'
+import { exportCollection } from '../collectionExport'
+import { PortfolioCard } from '@/lib/types'
+import { mockMTGCard, mockPortfolioCard } from '@/test-utils'
+
+describe('decklistParser', () => {
+  it('reads Arena exports with sections, set codes and collector numbers', () => {
+    const { entries, errors, format } = parseDecklist(
+      'About\nName Mono Red\n\nCommander\n1 Krenko, Mob Boss (M13) 139\n\nDeck\n4 Lightning Bolt (M10) 146\n1 Sol Ring (C21) 263 *F*\n\nSideboard\n2 Duress (M19) 94\n'
+    )
+
+    expect(format).toBe('text')
+    expect(errors).toEqual([])
+    expect(entries.map(e => [e.quantity, e.name, e.set, e.collectorNumber, e.foil, e.section])).toEqual([
+      [1, 'Krenko, Mob Boss', 'M13', '139', false, 'commander'],
+      [4, 'Lightning Bolt', 'M10', '146', false, 'main'],
+      [1, 'Sol Ring', 'C21', '263', true, 'main'],
+      [2, 'Duress', 'M19', '94', false, 'sideboard'],
+    ])
+    expect(entries[3].notes).toBe('Sideboard')
+  })
+
+  it('starts the sideboard at a blank line when there are no headings', () => {
+    const { entries } = parseDecklist('4x Lightning Bolt\r\n// burn\r\n2 Fire // Ice\r\n\r\n3 Pyroblast\r\nSB: 1 Duress\r\n')
+
+    expect(entries.map(e => [e.quantity, e.name, e.section])).toEqual([
+      [4, 'Lightning Bolt', 'main'],
+      [2, 'Fire // Ice', 'main'],
+      [3, 'Pyroblast', 'sideboard'],
+      [1, 'Duress', 'sideboard'],
+    ])
+  })
+
+  it('reads Moxfield headings, etched markers and names without quantities', () => {
+    const { entries, errors } = parseDecklist(
+      'SIDEBOARD:\n1 Opt (XLN) 65 *E*\n\nMAYBEBOARD:\nTarmogoyf [FUT]\n0 Duress\n'
+    )
+
+    expect(entries.map(e => [e.quantity, e.name, e.set, e.foil, e.section])).toEqual([
+      [1, 'Opt', 'XLN', true, 'sideboard'],
+      [1, 'Tarmogoyf', 'FUT', false, 'maybeboard'],
+    ])
+    expect(errors).toEqual(['Line 6: Quantity must be at least 1'])
+  })
+
+  it('reads back TCGplayer Mass Entry exports', () => {
+    const cards = [
+      mockPortfolioCard({ card: mockMTGCard({ name: 'Lightning Bolt', setCode: 'lea' }), quantity: 4 }),
+      mockPortfolioCard({ card: mockMTGCard({ name: 'Fire // Ice', setCode: 'apc' }), quantity: 2 }),
+    ] as PortfolioCard[]
+
+    const { entries } = parseDecklist(exportCollection(cards, 'tcgplayer_mass_entry'))
+
+    expect(entries.map(e => [e.quantity, e.name, e.set, e.section])).toEqual([
+      [4, 'Lightning Bolt', 'LEA', 'main'],
+      [2, 'Fire // Ice', 'APC', 'main'],
+    ])
+  })
+
+  it('reads MTGO .dek files', () => {
+    const { entries, errors, format } = parseDecklist(`<?xml version="1.0" encoding="utf-8"?>
+<Deck xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <NetDeckID>0</NetDeckID>
+  <PreconstructedDeckID>0</PreconstructedDeckID>
+  <Cards CatID="26612" Quantity="4" Sideboard="false" Name="Lightning Bolt" Annotation="0" />
+  <Cards CatID="46589" Quantity="2" Sideboard="false" Name="Fire &amp; Ice" Annotation="0" />
+  <Cards CatID="68412" Quantity="3" Sideboard="true" Name="Duress" Annotation="0" />
+  <Cards CatID="1" Quantity="1" Sideboard="false" Annotation="0" />
+</Deck>`)
+
+    expect(format).toBe('dek')
+    expect(entries.map(e => [e.quantity, e.name, e.section])).toEqual([
+      [4, 'Lightning Bolt', 'main'],
+      [2, 'Fire & Ice', 'main'],
+      [3, 'Duress', 'sideboard'],
+    ])
+    expect(errors).toEqual(['Card 4: Missing card name'])
+  })
+})
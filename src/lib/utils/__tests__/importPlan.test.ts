@@ -0,0 +1,219 @@
+import { countChanges, fingerprintImportRows, getImportedFingerprints, planImport } from '../importPlan'
+import { ensureLots } from '../costBasis'
+import { parseEnhancedCsv } from '../csvFormatDetector'
+import {
+  addCardToPortfolioWithTracking,
+  applyImportPlan,
+  getImportBatches,
+  getPortfolioById,
+  rollbackImportBatch,
+  savePortfolio,
+  sellCardFromPortfolioWithTracking,
+} from '@/lib/storage'
+import { PortfolioTimelineService } from '@/lib/services/portfolioTimelineService'
+import { fxRateService } from '@/lib/services/fxRateService'
+import { Portfolio, PortfolioCard } from '@/lib/types'
+import { mockMTGCard, mockPortfolio, mockPortfolioCard } from '@/test-utils'
+
+const holding = (overrides: Partial<PortfolioCard> = {}) =>
+  ensureLots(mockPortfolioCard(overrides) as PortfolioCard)
+
+const otherCard = (overrides: Partial<PortfolioCard> = {}) =>
+  holding({ cardId: 'other-card-id', card: mockMTGCard({ id: 'other-card-id', name: 'Other Card' }), ...overrides })
+
+describe('planImport', () => {
+  it('skips rows that were imported before when adding', () => {
+    const existing = [holding({ quantity: 2, purchasePrice: 5 })]
+
+    const plan = planImport(existing, [
+      holding({ quantity: 2, purchasePrice: 5 }),
+      holding({ quantity: 1, purchasePrice: 8 }),
+      otherCard(),
+    ], 'add')
+
+    expect(plan.rows.map(r => [r.action, r.previousQuantity, r.newQuantity])).toEqual([
+      ['skip', 2, 2],
+      ['increase', 2, 3],
+      ['create', 0, 1],
+    ])
+    expect(countChanges(plan)).toBe(2)
+  })
+
+  it('combines rows for one holding and sets quantities when replacing', () => {
+    const existing = [holding({ quantity: 2 }), otherCard({ quantity: 3 })]
+
+    const plan = planImport(existing, [
+      holding({ quantity: 1, purchasePrice: 2 }),
+      holding({ quantity: 3, purchasePrice: 4 }),
+      otherCard({ quantity: 3 }),
+    ], 'replace')
+
+    expect(plan.rows.map(r => [r.action, r.holding.cardId, r.newQuantity])).toEqual([
+      ['replace', 'test-card-id', 4],
+      ['skip', 'other-card-id', 3],
+    ])
+  })
+
+  it('numbers alike rows in their fingerprints and leaves dates out', () => {
+    const rows = fingerprintImportRows([
+      holding({ quantity: 2, purchaseDate: '2024-01-01' }),
+      holding({ quantity: 2, purchaseDate: '2024-02-01' }),
+      otherCard({ quantity: 2 }),
+    ], [5, 5, 0])
+
+    expect(rows.map(r => r.importFingerprint)).toEqual([
+      'test-card-id-nonfoil-near_mint|2|5.00#1',
+      'test-card-id-nonfoil-near_mint|2|5.00#2',
+      'other-card-id-nonfoil-near_mint|2|0.00#1',
+    ])
+  })
+
+  it('removes holdings missing from the file when syncing', () => {
+    const existing = [holding({ quantity: 2 }), otherCard({ quantity: 3 })]
+
+    const plan = planImport(existing, [holding({ quantity: 2 })], 'sync')
+
+    expect(plan.rows.map(r => [r.action, r.holding.cardId, r.newQuantity])).toEqual([
+      ['skip', 'test-card-id', 2],
+      ['remove', 'other-card-id', 0],
+    ])
+  })
+})
+
+describe('import batches', () => {
+  const setupPortfolio = () => {
+    const portfolio = mockPortfolio() as Portfolio
+    savePortfolio(portfolio)
+    addCardToPortfolioWithTracking(portfolio.id, holding({ quantity: 2, purchasePrice: 5 }))
+    return getPortfolioById(portfolio.id)!
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('records tagged transactions and is idempotent on re-import', () => {
+    const portfolio = setupPortfolio()
+    const rows = [holding({ quantity: 1, purchasePrice: 8 }), otherCard({ quantity: 4 })]
+
+    const batch = applyImportPlan(portfolio.id, planImport(portfolio.cards, rows, 'add'))
+
+    const updated = getPortfolioById(portfolio.id)!
+    expect(updated.cards.map(c => c.quantity)).toEqual([3, 4])
+    const imported = PortfolioTimelineService.getTransactions(portfolio.id)
+      .filter(t => t.importBatchId === batch?.id)
+    expect(imported.map(t => [t.cardId, t.quantityChange, t.source])).toEqual([
+      ['test-card-id', 1, 'csv_import'],
+      ['other-card-id', 4, 'csv_import'],
+    ])
+
+    expect(countChanges(planImport(updated.cards, rows, 'add'))).toBe(0)
+  })
+
+  describe('re-importing a file without dates', () => {
+    // Moxfield exports have no purchase date, so every row is read as bought today
+    const csv = 'Count,Name,Edition,Condition,Foil,Purchase Price\n2,Test Card,TST,NM,,5.00\n1,Test Card,TST,NM,,5.00\n'
+
+    const readRows = () => {
+      const { entries } = parseEnhancedCsv(csv)
+      return fingerprintImportRows(
+        entries.map(entry => holding({ quantity: entry.quantity, purchasePrice: entry.purchasePrice, purchaseDate: entry.purchaseDate })),
+        entries.map(entry => entry.purchasePrice)
+      )
+    }
+
+    const importFile = (portfolioId: string) => {
+      const portfolio = getPortfolioById(portfolioId)!
+      const plan = planImport(portfolio.cards, readRows(), 'add', getImportedFingerprints(getImportBatches(portfolioId)))
+      return countChanges(plan) > 0 ? applyImportPlan(portfolioId, plan) : null
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-05-01T12:00:00Z'))
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('skips the rows on a later day', () => {
+      const portfolio = mockPortfolio({ cards: [] }) as Portfolio
+      savePortfolio(portfolio)
+      importFile(portfolio.id)
+      expect(getPortfolioById(portfolio.id)!.cards[0].quantity).toBe(3)
+
+      jest.setSystemTime(new Date('2024-05-09T12:00:00Z'))
+
+      expect(importFile(portfolio.id)).toBeNull()
+      expect(getPortfolioById(portfolio.id)!.cards[0].quantity).toBe(3)
+    })
+
+    it('skips the rows once their lots have been sold', () => {
+      const portfolio = mockPortfolio({ cards: [] }) as Portfolio
+      savePortfolio(portfolio)
+      importFile(portfolio.id)
+      sellCardFromPortfolioWithTracking(portfolio.id, 'test-card-id', false, 'near_mint', 2, { pricePerCard: 9 })
+
+      jest.setSystemTime(new Date('2024-05-09T12:00:00Z'))
+
+      expect(importFile(portfolio.id)).toBeNull()
+      expect(getPortfolioById(portfolio.id)!.cards[0].quantity).toBe(1)
+    })
+
+    it('imports the rows again after the import was rolled back', () => {
+      const portfolio = mockPortfolio({ cards: [] }) as Portfolio
+      savePortfolio(portfolio)
+      rollbackImportBatch(importFile(portfolio.id)!.id)
+
+      expect(importFile(portfolio.id)).not.toBeNull()
+      expect(getPortfolioById(portfolio.id)!.cards[0].quantity).toBe(3)
+    })
+  })
+
+  it('restores holdings and deletes transactions on rollback', () => {
+    const portfolio = setupPortfolio()
+    const transactionCount = PortfolioTimelineService.getTransactions(portfolio.id).length
+    const batch = applyImportPlan(portfolio.id, planImport(portfolio.cards, [otherCard()], 'sync'))!
+
+    expect(getPortfolioById(portfolio.id)!.cards.map(c => c.cardId)).toEqual(['other-card-id'])
+
+    rollbackImportBatch(batch.id)
+
+    const restored = getPortfolioById(portfolio.id)!
+    expect(restored.cards.map(c => [c.cardId, c.quantity])).toEqual([['test-card-id', 2]])
+    expect(restored.totalCost).toBe(10)
+    expect(PortfolioTimelineService.getTransactions(portfolio.id)).toHaveLength(transactionCount)
+    expect(getImportBatches(portfolio.id)[0].rolledBackAt).toBeDefined()
+    expect(() => rollbackImportBatch(batch.id)).toThrow('already been rolled back')
+  })
+
+  it('converts imported prices into the base currency', () => {
+    const portfolio = setupPortfolio()
+    fxRateService.saveRateTable({ base: 'usd', rates: { usd: 1, eur: 0.8 }, source: 'manual', updatedAt: '' })
+
+    applyImportPlan(portfolio.id, planImport(portfolio.cards, [otherCard({ purchasePrice: 8, purchaseCurrency: 'eur' })], 'add'))
+
+    const imported = getPortfolioById(portfolio.id)!.cards.find(c => c.cardId === 'other-card-id')!
+    expect(imported.purchasePrice).toBeCloseTo(10)
+    expect(imported.lots![0]).toMatchObject({ currency: 'eur', originalPricePerCard: 8 })
+    expect(PortfolioTimelineService.getTransactions(portfolio.id).pop()).toMatchObject({ currency: 'eur', originalPricePerCard: 8 })
+  })
+
+  it('refuses an import with a currency it has no rate for', () => {
+    const portfolio = setupPortfolio()
+    const rows = [otherCard(), holding({ purchasePrice: 8, purchaseCurrency: 'gbp' })]
+
+    expect(() => applyImportPlan(portfolio.id, planImport(portfolio.cards, rows, 'add'))).toThrow('No exchange rate from GBP to USD')
+    expect(getPortfolioById(portfolio.id)!.cards).toHaveLength(1)
+    expect(getImportBatches(portfolio.id)).toEqual([])
+  })
+
+  it('refuses to roll back once the imported cards have changed', () => {
+    const portfolio = setupPortfolio()
+    const batch = applyImportPlan(portfolio.id, planImport(portfolio.cards, [otherCard()], 'add'))!
+
+    addCardToPortfolioWithTracking(portfolio.id, otherCard({ quantity: 2 }))
+
+    expect(() => rollbackImportBatch(batch.id)).toThrow('can no longer be rolled back')
+  })
+})
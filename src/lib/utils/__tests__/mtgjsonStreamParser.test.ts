@@ -0,0 +1,55 @@
+import { MTGJSONStreamParser } from '../mtgjsonStreamParser'
+
+const file = JSON.stringify({
+  meta: { date: '2024-05-01', version: '5.2.2+20240501' },
+  data: {
+    LEA: { name: 'Limited Edition Alpha', cards: [{ name: 'Black Lotus', text: 'Add three mana of any one color.' }] },
+    'M\\"10': { name: 'Magic 2010 {"braces"} in a string', cards: [] },
+    'ÆTH': { size: 1, promo: true, note: null },
+  },
+  extra: [1, { data: 'not an entry' }],
+}, null, 2)
+
+const parse = (chunks: string[], skipEntry?: (key: string) => boolean) => {
+  const entries: Array<[string, unknown]> = []
+  let meta: unknown
+  const parser = new MTGJSONStreamParser({
+    onMeta: value => { meta = value },
+    onEntry: (key, value) => entries.push([key, value]),
+    skipEntry,
+  })
+  chunks.forEach(chunk => parser.write(chunk))
+  parser.end()
+  return { meta, entries }
+}
+
+describe('MTGJSONStreamParser', () => {
+  const expected = JSON.parse(file)
+
+  it('emits the meta and each data entry', () => {
+    const { meta, entries } = parse([file])
+
+    expect(meta).toEqual(expected.meta)
+    expect(entries).toEqual(Object.entries(expected.data))
+  })
+
+  it('gives the same result wherever the chunks are split', () => {
+    for (let split = 1; split < file.length; split += 7) {
+      const { entries } = parse([file.slice(0, split), file.slice(split)])
+      expect(entries).toEqual(Object.entries(expected.data))
+    }
+  })
+
+  it('skips entries without parsing them', () => {
+    const { entries } = parse([file], key => key === 'LEA')
+
+    expect(entries.map(([key]) => key)).toEqual(['M\\"10', 'ÆTH'])
+  })
+
+  it('rejects truncated data', () => {
+    const parser = new MTGJSONStreamParser({ onEntry: jest.fn() })
+    parser.write(file.slice(0, 100))
+
+    expect(() => parser.end()).toThrow('Unexpected end of MTGJSON data')
+  })
+})
@@ -0,0 +1,72 @@
+import { describeAnomaly, detectPriceAnomalies, getAnomalyBadge } from '../priceAnomalies'
+
+// Daily prices from 2024-05-01
+const series = (prices: number[]) => prices.map((price, i) => ({
+  date: new Date(Date.UTC(2024, 4, 1 + i)).toISOString().split('T')[0],
+  price,
+}))
+
+// Prices moving about 1% a day around $10
+const noise = (days: number) => Array.from({ length: days }, (_, i) => (i % 2 === 0 ? 10 : 10.1))
+
+describe('detectPriceAnomalies', () => {
+  it('finds nothing in ordinary day-to-day moves', () => {
+    expect(detectPriceAnomalies(series(noise(40)))).toEqual([])
+  })
+
+  it('reports a buyout once and the breakout that follows it', () => {
+    const prices = [...Array(20).fill(10), ...Array(6).fill(16)]
+
+    expect(detectPriceAnomalies(series(prices))).toEqual([
+      {
+        type: 'buyout',
+        direction: 'up',
+        date: '2024-05-21',
+        price: 16,
+        baseline: 10,
+        changePercent: 60,
+        severity: 'high',
+      },
+      {
+        type: 'breakout',
+        direction: 'up',
+        date: '2024-05-25',
+        price: 16,
+        baseline: 10,
+        changePercent: 60,
+        severity: 'high',
+      },
+    ])
+  })
+
+  it('reports moves far outside the usual daily range by z-score', () => {
+    const [spike] = detectPriceAnomalies(series([...noise(20), 12]))
+
+    expect(spike).toMatchObject({ type: 'zscore', direction: 'up', date: '2024-05-21', baseline: 10.1, severity: 'low' })
+    expect(spike.zScore).toBeGreaterThan(3)
+  })
+
+  it('reports breakdowns below the recent range', () => {
+    const anomalies = detectPriceAnomalies(series([...noise(20), 9.9, 9.85, 9.8, 9.75, 9.7]))
+
+    expect(anomalies).toEqual([
+      expect.objectContaining({ type: 'breakout', direction: 'down', date: '2024-05-25', baseline: 10 }),
+    ])
+  })
+
+  it('only reports moves since a date', () => {
+    const prices = series([...Array(20).fill(10), ...Array(6).fill(16)])
+
+    expect(detectPriceAnomalies(prices, { since: '2024-05-22' }).map(a => a.type)).toEqual(['breakout'])
+  })
+})
+
+describe('anomaly display', () => {
+  const [buyout] = detectPriceAnomalies(series([10, 10, 10, 16]))
+
+  it('labels and describes anomalies', () => {
+    expect(getAnomalyBadge(buyout).text).toBe('Buyout')
+    expect(describeAnomaly(buyout, price => `$${price.toFixed(2)}`))
+      .toBe('Jumped +60.0% from $10.00 to $16.00 in a few days')
+  })
+})
@@ -0,0 +1,77 @@
+import { analyzeCorrelations, clusterHierarchically, correlateReturns, cutClusters, dailyReturns } from '../priceCorrelation'
+
+// Daily prices from 2024-05-01
+const series = (prices: number[]) => prices.map((price, i) => ({
+  date: new Date(Date.UTC(2024, 4, 1 + i)).toISOString().split('T')[0],
+  price,
+}))
+
+// A random-looking walk, so series built from it have varied returns
+const walk = (seed: number, days = 30) => {
+  const prices = [10]
+  for (let i = 1; i < days; i++) {
+    prices.push(prices[i - 1] * (1 + Math.sin(seed * (i + 1) * 12.9898) * 0.05))
+  }
+  return prices
+}
+
+describe('dailyReturns', () => {
+  it('only uses prices a day apart', () => {
+    const returns = dailyReturns([
+      { date: '2024-05-01', price: 10 },
+      { date: '2024-05-02', price: 11 },
+      { date: '2024-05-04', price: 12 },
+      { date: '2024-05-05', price: 9 },
+    ])
+
+    expect(Array.from(returns.entries())).toEqual([
+      ['2024-05-02', expect.closeTo(0.1)],
+      ['2024-05-05', expect.closeTo(-0.25)],
+    ])
+  })
+})
+
+describe('correlateReturns', () => {
+  const base = dailyReturns(series(walk(1)))
+
+  it('correlates identical and opposite moves', () => {
+    const doubled = dailyReturns(series(walk(1).map(price => price * 2)))
+    const mirrored = new Map(Array.from(base.entries()).map(([date, value]) => [date, -value]))
+
+    expect(correlateReturns(base, doubled)).toBeCloseTo(1)
+    expect(correlateReturns(base, mirrored)).toBeCloseTo(-1)
+  })
+
+  it('needs enough shared days', () => {
+    expect(correlateReturns(base, dailyReturns(series(walk(2, 8))))).toBeNull()
+  })
+})
+
+describe('clustering', () => {
+  it('groups strongly correlated series', () => {
+    const matrix = [
+      [1, 0.9, 0.1, 0],
+      [0.9, 1, 0.2, 0.1],
+      [0.1, 0.2, 1, 0.8],
+      [0, 0.1, 0.8, 1],
+    ]
+    const root = clusterHierarchically(matrix)!
+
+    expect(root.members).toHaveLength(4)
+    expect(cutClusters(root, 0.4).map(members => [...members].sort())).toEqual([[0, 1], [2, 3]])
+  })
+
+  it('orders the matrix by cluster', () => {
+    const a = walk(1)
+    const b = walk(2)
+    const analysis = analyzeCorrelations([
+      { id: 'bolt', points: series(a) },
+      { id: 'goyf', points: series(b) },
+      { id: 'bolt-promo', points: series(a.map(price => price * 3)) },
+    ])
+
+    expect(Math.abs(analysis.ids.indexOf('bolt-promo') - analysis.ids.indexOf('bolt'))).toBe(1)
+    expect(analysis.clusters).toEqual([[expect.stringMatching(/^bolt/), expect.stringMatching(/^bolt/)]])
+    expect(analysis.matrix.map((row, i) => row[i])).toEqual([1, 1, 1])
+  })
+})
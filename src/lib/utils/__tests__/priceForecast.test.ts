@@ -0,0 +1,66 @@
+import { backtestForecast, forecastPrices } from '../priceForecast'
+
+// Daily prices from 2024-05-01
+const series = (prices: number[]) => prices.map((price, i) => ({
+  date: new Date(Date.UTC(2024, 4, 1 + i)).toISOString().split('T')[0],
+  price,
+}))
+
+const linear = series(Array.from({ length: 40 }, (_, i) => 10 + 0.5 * i))
+const exponential = series(Array.from({ length: 40 }, (_, i) => 10 * Math.pow(1.02, i)))
+
+describe('forecastPrices', () => {
+  it('needs at least two weeks of prices', () => {
+    expect(forecastPrices(linear.slice(0, 13), 30)).toBeNull()
+  })
+
+  it('continues a steady trend with Holt-Winters', () => {
+    const forecast = forecastPrices(linear, 30, 'holtWinters')!
+
+    expect(forecast.points).toHaveLength(30)
+    expect(forecast.points[0].date).toBe('2024-06-10')
+    expect(forecast.points[29].price).toBeCloseTo(10 + 0.5 * 69)
+    expect(forecast.points[29].upper - forecast.points[29].lower).toBeCloseTo(0)
+  })
+
+  it('projects a steady percentage change with the log-linear model', () => {
+    const forecast = forecastPrices(exponential, 90, 'logLinear')!
+
+    expect(forecast.points[89].price).toBeCloseTo(10 * Math.pow(1.02, 129))
+  })
+
+  it('widens the band further out and around noisy prices', () => {
+    const noisy = series(Array.from({ length: 40 }, (_, i) => 10 + (i % 3) - 1 + 0.1 * i))
+    const { points } = forecastPrices(noisy, 30, 'logLinear')!
+
+    expect(points[0].lower).toBeLessThan(points[0].price)
+    expect(points[0].upper).toBeGreaterThan(points[0].price)
+    expect(points[29].upper - points[29].lower).toBeGreaterThan(points[0].upper - points[0].lower)
+  })
+
+  it('picks the model that backtests better', () => {
+    expect(forecastPrices(exponential, 30)!.model).toBe('logLinear')
+  })
+})
+
+describe('backtestForecast', () => {
+  it('tests on up to a quarter of the prices', () => {
+    const backtest = backtestForecast(exponential, 30, 'logLinear')!
+
+    expect(backtest.holdout).toBe(10)
+    expect(backtest.mape).toBeCloseTo(0)
+    expect(backtest.coverage).toBe(1)
+  })
+
+  it('scores a trend that reverses badly', () => {
+    const reversal = series(Array.from({ length: 40 }, (_, i) => (i < 30 ? 10 + i : 40 - 3 * (i - 30))))
+    const backtest = backtestForecast(reversal, 30, 'holtWinters')!
+
+    expect(backtest.mape).toBeGreaterThan(20)
+    expect(backtest.coverage).toBeLessThan(0.5)
+  })
+
+  it('needs two weeks of prices besides the tested ones', () => {
+    expect(backtestForecast(linear.slice(0, 16), 30, 'logLinear')).toBeNull()
+  })
+})
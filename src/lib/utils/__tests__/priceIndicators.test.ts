@@ -0,0 +1,60 @@
+import {
+  bollingerBands,
+  calculateIndicators,
+  exponentialMovingAverage,
+  maxDrawdown,
+  rateOfChange,
+  relativeStrengthIndex,
+  simpleMovingAverage,
+} from '../priceIndicators'
+
+describe('price indicators', () => {
+  const prices = [10, 11, 12, 13, 14]
+
+  it('calculates simple and exponential moving averages', () => {
+    expect(simpleMovingAverage(prices, 3)).toEqual([null, null, 11, 12, 13])
+
+    // Starts from the simple average, then weights new prices by 2 / (3 + 1)
+    expect(exponentialMovingAverage(prices, 3)).toEqual([null, null, 11, 12, 13])
+    expect(exponentialMovingAverage([10, 11, 12, 20], 3)).toEqual([null, null, 11, 15.5])
+  })
+
+  it('calculates Bollinger bands two deviations from the average', () => {
+    const [first, second, band] = bollingerBands([2, 4, 6], 3)
+
+    expect(first).toBeNull()
+    expect(second).toBeNull()
+    expect(band!.middle).toBe(4)
+    expect(band!.upper).toBeCloseTo(4 + 2 * Math.sqrt(8 / 3))
+    expect(band!.lower).toBeCloseTo(4 - 2 * Math.sqrt(8 / 3))
+  })
+
+  it('calculates RSI with Wilder smoothing', () => {
+    expect(relativeStrengthIndex(prices, 3)).toEqual([null, null, null, 100, 100])
+    expect(relativeStrengthIndex([5, 5, 5, 5], 3)[3]).toBe(50)
+
+    // Average gain 2/3 and loss 1/3, then after a loss of 2 gain 4/9 and loss 8/9
+    const rsi = relativeStrengthIndex([10, 11, 10, 11, 9], 3)
+    expect(rsi[3]).toBeCloseTo(66.67)
+    expect(rsi[4]).toBeCloseTo(33.33)
+  })
+
+  it('calculates the rate of change', () => {
+    expect(rateOfChange([10, 12, 15, 9], 2)).toEqual([null, null, 50, -25])
+    expect(rateOfChange([0, 1, 2], 1)).toEqual([null, null, 100])
+  })
+
+  it('finds the largest drawdown', () => {
+    expect(maxDrawdown([10, 8, 12, 6, 9, 3])).toEqual({ percent: 75, peakIndex: 2, troughIndex: 5 })
+    expect(maxDrawdown(prices)).toEqual({ percent: 0, peakIndex: 0, troughIndex: 0 })
+    expect(maxDrawdown([10])).toBeNull()
+  })
+
+  it('collects the selected indicators per price', () => {
+    const values = calculateIndicators(Array.from({ length: 20 }, (_, i) => 1 + i), ['sma', 'roc'])
+
+    expect(values[5]).toEqual({})
+    expect(values[6]).toEqual({ sma: 4 })
+    expect(values[7]).toEqual({ sma: 5, roc: 700 })
+  })
+})
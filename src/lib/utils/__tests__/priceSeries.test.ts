@@ -0,0 +1,93 @@
+import { PriceSeriesPoint } from '@/lib/types'
+import {
+  aggregatePoints,
+  compactSeries,
+  flattenPriceHistory,
+  getPeriodStart,
+  getWindowStart,
+  toProcessedPrices,
+} from '../priceSeries'
+
+const now = new Date('2024-06-30T12:00:00Z')
+
+const day = (date: string, price: number): PriceSeriesPoint => ({
+  uuid: 'bolt',
+  provider: 'tcgplayer',
+  finish: 'normal',
+  date,
+  price,
+  resolution: 'day',
+})
+
+// One daily point per day from `start` through `end`
+const days = (start: string, end: string, price: (date: string) => number) => {
+  const points: PriceSeriesPoint[] = []
+  for (let d = new Date(`${start}T00:00:00Z`); d <= new Date(`${end}T00:00:00Z`); d.setUTCDate(d.getUTCDate() + 1)) {
+    const date = d.toISOString().split('T')[0]
+    points.push(day(date, price(date)))
+  }
+  return points
+}
+
+describe('price series', () => {
+  it('finds period and window starts', () => {
+    expect(getPeriodStart('2024-06-30', 'week')).toBe('2024-06-24')
+    expect(getPeriodStart('2024-06-24', 'week')).toBe('2024-06-24')
+    expect(getPeriodStart('2024-06-30', 'month')).toBe('2024-06-01')
+    expect(getWindowStart('7d', now)).toBe('2024-06-23')
+    expect(getWindowStart('1y', now)).toBe('2023-07-01')
+    expect(getWindowStart('all', now)).toBe('')
+  })
+
+  it('weights aggregates by the days they cover', () => {
+    const week: PriceSeriesPoint = { ...day('2024-06-03', 10), resolution: 'week', low: 8, high: 12, count: 6 }
+
+    expect(aggregatePoints([week, day('2024-06-09', 3)], 'week')).toEqual([
+      { ...day('2024-06-03', 9), resolution: 'week', low: 3, high: 12, count: 7 },
+    ])
+  })
+
+  it('compacts old days into weeks and old weeks into months', () => {
+    // $1 the week of May 20th, $4 the week of May 27th, $2 after that
+    const points = days('2024-05-20', '2024-06-30', date => (date < '2024-05-27' ? 1 : date < '2024-06-03' ? 4 : 2))
+    const compacted = compactSeries(points, { dailyDays: 7, weeklyDays: 28, maxDays: null }, now)
+
+    expect(compacted.slice(0, 3)).toEqual([
+      { ...day('2024-05-01', 2.5), resolution: 'month', low: 1, high: 4, count: 14 },
+      { ...day('2024-06-03', 2), resolution: 'week', low: 2, high: 2, count: 7 },
+      { ...day('2024-06-10', 2), resolution: 'week', low: 2, high: 2, count: 7 },
+    ])
+    expect(compacted.slice(3)).toEqual(points.filter(point => point.date >= '2024-06-17'))
+
+    // Compacting again changes nothing
+    expect(compactSeries(compacted, { dailyDays: 7, weeklyDays: 28, maxDays: null }, now)).toEqual(compacted)
+  })
+
+  it('drops points past the retention limit', () => {
+    const points = days('2024-06-01', '2024-06-30', () => 1)
+    const compacted = compactSeries(points, { dailyDays: 90, weeklyDays: 730, maxDays: 10 }, now)
+
+    expect(compacted.map(point => point.date)[0]).toBe('2024-06-20')
+    expect(compacted).toHaveLength(11)
+  })
+
+  it('converts between MTGJSON histories and chart prices', () => {
+    const points = flattenPriceHistory('bolt', {
+      paper: {
+        tcgplayer: { normal: [{ date: '2024-06-01', price: 1.5 }], foil: [{ date: '2024-06-01', price: 4 }] },
+      },
+      mtgo: { cardhoarder: { normal: [{ date: '2024-06-01', price: 0.02 }] } },
+    })
+
+    expect(points).toEqual([
+      day('2024-06-01', 1.5),
+      { ...day('2024-06-01', 4), finish: 'foil' },
+      { ...day('2024-06-01', 0.02), provider: 'cardhoarder' },
+    ])
+    expect(toProcessedPrices('card-1', points).map(price => [price.priceType, price.provider])).toEqual([
+      ['usd', 'tcgplayer'],
+      ['usdFoil', 'tcgplayer'],
+      ['tix', 'cardhoarder'],
+    ])
+  })
+})
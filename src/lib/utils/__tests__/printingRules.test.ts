@@ -0,0 +1,49 @@
+import { applyPrintingRules, findPrintingRule, isAmbiguousEntry } from '../printingRules'
+import { CsvEntry } from '../csvFormatDetector'
+import { PrintingRule } from '@/lib/types'
+
+const entry = (overrides: Partial<CsvEntry> = {}): CsvEntry => ({
+  name: 'Lightning Bolt',
+  quantity: 1,
+  condition: 'near_mint',
+  foil: false,
+  purchasePrice: 0,
+  purchaseDate: '2024-01-01',
+  ...overrides,
+})
+
+const rule = (overrides: Partial<PrintingRule> = {}): PrintingRule => ({
+  id: 'rule-1',
+  name: 'lightning bolt',
+  scryfallId: 'bolt-m10',
+  setCode: 'M10',
+  collectorNumber: '146',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+describe('printingRules', () => {
+  it('treats rows without a Scryfall ID or collector number as ambiguous', () => {
+    expect(isAmbiguousEntry(entry())).toBe(true)
+    expect(isAmbiguousEntry(entry({ set: 'M10' }))).toBe(true)
+    expect(isAmbiguousEntry(entry({ set: 'M10', collectorNumber: '146' }))).toBe(false)
+    expect(isAmbiguousEntry(entry({ scryfallId: 'abc' }))).toBe(false)
+  })
+
+  it('matches rules on name and set, ignoring case', () => {
+    const rules = [rule(), rule({ id: 'rule-2', set: 'lea', scryfallId: 'bolt-lea' })]
+
+    expect(findPrintingRule(rules, entry({ name: 'LIGHTNING BOLT ' }))?.id).toBe('rule-1')
+    expect(findPrintingRule(rules, entry({ set: 'LEA' }))?.id).toBe('rule-2')
+    expect(findPrintingRule(rules, entry({ set: '2ED' }))).toBeUndefined()
+  })
+
+  it('only fills in rows that are ambiguous', () => {
+    const entries = [entry(), entry({ set: 'M10', collectorNumber: '146' }), entry({ name: 'Opt' })]
+
+    const resolved = applyPrintingRules(entries, [rule()])
+
+    expect(resolved.map(e => e.scryfallId)).toEqual(['bolt-m10', undefined, undefined])
+    expect(resolved[1]).toBe(entries[1])
+  })
+})
@@ -0,0 +1,84 @@
+import { calculateTimeWeightedReturn, calculateXirr } from '../returns'
+
+describe('returns', () => {
+  describe('calculateTimeWeightedReturn', () => {
+    it('chains sub-period returns and removes the effect of contributions', () => {
+      const valuations = [
+        { date: '2024-01-01', value: 100 },
+        { date: '2024-01-02', value: 110 },
+        // 100 added on the 3rd, value grew 10% on the 110 already held
+        { date: '2024-01-03', value: 221 },
+      ]
+      const flows = [{ date: '2024-01-03', amount: 100 }]
+
+      expect(calculateTimeWeightedReturn(valuations, flows)).toBeCloseTo(1.1 * 1.1 - 1)
+    })
+
+    it('treats withdrawals as money taken out rather than losses', () => {
+      const valuations = [
+        { date: '2024-01-01', value: 100 },
+        { date: '2024-01-02', value: 50 },
+      ]
+      const flows = [{ date: '2024-01-02', amount: -50 }]
+
+      expect(calculateTimeWeightedReturn(valuations, flows)).toBeCloseTo(0)
+    })
+
+    it('skips periods that start from an empty portfolio', () => {
+      const valuations = [
+        { date: '2024-01-01', value: 0 },
+        { date: '2024-01-02', value: 100 },
+        { date: '2024-01-03', value: 120 },
+      ]
+      const flows = [{ date: '2024-01-02', amount: 100 }]
+
+      expect(calculateTimeWeightedReturn(valuations, flows)).toBeCloseTo(0.2)
+    })
+
+    it('returns null without a measurable period', () => {
+      expect(calculateTimeWeightedReturn([{ date: '2024-01-01', value: 100 }], [])).toBeNull()
+      expect(calculateTimeWeightedReturn([], [])).toBeNull()
+    })
+  })
+
+  describe('calculateXirr', () => {
+    it('finds the annual rate for a single investment', () => {
+      const rate = calculateXirr([
+        { date: '2023-01-01', amount: -100 },
+        { date: '2024-01-01', amount: 110 },
+      ])
+
+      expect(rate).toBeCloseTo(0.1, 4)
+    })
+
+    it('weights returns by the money invested over time', () => {
+      const rate = calculateXirr([
+        { date: '2008-01-01', amount: -10000 },
+        { date: '2008-03-01', amount: 2750 },
+        { date: '2008-10-30', amount: 4250 },
+        { date: '2009-02-15', amount: 3250 },
+        { date: '2009-04-01', amount: 2750 },
+      ])
+
+      // Reference value from spreadsheet XIRR
+      expect(rate).toBeCloseTo(0.373363, 4)
+    })
+
+    it('handles losses', () => {
+      const rate = calculateXirr([
+        { date: '2023-01-01', amount: -100 },
+        { date: '2024-01-01', amount: 50 },
+      ])
+
+      expect(rate).toBeCloseTo(-0.5, 4)
+    })
+
+    it('returns null when every flow has the same sign', () => {
+      expect(calculateXirr([{ date: '2023-01-01', amount: -100 }])).toBeNull()
+      expect(calculateXirr([
+        { date: '2023-01-01', amount: 100 },
+        { date: '2024-01-01', amount: 100 },
+      ])).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * AllPrintings Ingestion
+ * Streams AllPrintings.json into IndexedDB set by set. Progress is saved
+ * after every set, so an import that was cancelled or cut off by closing
+ * the tab resumes with the sets it hadn't stored yet.
+ */
+
+import { allPrintingsStorage, AllPrintingsIngestState } from './allPrintingsStorage';
+import { MTGJSONStreamParser } from './mtgjsonStreamParser';
+
+export const ALL_PRINTINGS_URL = 'https://mtgjson.com/api/v5/AllPrintings.json';
+
+export interface AllPrintingsIngestProgress {
+  setsStored: number;
+  cardsStored: number;
+  bytesReceived: number;
+  totalBytes: number | null; // Unknown without a Content-Length
+  currentSet?: string;
+}
+
+export interface AllPrintingsIngestResult {
+  totalSets: number;
+  totalCards: number;
+}
+
+// Messages between the ingestion worker and the page
+export type AllPrintingsWorkerRequest =
+  | { type: 'start'; url: string }
+  | { type: 'cancel' };
+
+export type AllPrintingsWorkerMessage =
+  | { type: 'progress'; progress: AllPrintingsIngestProgress }
+  | ({ type: 'complete' } & AllPrintingsIngestResult)
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
+
+export async function ingestAllPrintings(
+  url: string,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (progress: AllPrintingsIngestProgress) => void;
+  } = {}
+): Promise<AllPrintingsIngestResult> {
+  const { signal, onProgress } = options;
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('Unable to read response stream');
+  }
+
+  const totalBytes = Number(response.headers.get('content-length')) || null;
+  let state: AllPrintingsIngestState | null = await allPrintingsStorage.getIngestState();
+  const completedSets = new Set(state?.completedSets || []);
+  const parsedSets: Array<[string, unknown]> = [];
+  let bytesReceived = 0;
+
+  const parser = new MTGJSONStreamParser({
+    onMeta: meta => {
+      // Sets stored from another MTGJSON version can't be mixed in
+      if (state && state.version !== meta.version) {
+        completedSets.clear();
+        state = null;
+      }
+      state = state || {
+        version: meta.version,
+        date: meta.date,
+        completedSets: [],
+        chunks: [],
+        totalCards: 0,
+        startedAt: new Date().toISOString(),
+      };
+    },
+    skipEntry: setCode => completedSets.has(setCode),
+    onEntry: (setCode, setData) => parsedSets.push([setCode, setData]),
+  });
+
+  const storeParsedSets = async () => {
+    while (parsedSets.length > 0) {
+      if (signal?.aborted) {
+        throw new DOMException('AllPrintings import cancelled', 'AbortError');
+      }
+      if (!state) {
+        throw new Error('Invalid AllPrintings data: meta must come before data');
+      }
+
+      const [setCode, setData] = parsedSets.shift()!;
+      const { chunks, cardCount } = await allPrintingsStorage.storeSet(setCode, setData);
+
+      state.completedSets.push(setCode);
+      state.chunks.push(...chunks);
+      state.totalCards += cardCount;
+      await allPrintingsStorage.saveIngestState(state);
+
+      onProgress?.({
+        setsStored: state.completedSets.length,
+        cardsStored: state.totalCards,
+        bytesReceived,
+        totalBytes,
+        currentSet: setCode,
+      });
+    }
+  };
+
+  const decoder = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytesReceived += value.length;
+    parser.write(decoder.decode(value, { stream: true }));
+    await storeParsedSets();
+  }
+
+  parser.write(decoder.decode());
+  parser.end();
+  await storeParsedSets();
+
+  const finished = state as AllPrintingsIngestState | null;
+  if (!finished) {
+    throw new Error('Invalid AllPrintings data: meta not found');
+  }
+
+  await allPrintingsStorage.finishIngest(finished);
+  return { totalSets: finished.completedSets.length, totalCards: finished.totalCards };
+}
@@ -3,8 +3,6 @@
  * Handles the large (~200MB) dataset efficiently using IndexedDB with compression
  */
 
-import { storageManager } from '@/lib/storage';
-
 interface CompressedChunk {
   id: string;
   setCode: string;
@@ -23,12 +21,24 @@ interface AllPrintingsMetadata {
   lastUpdated: string;
 }
 
+// Progress of an AllPrintings import, so an interrupted one can resume
+interface AllPrintingsIngestState {
+  version: string;
+  date: string;
+  completedSets: string[];
+  chunks: string[];
+  totalCards: number;
+  startedAt: string;
+}
+
 interface SetCardData {
   uuid: string;
   name: string;
   setCode: string;
   number: string;
   rarity: string;
+  frameVersion?: string; // e.g. "1993", "2015", "future"
+  isPromo?: boolean;
   identifiers?: {
     scryfallId?: string;
     multiverseId?: number;
@@ -38,6 +48,7 @@ interface SetCardData {
 class AllPrintingsStorage {
   private readonly CHUNK_SIZE = 50; // Cards per chunk
   private readonly METADATA_KEY = 'allprintings-metadata';
+  private readonly INGEST_STATE_KEY = 'allprintings-ingest';
   private readonly CHUNK_PREFIX = 'chunk-';
 
   /**
@@ -60,43 +71,11 @@ class AllPrintingsStorage {
       
       // Process each set
       for (const [setCode, setData] of Object.entries(allPrintingsData.data as Record<string, any>)) {
-        const cards = setData.cards || [];
+        const setChunks = await this.buildSetChunks(setCode, setData);
         metadata.totalSets++;
-        metadata.totalCards += cards.length;
-
-        // Split large sets into chunks
-        for (let i = 0; i < cards.length; i += this.CHUNK_SIZE) {
-          const chunkCards = cards.slice(i, i + this.CHUNK_SIZE);
-          const chunkId = `${setCode}-${Math.floor(i / this.CHUNK_SIZE)}`;
-          
-          // Extract only necessary data for mapping
-          const optimizedCards: SetCardData[] = chunkCards.map((card: any) => ({
-            uuid: card.uuid,
-            name: card.name,
-            setCode: card.setCode || setCode,
-            number: card.number,
-            rarity: card.rarity,
-            identifiers: card.identifiers ? {
-              scryfallId: card.identifiers.scryfallId,
-              multiverseId: card.identifiers.multiverseId,
-            } : undefined,
-          }));
-
-          // Compress the data
-          const compressed = await this.compressData(optimizedCards);
-          
-          const chunk: CompressedChunk = {
-            id: chunkId,
-            setCode,
-            compressedData: compressed,
-            uncompressedSize: JSON.stringify(optimizedCards).length,
-            cardCount: optimizedCards.length,
-            lastUpdated: new Date().toISOString(),
-          };
-
-          chunks.push(chunk);
-          metadata.chunks.push(chunkId);
-        }
+        metadata.totalCards += setChunks.reduce((total, chunk) => total + chunk.cardCount, 0);
+        chunks.push(...setChunks);
+        metadata.chunks.push(...setChunks.map(chunk => chunk.id));
       }
 
       // Store chunks in batches to avoid overwhelming IndexedDB
@@ -122,6 +101,50 @@ class AllPrintingsStorage {
     }
   }
 
+  /**
+   * Store a single set of AllPrintings data, returning its chunk IDs
+   */
+  async storeSet(setCode: string, setData: any): Promise<{ chunks: string[]; cardCount: number }> {
+    const chunks = await this.buildSetChunks(setCode, setData);
+    await this.storeChunksInBatches(chunks);
+
+    return {
+      chunks: chunks.map(chunk => chunk.id),
+      cardCount: chunks.reduce((total, chunk) => total + chunk.cardCount, 0),
+    };
+  }
+
+  async getIngestState(): Promise<AllPrintingsIngestState | null> {
+    return this.getMetadataValue<AllPrintingsIngestState>(this.INGEST_STATE_KEY);
+  }
+
+  async saveIngestState(state: AllPrintingsIngestState): Promise<void> {
+    return this.putMetadataValue(this.INGEST_STATE_KEY, state);
+  }
+
+  /**
+   * Store the metadata of a finished import, making its sets available
+   */
+  async finishIngest(state: AllPrintingsIngestState): Promise<void> {
+    await this.storeMetadata({
+      version: state.version,
+      date: state.date,
+      totalSets: state.completedSets.length,
+      totalCards: state.totalCards,
+      chunks: state.chunks,
+      lastUpdated: new Date().toISOString(),
+    });
+    await this.clearIngestState();
+  }
+
+  async clearIngestState(): Promise<void> {
+    try {
+      await this.deleteMetadataValue(this.INGEST_STATE_KEY);
+    } catch (error) {
+      console.error('Failed to clear AllPrintings import state:', error);
+    }
+  }
+
   /**
    * Retrieve specific set data
    */
@@ -151,9 +174,10 @@ class AllPrintingsStorage {
   }
 
   /**
-   * Search for cards across all sets
+   * Search for cards across all sets. With exactName only cards with
+   * exactly that name match, i.e. every printing of one card.
    */
-  async searchCards(searchTerm: string, maxResults = 50): Promise<SetCardData[]> {
+  async searchCards(searchTerm: string, maxResults = 50, exactName = false): Promise<SetCardData[]> {
     try {
       const metadata = await this.getMetadata();
       if (!metadata) return [];
@@ -173,7 +197,8 @@ class AllPrintingsStorage {
         for (const card of cards) {
           if (results.length >= maxResults) break;
           
-          if (card.name.toLowerCase().includes(normalizedSearch)) {
+          const cardName = card.name.toLowerCase();
+          if (exactName ? cardName === normalizedSearch : cardName.includes(normalizedSearch)) {
             results.push(card);
           }
         }
@@ -256,8 +281,9 @@ class AllPrintingsStorage {
         }
       }
 
-      // Remove metadata
+      // Remove metadata and any unfinished import
       await this.removeMetadata();
+      await this.clearIngestState();
       
       // Also clear any old localStorage data from previous versions
       this.clearLegacyLocalStorageData();
@@ -319,6 +345,46 @@ class AllPrintingsStorage {
 
   // Private helper methods
 
+  private async buildSetChunks(setCode: string, setData: any): Promise<CompressedChunk[]> {
+    const cards = setData.cards || [];
+    const chunks: CompressedChunk[] = [];
+
+    // Split large sets into chunks
+    for (let i = 0; i < cards.length; i += this.CHUNK_SIZE) {
+      const chunkCards = cards.slice(i, i + this.CHUNK_SIZE);
+      const chunkId = `${setCode}-${Math.floor(i / this.CHUNK_SIZE)}`;
+      
+      // Extract only necessary data for mapping
+      const optimizedCards: SetCardData[] = chunkCards.map((card: any) => ({
+        uuid: card.uuid,
+        name: card.name,
+        setCode: card.setCode || setCode,
+        number: card.number,
+        rarity: card.rarity,
+        frameVersion: card.frameVersion,
+        isPromo: card.isPromo || undefined,
+        identifiers: card.identifiers ? {
+          scryfallId: card.identifiers.scryfallId,
+          multiverseId: card.identifiers.multiverseId,
+        } : undefined,
+      }));
+
+      // Compress the data
+      const compressed = await this.compressData(optimizedCards);
+      
+      chunks.push({
+        id: chunkId,
+        setCode,
+        compressedData: compressed,
+        uncompressedSize: JSON.stringify(optimizedCards).length,
+        cardCount: optimizedCards.length,
+        lastUpdated: new Date().toISOString(),
+      });
+    }
+
+    return chunks;
+  }
+
   private async compressData(data: SetCardData[]): Promise<string> {
     try {
       // Simple compression using JSON stringify with reduced precision
@@ -500,52 +566,68 @@ class AllPrintingsStorage {
   }
 
   private async storeMetadata(metadata: AllPrintingsMetadata): Promise<void> {
+    return this.putMetadataValue(this.METADATA_KEY, metadata);
+  }
+
+  private async getMetadata(): Promise<AllPrintingsMetadata | null> {
+    return this.getMetadataValue<AllPrintingsMetadata>(this.METADATA_KEY);
+  }
+
+  private async removeMetadata(): Promise<void> {
+    try {
+      await this.deleteMetadataValue(this.METADATA_KEY);
+    } catch (error) {
+      console.error('Failed to remove metadata:', error);
+      // Don't fail for cleanup errors
+    }
+  }
+
+  private async putMetadataValue(key: string, value: unknown): Promise<void> {
     return new Promise(async (resolve, reject) => {
       try {
         const db = await this.openIndexedDB();
         const transaction = db.transaction(['metadata'], 'readwrite');
         const store = transaction.objectStore('metadata');
         
-        const request = store.put(metadata, 'allprintings-metadata');
+        const request = store.put(value, key);
         request.onsuccess = () => resolve();
         request.onerror = () => reject(request.error);
       } catch (error) {
-        console.error('Failed to store metadata:', error);
+        console.error(`Failed to store ${key}:`, error);
         reject(error);
       }
     });
   }
 
-  private async getMetadata(): Promise<AllPrintingsMetadata | null> {
+  private async getMetadataValue<T>(key: string): Promise<T | null> {
     return new Promise(async (resolve, reject) => {
       try {
         const db = await this.openIndexedDB();
         const transaction = db.transaction(['metadata'], 'readonly');
         const store = transaction.objectStore('metadata');
         
-        const request = store.get('allprintings-metadata');
+        const request = store.get(key);
         request.onsuccess = () => resolve(request.result || null);
         request.onerror = () => reject(request.error);
       } catch (error) {
-        console.error('Failed to get metadata:', error);
+        console.error(`Failed to get ${key}:`, error);
         resolve(null);
       }
     });
   }
 
-  private async removeMetadata(): Promise<void> {
+  private async deleteMetadataValue(key: string): Promise<void> {
     return new Promise(async (resolve, reject) => {
       try {
         const db = await this.openIndexedDB();
         const transaction = db.transaction(['metadata'], 'readwrite');
         const store = transaction.objectStore('metadata');
         
-        const request = store.delete('allprintings-metadata');
+        const request = store.delete(key);
         request.onsuccess = () => resolve();
         request.onerror = () => reject(request.error);
       } catch (error) {
-        console.error('Failed to remove metadata:', error);
-        resolve(); // Don't fail for cleanup errors
+        reject(error);
       }
     });
   }
@@ -591,4 +673,4 @@ class AllPrintingsStorage {
 export const allPrintingsStorage = new AllPrintingsStorage();
 
 // Export types
-export type { SetCardData, AllPrintingsMetadata };
+export type { SetCardData, AllPrintingsMetadata, AllPrintingsIngestState };
@@ -0,0 +1,228 @@
+/**
+ * Collection Export
+ * Writes portfolio holdings in the import formats of other collection
+ * tools. Each CSV layout is one parseEnhancedCsv detects and reads back,
+ * and Mass Entry lists are read back by parseDecklist.
+ */
+
+import { PortfolioCard } from '@/lib/types';
+import { stringifyCsv } from './csvParser';
+
+export type ExportFormat = 'moxfield' | 'archidekt' | 'deckbox' | 'tcgplayer' | 'tcgplayer_mass_entry';
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: 'csv' | 'txt';
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  moxfield: { label: 'Moxfield', extension: 'csv', mimeType: 'text/csv' },
+  archidekt: { label: 'Archidekt', extension: 'csv', mimeType: 'text/csv' },
+  deckbox: { label: 'Deckbox', extension: 'csv', mimeType: 'text/csv' },
+  tcgplayer: { label: 'TCGplayer app', extension: 'csv', mimeType: 'text/csv' },
+  tcgplayer_mass_entry: { label: 'TCGplayer Mass Entry', extension: 'txt', mimeType: 'text/plain' },
+};
+
+type Condition = PortfolioCard['condition'];
+
+// Grades these tools don't have are written as the closest one they do,
+// so excellent and good come back as light_played
+const US_CONDITIONS: Record<Condition, string> = {
+  mint: 'Mint',
+  near_mint: 'Near Mint',
+  excellent: 'Lightly Played',
+  good: 'Lightly Played',
+  light_played: 'Lightly Played',
+  played: 'Moderately Played',
+  poor: 'Damaged',
+};
+
+const DECKBOX_CONDITIONS: Record<Condition, string> = {
+  mint: 'Mint',
+  near_mint: 'Near Mint',
+  excellent: 'Good (Lightly Played)',
+  good: 'Good (Lightly Played)',
+  light_played: 'Good (Lightly Played)',
+  played: 'Played',
+  poor: 'Poor',
+};
+
+const TCGPLAYER_CONDITIONS: Record<Condition, string> = {
+  ...US_CONDITIONS,
+  mint: 'Near Mint', // TCGplayer has no mint grade
+};
+
+// Holdings don't record a language, so everything is exported as English
+const DEFAULT_LANGUAGE = 'English';
+
+/**
+ * Export holdings in the given format. Pass a filtered list to export
+ * part of a portfolio.
+ */
+export function exportCollection(cards: PortfolioCard[], format: ExportFormat): string {
+  switch (format) {
+    case 'moxfield':
+      return exportMoxfield(cards);
+    case 'archidekt':
+      return exportArchidekt(cards);
+    case 'deckbox':
+      return exportDeckbox(cards);
+    case 'tcgplayer':
+      return exportTcgplayer(cards);
+    case 'tcgplayer_mass_entry':
+      return exportTcgplayerMassEntry(cards);
+  }
+}
+
+/**
+ * File name for an export, e.g. "my-collection-moxfield.csv"
+ */
+export function getExportFileName(name: string, format: ExportFormat): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'collection';
+  return `${slug}-${format.replace(/_/g, '-')}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Moxfield collection CSV. Set codes are lowercase, as Moxfield writes them.
+ */
+function exportMoxfield(cards: PortfolioCard[]): string {
+  const header = [
+    'Count', 'Tradelist Count', 'Name', 'Edition', 'Condition', 'Language',
+    'Foil', 'Tags', 'Collector Number', 'Alter', 'Proxy', 'Purchase Price'
+  ];
+
+  return stringifyCsv([
+    header,
+    ...cards.map(holding => [
+      String(holding.quantity),
+      '0',
+      holding.card.name,
+      holding.card.setCode.toLowerCase(),
+      US_CONDITIONS[holding.condition],
+      DEFAULT_LANGUAGE,
+      holding.foil ? 'foil' : '',
+      holding.notes || '',
+      holding.card.number || '',
+      'False',
+      'False',
+      formatPrice(holding.purchasePrice)
+    ])
+  ]);
+}
+
+/**
+ * Archidekt collection CSV
+ */
+function exportArchidekt(cards: PortfolioCard[]): string {
+  const header = [
+    'Quantity', 'Name', 'Finish', 'Condition', 'Date Added', 'Language', 'Purchase Price',
+    'Tags', 'Edition Name', 'Edition Code', 'Collector Number', 'Scryfall ID'
+  ];
+
+  return stringifyCsv([
+    header,
+    ...cards.map(holding => [
+      String(holding.quantity),
+      holding.card.name,
+      holding.foil ? 'Foil' : 'Normal',
+      US_CONDITIONS[holding.condition],
+      holding.purchaseDate.split('T')[0],
+      DEFAULT_LANGUAGE,
+      formatPrice(holding.purchasePrice),
+      holding.notes || '',
+      holding.card.setName,
+      holding.card.setCode.toUpperCase(),
+      holding.card.number || '',
+      holding.card.scryfallId || ''
+    ])
+  ]);
+}
+
+/**
+ * Deckbox inventory CSV
+ */
+function exportDeckbox(cards: PortfolioCard[]): string {
+  const header = [
+    'Count', 'Tradelist Count', 'Name', 'Edition', 'Edition Code', 'Card Number', 'Condition',
+    'Language', 'Foil', 'Signed', 'Artist Proof', 'Altered Art', 'Misprint', 'Promo', 'Textless',
+    'Printing Id', 'Printing Note', 'Tags', 'My Price'
+  ];
+
+  return stringifyCsv([
+    header,
+    ...cards.map(holding => [
+      String(holding.quantity),
+      '0',
+      holding.card.name,
+      holding.card.setName,
+      holding.card.setCode.toUpperCase(),
+      holding.card.number || '',
+      DECKBOX_CONDITIONS[holding.condition],
+      DEFAULT_LANGUAGE,
+      holding.foil ? 'foil' : '',
+      '', '', '', '', '', '', '', '',
+      holding.notes || '',
+      `$${formatPrice(holding.purchasePrice)}`
+    ])
+  ]);
+}
+
+/**
+ * TCGplayer app collection CSV. It has no purchase prices.
+ */
+function exportTcgplayer(cards: PortfolioCard[]): string {
+  const header = [
+    'Quantity', 'Name', 'Simple Name', 'Set', 'Card Number', 'Set Code', 'Printing',
+    'Condition', 'Language', 'Rarity', 'Product ID', 'SKU'
+  ];
+
+  return stringifyCsv([
+    header,
+    ...cards.map(holding => [
+      String(holding.quantity),
+      holding.card.name,
+      holding.card.name,
+      holding.card.setName,
+      holding.card.number || '',
+      holding.card.setCode.toUpperCase(),
+      holding.foil ? 'Foil' : 'Normal',
+      TCGPLAYER_CONDITIONS[holding.condition],
+      DEFAULT_LANGUAGE,
+      capitalize(holding.card.rarity),
+      '',
+      ''
+    ])
+  ]);
+}
+
+/**
+ * TCGplayer Mass Entry list, one "4 Lightning Bolt [M10]" line per holding.
+ * Copies of one printing in different conditions are combined, since the
+ * list has no condition or finish.
+ */
+function exportTcgplayerMassEntry(cards: PortfolioCard[]): string {
+  const lines = new Map<string, { quantity: number; text: string }>();
+
+  cards.forEach(holding => {
+    const text = `${holding.card.name} [${holding.card.setCode.toUpperCase()}]`;
+    const line = lines.get(text);
+    if (line) {
+      line.quantity += holding.quantity;
+    } else {
+      lines.set(text, { quantity: holding.quantity, text });
+    }
+  });
+
+  return Array.from(lines.values())
+    .map(line => `${line.quantity} ${line.text}\n`)
+    .join('');
+}
+
+function formatPrice(price: number): string {
+  return (price || 0).toFixed(2);
+}
+
+function capitalize(value: string): string {
+  return value ? value.charAt(0).toUpperCase() + value.slice(1) : '';
+}
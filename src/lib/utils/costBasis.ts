@@ -0,0 +1,183 @@
+/**
+ * Cost Basis Utilities
+ * Lot-level bookkeeping for portfolio holdings. Each purchase is kept as a
+ * separate lot and removals consume lots according to the portfolio's
+ * cost basis method.
+ */
+
+import { CostBasisMethod, PortfolioCard, PurchaseLot } from '@/lib/types';
+import { generateUUID } from './uuid';
+
+export interface LotSummary {
+  quantity: number;
+  totalCost: number;
+  averageCostBasis: number;
+}
+
+export interface LotConsumption {
+  remaining: PurchaseLot[];
+  consumed: PurchaseLot[];
+}
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO (first in, first out)',
+  lifo: 'LIFO (last in, first out)',
+  average: 'Average cost',
+};
+
+/**
+ * Create a new purchase lot
+ */
+export function createLot(quantity: number, pricePerCard: number, purchaseDate?: string): PurchaseLot {
+  return {
+    id: generateUUID(),
+    quantity,
+    pricePerCard,
+    purchaseDate: purchaseDate || new Date().toISOString(),
+  };
+}
+
+/**
+ * Lots of a holding. Holdings saved before lots were tracked are treated
+ * as a single lot at their purchase price.
+ */
+export function getHoldingLots(card: PortfolioCard): PurchaseLot[] {
+  if (card.lots && card.lots.length > 0) {
+    return card.lots;
+  }
+
+  return [{
+    id: `initial-${card.cardId}`,
+    quantity: card.quantity,
+    pricePerCard: card.purchasePrice,
+    purchaseDate: card.purchaseDate,
+  }];
+}
+
+export function summarizeLots(lots: PurchaseLot[]): LotSummary {
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const totalCost = lots.reduce((sum, lot) => sum + lot.quantity * lot.pricePerCard, 0);
+
+  return {
+    quantity,
+    totalCost,
+    averageCostBasis: quantity > 0 ? totalCost / quantity : 0,
+  };
+}
+
+/**
+ * Total cost of the remaining cards in a holding
+ */
+export function getHoldingCostBasis(card: PortfolioCard): number {
+  return summarizeLots(getHoldingLots(card)).totalCost;
+}
+
+/**
+ * Remove a quantity from a set of lots using the given method.
+ * FIFO consumes the oldest lots first, LIFO the newest. Average cost
+ * re-prices every lot at the pooled average before consuming, so the
+ * remaining lots keep the same average as before the removal.
+ */
+export function consumeLots(
+  lots: PurchaseLot[],
+  quantity: number,
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+): LotConsumption {
+  const byDate = [...lots].sort(
+    (a, b) => new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime()
+  );
+
+  let ordered: PurchaseLot[];
+  if (method === 'lifo') {
+    ordered = byDate.reverse();
+  } else if (method === 'average') {
+    const { averageCostBasis } = summarizeLots(lots);
+    ordered = byDate.map(lot => ({ ...lot, pricePerCard: averageCostBasis }));
+  } else {
+    ordered = byDate;
+  }
+
+  const remaining: PurchaseLot[] = [];
+  const consumed: PurchaseLot[] = [];
+  let toConsume = Math.max(0, quantity);
+
+  for (const lot of ordered) {
+    if (toConsume <= 0) {
+      remaining.push(lot);
+      continue;
+    }
+
+    const taken = Math.min(lot.quantity, toConsume);
+    toConsume -= taken;
+    consumed.push({ ...lot, quantity: taken });
+
+    if (lot.quantity > taken) {
+      remaining.push({ ...lot, quantity: lot.quantity - taken });
+    }
+  }
+
+  // Keep stored lots in purchase order regardless of consumption order
+  remaining.sort(
+    (a, b) => new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime()
+  );
+
+  return { remaining, consumed };
+}
+
+/**
+ * Return the holding with the given lots, keeping quantity and the
+ * average purchase price in sync with them
+ */
+export function withLots(card: PortfolioCard, lots: PurchaseLot[]): PortfolioCard {
+  const summary = summarizeLots(lots);
+  const earliest = lots.reduce<string | null>(
+    (min, lot) => (!min || lot.purchaseDate < min ? lot.purchaseDate : min),
+    null
+  );
+
+  return {
+    ...card,
+    lots,
+    quantity: summary.quantity,
+    purchasePrice: summary.averageCostBasis,
+    purchaseDate: earliest || card.purchaseDate,
+  };
+}
+
+/**
+ * Give a newly added holding its own purchase lot if it has none yet
+ */
+export function ensureLots(card: PortfolioCard): PortfolioCard {
+  if (card.lots && card.lots.length > 0) {
+    return withLots(card, card.lots);
+  }
+
+  return withLots(card, [createLot(card.quantity, card.purchasePrice, card.purchaseDate)]);
+}
+
+/**
+ * Merge a newly added holding into an existing one, keeping each
+ * purchase as its own lot
+ */
+export function mergeHoldings(existing: PortfolioCard, incoming: PortfolioCard): PortfolioCard {
+  const incomingLots = ensureLots(incoming).lots || [];
+  return withLots(existing, [...getHoldingLots(existing), ...incomingLots]);
+}
+
+/**
+ * Remove cards from a holding. Returns null when nothing remains.
+ */
+export function reduceHolding(
+  card: PortfolioCard,
+  quantity: number,
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+): { holding: PortfolioCard | null; consumed: PurchaseLot[] } {
+  const { remaining, consumed } = consumeLots(getHoldingLots(card), quantity, method);
+
+  return {
+    holding: remaining.length > 0 ? withLots(card, remaining) : null,
+    consumed,
+  };
+}
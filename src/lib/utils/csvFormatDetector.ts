@@ -1,4 +1,6 @@
-import { PortfolioCard } from '@/lib/types';
+import { CurrencyCode, ImportColumnMapping, ImportDateFormat, ImportField, ImportProfile, PortfolioCard } from '@/lib/types';
+import { ParsedCsv, parseCsv, parseCsvFile } from './csvParser';
+import { isCurrencyCode } from './currency';
 
 export interface CsvEntry {
   name: string;
@@ -8,12 +10,26 @@ export interface CsvEntry {
   condition: PortfolioCard['condition'];
   foil: boolean;
   purchasePrice: number;
+  purchaseCurrency?: CurrencyCode; // Missing when the file doesn't say, taken as the portfolio's base currency
   purchaseDate: string;
   notes?: string;
+  collectorNumber?: string;
+  language?: string; // Scryfall language code, e.g. 'en', 'ja'
 }
 
+export type CsvFormat =
+  | 'cardsphere'
+  | 'moxfield'
+  | 'archidekt'
+  | 'mtga'
+  | 'deckbox'
+  | 'manabox'
+  | 'delver'
+  | 'dragonshield'
+  | 'tcgplayer';
+
 export interface FormatDetectionResult {
-  format: 'cardsphere' | 'moxfield' | 'archidekt' | 'mtga' | 'unknown';
+  format: CsvFormat | 'unknown';
   confidence: number;
   detected_columns: string[];
   sample_data?: any;
@@ -24,8 +40,13 @@ export interface CsvParseResult {
   format: FormatDetectionResult;
   errors: string[];
   warnings: string[];
+  headers: string[];
+  rows: string[][]; // Parsed rows, header first, for remapping without re-reading the file
+  profile?: ImportProfile; // Saved import profile the entries were parsed with
 }
 
+type ColumnTransforms = Partial<Record<ImportField, ImportColumnMapping>>;
+
 // Format-specific column mappings and patterns
 const FORMAT_PATTERNS = {
   cardsphere: {
@@ -40,22 +61,124 @@ const FORMAT_PATTERNS = {
   },
   archidekt: {
     required_columns: ['card', 'qty'],
-    typical_columns: ['card', 'qty', 'set', 'category', 'tags', 'price', 'foil'],
-    unique_indicators: ['archidekt', 'category', 'tags', 'qty', 'card'],
+    typical_columns: ['card', 'qty', 'set', 'category', 'tags', 'price', 'foil', 'finish', 'edition name', 'date added'],
+    unique_indicators: ['archidekt', 'category', 'tags', 'qty', 'card', 'finish', 'date added'],
   },
   mtga: {
     required_columns: ['card name'],
     typical_columns: ['card name', 'set name', 'quantity owned', 'quantity purchased'],
     unique_indicators: ['quantity owned', 'quantity purchased', 'set name', 'arena'],
   },
+  deckbox: {
+    required_columns: ['count', 'name', 'edition'],
+    typical_columns: ['card number', 'condition', 'language', 'foil', 'signed', 'artist proof', 'altered art', 'misprint', 'promo', 'textless', 'my price'],
+    unique_indicators: ['tradelist count', 'my price', 'printing id', 'artist proof', 'textless'],
+  },
+  manabox: {
+    required_columns: ['name', 'set code', 'quantity'],
+    typical_columns: ['set name', 'collector number', 'foil', 'rarity', 'scryfall id', 'purchase price', 'condition', 'language'],
+    unique_indicators: ['manabox id', 'purchase price currency', 'manabox'],
+  },
+  delver: {
+    required_columns: ['name', 'edition', 'quantity'],
+    typical_columns: ['edition code', "collector's number", 'foil', 'condition', 'language', 'price'],
+    unique_indicators: ["collector's number", 'delver'],
+  },
+  dragonshield: {
+    required_columns: ['card name', 'quantity'],
+    typical_columns: ['folder name', 'trade quantity', 'set code', 'set name', 'card number', 'condition', 'printing', 'language', 'price bought', 'date bought'],
+    unique_indicators: ['folder name', 'trade quantity', 'price bought', 'date bought'],
+  },
+  tcgplayer: {
+    required_columns: ['name', 'quantity'],
+    typical_columns: ['simple name', 'set', 'card number', 'set code', 'printing', 'condition', 'language', 'rarity', 'product id', 'sku'],
+    unique_indicators: ['simple name', 'product id', 'sku', 'tcgplayer'],
+  },
+};
+
+// Condition names used by the supported apps, with spaces and punctuation
+// removed. Anything else falls back to keyword matching.
+const CONDITION_ALIASES: Record<string, PortfolioCard['condition']> = {
+  m: 'mint',
+  mint: 'mint',
+  nm: 'near_mint',
+  nearmint: 'near_mint',
+  ex: 'excellent',
+  excellent: 'excellent',
+  gd: 'good',
+  good: 'good',
+  lp: 'light_played',
+  sp: 'light_played',
+  lightplayed: 'light_played',
+  lightlyplayed: 'light_played',
+  slightlyplayed: 'light_played',
+  goodlightlyplayed: 'light_played', // Deckbox
+  pl: 'played',
+  mp: 'played',
+  played: 'played',
+  moderatelyplayed: 'played',
+  hp: 'poor',
+  heavilyplayed: 'poor',
+  po: 'poor',
+  poor: 'poor',
+  dmg: 'poor',
+  damaged: 'poor',
 };
 
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  italian: 'it',
+  portuguese: 'pt',
+  japanese: 'ja',
+  korean: 'ko',
+  russian: 'ru',
+  'chinese simplified': 'zhs',
+  'simplified chinese': 'zhs',
+  'chinese traditional': 'zht',
+  'traditional chinese': 'zht',
+  hebrew: 'he',
+  latin: 'la',
+  'ancient greek': 'grc',
+  arabic: 'ar',
+  sanskrit: 'sa',
+  phyrexian: 'ph',
+};
+
+// Column names tried for files in an unknown format, also used to
+// pre-fill the column mapping wizard
+const GENERIC_COLUMN_PATTERNS: Record<ImportField, string[]> = {
+  name: ['name', 'card', 'card name', 'title'],
+  set: ['set', 'edition', 'expansion'],
+  scryfallId: ['scryfall id', 'scryfall_id'],
+  collectorNumber: ['collector number', 'card number', 'number'],
+  quantity: ['quantity', 'qty', 'count', 'amount'],
+  condition: ['condition', 'grade'],
+  foil: ['foil', 'finish'],
+  purchasePrice: ['price', 'cost', 'value'],
+  purchaseCurrency: ['currency'],
+  purchaseDate: ['date', 'purchased'],
+  language: ['language', 'lang'],
+  notes: ['notes', 'comment', 'description']
+};
+
+// Rows searched for format-specific values, e.g. a platform name in a column
+const INDICATOR_SAMPLE_ROWS = 50;
+
 /**
  * Detect CSV format based on headers and data patterns
  */
 export function detectCsvFormat(csvContent: string): FormatDetectionResult {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  if (lines.length < 2) {
+  return detectCsvFormatFromRows(parseCsv(csvContent).rows);
+}
+
+/**
+ * Detect CSV format from already parsed rows, header first
+ */
+export function detectCsvFormatFromRows(rows: string[][]): FormatDetectionResult {
+  if (rows.length < 2) {
     return {
       format: 'unknown',
       confidence: 0,
@@ -63,8 +186,9 @@ export function detectCsvFormat(csvContent: string): FormatDetectionResult {
     };
   }
 
-  const headers = parseCsvLine(lines[0]).map(h => h.toLowerCase().trim());
-  const firstDataRow = lines.length > 1 ? parseCsvLine(lines[1]) : [];
+  const headers = normalizeHeaders(rows[0]);
+  const firstDataRow = rows[1];
+  const sample = rows.slice(0, INDICATOR_SAMPLE_ROWS).map(row => row.join(',')).join('\n').toLowerCase();
 
   const formatScores: Record<string, number> = {
     cardsphere: 0,
@@ -92,7 +216,7 @@ export function detectCsvFormat(csvContent: string): FormatDetectionResult {
     // Check for unique indicators
     const uniqueMatches = pattern.unique_indicators.filter(ind => 
       headers.some(header => header.includes(ind.toLowerCase())) ||
-      csvContent.toLowerCase().includes(ind.toLowerCase())
+      sample.includes(ind.toLowerCase())
     );
     score += uniqueMatches.length * 5; // Highest weight for unique indicators
 
@@ -115,57 +239,77 @@ export function detectCsvFormat(csvContent: string): FormatDetectionResult {
 }
 
 /**
- * Parse CSV line handling quoted values and commas
+ * Parse CSV content with automatic format detection. A saved import
+ * profile is used when it was made for the same columns, or when the
+ * format is not recognized.
  */
-function parseCsvLine(line: string): string[] {
-  const result = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  
-  result.push(current.trim());
-  return result.map(val => val.replace(/^"|"$/g, ''));
+export function parseEnhancedCsv(csvContent: string, profiles: ImportProfile[] = []): CsvParseResult {
+  return buildParseResult(parseCsv(csvContent), profiles);
 }
 
 /**
- * Parse CSV content with automatic format detection
+ * Parse a CSV file in chunks with automatic format detection, without
+ * blocking the page on large collections
  */
-export function parseEnhancedCsv(csvContent: string): CsvParseResult {
-  const format = detectCsvFormat(csvContent);
-  const errors: string[] = [];
+export async function parseEnhancedCsvFile(
+  file: Blob,
+  onProgress?: (fraction: number) => void,
+  profiles: ImportProfile[] = []
+): Promise<CsvParseResult> {
+  return buildParseResult(await parseCsvFile(file, { onProgress }), profiles);
+}
+
+function buildParseResult(parsed: ParsedCsv, profiles: ImportProfile[]): CsvParseResult {
+  const { rows } = parsed;
+  const format = detectCsvFormatFromRows(rows);
+  const headers = rows[0] || [];
+  const errors: string[] = parsed.errors.map(e => `Row ${e.row}, column ${e.column}: ${e.message}`);
   const warnings: string[] = [];
   
   let entries: CsvEntry[] = [];
 
+  if (rows.length === 0) {
+    return { entries, format, errors, warnings, headers, rows };
+  }
+
+  const profile = findImportProfile(headers, profiles);
+  if (profile && (sameHeaders(profile.headers, normalizeHeaders(headers)) || format.format === 'unknown')) {
+    entries = parseEntriesWithMappings(rows, profile.columns, errors);
+    return { entries, format, errors, warnings, headers, rows, profile };
+  }
+
   try {
     switch (format.format) {
       case 'cardsphere':
-        entries = parseCardSphereCsv(csvContent, errors, warnings);
+        entries = parseCardSphereCsv(rows, errors, warnings);
         break;
       case 'moxfield':
-        entries = parseMoxfieldCsv(csvContent, errors, warnings);
+        entries = parseMoxfieldCsv(rows, errors, warnings);
         break;
       case 'archidekt':
-        entries = parseArchidektCsv(csvContent, errors, warnings);
+        entries = parseArchidektCsv(rows, errors, warnings);
         break;
       case 'mtga':
-        entries = parseMtgaCsv(csvContent, errors, warnings);
+        entries = parseMtgaCsv(rows, errors, warnings);
+        break;
+      case 'deckbox':
+        entries = parseDeckboxCsv(rows, errors);
+        break;
+      case 'manabox':
+        entries = parseManaBoxCsv(rows, errors);
+        break;
+      case 'delver':
+        entries = parseDelverLensCsv(rows, errors);
+        break;
+      case 'dragonshield':
+        entries = parseDragonShieldCsv(rows, errors);
+        break;
+      case 'tcgplayer':
+        entries = parseTcgplayerCsv(rows, errors, warnings);
         break;
       default:
         // Try generic parsing
-        entries = parseGenericCsv(csvContent, errors, warnings);
+        entries = parseGenericCsv(rows, errors, warnings);
         warnings.push('Unknown CSV format detected. Using generic parser.');
     }
   } catch (error) {
@@ -176,16 +320,17 @@ export function parseEnhancedCsv(csvContent: string): CsvParseResult {
     entries,
     format,
     errors,
-    warnings
+    warnings,
+    headers,
+    rows
   };
 }
 
 /**
  * CardSphere CSV parser
  */
-function parseCardSphereCsv(csvContent: string, errors: string[], warnings: string[]): CsvEntry[] {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  const headers = parseCsvLine(lines[0]).map(h => h.toLowerCase().trim());
+function parseCardSphereCsv(rows: string[][], errors: string[], warnings: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
   
   const columnMap = createColumnMap(headers, {
     name: ['name', 'card name', 'card_name'],
@@ -198,57 +343,63 @@ function parseCardSphereCsv(csvContent: string, errors: string[], warnings: stri
     notes: ['notes', 'comment', 'comments']
   });
 
-  return parseEntriesWithMap(lines.slice(1), headers, columnMap, errors, warnings);
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
 }
 
 /**
  * Moxfield CSV parser
  */
-function parseMoxfieldCsv(csvContent: string, errors: string[], warnings: string[]): CsvEntry[] {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  const headers = parseCsvLine(lines[0]).map(h => h.toLowerCase().trim());
+function parseMoxfieldCsv(rows: string[][], errors: string[], warnings: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
   
   const columnMap = createColumnMap(headers, {
     name: ['name', 'card name'],
-    set: ['set', 'set code'],
+    set: ['edition', 'set', 'set code'],
+    collectorNumber: ['collector number'],
     quantity: ['count', 'quantity'],
     condition: ['condition'],
+    language: ['language'],
     foil: ['foil'],
+    purchasePrice: ['purchase price'],
     notes: ['tags', 'notes']
   });
 
-  // Moxfield doesn't typically include purchase prices, so default to 0
-  warnings.push('Moxfield CSV detected: Purchase prices not available, defaulting to $0.00');
+  // Only collection exports include purchase prices, so default to 0
+  if (columnMap.purchasePrice === undefined) {
+    warnings.push('Moxfield CSV detected: Purchase prices not available, defaulting to $0.00');
+  }
 
-  return parseEntriesWithMap(lines.slice(1), headers, columnMap, errors, warnings);
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
 }
 
 /**
  * Archidekt CSV parser
  */
-function parseArchidektCsv(csvContent: string, errors: string[], warnings: string[]): CsvEntry[] {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  const headers = parseCsvLine(lines[0]).map(h => h.toLowerCase().trim());
+function parseArchidektCsv(rows: string[][], errors: string[], warnings: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
   
   const columnMap = createColumnMap(headers, {
     name: ['card', 'name'],
-    set: ['set'],
+    set: ['set', 'edition code'],
+    collectorNumber: ['collector number'],
+    scryfallId: ['scryfall id'],
     quantity: ['qty', 'quantity'],
     condition: ['condition'],
-    foil: ['foil'],
-    purchasePrice: ['price'],
+    language: ['language'],
+    foil: ['foil', 'finish'],
+    purchasePrice: ['price', 'purchase price'],
+    purchaseDate: ['date added'],
     notes: ['category', 'tags', 'notes']
   });
 
-  return parseEntriesWithMap(lines.slice(1), headers, columnMap, errors, warnings);
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
 }
 
 /**
  * MTGA CSV parser
  */
-function parseMtgaCsv(csvContent: string, errors: string[], warnings: string[]): CsvEntry[] {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  const headers = parseCsvLine(lines[0]).map(h => h.toLowerCase().trim());
+function parseMtgaCsv(rows: string[][], errors: string[], warnings: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
   
   const columnMap = createColumnMap(headers, {
     name: ['card name', 'name'],
@@ -259,41 +410,209 @@ function parseMtgaCsv(csvContent: string, errors: string[], warnings: string[]):
 
   warnings.push('MTGA CSV detected: Conditions and purchase prices not available');
 
-  return parseEntriesWithMap(lines.slice(1), headers, columnMap, errors, warnings);
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
+}
+
+/**
+ * Deckbox CSV parser. Older exports only have the full edition name.
+ */
+function parseDeckboxCsv(rows: string[][], errors: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
+
+  const columnMap = createColumnMap(headers, {
+    name: ['name'],
+    set: ['edition code', 'edition'],
+    collectorNumber: ['card number'],
+    quantity: ['count'],
+    condition: ['condition'],
+    language: ['language'],
+    foil: ['foil'],
+    purchasePrice: ['my price'],
+    notes: ['tags']
+  });
+
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
+}
+
+/**
+ * ManaBox CSV parser
+ */
+function parseManaBoxCsv(rows: string[][], errors: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
+
+  const columnMap = createColumnMap(headers, {
+    name: ['name'],
+    set: ['set code'],
+    collectorNumber: ['collector number'],
+    scryfallId: ['scryfall id'],
+    quantity: ['quantity'],
+    condition: ['condition'],
+    language: ['language'],
+    foil: ['foil'],
+    purchasePrice: ['purchase price'],
+    purchaseCurrency: ['purchase price currency']
+  });
+
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
+}
+
+/**
+ * Delver Lens CSV parser
+ */
+function parseDelverLensCsv(rows: string[][], errors: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
+
+  const columnMap = createColumnMap(headers, {
+    name: ['name'],
+    set: ['edition code', 'edition'],
+    collectorNumber: ["collector's number", 'collector number'],
+    scryfallId: ['scryfall id'],
+    quantity: ['quantity'],
+    condition: ['condition'],
+    language: ['language'],
+    foil: ['foil'],
+    purchasePrice: ['price'],
+    notes: ['list name']
+  });
+
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
+}
+
+/**
+ * Dragon Shield Card Manager CSV parser. Finishes are in the Printing
+ * column and the folder a card is stored in is kept as a note.
+ */
+function parseDragonShieldCsv(rows: string[][], errors: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
+
+  const columnMap = createColumnMap(headers, {
+    name: ['card name'],
+    set: ['set code'],
+    collectorNumber: ['card number'],
+    quantity: ['quantity'],
+    condition: ['condition'],
+    language: ['language'],
+    foil: ['printing'],
+    purchasePrice: ['price bought'],
+    purchaseDate: ['date bought'],
+    notes: ['folder name']
+  });
+
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
+}
+
+/**
+ * TCGplayer app CSV parser
+ */
+function parseTcgplayerCsv(rows: string[][], errors: string[], warnings: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
+
+  const columnMap = createColumnMap(headers, {
+    name: ['name'],
+    set: ['set code', 'set'],
+    collectorNumber: ['card number', 'number'],
+    quantity: ['quantity'],
+    condition: ['condition'],
+    language: ['language'],
+    foil: ['printing']
+  });
+
+  warnings.push('TCGplayer CSV detected: Purchase prices not available, defaulting to $0.00');
+
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
 }
 
 /**
  * Generic CSV parser for unknown formats
  */
-function parseGenericCsv(csvContent: string, errors: string[], warnings: string[]): CsvEntry[] {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  const headers = parseCsvLine(lines[0]).map(h => h.toLowerCase().trim());
+function parseGenericCsv(rows: string[][], errors: string[], warnings: string[]): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0]);
   
   // Try to map columns based on common patterns
-  const columnMap = createColumnMap(headers, {
-    name: ['name', 'card', 'card name', 'title'],
-    set: ['set', 'edition', 'expansion'],
-    quantity: ['quantity', 'qty', 'count', 'amount'],
-    condition: ['condition', 'grade'],
-    foil: ['foil', 'finish'],
-    purchasePrice: ['price', 'cost', 'value'],
-    purchaseDate: ['date', 'purchased'],
-    notes: ['notes', 'comment', 'description']
+  const columnMap = createColumnMap(headers, GENERIC_COLUMN_PATTERNS);
+
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors);
+}
+
+/**
+ * Best guess at a column mapping for a file in an unknown format
+ */
+export function suggestColumnMappings(headers: string[]): ImportColumnMapping[] {
+  const normalized = normalizeHeaders(headers);
+  const columnMap = createColumnMap(normalized, GENERIC_COLUMN_PATTERNS);
+
+  return Object.entries(columnMap).map(([field, index]) => ({
+    header: normalized[index],
+    field: field as ImportField,
+  }));
+}
+
+/**
+ * Saved profile for a file's headers. Profiles made for exactly the same
+ * columns win over ones whose mapped columns merely all appear in the file.
+ */
+export function findImportProfile(headers: string[], profiles: ImportProfile[]): ImportProfile | null {
+  const normalized = normalizeHeaders(headers);
+
+  const exact = profiles.find(p => sameHeaders(p.headers, normalized));
+  if (exact) return exact;
+
+  return profiles.find(p =>
+    p.columns.some(c => c.field === 'name') &&
+    p.columns.every(c => normalized.includes(c.header))
+  ) || null;
+}
+
+/**
+ * Parse rows, header first, with a user-defined column mapping
+ */
+export function parseEntriesWithMappings(
+  rows: string[][],
+  columns: ImportColumnMapping[],
+  errors: string[]
+): CsvEntry[] {
+  const headers = normalizeHeaders(rows[0] || []);
+  const columnMap: Record<string, number> = {};
+  const transforms: ColumnTransforms = {};
+
+  columns.forEach(column => {
+    const index = headers.indexOf(column.header);
+    if (index !== -1) {
+      columnMap[column.field] = index;
+      transforms[column.field] = column;
+    }
   });
 
-  return parseEntriesWithMap(lines.slice(1), headers, columnMap, errors, warnings);
+  return parseEntriesWithMap(rows.slice(1), columnMap, errors, transforms);
+}
+
+function sameHeaders(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(header => b.includes(header));
+}
+
+function normalizeHeaders(headers: string[]): string[] {
+  return headers.map(h => h.toLowerCase().trim());
 }
 
 /**
- * Create a column mapping from headers to expected fields
+ * Create a column mapping from headers to expected fields. Names are tried
+ * in order, exact header matches first, so 'quantity' is not mistaken for
+ * 'trade quantity'.
  */
 function createColumnMap(headers: string[], patterns: Record<string, string[]>): Record<string, number> {
   const map: Record<string, number> = {};
   
   Object.entries(patterns).forEach(([field, possibleNames]) => {
-    const index = headers.findIndex(header => 
-      possibleNames.some(name => header.includes(name))
-    );
+    let index = -1;
+    for (const name of possibleNames) {
+      index = headers.indexOf(name);
+      if (index !== -1) break;
+    }
+    if (index === -1) {
+      index = headers.findIndex(header => 
+        possibleNames.some(name => header.includes(name))
+      );
+    }
     if (index !== -1) {
       map[field] = index;
     }
@@ -306,24 +625,21 @@ function createColumnMap(headers: string[], patterns: Record<string, string[]>):
  * Parse entries using the column mapping
  */
 function parseEntriesWithMap(
-  dataLines: string[], 
-  headers: string[], 
+  dataRows: string[][], 
   columnMap: Record<string, number>,
-  errors: string[], 
-  warnings: string[]
+  errors: string[],
+  transforms: ColumnTransforms = {}
 ): CsvEntry[] {
   const entries: CsvEntry[] = [];
 
-  dataLines.forEach((line, lineIndex) => {
-    const values = parseCsvLine(line);
-    
+  dataRows.forEach((values, rowIndex) => {
     try {
-      const entry = parseEntry(values, columnMap, lineIndex + 2); // +2 for header and 0-indexing
+      const entry = parseEntry(values.map(value => value.trim()), columnMap, transforms);
       if (entry) {
         entries.push(entry);
       }
     } catch (error) {
-      errors.push(`Line ${lineIndex + 2}: ${error instanceof Error ? error.message : 'Parse error'}`);
+      errors.push(`Row ${rowIndex + 2}: ${error instanceof Error ? error.message : 'Parse error'}`); // +2 for header and 0-indexing
     }
   });
 
@@ -333,7 +649,11 @@ function parseEntriesWithMap(
 /**
  * Parse a single entry from CSV values
  */
-function parseEntry(values: string[], columnMap: Record<string, number>, lineNumber: number): CsvEntry | null {
+function parseEntry(
+  values: string[],
+  columnMap: Record<string, number>,
+  transforms: ColumnTransforms = {}
+): CsvEntry | null {
   const name = values[columnMap.name]?.trim();
   
   if (!name) {
@@ -341,30 +661,47 @@ function parseEntry(values: string[], columnMap: Record<string, number>, lineNum
   }
 
   const quantity = parseInt(values[columnMap.quantity] || '1') || 1;
-  const condition = mapCondition(values[columnMap.condition] || '');
+  const condition = mapCondition(values[columnMap.condition] || '', transforms.condition?.conditionValues);
   const foil = parseFoil(values[columnMap.foil] || '');
-  const purchasePrice = parseFloat(values[columnMap.purchasePrice] || '0') || 0;
-  const purchaseDate = values[columnMap.purchaseDate] || new Date().toISOString().split('T')[0];
+  const purchasePrice = parsePrice(values[columnMap.purchasePrice] || '', transforms.purchasePrice?.decimalSeparator);
+  const purchaseCurrency = parseCurrency(values[columnMap.purchaseCurrency] || '');
+  const purchaseDate = parseDate(values[columnMap.purchaseDate] || '', transforms.purchaseDate?.dateFormat);
   const set = values[columnMap.set]?.trim();
+  const scryfallId = values[columnMap.scryfallId]?.trim();
+  const collectorNumber = normalizeCollectorNumber(values[columnMap.collectorNumber] || '');
+  const language = mapLanguage(values[columnMap.language] || '');
   const notes = values[columnMap.notes]?.trim();
 
   return {
     name,
     set: set || undefined,
+    scryfallId: scryfallId || undefined,
     quantity,
     condition,
     foil,
     purchasePrice,
+    purchaseCurrency,
     purchaseDate,
-    notes: notes || undefined
+    notes: notes || undefined,
+    collectorNumber,
+    language
   };
 }
 
 /**
  * Map condition string to standardized condition
  */
-function mapCondition(condition: string): PortfolioCard['condition'] {
+function mapCondition(
+  condition: string,
+  vocabulary?: Record<string, PortfolioCard['condition']>
+): PortfolioCard['condition'] {
   const conditionLower = condition?.toLowerCase() || '';
+  const custom = vocabulary?.[conditionLower.trim()];
+  if (custom) return custom;
+
+  const alias = CONDITION_ALIASES[conditionLower.replace(/[^a-z]/g, '')];
+  if (alias) return alias;
+
   if (conditionLower.includes('mint') && !conditionLower.includes('near')) return 'mint';
   if (conditionLower.includes('near mint') || conditionLower.includes('nm')) return 'near_mint';
   if (conditionLower.includes('excellent') || conditionLower.includes('ex')) return 'excellent';
@@ -381,14 +718,87 @@ function mapCondition(condition: string): PortfolioCard['condition'] {
 function parseFoil(foil: string): boolean {
   const foilLower = foil?.toLowerCase() || '';
   return foilLower === 'true' || foilLower === 'yes' || foilLower === '1' || 
-         foilLower === 'foil' || foilLower === 'y';
+         foilLower === 'foil' || foilLower === 'y' || foilLower === 'etched';
+}
+
+/**
+ * Parse a price such as "$1,500.00" or a European "1.500,00 €". Without a
+ * known decimal separator, whichever separator comes last is taken as it,
+ * unless it only groups thousands as in "$1,500" or "1.234".
+ */
+function parsePrice(price: string, decimalSeparator?: '.' | ','): number {
+  const cleaned = price.replace(/[^0-9.,-]/g, '');
+  if (!decimalSeparator && /^-?[1-9]\d{0,2}(?:(,)\d{3}(?:,\d{3})*|(\.)\d{3}(?:\.\d{3})*)$/.test(cleaned)) {
+    return parseFloat(cleaned.replace(/[.,]/g, '')) || 0;
+  }
+
+  const separator = decimalSeparator ||
+    (cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.') ? ',' : '.');
+  const normalized = separator === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  return parseFloat(normalized) || 0;
+}
+
+/**
+ * Parse a currency code such as "USD" or "eur"
+ */
+function parseCurrency(currency: string): CurrencyCode | undefined {
+  const currencyLower = currency.toLowerCase().trim();
+  if (!currencyLower) return undefined;
+  if (!isCurrencyCode(currencyLower)) {
+    throw new Error(`Unsupported currency "${currency}"`);
+  }
+  return currencyLower;
+}
+
+/**
+ * Parse a purchase date to YYYY-MM-DD. Without a format the value is kept
+ * as written, and missing dates default to today.
+ */
+function parseDate(date: string, format?: ImportDateFormat): string {
+  if (!date) return new Date().toISOString().split('T')[0];
+  if (!format) return date;
+
+  const parts = date.match(/\d+/g) || [];
+  let [year, month, day] = [NaN, NaN, NaN];
+  if (parts.length >= 3) {
+    const [a, b, c] = parts.map(Number);
+    if (format === 'iso') [year, month, day] = [a, b, c];
+    else if (format === 'mdy') [month, day, year] = [a, b, c];
+    else [day, month, year] = [a, b, c];
+  }
+  if (year < 100) year += 2000;
+
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(parsed.getTime()) || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    throw new Error(`Unrecognized date "${date}"`);
+  }
+  return parsed.toISOString().split('T')[0];
+}
+
+/**
+ * Map a language name or code to a Scryfall language code
+ */
+function mapLanguage(language: string): string | undefined {
+  const languageLower = language.toLowerCase().trim();
+  if (!languageLower) return undefined;
+  return LANGUAGE_CODES[languageLower] || languageLower;
+}
+
+/**
+ * Strip set totals and padding, e.g. "0161/295" becomes "161"
+ */
+function normalizeCollectorNumber(collectorNumber: string): string | undefined {
+  const number = collectorNumber.split('/')[0].trim().replace(/^0+(?=.)/, '');
+  return number || undefined;
 }
 
 /**
  * Generate sample CSV files for different formats
  */
-export function generateSampleCsv(format: 'cardsphere' | 'moxfield' | 'archidekt' | 'mtga'): string {
-  const samples = {
+export function generateSampleCsv(format: CsvFormat): string {
+  const samples: Record<CsvFormat, string> = {
     cardsphere: `name,set,quantity,condition,foil,purchase_price,purchase_date,notes
 Lightning Bolt,lea,4,near_mint,false,25.00,2024-01-15,Alpha version
 Black Lotus,lea,1,excellent,false,15000.00,2024-01-10,Power Nine
@@ -407,9 +817,34 @@ Tarmogoyf,2,FUT,Creature,beater;green,120.00,true`,
     mtga: `card name,set name,quantity owned,quantity purchased
 Lightning Bolt,Limited Edition Alpha,4,4
 Black Lotus,Limited Edition Alpha,1,1
-Tarmogoyf,Future Sight,2,2`
+Tarmogoyf,Future Sight,2,2`,
+
+    deckbox: `Count,Tradelist Count,Name,Edition,Edition Code,Card Number,Condition,Language,Foil,Signed,Artist Proof,Altered Art,Misprint,Promo,Textless,Printing Id,Printing Note,Tags,My Price
+4,0,Lightning Bolt,Limited Edition Alpha,LEA,161,Near Mint,English,,,,,,,,1234,,,$25.00
+1,0,Black Lotus,Limited Edition Alpha,LEA,232,Good (Lightly Played),English,,,,,,,,1235,,,"$15,000.00"
+2,1,Tarmogoyf,Future Sight,FUT,153,Mint,English,foil,,,,,,,1236,,,$120.00`,
+
+    manabox: `Name,Set code,Set name,Collector number,Foil,Rarity,Quantity,ManaBox ID,Scryfall ID,Purchase price,Misprint,Altered,Condition,Language,Purchase price currency
+Lightning Bolt,lea,Limited Edition Alpha,161,normal,common,4,1001,,25.00,false,false,near_mint,en,USD
+Black Lotus,lea,Limited Edition Alpha,232,normal,rare,1,1002,,15000.00,false,false,excellent,en,USD
+Tarmogoyf,fut,Future Sight,153,foil,rare,2,1003,,120.00,false,false,mint,ja,USD`,
+
+    delver: `Name,Edition,Edition code,Collector's number,Quantity,Foil,Condition,Language,Price,List name
+Lightning Bolt,Limited Edition Alpha,LEA,161,4,,Near Mint,English,25.00,Binder
+Black Lotus,Limited Edition Alpha,LEA,232,1,,Excellent,English,15000.00,Vault
+Tarmogoyf,Future Sight,FUT,153,2,Foil,Mint,English,120.00,Binder`,
+
+    dragonshield: `"sep=,"
+Folder Name,Quantity,Trade Quantity,Card Name,Set Code,Set Name,Card Number,Condition,Printing,Language,Price Bought,Date Bought,LOW,MID,MARKET
+Binder,4,0,Lightning Bolt,LEA,Limited Edition Alpha,161,NearMint,Normal,English,25.00,2024-01-15,20.00,30.00,28.00
+Vault,1,0,Black Lotus,LEA,Limited Edition Alpha,232,Excellent,Normal,English,15000.00,2024-01-10,12000.00,16000.00,15500.00
+Binder,2,0,Tarmogoyf,FUT,Future Sight,153,Mint,Foil,English,120.00,2024-01-20,100.00,130.00,125.00`,
+
+    tcgplayer: `Quantity,Name,Simple Name,Set,Card Number,Set Code,Printing,Condition,Language,Rarity,Product ID,SKU
+4,Lightning Bolt,Lightning Bolt,Limited Edition Alpha,161,LEA,Normal,Near Mint,English,Common,1001,2001
+1,Black Lotus,Black Lotus,Limited Edition Alpha,232,LEA,Normal,Lightly Played,English,Rare,1002,2002
+2,Tarmogoyf,Tarmogoyf,Future Sight,153,FUT,Foil,Near Mint,English,Rare,1003,2003`
   };
 
   return samples[format];
 }
-
@@ -0,0 +1,311 @@
+/**
+ * CSV Parser
+ * Streaming RFC 4180 parser for collection exports. Handles quoted fields
+ * with embedded delimiters and newlines, escaped quotes (""), byte order
+ * marks, Excel "sep=" hint lines and comma, semicolon or tab delimiters. Malformed input is
+ * recovered from and reported with its row and column.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface CsvParseError {
+  row: number; // Record number, 1-based, header included
+  column: number; // Field number within the record, 1-based
+  line: number; // Physical line in the file, 1-based
+  message: string;
+}
+
+export interface CsvParserOptions {
+  delimiter?: CsvDelimiter; // Detected from the first record when omitted
+}
+
+export interface ParsedCsv {
+  rows: string[][];
+  errors: CsvParseError[];
+  delimiter: CsvDelimiter;
+}
+
+export interface CsvFileParseOptions extends CsvParserOptions {
+  chunkSize?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+const DEFAULT_CHUNK_SIZE = 256 * 1024;
+const SEPARATOR_HINT = /^"?sep=(.)"?[^\S\r\n]*(?:\r\n|\n|\r)/i;
+
+type ParserState = 'field' | 'quoted' | 'quote' | 'afterQuoted';
+
+/**
+ * Incremental parser: feed text with push() as it arrives and call
+ * finish() at the end. Both return the records completed so far. Rows
+ * whose fields are all blank are skipped.
+ */
+export class CsvParser {
+  private delimiter: CsvDelimiter | null;
+  private state: ParserState = 'field';
+  private field = '';
+  private record: string[] = [];
+  private pending = '';
+  private headerRead = false;
+  private started = false;
+  private skipLineFeed = false;
+  private strayQuote = false;
+  private row = 1;
+  private line = 1;
+  private quoteLine = 1;
+  private readonly errors: CsvParseError[] = [];
+
+  constructor(options: CsvParserOptions = {}) {
+    this.delimiter = options.delimiter || null;
+  }
+
+  push(chunk: string): string[][] {
+    let text = chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    // Hold text back until the first record is complete so the
+    // delimiter can be detected from it
+    if (!this.headerRead) {
+      this.pending += text;
+      if (!hasCompleteRecord(this.pending)) return [];
+      text = this.takePending();
+    }
+
+    return this.process(text);
+  }
+
+  finish(): string[][] {
+    const rows = this.headerRead ? [] : this.process(this.takePending());
+
+    if (this.state === 'quoted') {
+      this.addError('Unterminated quoted field', this.quoteLine);
+    }
+    if (this.field !== '' || this.record.length > 0) {
+      this.endRecord(rows);
+    }
+    this.state = 'field';
+
+    return rows;
+  }
+
+  getErrors(): CsvParseError[] {
+    return this.errors;
+  }
+
+  getDelimiter(): CsvDelimiter {
+    return this.delimiter || ',';
+  }
+
+  // Private methods
+
+  private takePending(): string {
+    let text = this.pending;
+    this.pending = '';
+    this.headerRead = true;
+
+    // Excel's "sep=;" hint line, written by e.g. Dragon Shield
+    const hint = text.match(SEPARATOR_HINT);
+    if (hint) {
+      text = text.slice(hint[0].length);
+      this.line++;
+      if (!this.delimiter && isDelimiter(hint[1])) this.delimiter = hint[1];
+    }
+
+    if (!this.delimiter) this.delimiter = detectDelimiter(text);
+    return text;
+  }
+
+  private process(text: string): string[][] {
+    const rows: string[][] = [];
+    const delimiter = this.delimiter || ',';
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      switch (this.state) {
+        case 'quoted':
+          if (char === '"') {
+            this.state = 'quote';
+          } else {
+            if (char === '\n') this.line++;
+            this.field += char;
+          }
+          break;
+
+        case 'quote':
+          // A quote inside a quoted field is either escaped or closes it
+          if (char === '"') {
+            this.field += '"';
+            this.state = 'quoted';
+            break;
+          }
+          this.state = 'afterQuoted';
+        // falls through
+
+        case 'afterQuoted':
+          if (char === delimiter) {
+            this.endField();
+          } else if (char === '\n' || char === '\r') {
+            this.endLine(char, rows);
+          } else if (char !== ' ' && char !== '\t') {
+            this.addError('Unexpected character after closing quote', this.line);
+            this.field += char;
+            this.state = 'field';
+          }
+          break;
+
+        case 'field':
+          if (char === delimiter) {
+            this.endField();
+          } else if (char === '\n' || char === '\r') {
+            this.endLine(char, rows);
+          } else if (char === '"') {
+            if (this.field.trim() === '') {
+              // Tolerate spaces before an opening quote, as in `a, "b"`
+              this.field = '';
+              this.state = 'quoted';
+              this.quoteLine = this.line;
+            } else {
+              // Report each malformed field once, not every quote in it
+              if (!this.strayQuote) this.addError('Unexpected quote in unquoted field', this.line);
+              this.strayQuote = true;
+              this.field += char;
+            }
+          } else {
+            this.field += char;
+          }
+          break;
+      }
+    }
+
+    return rows;
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.field = '';
+    this.state = 'field';
+    this.strayQuote = false;
+  }
+
+  private endLine(char: string, rows: string[][]): void {
+    this.endRecord(rows);
+    this.line++;
+    this.skipLineFeed = char === '\r';
+  }
+
+  private endRecord(rows: string[][]): void {
+    this.endField();
+    const record = this.record;
+    this.record = [];
+
+    if (record.some(value => value.trim() !== '')) {
+      rows.push(record);
+      this.row++;
+    }
+  }
+
+  private addError(message: string, line: number): void {
+    this.errors.push({ row: this.row, column: this.record.length + 1, line, message });
+  }
+}
+
+/**
+ * Parse CSV text in one go
+ */
+export function parseCsv(content: string, options: CsvParserOptions = {}): ParsedCsv {
+  const parser = new CsvParser(options);
+  const rows = parser.push(content);
+  appendRows(rows, parser.finish());
+
+  return { rows, errors: parser.getErrors(), delimiter: parser.getDelimiter() };
+}
+
+/**
+ * Parse a CSV file in chunks, yielding to the event loop between chunks
+ * so large exports don't freeze the page
+ */
+export async function parseCsvFile(file: Blob, options: CsvFileParseOptions = {}): Promise<ParsedCsv> {
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const parser = new CsvParser(options);
+  const decoder = new TextDecoder('utf-8');
+  const rows: string[][] = [];
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const buffer = await file.slice(offset, offset + chunkSize).arrayBuffer();
+    appendRows(rows, parser.push(decoder.decode(buffer, { stream: true })));
+
+    options.onProgress?.(Math.min(1, (offset + chunkSize) / file.size));
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  appendRows(rows, parser.push(decoder.decode()));
+  appendRows(rows, parser.finish());
+
+  return { rows, errors: parser.getErrors(), delimiter: parser.getDelimiter() };
+}
+
+/**
+ * Pick the delimiter that occurs most often outside quotes in the first
+ * record, defaulting to a comma
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), ',');
+}
+
+/**
+ * Write rows as CSV, quoting fields that contain the delimiter, quotes,
+ * line breaks or surrounding spaces
+ */
+export function stringifyCsv(rows: string[][], delimiter: CsvDelimiter = ','): string {
+  return rows
+    .map(row => row.map(field => quoteField(field, delimiter)).join(delimiter))
+    .join('\r\n') + '\r\n';
+}
+
+function quoteField(field: string, delimiter: CsvDelimiter): string {
+  const needsQuotes = field.includes(delimiter) || /["\r\n]|^\s|\s$/.test(field);
+  return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function isDelimiter(char: string): char is CsvDelimiter {
+  return (DELIMITERS as string[]).includes(char);
+}
+
+function hasCompleteRecord(text: string): boolean {
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) return true;
+  }
+  return false;
+}
+
+// Spreading 50k rows into push() can overflow the call stack
+function appendRows(target: string[][], rows: string[][]): void {
+  for (const row of rows) target.push(row);
+}
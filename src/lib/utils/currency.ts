@@ -0,0 +1,40 @@
+/**
+ * Currency Utilities
+ * Display helpers for the currencies portfolios can be valued in
+ */
+
+import { CurrencyCode } from '@/lib/types';
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['usd', 'eur', 'gbp', 'cad', 'aud', 'jpy'];
+
+export const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+  usd: '$',
+  eur: '€',
+  gbp: '£',
+  cad: 'CA$',
+  aud: 'A$',
+  jpy: '¥',
+};
+
+export const CURRENCY_LABELS: Record<CurrencyCode, string> = {
+  usd: 'USD ($)',
+  eur: 'EUR (€)',
+  gbp: 'GBP (£)',
+  cad: 'CAD (CA$)',
+  aud: 'AUD (A$)',
+  jpy: 'JPY (¥)',
+};
+
+export function isCurrencyCode(value: string): value is CurrencyCode {
+  return (SUPPORTED_CURRENCIES as string[]).includes(value);
+}
+
+/**
+ * Format an amount with its currency symbol, e.g. "-€12.50".
+ * Yen has no minor unit so it is always shown without decimals.
+ */
+export function formatCurrency(value: number, currency: CurrencyCode = 'usd', decimals: number = 2): string {
+  const digits = currency === 'jpy' ? 0 : decimals;
+  const sign = value < 0 ? '-' : '';
+  return `${sign}${CURRENCY_SYMBOLS[currency]}${Math.abs(value).toFixed(digits)}`;
+}
@@ -0,0 +1,213 @@
+/**
+ * Decklist Parser
+ * Reads pasted decklists in the notations used by Arena, Moxfield,
+ * MTGGoldfish and TCGplayer Mass Entry, e.g. "4 Lightning Bolt (M10) 146 *F*",
+ * and MTGO .dek XML files into import entries.
+ */
+
+import { CsvEntry } from './csvFormatDetector';
+
+export type DecklistSection = 'main' | 'sideboard' | 'commander' | 'companion' | 'maybeboard';
+
+export type DecklistFormat = 'text' | 'dek';
+
+export interface DecklistEntry extends CsvEntry {
+  section: DecklistSection;
+}
+
+export interface DecklistParseResult {
+  entries: DecklistEntry[];
+  format: DecklistFormat;
+  errors: string[];
+  warnings: string[];
+}
+
+export const DECKLIST_SECTION_LABELS: Record<DecklistSection, string> = {
+  main: 'Main deck',
+  sideboard: 'Sideboard',
+  commander: 'Commander',
+  companion: 'Companion',
+  maybeboard: 'Maybeboard',
+};
+
+// Section headings, lowercased without spaces. Lines under "About" hold
+// the deck name in Arena exports and are skipped.
+const SECTION_HEADINGS: Record<string, DecklistSection | null> = {
+  deck: 'main',
+  main: 'main',
+  maindeck: 'main',
+  mainboard: 'main',
+  sideboard: 'sideboard',
+  side: 'sideboard',
+  commander: 'commander',
+  commanders: 'commander',
+  companion: 'companion',
+  maybeboard: 'maybeboard',
+  maybe: 'maybeboard',
+  considering: 'maybeboard',
+  about: null,
+};
+
+// "Sideboard", "SIDEBOARD:", "// Sideboard" or "Commander (1)"
+const SECTION_LINE = /^(?:\/\/\s*)?([a-z ]+?)\s*(?:\(\d+\))?\s*:?$/i;
+
+// "SB: 2 Duress", "4x Lightning Bolt", "1 Sol Ring (C21) 263 *F*" or "4 Opt [XLN]"
+const CARD_LINE = /^(SB:\s*)?(?:(\d+)\s*x?\s+)?(.+?)(?:\s+[([]([a-z0-9]{2,6})[)\]](?:\s+([^\s*]+))?)?((?:\s+\*[a-z]\*)*)$/i;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse a decklist or MTGO .dek file, detected from its content
+ */
+export function parseDecklist(content: string): DecklistParseResult {
+  const text = content.replace(/^\ufeff/, '');
+  return /^\s*(<\?xml|<Deck\b)/i.test(text) ? parseDekFile(text) : parseTextDecklist(text);
+}
+
+/**
+ * Parse a plain-text decklist. Without section headings, a blank line
+ * after the main deck starts the sideboard, as in MTGO and MTGGoldfish
+ * exports.
+ */
+export function parseTextDecklist(content: string): DecklistParseResult {
+  const lines = content.split(/\r\n|\n|\r/).map(line => line.trim());
+  const hasHeadings = lines.some(line => parseSectionHeading(line) !== undefined);
+  const entries: DecklistEntry[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let section: DecklistSection | null = 'main';
+
+  lines.forEach((line, index) => {
+    if (!line) {
+      if (!hasHeadings && section === 'main' && entries.length > 0) {
+        section = 'sideboard';
+      }
+      return;
+    }
+
+    const heading = parseSectionHeading(line);
+    if (heading !== undefined) {
+      section = heading;
+      return;
+    }
+
+    if (section === null || line.startsWith('#') || line.startsWith('//')) {
+      return;
+    }
+
+    const match = line.match(CARD_LINE);
+    if (!match) {
+      errors.push(`Line ${index + 1}: Unrecognized line "${line}"`);
+      return;
+    }
+
+    const [, sideboardPrefix, quantityText, name, set, collectorNumber, markers] = match;
+    const quantity = quantityText === undefined ? 1 : parseInt(quantityText, 10);
+    if (quantity < 1) {
+      errors.push(`Line ${index + 1}: Quantity must be at least 1`);
+      return;
+    }
+
+    entries.push(createEntry(name, quantity, sideboardPrefix ? 'sideboard' : section, {
+      set,
+      collectorNumber,
+      foil: /\*[fe]\*/i.test(markers || ''),
+    }));
+  });
+
+  if (entries.length === 0 && errors.length === 0) {
+    warnings.push('No cards found in the decklist');
+  }
+
+  return { entries, format: 'text', errors, warnings };
+}
+
+/**
+ * Parse an MTGO .dek file. MTGO only records names, quantities and
+ * whether a card is in the sideboard.
+ */
+export function parseDekFile(content: string): DecklistParseResult {
+  const entries: DecklistEntry[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const cardElements = content.match(/<Cards\b[^>]*>/gi) || [];
+
+  cardElements.forEach((element, index) => {
+    const attributes = parseXmlAttributes(element);
+    const name = attributes.name?.trim();
+    const quantity = parseInt(attributes.quantity || '1', 10);
+
+    if (!name) {
+      errors.push(`Card ${index + 1}: Missing card name`);
+      return;
+    }
+    if (!(quantity >= 1)) {
+      errors.push(`Card ${index + 1}: Quantity must be at least 1`);
+      return;
+    }
+
+    entries.push(createEntry(name, quantity, attributes.sideboard === 'true' ? 'sideboard' : 'main'));
+  });
+
+  if (cardElements.length === 0) {
+    errors.push('No cards found in the .dek file');
+  }
+
+  return { entries, format: 'dek', errors, warnings };
+}
+
+// Undefined when the line is not a heading, null for skipped sections
+function parseSectionHeading(line: string): DecklistSection | null | undefined {
+  const match = line.match(SECTION_LINE);
+  if (!match) return undefined;
+  return SECTION_HEADINGS[match[1].toLowerCase().replace(/\s+/g, '')];
+}
+
+function createEntry(
+  name: string,
+  quantity: number,
+  section: DecklistSection,
+  printing: { set?: string; collectorNumber?: string; foil?: boolean } = {}
+): DecklistEntry {
+  return {
+    name: name.trim(),
+    set: printing.set || undefined,
+    collectorNumber: printing.collectorNumber || undefined,
+    quantity,
+    condition: 'near_mint',
+    foil: printing.foil || false,
+    purchasePrice: 0,
+    purchaseDate: new Date().toISOString().split('T')[0],
+    notes: section === 'main' ? undefined : DECKLIST_SECTION_LABELS[section],
+    section,
+  };
+}
+
+// Attribute names are lowercased
+function parseXmlAttributes(element: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(element)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeXmlEntities(match[2] ?? match[3]);
+  }
+
+  return attributes;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(codePoint);
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * Import Planning
+ * Works out what an import would do to a portfolio's holdings before
+ * anything is saved, so it can be previewed and re-imports are idempotent
+ */
+
+import { ImportBatch, ImportMergeStrategy, ImportPlan, ImportPlanRow, PortfolioCard } from '@/lib/types';
+import { getHoldingLots, mergeHoldings } from './costBasis';
+
+export const IMPORT_STRATEGY_LABELS: Record<ImportMergeStrategy, string> = {
+  add: 'Add to existing quantities',
+  replace: 'Replace quantities',
+  sync: 'Sync (replace and remove missing)',
+};
+
+// Prices within half a cent are the same purchase
+const PRICE_TOLERANCE = 0.005;
+
+/**
+ * Holdings are identified by card, finish and condition
+ */
+export function getHoldingKey(card: Pick<PortfolioCard, 'cardId' | 'foil' | 'condition'>): string {
+  return `${card.cardId}-${card.foil ? 'foil' : 'nonfoil'}-${card.condition}`;
+}
+
+/**
+ * Tag imported rows with a fingerprint that comes out the same every time
+ * the same file is imported: the holding, the quantity and the price the
+ * file gave (0 without one), numbered when several rows are alike. Dates
+ * are left out because formats without a date column read every row as
+ * bought today, and so are prices filled in from the current market.
+ */
+export function fingerprintImportRows(cards: PortfolioCard[], filePrices: number[]): PortfolioCard[] {
+  const occurrences = new Map<string, number>();
+
+  return cards.map((card, index) => {
+    const row = `${getHoldingKey(card)}|${card.quantity}|${(filePrices[index] || 0).toFixed(2)}`;
+    const occurrence = (occurrences.get(row) || 0) + 1;
+    occurrences.set(row, occurrence);
+    return { ...card, importFingerprint: `${row}#${occurrence}` };
+  });
+}
+
+/**
+ * Fingerprints of the rows earlier imports added and haven't rolled back
+ */
+export function getImportedFingerprints(batches: ImportBatch[]): Set<string> {
+  return new Set(batches.filter(batch => !batch.rolledBackAt).flatMap(batch => batch.rowFingerprints || []));
+}
+
+/**
+ * Plan an import against the current holdings.
+ *
+ * - add: each row is added as a new purchase lot, unless it was imported
+ *   before: its fingerprint is on one of the holding's lots or in
+ *   `imported`, which covers lots sold since. Rows without a fingerprint
+ *   are matched on a lot's quantity, price and date.
+ * - replace: holdings are set to the imported quantity
+ * - sync: as replace, and holdings missing from the import are removed
+ */
+export function planImport(
+  existing: PortfolioCard[],
+  incoming: PortfolioCard[],
+  strategy: ImportMergeStrategy,
+  imported: Set<string> = new Set()
+): ImportPlan {
+  const holdings = new Map(existing.map(card => [getHoldingKey(card), card]));
+
+  const rows = strategy === 'add'
+    ? planAdditions(holdings, incoming, imported)
+    : planReplacements(holdings, incoming, strategy === 'sync');
+
+  return { strategy, rows };
+}
+
+/**
+ * Number of holdings a plan changes
+ */
+export function countChanges(plan: ImportPlan): number {
+  return plan.rows.filter(row => row.action !== 'skip').length;
+}
+
+function planAdditions(
+  holdings: Map<string, PortfolioCard>,
+  incoming: PortfolioCard[],
+  imported: Set<string>
+): ImportPlanRow[] {
+  const quantities = new Map(Array.from(holdings, ([key, card]) => [key, card.quantity]));
+
+  return incoming.map(card => {
+    const key = getHoldingKey(card);
+    const existing = holdings.get(key);
+    const previousQuantity = quantities.get(key) || 0;
+
+    if (wasImported(existing, card, imported)) {
+      return {
+        action: 'skip',
+        holding: card,
+        previousQuantity,
+        newQuantity: previousQuantity,
+        reason: 'Already imported',
+      };
+    }
+
+    quantities.set(key, previousQuantity + card.quantity);
+    return {
+      action: previousQuantity > 0 ? 'increase' : 'create',
+      holding: card,
+      previousQuantity,
+      newQuantity: previousQuantity + card.quantity,
+    };
+  });
+}
+
+function planReplacements(
+  holdings: Map<string, PortfolioCard>,
+  incoming: PortfolioCard[],
+  removeMissing: boolean
+): ImportPlanRow[] {
+  // Rows for the same holding, e.g. several purchases, are combined
+  const combined = new Map<string, PortfolioCard>();
+  incoming.forEach(card => {
+    const key = getHoldingKey(card);
+    const previous = combined.get(key);
+    combined.set(key, previous ? mergeHoldings(previous, card) : card);
+  });
+
+  const rows: ImportPlanRow[] = Array.from(combined, ([key, card]) => {
+    const previousQuantity = holdings.get(key)?.quantity || 0;
+
+    if (previousQuantity === card.quantity) {
+      return {
+        action: 'skip',
+        holding: card,
+        previousQuantity,
+        newQuantity: previousQuantity,
+        reason: 'Quantity unchanged',
+      };
+    }
+
+    return {
+      action: previousQuantity > 0 ? 'replace' : 'create',
+      holding: card,
+      previousQuantity,
+      newQuantity: card.quantity,
+    };
+  });
+
+  if (removeMissing) {
+    holdings.forEach((card, key) => {
+      if (!combined.has(key)) {
+        rows.push({ action: 'remove', holding: card, previousQuantity: card.quantity, newQuantity: 0 });
+      }
+    });
+  }
+
+  return rows;
+}
+
+function wasImported(existing: PortfolioCard | undefined, card: PortfolioCard, imported: Set<string>): boolean {
+  const lots = existing ? getHoldingLots(existing) : [];
+
+  if (card.importFingerprint) {
+    return imported.has(card.importFingerprint) ||
+      lots.some(lot => lot.importFingerprint === card.importFingerprint);
+  }
+
+  const date = card.purchaseDate.split('T')[0];
+  return lots.some(lot =>
+    lot.quantity === card.quantity &&
+    Math.abs(lot.pricePerCard - card.purchasePrice) < PRICE_TOLERANCE &&
+    lot.purchaseDate.split('T')[0] === date
+  );
+}
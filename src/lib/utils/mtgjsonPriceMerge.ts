@@ -0,0 +1,124 @@
+/**
+ * MTGJSON Price Merge
+ * Converts prices from MTGJSON's file format to the stored price history
+ * format, and appends a day's prices (AllPricesToday) to stored histories
+ */
+
+import {
+  MTGJSONCardPrices,
+  MTGJSONFileCardPrices,
+  MTGJSONFileProviderPrices,
+  MTGJSONPricePoint,
+} from '@/lib/types';
+
+interface ProviderPriceHistory {
+  normal?: MTGJSONPricePoint[];
+  foil?: MTGJSONPricePoint[];
+}
+
+type MarketPrices = Record<string, ProviderPriceHistory | MTGJSONFileProviderPrices | undefined>;
+
+export interface PriceMergeResult {
+  data: Record<string, MTGJSONCardPrices>;
+  cardsUpdated: number;
+  pointsAdded: number;
+}
+
+const PRICE_SOURCES = [
+  ['paper', 'cardkingdom'],
+  ['paper', 'cardmarket'],
+  ['paper', 'tcgplayer'],
+  ['mtgo', 'cardhoarder'],
+] as const;
+
+const FINISHES = ['normal', 'foil'] as const;
+
+function isFileFormat(prices: ProviderPriceHistory | MTGJSONFileProviderPrices): prices is MTGJSONFileProviderPrices {
+  return 'retail' in prices || 'buylist' in prices || 'currency' in prices;
+}
+
+function toPricePoints(prices: Record<string, number>): MTGJSONPricePoint[] {
+  return Object.entries(prices)
+    .map(([date, price]) => ({ date, price }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function normalizeProviderPrices(
+  prices: ProviderPriceHistory | MTGJSONFileProviderPrices
+): ProviderPriceHistory {
+  if (!isFileFormat(prices)) return prices;
+
+  // Histories track retail prices; buylist prices are dropped
+  const history: ProviderPriceHistory = {};
+  FINISHES.forEach(finish => {
+    const retail = prices.retail?.[finish];
+    if (retail) history[finish] = toPricePoints(retail);
+  });
+  return history;
+}
+
+/**
+ * Prices in the stored history format. Prices already in it are returned
+ * as they are.
+ */
+export function normalizeMTGJSONPrices(prices: MTGJSONCardPrices | MTGJSONFileCardPrices): MTGJSONCardPrices {
+  const normalized: Record<string, Record<string, ProviderPriceHistory>> = {};
+
+  PRICE_SOURCES.forEach(([market, provider]) => {
+    const providerPrices = (prices[market] as MarketPrices | undefined)?.[provider];
+    if (!providerPrices) return;
+
+    normalized[market] = normalized[market] || {};
+    normalized[market][provider] = normalizeProviderPrices(providerPrices);
+  });
+
+  return normalized as MTGJSONCardPrices;
+}
+
+/**
+ * Append a day's prices to stored histories. Only dates a history doesn't
+ * have yet are added; cards without a history get one.
+ */
+export function mergeDailyPrices(
+  stored: Record<string, MTGJSONCardPrices | MTGJSONFileCardPrices>,
+  today: Record<string, MTGJSONFileCardPrices>
+): PriceMergeResult {
+  const data = { ...stored } as Record<string, MTGJSONCardPrices>;
+  let cardsUpdated = 0;
+  let pointsAdded = 0;
+
+  Object.entries(today).forEach(([uuid, todayPrices]) => {
+    const history = stored[uuid] ? normalizeMTGJSONPrices(stored[uuid]) : {};
+    const additions = normalizeMTGJSONPrices(todayPrices);
+    let added = 0;
+
+    PRICE_SOURCES.forEach(([market, provider]) => {
+      const newPrices = (additions[market] as MarketPrices | undefined)?.[provider] as ProviderPriceHistory | undefined;
+      if (!newPrices) return;
+
+      const marketHistory = (history[market] || {}) as Record<string, ProviderPriceHistory>;
+      const providerHistory = { ...marketHistory[provider] };
+
+      FINISHES.forEach(finish => {
+        const points = providerHistory[finish] || [];
+        const dates = new Set(points.map(point => point.date));
+        const newPoints = (newPrices[finish] || []).filter(point => !dates.has(point.date));
+        if (newPoints.length === 0) return;
+
+        providerHistory[finish] = [...points, ...newPoints].sort((a, b) => a.date.localeCompare(b.date));
+        added += newPoints.length;
+      });
+
+      marketHistory[provider] = providerHistory;
+      (history as Record<string, unknown>)[market] = marketHistory;
+    });
+
+    data[uuid] = history;
+    if (added > 0) {
+      cardsUpdated++;
+      pointsAdded += added;
+    }
+  });
+
+  return { data, cardsUpdated, pointsAdded };
+}
@@ -0,0 +1,156 @@
+/**
+ * MTGJSON Stream Parser
+ * Tokenizes MTGJSON files ({ meta, data: { key: value } }) as they are
+ * downloaded, so only one entry of `data` (e.g. one set of AllPrintings)
+ * is held and parsed at a time instead of the whole file
+ */
+
+import { MTGJSONMeta } from '@/lib/types';
+
+interface MTGJSONStreamParserOptions {
+  onMeta?: (meta: MTGJSONMeta) => void;
+  onEntry: (key: string, value: unknown) => void;
+  // Entries this returns true for are scanned past without being parsed
+  skipEntry?: (key: string) => boolean;
+}
+
+interface Capture {
+  target: 'meta' | 'entry' | 'skip';
+  key: string;
+  depth: number; // Depth of the object the value belongs to
+  primitive: boolean;
+  parts: string[];
+  start: number; // Where the value starts in the current chunk
+}
+
+export class MTGJSONStreamParser {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private readingKey = false;
+  private keyBuffer = '';
+  private keys: string[] = []; // Current key of the object at each tracked depth
+  private expectingKey: boolean[] = [];
+  private capture: Capture | null = null;
+
+  constructor(private options: MTGJSONStreamParserOptions) {}
+
+  write(chunk: string): void {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.readingKey) {
+            this.readingKey = false;
+            this.keys[this.depth] = JSON.parse(`"${this.keyBuffer}"`);
+            continue;
+          }
+        }
+        if (this.readingKey) this.keyBuffer += char;
+        continue;
+      }
+
+      if (char === ' ' || char === '\n' || char === '\r' || char === '\t') continue;
+
+      const capture = this.capture;
+      if (capture?.primitive && this.depth === capture.depth && (char === ',' || char === '}' || char === ']')) {
+        this.endCapture(chunk, i);
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          if (!this.capture && this.isTracked(this.depth) && this.expectingKey[this.depth]) {
+            this.readingKey = true;
+            this.keyBuffer = '';
+          } else {
+            this.startValue(chunk, i, true);
+          }
+          break;
+        case ':':
+          if (!this.capture && this.isTracked(this.depth)) {
+            this.expectingKey[this.depth] = false;
+          }
+          break;
+        case ',':
+          if (!this.capture && this.isTracked(this.depth)) {
+            this.expectingKey[this.depth] = true;
+          }
+          break;
+        case '{':
+        case '[':
+          this.startValue(chunk, i, false);
+          this.depth++;
+          this.expectingKey[this.depth] = char === '{';
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.capture && !this.capture.primitive && this.depth === this.capture.depth) {
+            this.endCapture(chunk, i + 1);
+          }
+          break;
+        default:
+          // Numbers, true, false and null
+          this.startValue(chunk, i, true);
+      }
+    }
+
+    if (this.capture && this.capture.target !== 'skip') {
+      this.capture.parts.push(chunk.slice(this.capture.start));
+    }
+    if (this.capture) this.capture.start = 0;
+  }
+
+  /**
+   * Call once the whole file was written
+   */
+  end(): void {
+    if (this.depth !== 0 || this.inString || this.capture) {
+      throw new Error('Unexpected end of MTGJSON data');
+    }
+  }
+
+  // The root object and the `data` object, whose values are picked out
+  private isTracked(depth: number): boolean {
+    return depth === 1 || (depth === 2 && this.keys[1] === 'data');
+  }
+
+  private startValue(chunk: string, index: number, primitive: boolean): void {
+    if (this.capture || !this.isTracked(this.depth)) return;
+
+    const key = this.keys[this.depth];
+    let target: Capture['target'];
+
+    if (this.depth === 1) {
+      // The data object is entered rather than captured
+      if (key === 'data' && chunk[index] === '{') return;
+      target = key === 'meta' ? 'meta' : 'skip';
+    } else {
+      target = this.options.skipEntry?.(key) ? 'skip' : 'entry';
+    }
+
+    this.capture = { target, key, depth: this.depth, primitive, parts: [], start: index };
+  }
+
+  private endCapture(chunk: string, end: number): void {
+    const capture = this.capture!;
+    this.capture = null;
+    if (capture.target === 'skip') return;
+
+    capture.parts.push(chunk.slice(capture.start, end));
+    const value = JSON.parse(capture.parts.join(''));
+
+    if (capture.target === 'meta') {
+      this.options.onMeta?.(value);
+    } else {
+      this.options.onEntry(capture.key, value);
+    }
+  }
+}
@@ -1,3 +1,6 @@
+import { PriceAnomaly } from '@/lib/types';
+import { detectPriceAnomalies } from './priceAnomalies';
+
 // Define the PriceHistoryPoint interface to match scryfall.ts
 interface PriceHistoryPoint {
   date: string;
@@ -26,6 +29,7 @@ export interface PriceTrendAnalysis {
   trend7d: TrendData | null;
   trend30d: TrendData | null;
   volatility: VolatilityMetrics | null;
+  anomalies: PriceAnomaly[]; // Unusual moves in the last 14 days
   lastUpdated: Date;
 }
 
@@ -168,14 +172,56 @@ export function calculateVolatility(priceHistory: PriceHistoryPoint[]): Volatili
   };
 }
 
+/**
+ * Summary statistics for a daily price series, oldest first, as stored on
+ * a PriceHistory. The trend compares the last 7 prices with the 7 before.
+ */
+export function summarizePriceSeries(prices: number[]): {
+  trend: 'up' | 'down' | 'stable';
+  volatility: number;
+  averagePrice: number;
+  percentChange24h?: number;
+  percentChange7d?: number;
+} {
+  const averagePrice = prices.reduce((sum, price) => sum + price, 0) / prices.length;
+
+  const recent = prices.slice(-7);
+  const previous = prices.slice(-14, -7);
+  const recentAvg = recent.reduce((sum, p) => sum + p, 0) / recent.length;
+  const previousAvg = previous.reduce((sum, p) => sum + p, 0) / previous.length;
+
+  const trend: 'up' | 'down' | 'stable' =
+    recentAvg > previousAvg * 1.05 ? 'up' :
+    recentAvg < previousAvg * 0.95 ? 'down' : 'stable';
+
+  // Standard deviation
+  const variance = prices.reduce((sum, price) => sum + Math.pow(price - averagePrice, 2), 0) / prices.length;
+  const volatility = Math.sqrt(variance);
+
+  const percentChange24h = prices.length >= 2 ?
+    ((prices[prices.length - 1] - prices[prices.length - 2]) / prices[prices.length - 2]) * 100 : undefined;
+
+  const percentChange7d = recent.length > 0 && previous.length > 0 ?
+    ((recentAvg - previousAvg) / previousAvg) * 100 : undefined;
+
+  return { trend, volatility, averagePrice, percentChange24h, percentChange7d };
+}
+
 /**
  * Get a complete trend analysis for a card's price history
  */
 export function analyzePriceTrends(priceHistory: PriceHistoryPoint[]): PriceTrendAnalysis {
+  const since = new Date();
+  since.setDate(since.getDate() - 14);
+
   return {
     trend7d: calculateTrend(priceHistory, '7d'),
     trend30d: calculateTrend(priceHistory, '30d'),
     volatility: calculateVolatility(priceHistory),
+    anomalies: detectPriceAnomalies(
+      priceHistory.filter(point => point.priceType === 'usd'),
+      { since: since.toISOString().split('T')[0] }
+    ),
     lastUpdated: new Date()
   };
 }
@@ -191,7 +237,7 @@ export function formatTrendDisplay(trend: TrendData | null): {
   if (!trend) {
     return {
       arrow: '–',
-      text: 'No data',
+      text: 'Insufficient data',
       colorClass: 'text-muted-foreground'
     };
   }
@@ -0,0 +1,161 @@
+/**
+ * Price Anomaly Detection
+ * Finds statistically unusual moves in a daily price series: day-over-day
+ * moves far outside the recent range of moves (z-score), buyout-style
+ * jumps over a few days, and breakouts that hold outside the recent range.
+ */
+
+import { PriceAnomaly } from '@/lib/types';
+
+export interface AnomalyDetectionOptions {
+  window: number; // Prices z-scores and breakout ranges are measured against
+  zScoreThreshold: number;
+  minMovePercent: number; // Smaller day-over-day moves are never flagged
+  buyoutPercent: number;
+  buyoutDays: number; // Days a buyout's rise may take
+  breakoutDays: number; // Days a price must hold outside the range
+  since?: string; // Only report moves on or after this date
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyDetectionOptions = {
+  window: 14,
+  zScoreThreshold: 3,
+  minMovePercent: 5,
+  buyoutPercent: 50,
+  buyoutDays: 3,
+  breakoutDays: 5,
+};
+
+// Flat histories have no deviation; a 1% floor keeps their z-scores finite
+const MIN_RETURN_DEVIATION = 0.01;
+
+function getSeverity(changePercent: number): PriceAnomaly['severity'] {
+  const change = Math.abs(changePercent);
+  return change >= 50 ? 'high' : change >= 20 ? 'medium' : 'low';
+}
+
+function createAnomaly(
+  type: PriceAnomaly['type'],
+  date: string,
+  price: number,
+  baseline: number,
+  zScore?: number
+): PriceAnomaly {
+  const changePercent = ((price - baseline) / baseline) * 100;
+  return {
+    type,
+    direction: price >= baseline ? 'up' : 'down',
+    date,
+    price,
+    baseline,
+    changePercent,
+    ...(zScore !== undefined && { zScore }),
+    severity: getSeverity(changePercent),
+  };
+}
+
+/**
+ * Unusual moves in a price series, oldest first. Each move is reported
+ * once, on the day it was detected; a z-score jump that is part of a
+ * buyout is reported as the buyout.
+ */
+export function detectPriceAnomalies(
+  points: { date: string; price: number }[],
+  options: Partial<AnomalyDetectionOptions> = {}
+): PriceAnomaly[] {
+  const { window, zScoreThreshold, minMovePercent, buyoutPercent, buyoutDays, breakoutDays, since } = {
+    ...DEFAULT_ANOMALY_OPTIONS,
+    ...options,
+  };
+
+  const sorted = points
+    .filter(point => point.price > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const prices = sorted.map(point => point.price);
+
+  const anomalies: PriceAnomaly[] = [];
+  let inBuyout = false;
+  // The range a breakout left; it isn't reported again until prices return to it
+  let breakoutRange: { low: number; high: number } | null = null;
+
+  for (let i = 1; i < prices.length; i++) {
+    const { date, price } = sorted[i];
+
+    // Buyouts: a rise of buyoutPercent from the lowest of the last few prices
+    const recentLow = Math.min(...prices.slice(Math.max(0, i - buyoutDays), i));
+    const wasInBuyout = inBuyout;
+    inBuyout = ((price - recentLow) / recentLow) * 100 >= buyoutPercent;
+    if (inBuyout && !wasInBuyout) {
+      anomalies.push(createAnomaly('buyout', date, price, recentLow));
+    }
+
+    // Z-scores: the day's move against the moves in the window before it
+    if (i > window && !inBuyout) {
+      const returns = prices.slice(i - window, i).map((p, j) => p / prices[i - window + j - 1] - 1);
+      const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+      const deviation = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length);
+      const dayReturn = price / prices[i - 1] - 1;
+      const zScore = (dayReturn - mean) / Math.max(deviation, MIN_RETURN_DEVIATION);
+
+      if (Math.abs(zScore) >= zScoreThreshold && Math.abs(dayReturn) * 100 >= minMovePercent) {
+        anomalies.push(createAnomaly('zscore', date, price, prices[i - 1], zScore));
+      }
+    }
+
+    // Breakouts: breakoutDays prices in a row above or below the window before them
+    if (breakoutRange && price >= breakoutRange.low && price <= breakoutRange.high) {
+      breakoutRange = null;
+    }
+    const start = i - breakoutDays + 1;
+    if (!breakoutRange && start - window >= 0) {
+      const range = prices.slice(start - window, start);
+      const high = Math.max(...range);
+      const low = Math.min(...range);
+      const held = prices.slice(start, i + 1);
+
+      if (held.every(p => p > high) || held.every(p => p < low)) {
+        breakoutRange = { low, high };
+        anomalies.push(createAnomaly('breakout', date, price, price > high ? high : low));
+      }
+    }
+  }
+
+  return since ? anomalies.filter(anomaly => anomaly.date >= since) : anomalies;
+}
+
+/**
+ * Badge text and colours for an anomaly
+ */
+export function getAnomalyBadge(anomaly: PriceAnomaly): {
+  text: string;
+  colorClass: string;
+} {
+  switch (anomaly.type) {
+    case 'buyout':
+      return { text: 'Buyout', colorClass: 'bg-purple-100 text-purple-800 border-purple-200' };
+    case 'breakout':
+      return anomaly.direction === 'up'
+        ? { text: 'Breakout', colorClass: 'bg-green-100 text-green-800 border-green-200' }
+        : { text: 'Breakdown', colorClass: 'bg-orange-100 text-orange-800 border-orange-200' };
+    case 'zscore':
+      return anomaly.direction === 'up'
+        ? { text: 'Spike', colorClass: 'bg-blue-100 text-blue-800 border-blue-200' }
+        : { text: 'Crash', colorClass: 'bg-red-100 text-red-800 border-red-200' };
+  }
+}
+
+/**
+ * One-line explanation of an anomaly, e.g. for an events feed
+ */
+export function describeAnomaly(anomaly: PriceAnomaly, formatPrice: (price: number) => string): string {
+  const change = `${anomaly.changePercent >= 0 ? '+' : ''}${anomaly.changePercent.toFixed(1)}%`;
+
+  switch (anomaly.type) {
+    case 'buyout':
+      return `Jumped ${change} from ${formatPrice(anomaly.baseline)} to ${formatPrice(anomaly.price)} in a few days`;
+    case 'breakout':
+      return `Held ${anomaly.direction === 'up' ? 'above' : 'below'} its recent range, ${change} past ${formatPrice(anomaly.baseline)}`;
+    case 'zscore':
+      return `Moved ${change} in a day, ${Math.abs(anomaly.zScore || 0).toFixed(1)} standard deviations from its usual moves`;
+  }
+}
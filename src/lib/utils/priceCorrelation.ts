@@ -0,0 +1,156 @@
+/**
+ * Price Correlation
+ * Correlations between the daily returns of price series, and average
+ * linkage hierarchical clustering of them, to show which cards move
+ * together
+ */
+
+export interface ClusterNode {
+  members: number[]; // Series indices, in dendrogram leaf order
+  distance: number; // 1 - correlation at which the node's halves merged
+  left?: ClusterNode;
+  right?: ClusterNode;
+}
+
+export interface CorrelationAnalysis {
+  ids: string[]; // In clustered order
+  matrix: (number | null)[][]; // Rows and columns in clustered order; null without enough shared days
+  clusters: string[][]; // Groups of ids that move together
+  averageCorrelation: number | null;
+}
+
+export interface CorrelationOptions {
+  minOverlap: number; // Fewest shared days of returns a correlation needs
+  clusterThreshold: number; // Correlation a cluster's members average at least
+}
+
+export const DEFAULT_CORRELATION_OPTIONS: CorrelationOptions = {
+  minOverlap: 10,
+  clusterThreshold: 0.6,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Percent returns by date, for prices a day apart
+ */
+export function dailyReturns(points: { date: string; price: number }[]): Map<string, number> {
+  const sorted = points
+    .filter(point => point.price > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const returns = new Map<string, number>();
+
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = new Date(sorted[i].date).getTime() - new Date(sorted[i - 1].date).getTime();
+    if (gap === DAY_MS) {
+      returns.set(sorted[i].date, sorted[i].price / sorted[i - 1].price - 1);
+    }
+  }
+
+  return returns;
+}
+
+/**
+ * Pearson correlation over the dates both series have returns for, or null
+ * with fewer than `minOverlap` of them or a series that doesn't move
+ */
+export function correlateReturns(
+  a: Map<string, number>,
+  b: Map<string, number>,
+  minOverlap: number = DEFAULT_CORRELATION_OPTIONS.minOverlap
+): number | null {
+  const dates = Array.from(a.keys()).filter(date => b.has(date));
+  if (dates.length < minOverlap) return null;
+
+  const xs = dates.map(date => a.get(date)!);
+  const ys = dates.map(date => b.get(date)!);
+  const xMean = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const yMean = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let covariance = 0;
+  let xVariance = 0;
+  let yVariance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - xMean) * (ys[i] - yMean);
+    xVariance += Math.pow(x - xMean, 2);
+    yVariance += Math.pow(ys[i] - yMean, 2);
+  });
+
+  if (xVariance === 0 || yVariance === 0) return null;
+  return covariance / Math.sqrt(xVariance * yVariance);
+}
+
+/**
+ * Average linkage clustering on 1 - correlation. Pairs without a
+ * correlation count as uncorrelated.
+ */
+export function clusterHierarchically(matrix: (number | null)[][]): ClusterNode | null {
+  if (matrix.length === 0) return null;
+
+  const distance = (i: number, j: number) => 1 - (matrix[i][j] ?? 0);
+  const linkage = (a: ClusterNode, b: ClusterNode) => {
+    let total = 0;
+    a.members.forEach(i => b.members.forEach(j => { total += distance(i, j); }));
+    return total / (a.members.length * b.members.length);
+  };
+
+  let nodes: ClusterNode[] = matrix.map((_, i) => ({ members: [i], distance: 0 }));
+  while (nodes.length > 1) {
+    let closest = { a: 0, b: 1, distance: Infinity };
+    for (let a = 0; a < nodes.length; a++) {
+      for (let b = a + 1; b < nodes.length; b++) {
+        const d = linkage(nodes[a], nodes[b]);
+        if (d < closest.distance) closest = { a, b, distance: d };
+      }
+    }
+
+    const left = nodes[closest.a];
+    const right = nodes[closest.b];
+    nodes = [
+      ...nodes.filter((_, i) => i !== closest.a && i !== closest.b),
+      { members: [...left.members, ...right.members], distance: closest.distance, left, right },
+    ];
+  }
+
+  return nodes[0];
+}
+
+/**
+ * The largest subtrees merged within `maxDistance`, as groups of indices
+ */
+export function cutClusters(node: ClusterNode, maxDistance: number): number[][] {
+  if (node.distance <= maxDistance) return [node.members];
+  return [
+    ...(node.left ? cutClusters(node.left, maxDistance) : []),
+    ...(node.right ? cutClusters(node.right, maxDistance) : []),
+  ];
+}
+
+/**
+ * Correlation matrix of several price series in clustered order, so cards
+ * that move together sit next to each other
+ */
+export function analyzeCorrelations(
+  series: { id: string; points: { date: string; price: number }[] }[],
+  options: Partial<CorrelationOptions> = {}
+): CorrelationAnalysis {
+  const { minOverlap, clusterThreshold } = { ...DEFAULT_CORRELATION_OPTIONS, ...options };
+  const returns = series.map(s => dailyReturns(s.points));
+
+  const matrix = returns.map((a, i) => returns.map((b, j) => (i === j ? 1 : correlateReturns(a, b, minOverlap))));
+  const root = clusterHierarchically(matrix);
+  const order = root ? root.members : [];
+
+  const pairs = matrix.flatMap((row, i) => row.slice(i + 1)).filter((value): value is number => value !== null);
+
+  return {
+    ids: order.map(i => series[i].id),
+    matrix: order.map(i => order.map(j => matrix[i][j])),
+    clusters: root
+      ? cutClusters(root, 1 - clusterThreshold)
+        .filter(members => members.length > 1)
+        .map(members => members.map(i => series[i].id))
+      : [],
+    averageCorrelation: pairs.length > 0 ? pairs.reduce((sum, value) => sum + value, 0) / pairs.length : null,
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Price Forecasting
+ * Projects a daily price series forward with Holt-Winters exponential
+ * smoothing or a linear regression on log prices, with a confidence band
+ * around each projected price. A backtest on the most recent prices shows
+ * how well a model would have predicted them.
+ */
+
+export type ForecastModel = 'holtWinters' | 'logLinear';
+
+export type ForecastConfidence = 0.8 | 0.9 | 0.95;
+
+export const FORECAST_MODELS: Record<ForecastModel, string> = {
+  holtWinters: 'Holt-Winters',
+  logLinear: 'Log-linear trend',
+};
+
+export interface ForecastPoint {
+  date: string;
+  price: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastBacktest {
+  holdout: number; // Most recent prices the model was tested on
+  mape: number; // Mean absolute percentage error
+  coverage: number; // Share of tested prices inside the band, 0 to 1
+}
+
+export interface PriceForecast {
+  model: ForecastModel;
+  horizon: number;
+  confidence: ForecastConfidence;
+  points: ForecastPoint[];
+  backtest: ForecastBacktest | null;
+}
+
+// Fewest prices a model is fitted to
+export const MIN_FORECAST_POINTS = 14;
+
+// Weekly seasonality is fitted once there are this many weeks of prices
+const SEASON_LENGTH = 7;
+const MIN_SEASONS = 4;
+
+const Z_SCORES: Record<ForecastConfidence, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PricePoint = { date: string; price: number };
+
+// Projected price `step` prices and `days` days after the last fitted price
+type Predictor = (step: number, days: number, z: number) => Omit<ForecastPoint, 'date'>;
+
+function dayNumber(date: string): number {
+  return Math.round(new Date(`${date}T00:00:00Z`).getTime() / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date((dayNumber(date) + days) * DAY_MS).toISOString().split('T')[0];
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Additive Holt-Winters, one step per price. Without enough prices for
+ * weekly seasons this is Holt's linear trend method.
+ */
+function runHoltWinters(values: number[], alpha: number, beta: number, gamma: number, season: number) {
+  let level: number;
+  let trend: number;
+  const seasonals: number[] = [];
+
+  if (season > 0) {
+    // Start from the line through the first two seasons' averages
+    const firstMean = mean(values.slice(0, season));
+    trend = (mean(values.slice(season, 2 * season)) - firstMean) / season;
+    level = firstMean + (trend * (season - 1)) / 2;
+    for (let i = 0; i < season; i++) {
+      seasonals.push(values[i] - (firstMean + trend * (i - (season - 1) / 2)));
+    }
+  } else {
+    level = values[0];
+    trend = values[1] - values[0];
+  }
+
+  const residuals: number[] = [];
+  for (let t = season > 0 ? season : 1; t < values.length; t++) {
+    const seasonal = season > 0 ? seasonals[t % season] : 0;
+    residuals.push(values[t] - (level + trend + seasonal));
+
+    const nextLevel = alpha * (values[t] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    if (season > 0) {
+      seasonals[t % season] = gamma * (values[t] - nextLevel) + (1 - gamma) * seasonal;
+    }
+    level = nextLevel;
+  }
+
+  return { level, trend, seasonals, residuals };
+}
+
+function fitHoltWinters(points: PricePoint[]): Predictor {
+  const values = points.map(point => point.price);
+  const season = values.length >= SEASON_LENGTH * MIN_SEASONS ? SEASON_LENGTH : 0;
+
+  // Smoothing parameters with the smallest one-step-ahead error
+  let best: { alpha: number; beta: number; fit: ReturnType<typeof runHoltWinters>; error: number } | null = null;
+  for (const alpha of [0.1, 0.3, 0.5, 0.7, 0.9]) {
+    for (const beta of [0.05, 0.1, 0.2, 0.3]) {
+      for (const gamma of season > 0 ? [0.1, 0.3, 0.5] : [0]) {
+        const fit = runHoltWinters(values, alpha, beta, gamma, season);
+        const error = fit.residuals.reduce((sum, r) => sum + r * r, 0);
+        if (!best || error < best.error) best = { alpha, beta, fit, error };
+      }
+    }
+  }
+
+  const { alpha, beta, fit } = best!;
+  const sigma = Math.sqrt(mean(fit.residuals.map(r => r * r)));
+
+  return (step, _days, z) => {
+    const seasonal = season > 0 ? fit.seasonals[(values.length - 1 + step) % season] : 0;
+    const price = fit.level + step * fit.trend + seasonal;
+
+    // Variance of Holt's method h steps ahead
+    let variance = 1;
+    for (let j = 1; j < step; j++) {
+      variance += Math.pow(alpha * (1 + j * beta), 2);
+    }
+    const margin = z * sigma * Math.sqrt(variance);
+
+    return {
+      price: Math.max(price, 0),
+      lower: Math.max(price - margin, 0),
+      upper: Math.max(price + margin, 0),
+    };
+  };
+}
+
+/**
+ * Least squares line through log prices against days, so the trend is a
+ * steady percentage a day and the band widens away from the fitted data
+ */
+function fitLogLinear(points: PricePoint[]): Predictor {
+  const firstDay = dayNumber(points[0].date);
+  const days = points.map(point => dayNumber(point.date) - firstDay);
+  const logs = points.map(point => Math.log(point.price));
+
+  const dayMean = mean(days);
+  const logMean = mean(logs);
+  const sxx = days.reduce((sum, d) => sum + Math.pow(d - dayMean, 2), 0);
+  const sxy = days.reduce((sum, d, i) => sum + (d - dayMean) * (logs[i] - logMean), 0);
+
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = logMean - slope * dayMean;
+  const squaredErrors = logs.reduce((sum, y, i) => sum + Math.pow(y - (intercept + slope * days[i]), 2), 0);
+  const standardError = Math.sqrt(squaredErrors / Math.max(points.length - 2, 1));
+  const lastDay = days[days.length - 1];
+
+  return (_step, daysAhead, z) => {
+    const day = lastDay + daysAhead;
+    const logPrice = intercept + slope * day;
+    const margin = z * standardError * Math.sqrt(
+      1 + 1 / points.length + (sxx > 0 ? Math.pow(day - dayMean, 2) / sxx : 0)
+    );
+
+    return {
+      price: Math.exp(logPrice),
+      lower: Math.exp(logPrice - margin),
+      upper: Math.exp(logPrice + margin),
+    };
+  };
+}
+
+const FITTERS: Record<ForecastModel, (points: PricePoint[]) => Predictor> = {
+  holtWinters: fitHoltWinters,
+  logLinear: fitLogLinear,
+};
+
+function preparePoints(points: PricePoint[]): PricePoint[] {
+  return points
+    .filter(point => point.price > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Fit a model to all but the most recent prices (up to `horizon` of them,
+ * and at most a quarter of the series) and compare its projection with them
+ */
+export function backtestForecast(
+  points: PricePoint[],
+  horizon: number,
+  model: ForecastModel,
+  confidence: ForecastConfidence = 0.95
+): ForecastBacktest | null {
+  const sorted = preparePoints(points);
+  const holdout = Math.min(horizon, Math.floor(sorted.length / 4));
+  const training = sorted.slice(0, sorted.length - holdout);
+  if (holdout === 0 || training.length < MIN_FORECAST_POINTS) return null;
+
+  const predict = FITTERS[model](training);
+  const lastDay = dayNumber(training[training.length - 1].date);
+  const tested = sorted.slice(training.length).map((actual, i) => ({
+    actual: actual.price,
+    ...predict(i + 1, dayNumber(actual.date) - lastDay, Z_SCORES[confidence]),
+  }));
+
+  return {
+    holdout,
+    mape: mean(tested.map(t => (Math.abs(t.actual - t.price) / t.actual) * 100)),
+    coverage: tested.filter(t => t.actual >= t.lower && t.actual <= t.upper).length / tested.length,
+  };
+}
+
+/**
+ * Project a daily price series `horizon` days ahead. 'auto' picks the
+ * model with the smaller backtest error. Returns null with fewer than
+ * MIN_FORECAST_POINTS prices.
+ */
+export function forecastPrices(
+  points: PricePoint[],
+  horizon: number,
+  model: ForecastModel | 'auto' = 'auto',
+  confidence: ForecastConfidence = 0.95
+): PriceForecast | null {
+  const sorted = preparePoints(points);
+  if (sorted.length < MIN_FORECAST_POINTS) return null;
+
+  let chosen: ForecastModel;
+  let backtest: ForecastBacktest | null;
+  if (model === 'auto') {
+    const candidates = (Object.keys(FITTERS) as ForecastModel[])
+      .map(candidate => ({ model: candidate, backtest: backtestForecast(sorted, horizon, candidate, confidence) }))
+      .sort((a, b) => (a.backtest?.mape ?? Infinity) - (b.backtest?.mape ?? Infinity));
+    ({ model: chosen, backtest } = candidates[0]);
+  } else {
+    chosen = model;
+    backtest = backtestForecast(sorted, horizon, model, confidence);
+  }
+
+  const predict = FITTERS[chosen](sorted);
+  const lastDate = sorted[sorted.length - 1].date;
+
+  return {
+    model: chosen,
+    horizon,
+    confidence,
+    points: Array.from({ length: horizon }, (_, i) => ({
+      date: addDays(lastDate, i + 1),
+      ...predict(i + 1, i + 1, Z_SCORES[confidence]),
+    })),
+    backtest,
+  };
+}
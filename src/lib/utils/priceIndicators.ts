@@ -0,0 +1,210 @@
+/**
+ * Price Indicators
+ * Technical indicators for price series, oldest price first. Series
+ * indicators return one value per price, null until enough prices came
+ * before it.
+ */
+
+export type PriceIndicator = 'sma' | 'ema' | 'bollinger' | 'rsi' | 'roc' | 'drawdown';
+
+export const INDICATOR_PERIODS = {
+  sma: 7,
+  ema: 14,
+  bollinger: 20,
+  rsi: 14,
+  roc: 7,
+};
+
+export const PRICE_INDICATORS: Record<PriceIndicator, {
+  label: string;
+  description: string;
+  // Drawn below the price chart on its own scale rather than over prices
+  oscillator: boolean;
+}> = {
+  sma: {
+    label: `SMA ${INDICATOR_PERIODS.sma}`,
+    description: 'Simple moving average of the last prices',
+    oscillator: false,
+  },
+  ema: {
+    label: `EMA ${INDICATOR_PERIODS.ema}`,
+    description: 'Moving average that weights recent prices more',
+    oscillator: false,
+  },
+  bollinger: {
+    label: 'Bollinger Bands',
+    description: `Two standard deviations around the ${INDICATOR_PERIODS.bollinger}-point average`,
+    oscillator: false,
+  },
+  rsi: {
+    label: `RSI ${INDICATOR_PERIODS.rsi}`,
+    description: 'Relative strength: above 70 is overbought, below 30 oversold',
+    oscillator: true,
+  },
+  roc: {
+    label: `ROC ${INDICATOR_PERIODS.roc}`,
+    description: `Percent change over the last ${INDICATOR_PERIODS.roc} prices`,
+    oscillator: true,
+  },
+  drawdown: {
+    label: 'Max Drawdown',
+    description: 'Largest fall from a high to a later low',
+    oscillator: false,
+  },
+};
+
+export interface BollingerBand {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface Drawdown {
+  percent: number; // Fall from the peak, as a positive percentage
+  peakIndex: number;
+  troughIndex: number;
+}
+
+// Indicator values at one price, as chart series
+export interface IndicatorValues {
+  sma?: number;
+  ema?: number;
+  bollingerUpper?: number;
+  bollingerMiddle?: number;
+  bollingerLower?: number;
+  rsi?: number;
+  roc?: number;
+}
+
+export function simpleMovingAverage(prices: number[], period: number): (number | null)[] {
+  let sum = 0;
+
+  return prices.map((price, index) => {
+    sum += price;
+    if (index >= period) sum -= prices[index - period];
+    return index >= period - 1 ? sum / period : null;
+  });
+}
+
+/**
+ * Exponential moving average, starting from the simple average of the
+ * first `period` prices
+ */
+export function exponentialMovingAverage(prices: number[], period: number): (number | null)[] {
+  const smoothing = 2 / (period + 1);
+  let average: number | null = null;
+
+  return prices.map((price, index) => {
+    if (index < period - 1) return null;
+
+    average = average === null
+      ? prices.slice(0, period).reduce((sum, p) => sum + p, 0) / period
+      : price * smoothing + average * (1 - smoothing);
+    return average;
+  });
+}
+
+export function bollingerBands(prices: number[], period: number, multiplier = 2): (BollingerBand | null)[] {
+  return simpleMovingAverage(prices, period).map((middle, index) => {
+    if (middle === null) return null;
+
+    const window = prices.slice(index - period + 1, index + 1);
+    const variance = window.reduce((sum, price) => sum + Math.pow(price - middle, 2), 0) / period;
+    const deviation = Math.sqrt(variance) * multiplier;
+
+    return { upper: middle + deviation, middle, lower: middle - deviation };
+  });
+}
+
+/**
+ * Relative strength index with Wilder's smoothing, from 0 to 100
+ */
+export function relativeStrengthIndex(prices: number[], period: number): (number | null)[] {
+  const result: (number | null)[] = prices.map(() => null);
+  if (prices.length <= period) return result;
+
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  for (let i = 1; i < prices.length; i++) {
+    const change = prices[i] - prices[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (i <= period) {
+      averageGain += gain / period;
+      averageLoss += loss / period;
+      if (i < period) continue;
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+
+    result[i] = averageLoss === 0
+      ? (averageGain === 0 ? 50 : 100)
+      : 100 - 100 / (1 + averageGain / averageLoss);
+  }
+
+  return result;
+}
+
+/**
+ * Percent change from the price `period` prices earlier
+ */
+export function rateOfChange(prices: number[], period: number): (number | null)[] {
+  return prices.map((price, index) => {
+    const previous = prices[index - period];
+    return index >= period && previous > 0 ? ((price - previous) / previous) * 100 : null;
+  });
+}
+
+/**
+ * Largest fall from a high to a later low, or null with fewer than two prices
+ */
+export function maxDrawdown(prices: number[]): Drawdown | null {
+  if (prices.length < 2) return null;
+
+  let peakIndex = 0;
+  let worst: Drawdown = { percent: 0, peakIndex: 0, troughIndex: 0 };
+
+  prices.forEach((price, index) => {
+    if (price > prices[peakIndex]) {
+      peakIndex = index;
+      return;
+    }
+
+    const percent = prices[peakIndex] > 0 ? ((prices[peakIndex] - price) / prices[peakIndex]) * 100 : 0;
+    if (percent > worst.percent) {
+      worst = { percent, peakIndex, troughIndex: index };
+    }
+  });
+
+  return worst;
+}
+
+/**
+ * Values of the selected series indicators at each price
+ */
+export function calculateIndicators(prices: number[], indicators: PriceIndicator[]): IndicatorValues[] {
+  const values: IndicatorValues[] = prices.map(() => ({}));
+  const assign = (series: (number | null)[], key: keyof IndicatorValues) => {
+    series.forEach((value, index) => {
+      if (value !== null) values[index][key] = value;
+    });
+  };
+
+  if (indicators.includes('sma')) assign(simpleMovingAverage(prices, INDICATOR_PERIODS.sma), 'sma');
+  if (indicators.includes('ema')) assign(exponentialMovingAverage(prices, INDICATOR_PERIODS.ema), 'ema');
+  if (indicators.includes('rsi')) assign(relativeStrengthIndex(prices, INDICATOR_PERIODS.rsi), 'rsi');
+  if (indicators.includes('roc')) assign(rateOfChange(prices, INDICATOR_PERIODS.roc), 'roc');
+  if (indicators.includes('bollinger')) {
+    bollingerBands(prices, INDICATOR_PERIODS.bollinger).forEach((band, index) => {
+      if (!band) return;
+      values[index].bollingerUpper = band.upper;
+      values[index].bollingerMiddle = band.middle;
+      values[index].bollingerLower = band.lower;
+    });
+  }
+
+  return values;
+}
@@ -0,0 +1,47 @@
+/**
+ * Price Providers
+ * The stores MTGJSON price histories come from, and the currency each
+ * one prices cards in
+ */
+
+import { PriceCurrency, PriceProvider, ProcessedCardPrice } from '@/lib/types';
+import { formatCurrency } from './currency';
+
+export interface PriceProviderInfo {
+  label: string;
+  currency: PriceCurrency;
+  market: 'paper' | 'mtgo';
+}
+
+export const PRICE_PROVIDERS: Record<PriceProvider, PriceProviderInfo> = {
+  tcgplayer: { label: 'TCGplayer', currency: 'usd', market: 'paper' },
+  cardkingdom: { label: 'Card Kingdom', currency: 'usd', market: 'paper' },
+  cardmarket: { label: 'Cardmarket', currency: 'eur', market: 'paper' },
+  cardhoarder: { label: 'Cardhoarder (MTGO)', currency: 'tix', market: 'mtgo' },
+};
+
+export const DEFAULT_PRICE_PROVIDER: PriceProvider = 'tcgplayer';
+
+type PriceType = ProcessedCardPrice['priceType'];
+
+/**
+ * Price types a provider's normal and foil prices are recorded as.
+ * MTGO prices have no foil type.
+ */
+export function getProviderPriceTypes(provider: PriceProvider): { normal: PriceType; foil?: PriceType } {
+  switch (PRICE_PROVIDERS[provider].currency) {
+    case 'usd':
+      return { normal: 'usd', foil: 'usdFoil' };
+    case 'eur':
+      return { normal: 'eur', foil: 'eurFoil' };
+    case 'tix':
+      return { normal: 'tix' };
+  }
+}
+
+/**
+ * Format a price in a provider currency, e.g. "$1.50", "€1.20" or "0.05 tix"
+ */
+export function formatProviderPrice(value: number, currency: PriceCurrency): string {
+  return currency === 'tix' ? `${value.toFixed(2)} tix` : formatCurrency(value, currency);
+}
@@ -0,0 +1,159 @@
+/**
+ * Price Series Utilities
+ * Time-series points for MTGJSON price histories: flattening histories into
+ * points, downsampling old daily points into weekly and monthly averages,
+ * and the date ranges of chart windows. Dates are UTC.
+ */
+
+import {
+  MTGJSONCardPrices,
+  PriceFinish,
+  PriceProvider,
+  PriceResolution,
+  PriceRetentionPolicy,
+  PriceSeriesPoint,
+  PriceWindow,
+  ProcessedCardPrice,
+} from '@/lib/types';
+import { PRICE_PROVIDERS, getProviderPriceTypes } from './priceProviders';
+
+export const DEFAULT_RETENTION_POLICY: PriceRetentionPolicy = {
+  dailyDays: 90,
+  weeklyDays: 730,
+  maxDays: null,
+};
+
+const WINDOW_DAYS: Record<Exclude<PriceWindow, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+};
+
+const FINISHES: PriceFinish[] = ['normal', 'foil'];
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+}
+
+/**
+ * First day of the week (Monday) or month a date falls in
+ */
+export function getPeriodStart(date: string, resolution: PriceResolution): string {
+  if (resolution === 'month') return `${date.slice(0, 7)}-01`;
+  if (resolution === 'day') return date;
+
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+/**
+ * First date in a chart window, or '' for all of it
+ */
+export function getWindowStart(window: PriceWindow, now: Date = new Date()): string {
+  return window === 'all' ? '' : addDays(toDateString(now), -WINDOW_DAYS[window]);
+}
+
+/**
+ * Daily points of every provider and finish in an MTGJSON price history
+ */
+export function flattenPriceHistory(uuid: string, prices: MTGJSONCardPrices): PriceSeriesPoint[] {
+  const points: PriceSeriesPoint[] = [];
+
+  (Object.keys(PRICE_PROVIDERS) as PriceProvider[]).forEach(provider => {
+    const market = PRICE_PROVIDERS[provider].market;
+    const providerPrices = (prices[market] as Record<string, Partial<Record<PriceFinish, { date: string; price: number }[]>>> | undefined)?.[provider];
+
+    FINISHES.forEach(finish => {
+      providerPrices?.[finish]?.forEach(({ date, price }) => {
+        points.push({ uuid, provider, finish, date, price, resolution: 'day' });
+      });
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Average points of one series per week or month. Aggregates are weighted
+ * by the daily prices they cover, so re-aggregating them is safe.
+ */
+export function aggregatePoints(points: PriceSeriesPoint[], resolution: 'week' | 'month'): PriceSeriesPoint[] {
+  const periods = new Map<string, PriceSeriesPoint[]>();
+  points.forEach(point => {
+    const period = getPeriodStart(point.date, resolution);
+    periods.set(period, [...(periods.get(period) || []), point]);
+  });
+
+  return Array.from(periods.entries()).map(([date, members]) => {
+    const count = members.reduce((total, point) => total + (point.count || 1), 0);
+    const sum = members.reduce((total, point) => total + point.price * (point.count || 1), 0);
+
+    return {
+      uuid: members[0].uuid,
+      provider: members[0].provider,
+      finish: members[0].finish,
+      date,
+      price: Math.round((sum / count) * 100) / 100,
+      resolution,
+      low: Math.min(...members.map(point => point.low ?? point.price)),
+      high: Math.max(...members.map(point => point.high ?? point.price)),
+      count,
+    };
+  });
+}
+
+/**
+ * Apply a retention policy to one series: daily points past `dailyDays`
+ * become weekly averages, weekly ones past `weeklyDays` monthly averages,
+ * and points past `maxDays` are dropped. Only whole weeks and months are
+ * compacted.
+ */
+export function compactSeries(
+  points: PriceSeriesPoint[],
+  policy: PriceRetentionPolicy = DEFAULT_RETENTION_POLICY,
+  now: Date = new Date()
+): PriceSeriesPoint[] {
+  const today = toDateString(now);
+  const weeklyFrom = getPeriodStart(addDays(today, -policy.dailyDays), 'week');
+  const monthlyFrom = getPeriodStart(addDays(today, -policy.weeklyDays), 'month');
+  const keepFrom = policy.maxDays === null ? '' : addDays(today, -policy.maxDays);
+
+  const kept = points.filter(point => point.date >= keepFrom);
+  const byResolution = (resolution: PriceResolution) => kept.filter(point => point.resolution === resolution);
+
+  const daily = byResolution('day').filter(point => point.date >= weeklyFrom);
+  const weekly = aggregatePoints(
+    [...byResolution('week'), ...byResolution('day').filter(point => point.date < weeklyFrom)],
+    'week'
+  );
+  const monthly = aggregatePoints(
+    [...byResolution('month'), ...weekly.filter(point => point.date < monthlyFrom)],
+    'month'
+  );
+
+  return [...monthly, ...weekly.filter(point => point.date >= monthlyFrom), ...daily]
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Series points as the price points charts use
+ */
+export function toProcessedPrices(cardId: string, points: PriceSeriesPoint[]): ProcessedCardPrice[] {
+  return points.flatMap(point => {
+    const priceType = getProviderPriceTypes(point.provider)[point.finish];
+    return priceType ? [{
+      cardId,
+      date: point.date,
+      price: point.price,
+      priceType,
+      provider: point.provider,
+    }] : [];
+  });
+}
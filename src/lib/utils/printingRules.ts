@@ -0,0 +1,47 @@
+/**
+ * Printing Rules
+ * Import rows with only a name, or a name and set, could be any of several
+ * printings. The printing a user picks for such a row is saved as a rule
+ * and used for rows with the same name and set in later imports.
+ */
+
+import { PrintingRule } from '@/lib/types';
+import { CsvEntry } from './csvFormatDetector';
+
+/**
+ * Rows without a Scryfall ID or collector number don't identify a printing
+ */
+export function isAmbiguousEntry(entry: Pick<CsvEntry, 'scryfallId' | 'collectorNumber'>): boolean {
+  return !entry.scryfallId && !entry.collectorNumber;
+}
+
+export function findPrintingRule(
+  rules: PrintingRule[],
+  entry: Pick<CsvEntry, 'name' | 'set'>
+): PrintingRule | undefined {
+  const name = entry.name.toLowerCase().trim();
+  const set = entry.set?.toLowerCase().trim() || undefined;
+  return rules.find(rule => rule.name === name && rule.set === set);
+}
+
+/**
+ * Fill in the printing of ambiguous rows that have a rule
+ */
+export function applyPrintingRules<T extends CsvEntry>(entries: T[], rules: PrintingRule[]): T[] {
+  if (rules.length === 0) return entries;
+
+  return entries.map(entry => {
+    if (!isAmbiguousEntry(entry)) return entry;
+
+    // The file's set is kept, so the rule can still be found for the row
+    const rule = findPrintingRule(rules, entry);
+    return rule ? { ...entry, scryfallId: rule.scryfallId } : entry;
+  });
+}
+
+/**
+ * Small card image on the Scryfall CDN
+ */
+export function getPrintingImageUrl(scryfallId: string): string {
+  return `https://cards.scryfall.io/small/front/${scryfallId.charAt(0)}/${scryfallId.charAt(1)}/${scryfallId}.jpg`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Return Calculations
+ * Time-weighted and money-weighted (XIRR) returns from a series of
+ * valuations and external cash flows
+ */
+
+export interface CashFlow {
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export interface Valuation {
+  date: string; // YYYY-MM-DD, value at the end of the day
+  value: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const XIRR_TOLERANCE = 1e-7;
+const XIRR_MAX_ITERATIONS = 100;
+const XIRR_MAX_RATE = 1e12;
+
+/**
+ * Time-weighted return over a valuation series. `flows` are money moved
+ * into the portfolio (negative for money taken out) and are treated as
+ * happening at the end of their day, so each sub-period return is
+ * (value - flows) / previous value - 1. Sub-periods starting from an
+ * empty portfolio are skipped. Returns null without a measurable period.
+ */
+export function calculateTimeWeightedReturn(valuations: Valuation[], flows: CashFlow[]): number | null {
+  const sorted = [...valuations].sort((a, b) => a.date.localeCompare(b.date));
+  let growth = 1;
+  let periods = 0;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    if (previous.value <= 0) continue;
+
+    const flow = flows
+      .filter(f => f.date > previous.date && f.date <= current.date)
+      .reduce((sum, f) => sum + f.amount, 0);
+
+    growth *= (current.value - flow) / previous.value;
+    periods++;
+  }
+
+  return periods > 0 ? growth - 1 : null;
+}
+
+/**
+ * Net present value of cash flows at an annual rate
+ */
+function xnpv(rate: number, flows: CashFlow[], start: number): number {
+  return flows.reduce((sum, flow) => {
+    const years = (new Date(flow.date).getTime() - start) / DAY_MS / 365;
+    return sum + flow.amount / Math.pow(1 + rate, years);
+  }, 0);
+}
+
+function xnpvDerivative(rate: number, flows: CashFlow[], start: number): number {
+  return flows.reduce((sum, flow) => {
+    const years = (new Date(flow.date).getTime() - start) / DAY_MS / 365;
+    return sum - (years * flow.amount) / Math.pow(1 + rate, years + 1);
+  }, 0);
+}
+
+/**
+ * Annualized money-weighted return (XIRR). Flows are from the investor's
+ * side: money paid in is negative, money received (including the final
+ * value) is positive. Uses Newton's method, falling back to bisection.
+ * Returns null when the flows have no sign change or no solution.
+ */
+export function calculateXirr(flows: CashFlow[], guess: number = 0.1): number | null {
+  const nonZero = flows.filter(f => f.amount !== 0);
+  if (!nonZero.some(f => f.amount > 0) || !nonZero.some(f => f.amount < 0)) {
+    return null;
+  }
+
+  const start = Math.min(...nonZero.map(f => new Date(f.date).getTime()));
+
+  let rate = guess;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = xnpv(rate, nonZero, start);
+    const derivative = xnpvDerivative(rate, nonZero, start);
+    if (derivative === 0 || !isFinite(derivative)) break;
+
+    const next = rate - value / derivative;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) return next;
+    rate = next;
+  }
+
+  // Bisection from a near-total loss, widening the upper bound because
+  // short periods annualize to very large rates
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = xnpv(low, nonZero, start);
+  while (lowValue * xnpv(high, nonZero, start) > 0) {
+    if (high >= XIRR_MAX_RATE) return null;
+    high *= 10;
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = xnpv(mid, nonZero, start);
+    if (Math.abs(midValue) < XIRR_TOLERANCE || high - low < XIRR_TOLERANCE) return mid;
+
+    if (midValue * lowValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return null;
+}
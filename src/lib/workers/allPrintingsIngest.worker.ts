@@ -0,0 +1,43 @@
+/**
+ * AllPrintings ingestion worker
+ * Runs the download, parsing and IndexedDB writes off the main thread
+ */
+
+import {
+  ingestAllPrintings,
+  AllPrintingsWorkerMessage,
+  AllPrintingsWorkerRequest,
+} from '@/lib/utils/allPrintingsIngest';
+
+const worker = self as unknown as Worker;
+let controller: AbortController | null = null;
+
+const post = (message: AllPrintingsWorkerMessage) => worker.postMessage(message);
+
+worker.addEventListener('message', async (event: MessageEvent<AllPrintingsWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+
+  if (controller) return; // Already importing
+
+  controller = new AbortController();
+  try {
+    const result = await ingestAllPrintings(request.url, {
+      signal: controller.signal,
+      onProgress: progress => post({ type: 'progress', progress }),
+    });
+    post({ type: 'complete', ...result });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      post({ type: 'cancelled' });
+    } else {
+      post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  } finally {
+    controller = null;
+  }
+});
@@ -0,0 +1,7 @@
+/**
+ * Web Workers, created so the bundler emits each worker as its own chunk
+ */
+
+export function createAllPrintingsIngestWorker(): Worker {
+  return new Worker(new URL('./allPrintingsIngest.worker.ts', import.meta.url));
+}